@@ -0,0 +1,261 @@
+// Audit archive — rotation of the active audit log into gzip segments, the segment index, and
+// compaction of noisy events
+// Segments sit next to the log as <name>.<YYYY-MM>.jsonl.gz (a second one for the same month gets
+// .2, .3, …). <name>.index.json records which time range and seq range each segment covers, so
+// readers can skip segments outside a query and the chain carries on across files.
+// Compaction drops repeated no-change events (runtime overdue flags) from archived segments. The
+// links of dropped events are kept in the index with the key they repeated and the seq of the kept
+// event, so the chain still verifies end to end and only a genuine repeat can be accounted for.
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createGzip, createGunzip } from 'zlib';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AuditEvent, AuditRotationPolicy } from './auditTypes.js';
+
+export interface CompactedLink {
+  seq: number;
+  prev_hash: string;
+  hash: string;
+  key: string;      // noiseKey of the dropped event
+  kept_seq: number; // the earlier, kept event with the same key
+}
+
+export interface AuditArchiveEntry {
+  file: string;     // name relative to the log's directory
+  from: string;     // `at` of the first event
+  to: string;       // `at` of the last event
+  events: number;
+  first_seq: number | null; // null when the segment predates the hash chain
+  last_seq: number | null;
+  last_hash: string;        // where the next segment's chain links on
+  compacted?: { at: string; removed: number; links: CompactedLink[] };
+}
+
+export interface AuditArchiveIndex {
+  version: number;
+  files: AuditArchiveEntry[]; // oldest first; the active log always comes after them
+}
+
+export interface AuditSegment {
+  path: string;
+  gzip: boolean;
+  entry: AuditArchiveEntry | null; // null for the active log
+}
+
+function baseName(filePath: string): string {
+  return path.basename(filePath).replace(/\.jsonl$/, '');
+}
+
+export function indexPath(filePath: string): string {
+  return path.join(path.dirname(filePath), `${baseName(filePath)}.index.json`);
+}
+
+export async function loadArchiveIndex(filePath: string): Promise<AuditArchiveIndex> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(indexPath(filePath), 'utf8'));
+    return { version: typeof parsed.version === 'number' ? parsed.version : 1, files: Array.isArray(parsed.files) ? parsed.files : [] };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, files: [] };
+    throw new Error(`Failed to load audit index: ${(err as Error).message}`);
+  }
+}
+
+async function saveArchiveIndex(filePath: string, index: AuditArchiveIndex): Promise<void> {
+  const file = indexPath(filePath);
+  const tmp = file + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, JSON.stringify(index, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+// Archived segments oldest first, then the active log.
+export async function auditSegments(filePath: string): Promise<AuditSegment[]> {
+  const dir = path.dirname(filePath);
+  const index = await loadArchiveIndex(filePath);
+  return [
+    ...index.files.map(entry => ({ path: path.join(dir, entry.file), gzip: true, entry })),
+    { path: filePath, gzip: false, entry: null },
+  ];
+}
+
+// Raw lines of one segment; a missing file yields nothing.
+export async function* segmentLines(seg: Pick<AuditSegment, 'path' | 'gzip'>): AsyncGenerator<string> {
+  const input = createReadStream(seg.path);
+  const source: Readable = seg.gzip ? input.pipe(createGunzip()) : input;
+  if (seg.gzip) input.on('error', err => source.destroy(err));
+  const lines = readline.createInterface({ input: source, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) yield line;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+// The lines before the chain started, hashed the same way where the first link is made (readChainTip,
+// rotateAuditLog) and where it is checked (verifyAuditLog): each non-blank line, without its LF or CRLF
+// ending, plus '\n'. Blank lines and line endings are not covered.
+export interface LegacyPrefix {
+  add(line: string): void;
+  readonly lines: number;
+  digest(): string;
+}
+
+export function legacyPrefix(): LegacyPrefix {
+  const hash = createHash('sha256');
+  let lines = 0;
+  let digest: string | null = null;
+  return {
+    add(line) {
+      if (!line.trim()) return;
+      hash.update(line + '\n');
+      lines++;
+    },
+    get lines() { return lines; },
+    digest() { return digest ??= hash.digest('hex'); },
+  };
+}
+
+// The prefix of a log that has not started its chain yet, across the archived segments and the active log.
+export async function legacyPrefixHash(filePath: string): Promise<string> {
+  const prefix = legacyPrefix();
+  for (const seg of await auditSegments(filePath)) {
+    for await (const line of segmentLines(seg)) prefix.add(line);
+  }
+  return prefix.digest();
+}
+
+// Written to a temp file first; `keep` decides afterwards whether it replaces the target.
+async function writeGzip(lines: AsyncIterable<string>, target: string, keep: () => boolean = () => true): Promise<void> {
+  const tmp = target + '.' + Date.now() + '.tmp';
+  async function* withNewlines() { for await (const l of lines) yield l + '\n'; }
+  await pipeline(Readable.from(withNewlines()), createGzip(), createWriteStream(tmp));
+  if (keep()) await fs.rename(tmp, target);
+  else await fs.unlink(tmp);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rotation
+// ─────────────────────────────────────────────────────────────
+export interface ActiveLogState {
+  bytes: number;
+  first_at: string | null;
+}
+
+export async function activeLogState(filePath: string): Promise<ActiveLogState> {
+  let bytes = 0;
+  try {
+    bytes = (await fs.stat(filePath)).size;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+  let first_at: string | null = null;
+  if (bytes) {
+    for await (const line of segmentLines({ path: filePath, gzip: false })) {
+      if (!line.trim()) continue;
+      try { first_at = (JSON.parse(line) as AuditEvent).at; } catch { /* torn line; no month */ }
+      break;
+    }
+  }
+  return { bytes, first_at };
+}
+
+export function shouldRotate(policy: AuditRotationPolicy, state: ActiveLogState, nextAt: string, nextBytes: number): boolean {
+  if (!state.bytes) return false;
+  if (policy.maxBytes && state.bytes + nextBytes > policy.maxBytes) return true;
+  return !!(policy.monthly && state.first_at && nextAt.slice(0, 7) > state.first_at.slice(0, 7));
+}
+
+// Moves the active log into a new gzip segment and starts an empty one. Returns null when the active
+// log is empty. Only the logger's queue (or a CLI run with no logger writing) should call this.
+export async function rotateAuditLog(filePath: string): Promise<AuditArchiveEntry | null> {
+  let first: AuditEvent | null = null;
+  let last: AuditEvent | null = null;
+  let first_seq: number | null = null;
+  let events = 0;
+  for await (const line of segmentLines({ path: filePath, gzip: false })) {
+    if (!line.trim()) continue;
+    const ev = JSON.parse(line) as AuditEvent;
+    first = first ?? ev;
+    if (first_seq === null && ev.hash) first_seq = ev.seq ?? null;
+    last = ev;
+    events++;
+  }
+  if (!first || !last) return null;
+
+  const index = await loadArchiveIndex(filePath);
+  const month = first.at.slice(0, 7);
+  let file = `${baseName(filePath)}.${month}.jsonl.gz`;
+  for (let n = 2; index.files.some(f => f.file === file); n++) file = `${baseName(filePath)}.${month}.${n}.jsonl.gz`;
+
+  const entry: AuditArchiveEntry = {
+    file,
+    from: first.at,
+    to: last.at,
+    events,
+    first_seq,
+    last_seq: last.seq ?? null,
+    // An unchained (older) log is linked to by its legacy prefix, as in readChainTip
+    last_hash: last.hash ?? await legacyPrefixHash(filePath),
+  };
+  await writeGzip(segmentLines({ path: filePath, gzip: false }), path.join(path.dirname(filePath), file));
+  index.files.push(entry);
+  await saveArchiveIndex(filePath, index);
+  await fs.unlink(filePath);
+  return entry;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Compaction
+// ─────────────────────────────────────────────────────────────
+// A no-change event (no `before`) repeating one already kept for the same record and detail, e.g.
+// the runtime's "Overdue detected" flag logged again on every start.
+export function noiseKey(ev: AuditEvent): string | null {
+  if (ev.before !== undefined || !ev.detail || !ev.hash) return null;
+  if (ev.change_type !== 'Update' && ev.change_type !== 'StatusChange') return null;
+  return `${ev.entity_type}|${ev.entity_id}|${ev.detail}`;
+}
+
+export interface CompactionResult {
+  file: string;
+  removed: number;
+  kept: number;
+}
+
+export async function compactAuditArchive(filePath: string, clock: () => string): Promise<CompactionResult[]> {
+  const index = await loadArchiveIndex(filePath);
+  const dir = path.dirname(filePath);
+  const seenKeys = new Map<string, number>(); // key → seq kept; across segments, so a flag repeated next month is dropped too
+  const results: CompactionResult[] = [];
+  for (const entry of index.files) {
+    const source = { path: path.join(dir, entry.file), gzip: true };
+    const links: CompactedLink[] = [];
+    let kept = 0;
+    async function* filtered() {
+      for await (const line of segmentLines(source)) {
+        if (!line.trim()) continue;
+        const ev = JSON.parse(line) as AuditEvent;
+        const key = noiseKey(ev);
+        if (key && seenKeys.has(key)) { links.push({ seq: ev.seq!, prev_hash: ev.prev_hash!, hash: ev.hash!, key, kept_seq: seenKeys.get(key)! }); continue; }
+        if (key) seenKeys.set(key, ev.seq!);
+        kept++;
+        yield line;
+      }
+    }
+    await writeGzip(filtered(), source.path, () => links.length > 0);
+    if (!links.length) continue;
+    entry.events = kept;
+    entry.compacted = {
+      at: clock(),
+      removed: (entry.compacted?.removed ?? 0) + links.length,
+      links: [...(entry.compacted?.links ?? []), ...links].sort((a, b) => a.seq - b.seq),
+    };
+    results.push({ file: entry.file, removed: links.length, kept });
+  }
+  if (results.length) await saveArchiveIndex(filePath, index);
+  return results;
+}
@@ -0,0 +1,196 @@
+// Audit chain — hash links between audit events and verification of the whole log
+// Each event carries seq, prev_hash and hash = SHA-256 of its JSON without `hash`. The first chained
+// event links to GENESIS_HASH, or, in a log that predates the chain, to the SHA-256 of the older lines
+// (legacyPrefix in auditArchive.ts) so they are covered too. Editing, reordering or deleting a line
+// breaks the link after it.
+// The chain runs through the archived segments (auditArchive.ts) into the active log.
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AuditEvent, AuditCheckpoint } from './auditTypes.js';
+import { sha256Buffer } from './contentHash.js';
+import { readCheckpoints, verifyCheckpointSignature, keyIdOf } from './auditSigning.js';
+import { auditSegments, loadArchiveIndex, noiseKey, legacyPrefix, legacyPrefixHash, segmentLines, CompactedLink } from './auditArchive.js';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export function eventHash(ev: Omit<AuditEvent, 'hash'>): string {
+  return sha256Buffer(JSON.stringify(ev));
+}
+
+// Reads backwards from the end so a large log is not loaded to find its last line.
+async function readLastLine(filePath: string): Promise<string | null> {
+  let fh: fs.FileHandle;
+  try {
+    fh = await fs.open(filePath, 'r');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+  try {
+    const { size } = await fh.stat();
+    let tail = '';
+    for (let end = size; end > 0;) {
+      const start = Math.max(0, end - 65536);
+      const buf = Buffer.alloc(end - start);
+      await fh.read(buf, 0, buf.length, start);
+      tail = buf.toString('utf8') + tail;
+      end = start;
+      const trimmed = tail.replace(/\n+$/, '');
+      const nl = trimmed.lastIndexOf('\n');
+      if (nl !== -1 || end === 0) return trimmed.slice(nl + 1) || null;
+    }
+    return null;
+  } finally {
+    await fh.close();
+  }
+}
+
+export interface ChainTip { seq: number; hash: string; }
+
+// Where the next event links on: the last chained event (in the newest segment when the active log is
+// empty), or the start of a new chain.
+export async function readChainTip(filePath: string): Promise<ChainTip> {
+  const last = await readLastLine(filePath);
+  if (last === null) {
+    const archived = (await loadArchiveIndex(filePath)).files.at(-1);
+    return archived ? { seq: archived.last_seq ?? 0, hash: archived.last_hash } : { seq: 0, hash: GENESIS_HASH };
+  }
+  let ev: AuditEvent;
+  try {
+    ev = JSON.parse(last);
+  } catch {
+    throw new Error(`Audit log ${filePath} ends with an incomplete line; repair it (see audit:verify) before writing`);
+  }
+  if (ev.hash && typeof ev.seq === 'number') return { seq: ev.seq, hash: ev.hash };
+  return { seq: 0, hash: await legacyPrefixHash(filePath) };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Verification
+// ─────────────────────────────────────────────────────────────
+export interface ChainBreak {
+  file: string; // segment name
+  line: number;
+  seq?: number;
+  reason: string;
+}
+
+export interface AuditVerifyResult {
+  ok: boolean;
+  events: number;         // lines read
+  chained: number;        // events carrying a hash
+  compacted: number;      // events removed by compaction whose links were checked from the index
+  unchained_prefix: number; // older lines before the chain started, covered by the first link
+  last_seq: number;
+  last_hash: string;
+  first_break: ChainBreak | null;
+  checkpoints: { total: number; verified: number; failures: { seq: number; reason: string }[] };
+}
+
+export interface AuditVerifyOptions {
+  checkpointsPath?: string;
+  publicKeyPem?: string; // required to check checkpoint signatures
+}
+
+// Stops at the first broken link; checkpoints are checked against the hashes seen up to it.
+export async function verifyAuditLog(filePath: string, opts: AuditVerifyOptions = {}): Promise<AuditVerifyResult> {
+  const checkpoints: AuditCheckpoint[] = opts.checkpointsPath ? await readCheckpoints(opts.checkpointsPath) : [];
+  const wanted = new Set(checkpoints.map(c => c.seq));
+  const seen = new Map<number, string>();
+
+  const prefix = legacyPrefix();
+  let chained = 0;
+  let events = 0;
+  let expectSeq = 1;
+  let prevHash: string | null = null;
+  let first_break: ChainBreak | null = null;
+  let compacted = 0;
+  const links = new Map<number, { link: CompactedLink; file: string }>();
+  const keptKeys = new Map<number, string>(); // seq → noiseKey of verified events a dropped one may repeat
+  let linkProblem = '';
+  // A dropped event counts only if it links on and repeats an earlier event that did verify
+  const takeLink = (seq: number): boolean => {
+    const link = links.get(seq)?.link;
+    if (!link) return false;
+    if (link.prev_hash !== prevHash) { linkProblem = 'its prev_hash does not match the previous event'; return false; }
+    if (typeof link.key !== 'string' || keptKeys.get(link.kept_seq) !== link.key) {
+      linkProblem = `it does not repeat a kept event (seq ${link.kept_seq})`;
+      return false;
+    }
+    if (wanted.has(seq)) seen.set(seq, link.hash);
+    prevHash = link.hash;
+    expectSeq++;
+    compacted++;
+    return true;
+  };
+
+  segments: for (const seg of await auditSegments(filePath)) {
+    const file = path.basename(seg.path);
+    for (const link of seg.entry?.compacted?.links ?? []) links.set(link.seq, { link, file });
+    let pendingBad = 0; // a bad line only breaks the chain if another line follows; last, it is a torn append
+    let n = 0;
+    for await (const line of segmentLines(seg)) {
+      n++;
+      if (!line.trim()) continue;
+      if (pendingBad) { first_break = { file, line: pendingBad, reason: 'not valid JSON' }; break segments; }
+      let ev: AuditEvent;
+      try { ev = JSON.parse(line); } catch { pendingBad = n; continue; }
+      events++;
+      if (!ev.hash) {
+        if (prevHash !== null) { first_break = { file, line: n, reason: 'event has no hash inside the chain' }; break segments; }
+        prefix.add(line);
+        continue;
+      }
+      if (prevHash === null) prevHash = prefix.lines ? prefix.digest() : GENESIS_HASH;
+      while (ev.seq! > expectSeq && takeLink(expectSeq));
+      const { hash, ...rest } = ev;
+      if (ev.seq !== expectSeq) {
+        const reason = linkProblem ? `compacted event ${expectSeq} does not check out: ${linkProblem}` : `expected seq ${expectSeq}`;
+        first_break = { file, line: n, seq: ev.seq, reason };
+        break segments;
+      }
+      if (ev.prev_hash !== prevHash) { first_break = { file, line: n, seq: ev.seq, reason: 'prev_hash does not match the previous event (a line was removed, inserted or reordered)' }; break segments; }
+      if (eventHash(rest) !== hash) { first_break = { file, line: n, seq: ev.seq, reason: 'hash does not match the event (its contents were changed)' }; break segments; }
+      if (wanted.has(ev.seq)) seen.set(ev.seq, hash);
+      const key = noiseKey(ev);
+      if (key) keptKeys.set(ev.seq!, key);
+      prevHash = hash;
+      expectSeq++;
+      chained++;
+    }
+  }
+  // Events compacted away at the very end of the chain
+  if (!first_break && prevHash !== null) {
+    while (takeLink(expectSeq));
+    const left = links.get(expectSeq);
+    if (left) first_break = { file: left.file, line: 0, seq: expectSeq, reason: `compacted event ${expectSeq} does not check out: ${linkProblem}` };
+  }
+
+  const key_id = opts.publicKeyPem ? keyIdOf(opts.publicKeyPem) : null;
+  const failures: { seq: number; reason: string }[] = [];
+  let verified = 0;
+  for (const cp of checkpoints) {
+    if (!key_id) { failures.push({ seq: cp.seq, reason: 'no public key to check the signature' }); continue; }
+    if (cp.key_id !== key_id) { failures.push({ seq: cp.seq, reason: `signed by key ${cp.key_id}, not ${key_id}` }); continue; }
+    if (!verifyCheckpointSignature(opts.publicKeyPem!, cp)) { failures.push({ seq: cp.seq, reason: 'bad signature' }); continue; }
+    const logged = seen.get(cp.seq);
+    if (logged === undefined) {
+      failures.push({ seq: cp.seq, reason: first_break ? 'after the first broken link' : 'event missing (log truncated)' });
+      continue;
+    }
+    if (logged !== cp.hash) { failures.push({ seq: cp.seq, reason: 'hash differs from the signed checkpoint' }); continue; }
+    verified++;
+  }
+
+  return {
+    ok: !first_break && !failures.length,
+    events,
+    chained,
+    compacted,
+    unchained_prefix: prefix.lines,
+    last_seq: expectSeq - 1,
+    last_hash: prevHash ?? (prefix.lines ? prefix.digest() : GENESIS_HASH),
+    first_break,
+    checkpoints: { total: checkpoints.length, verified, failures },
+  };
+}
@@ -1,15 +1,71 @@
-// Audit logger implementation — appends JSON lines to file.
+// Audit logger implementation — appends hash-chained JSON lines to file.
+// Writes go through one queue so the chain order is the file order. With checkpoints configured, every
+// `every` events the chain tip is signed with the local Ed25519 key (see auditSigning.ts). With rotation
+// configured, the active log is archived into a gzip segment before an event that would overflow it.
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { AuditEvent, AuditLoggerConfig } from './auditTypes';
+import { AuditEvent, AuditLoggerConfig, AuditCheckpoint } from './auditTypes';
+import { ChainTip, eventHash, readChainTip } from './auditChain.js';
+import { SigningKey, loadOrCreateSigningKey, signCheckpoint, appendCheckpoint } from './auditSigning.js';
+import { ActiveLogState, AuditArchiveEntry, activeLogState, shouldRotate, rotateAuditLog } from './auditArchive.js';
 
-async function ensureDir(p: string) { await fs.mkdir(p, { recursive: true }); }
+export type AuditLogInput = Omit<AuditEvent, 'id' | 'at'> & { id?: string; at?: string };
 
-export function createAuditLogger(cfg: AuditLoggerConfig) {
+export interface AuditLogger {
+  (event: AuditLogInput): Promise<void>;
+  flush(): Promise<void>;                       // resolves once every queued event is on disk
+  checkpoint(): Promise<AuditCheckpoint | null>; // signs the current tip now; null for an empty chain
+  rotate(): Promise<AuditArchiveEntry | null>;   // archives the active log now; null when it is empty
+}
+
+// An older or hand-edited log may not end in a newline; the next event must not join its last line.
+async function endsWithoutNewline(filePath: string): Promise<boolean> {
+  let fh: fs.FileHandle;
+  try {
+    fh = await fs.open(filePath, 'r');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw err;
+  }
+  try {
+    const { size } = await fh.stat();
+    if (size === 0) return false;
+    const last = Buffer.alloc(1);
+    await fh.read(last, 0, 1, size - 1);
+    return last[0] !== 0x0a;
+  } finally {
+    await fh.close();
+  }
+}
+
+export function createAuditLogger(cfg: AuditLoggerConfig): AuditLogger {
   const dir = path.dirname(cfg.filePath);
-  return async function log(event: Omit<AuditEvent,'id'|'at'> & { id?: string; at?: string }) {
-    await ensureDir(dir);
-    const full: AuditEvent = {
+  let queue: Promise<unknown> = Promise.resolve();
+  let tip: ChainTip | null = null; // read from the file on first write
+  let key: SigningKey | null = null;
+  let dirReady = false;
+  let active: ActiveLogState | null = null; // size and first month of the active log, read on first write
+  let endChecked = false;
+
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined); // one failed write must not wedge the ones after it
+    return run;
+  }
+
+  async function writeCheckpoint(): Promise<AuditCheckpoint | null> {
+    if (!cfg.checkpoints) throw new Error('Audit checkpoints are not configured');
+    tip = tip ?? await readChainTip(cfg.filePath);
+    if (tip.seq === 0) return null;
+    key = key ?? await loadOrCreateSigningKey(cfg.checkpoints.keyDir);
+    const cp = signCheckpoint(key, tip.seq, tip.hash, cfg.clock());
+    await appendCheckpoint(cfg.checkpoints.filePath, cp);
+    return cp;
+  }
+
+  const log = function log(event: AuditLogInput) {
+    // Serialize before queueing: callers keep mutating the objects they pass as before/after
+    const body = JSON.stringify({
       id: (event.id as any) || cfg.idGen(),
       at: (event.at as any) || cfg.clock(),
       entity_type: event.entity_type,
@@ -19,8 +75,44 @@ export function createAuditLogger(cfg: AuditLoggerConfig) {
       before: event.before,
       after: event.after,
       detail: event.detail,
-    };
-    const line = JSON.stringify(full);
-    await fs.appendFile(cfg.filePath, line + '\n', 'utf8');
-  };
+      actor: event.actor,
+      op_id: event.op_id || cfg.op_id,
+      reverts: event.reverts,
+    });
+    return enqueue(async () => {
+      if (!dirReady) {
+        await fs.mkdir(dir, { recursive: true });
+        dirReady = true;
+      }
+      tip = tip ?? await readChainTip(cfg.filePath);
+      const unsigned: AuditEvent = { ...JSON.parse(body), seq: tip.seq + 1, prev_hash: tip.hash };
+      const full: AuditEvent = { ...unsigned, hash: eventHash(unsigned) };
+      const line = JSON.stringify(full) + '\n';
+      if (cfg.rotation) {
+        active = active ?? await activeLogState(cfg.filePath);
+        const bytes = Buffer.byteLength(line);
+        if (shouldRotate(cfg.rotation, active, full.at, bytes)) {
+          await rotateAuditLog(cfg.filePath);
+          active = { bytes: 0, first_at: null };
+        }
+        active.bytes += bytes;
+        active.first_at = active.first_at ?? full.at;
+      }
+      if (!endChecked) {
+        if (await endsWithoutNewline(cfg.filePath)) await fs.appendFile(cfg.filePath, '\n', 'utf8');
+        endChecked = true;
+      }
+      await fs.appendFile(cfg.filePath, line, 'utf8');
+      tip = { seq: full.seq!, hash: full.hash! };
+      if (cfg.checkpoints && tip.seq % cfg.checkpoints.every === 0) await writeCheckpoint();
+    });
+  } as AuditLogger;
+  log.flush = () => enqueue(async () => undefined);
+  log.checkpoint = () => enqueue(writeCheckpoint);
+  log.rotate = () => enqueue(async () => {
+    const entry = await rotateAuditLog(cfg.filePath);
+    active = { bytes: 0, first_at: null };
+    return entry;
+  });
+  return log;
 }
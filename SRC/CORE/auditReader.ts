@@ -0,0 +1,65 @@
+// Audit reader — loads JSONL audit events written by createAuditLogger.
+// The file is streamed line by line, so filtering a large log never holds more than the matches.
+// Rotated segments are read first, oldest to newest; the index lets a time filter skip whole files.
+import * as path from 'path';
+import { AuditEvent, AuditEntityType, AuditChangeType } from './auditTypes.js';
+import { AuditArchiveEntry, auditSegments, segmentLines } from './auditArchive.js';
+
+export interface AuditReadFilter {
+  date?: string;        // YYYY-MM-DD; matches the UTC date of `at`
+  entity_type?: AuditEntityType[];
+  change_type?: AuditChangeType[];
+  entity_id?: string;
+  project_id?: string;
+  from?: string;        // inclusive; an ISO date or datetime
+  to?: string;          // inclusive; a bare date covers the whole day
+}
+
+function matches(ev: AuditEvent, filter: AuditReadFilter): boolean {
+  if (filter.date && !ev.at.startsWith(filter.date)) return false;
+  if (filter.entity_type && !filter.entity_type.includes(ev.entity_type)) return false;
+  if (filter.change_type && !filter.change_type.includes(ev.change_type)) return false;
+  if (filter.entity_id && ev.entity_id !== filter.entity_id) return false;
+  if (filter.project_id && ev.project_id !== filter.project_id && !(ev.entity_type === 'Project' && ev.entity_id === filter.project_id)) return false;
+  if (filter.from && ev.at < filter.from) return false;
+  if (filter.to && ev.at > filter.to && !ev.at.startsWith(filter.to)) return false;
+  return true;
+}
+
+// Whether an archived segment can hold events inside the filter's time range.
+function overlaps(entry: AuditArchiveEntry, filter: AuditReadFilter): boolean {
+  if (filter.date && (entry.to.slice(0, 10) < filter.date || entry.from.slice(0, 10) > filter.date)) return false;
+  if (filter.from && entry.to < filter.from) return false;
+  if (filter.to && entry.from > filter.to && !entry.from.startsWith(filter.to)) return false;
+  return true;
+}
+
+// A missing log reads as empty. A torn final line (crash mid-append) is ignored; a bad line
+// anywhere else means the log was edited or corrupted and is reported.
+export async function* streamAuditLog(filePath: string, filter: AuditReadFilter = {}): AsyncGenerator<AuditEvent> {
+  for (const seg of await auditSegments(filePath)) {
+    if (seg.entry && !overlaps(seg.entry, filter)) continue;
+    const name = seg.entry ? path.join(path.dirname(filePath), seg.entry.file) : filePath;
+    let badLine = 0; // held until we know whether another line follows it
+    let n = 0;
+    for await (const line of segmentLines(seg)) {
+      n++;
+      if (!line.trim()) continue;
+      if (badLine) throw new Error(`Audit log ${name} line ${badLine} is not valid JSON`);
+      let ev: AuditEvent;
+      try {
+        ev = JSON.parse(line);
+      } catch {
+        badLine = n;
+        continue;
+      }
+      if (matches(ev, filter)) yield ev;
+    }
+  }
+}
+
+export async function readAuditLog(filePath: string, filter: AuditReadFilter = {}): Promise<AuditEvent[]> {
+  const events: AuditEvent[] = [];
+  for await (const ev of streamAuditLog(filePath, filter)) events.push(ev);
+  return events;
+}
@@ -0,0 +1,85 @@
+// Audit report — field-level diffs and per-day activity over the audit log
+import { AuditEvent } from './auditTypes.js';
+import { AuditReadFilter, streamAuditLog } from './auditReader.js';
+
+// ─────────────────────────────────────────────────────────────
+// Field diff
+// ─────────────────────────────────────────────────────────────
+export interface FieldChange {
+  field: string;   // dotted path, e.g. checklist[0].checked
+  before: unknown; // undefined when the field was added
+  after: unknown;  // undefined when the field was removed
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// Objects and arrays of objects are walked; scalars and arrays of scalars (tags, depends_on) are
+// compared as whole values.
+export function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+  // A record that appears or disappears is listed field by field
+  if (before === undefined && isPlainObject(after)) before = {};
+  if (after === undefined && isPlainObject(before)) after = {};
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(k => diffFields(before[k], after[k], path ? `${path}.${k}` : k));
+  }
+  if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].some(isPlainObject)) {
+    const len = Math.max(before.length, after.length);
+    return Array.from({ length: len }, (_, i) => diffFields(before[i], after[i], `${path}[${i}]`)).flat();
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ field: path || '(value)', before, after }];
+}
+
+// Create events diff against nothing and Delete events against nothing after.
+export function diffAuditEvent(ev: AuditEvent): FieldChange[] {
+  return diffFields(ev.before, ev.after);
+}
+
+function show(v: unknown): string {
+  return v === undefined ? '(none)' : JSON.stringify(v);
+}
+
+export function renderFieldChange(c: FieldChange): string {
+  return `${c.field}: ${show(c.before)} → ${show(c.after)}`;
+}
+
+// One line per event, e.g. "2025-11-14T09:00:01.000Z  Update  PlanItem 3e0c…  Prerequisite removed by delete"
+export function formatAuditEvent(ev: AuditEvent, withDiff = false): string {
+  const head = [ev.at, ev.change_type.padEnd(15), `${ev.entity_type} ${ev.entity_id}`, ev.detail ?? ''].join('  ').trimEnd();
+  if (!withDiff) return head;
+  return [head, ...diffAuditEvent(ev).map(c => '    ' + renderFieldChange(c))].join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Daily activity
+// ─────────────────────────────────────────────────────────────
+export interface DailyActivity {
+  date: string; // UTC date of the events
+  total: number;
+  by_change_type: Record<string, number>;
+  by_entity_type: Record<string, number>;
+  operations: number; // distinct commands (op_id); events without one count individually
+}
+
+// Days with no events are left out; sorted by date.
+export async function dailyActivity(filePath: string, filter: AuditReadFilter = {}): Promise<DailyActivity[]> {
+  const days = new Map<string, DailyActivity & { ops: Set<string> }>();
+  for await (const ev of streamAuditLog(filePath, filter)) {
+    const date = ev.at.slice(0, 10);
+    let day = days.get(date);
+    if (!day) {
+      day = { date, total: 0, by_change_type: {}, by_entity_type: {}, operations: 0, ops: new Set() };
+      days.set(date, day);
+    }
+    day.total++;
+    day.by_change_type[ev.change_type] = (day.by_change_type[ev.change_type] ?? 0) + 1;
+    day.by_entity_type[ev.entity_type] = (day.by_entity_type[ev.entity_type] ?? 0) + 1;
+    day.ops.add(ev.op_id ?? ev.id);
+  }
+  return [...days.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ ops, ...day }) => ({ ...day, operations: ops.size }));
+}
@@ -0,0 +1,90 @@
+// Audit signing — local Ed25519 key and signed checkpoints over the audit hash chain
+// The private key never leaves DATA/keys; the public key can be exported so a third party can check
+// checkpoints without access to this machine.
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { generateKeyPairSync, createPrivateKey, createPublicKey, sign, verify, KeyObject } from 'crypto';
+import { sha256Buffer } from './contentHash.js';
+import { AuditCheckpoint } from './auditTypes.js';
+
+const DEFAULT_KEY_DIR = path.join(process.cwd(), 'DATA', 'keys');
+const PRIVATE_FILE = 'audit-signing.key';
+const PUBLIC_FILE = 'audit-signing.pub';
+
+export interface SigningKey {
+  privateKey: KeyObject;
+  publicKeyPem: string;
+  key_id: string; // first 16 hex chars of the SHA-256 of the public key (DER)
+}
+
+export function keyIdOf(publicKeyPem: string): string {
+  const der = createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return sha256Buffer(der).slice(0, 16);
+}
+
+// Generates a key pair on first use. The private key file is readable by the owner only.
+export async function loadOrCreateSigningKey(dir: string = DEFAULT_KEY_DIR): Promise<SigningKey> {
+  const privFile = path.join(dir, PRIVATE_FILE);
+  let privatePem: string;
+  try {
+    privatePem = await fs.readFile(privFile, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    const pair = generateKeyPairSync('ed25519');
+    privatePem = pair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(privFile, privatePem, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+    await fs.writeFile(path.join(dir, PUBLIC_FILE), pair.publicKey.export({ type: 'spki', format: 'pem' }).toString(), 'utf8');
+  }
+  const privateKey = createPrivateKey(privatePem);
+  const publicKeyPem = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  return { privateKey, publicKeyPem, key_id: keyIdOf(publicKeyPem) };
+}
+
+// The local public key, or null before the first checkpoint has created one.
+export async function readPublicKey(dir: string = DEFAULT_KEY_DIR): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(dir, PUBLIC_FILE), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Checkpoints
+// ─────────────────────────────────────────────────────────────
+function checkpointPayload(cp: Pick<AuditCheckpoint, 'seq' | 'hash' | 'at'>): Buffer {
+  return Buffer.from(`spark-audit-checkpoint\n${cp.seq}\n${cp.hash}\n${cp.at}`, 'utf8');
+}
+
+export function signCheckpoint(key: SigningKey, seq: number, hash: string, at: string): AuditCheckpoint {
+  const signature = sign(null, checkpointPayload({ seq, hash, at }), key.privateKey).toString('base64');
+  return { seq, hash, at, key_id: key.key_id, signature };
+}
+
+export function verifyCheckpointSignature(publicKeyPem: string, cp: AuditCheckpoint): boolean {
+  try {
+    return verify(null, checkpointPayload(cp), createPublicKey(publicKeyPem), Buffer.from(cp.signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+export async function appendCheckpoint(filePath: string, cp: AuditCheckpoint): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(cp) + '\n', 'utf8');
+}
+
+export async function readCheckpoints(filePath: string): Promise<AuditCheckpoint[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  return raw.split('\n').filter(l => l.trim()).map((l, i) => {
+    try { return JSON.parse(l) as AuditCheckpoint; } catch { throw new Error(`Checkpoint file ${filePath} line ${i + 1} is not valid JSON`); }
+  });
+}
@@ -10,9 +10,22 @@ export type AuditEntityType =
   | 'Contact'
   | 'OutreachAction'
   | 'FollowUpItem'
-  | 'OutcomeRecord';
+  | 'OutcomeRecord'
+  | 'Document'
+  | 'DocumentFingerprint' // keyed by document_id
+  | 'MisconductFlag'
+  | 'DuplicateLink'
+  | 'TimelineEvent'
+  | 'Artifact'
+  | 'ArtifactVersion'
+  | 'Rule'
+  | 'Conversation'
+  | 'ConversationHighlight'
+  | 'ResearchInsight'
+  | 'DailyLog'
+  | 'Deadline';
 
-export type AuditChangeType = 'Create' | 'Update' | 'Delete' | 'TemplateLoad' | 'ChecklistToggle';
+export type AuditChangeType = 'Create' | 'Update' | 'Delete' | 'TemplateLoad' | 'ChecklistToggle' | 'StatusChange' | 'Reschedule';
 
 export interface AuditEvent {
   id: UUID;
@@ -24,10 +37,38 @@ export interface AuditEvent {
   before?: unknown;
   after?: unknown;
   detail?: string; // optional free-form note
+  actor?: string; // who performed the change, when known (e.g. artifact promotion)
+  op_id?: UUID; // shared by every event one command wrote; undo reverses whole operations
+  reverts?: UUID; // op_id of the operation these events reverse (undo / redo)
+  // Hash chain, filled in by the logger: hash = SHA-256 of the event's JSON without `hash`
+  seq?: number;
+  prev_hash?: string;
+  hash?: string;
+}
+
+// Signed statement that the chain had reached `hash` at event `seq`; kept in a separate JSONL file.
+export interface AuditCheckpoint {
+  seq: number;
+  hash: string;
+  at: ISODateTimeString;
+  key_id: string;
+  signature: string; // Ed25519, base64
 }
 
 export interface AuditLoggerConfig {
   filePath: string; // JSONL file
   clock: () => ISODateTimeString;
   idGen: () => UUID;
+  op_id?: UUID; // stamped on events that carry none, e.g. one per CLI invocation
+  checkpoints?: {
+    filePath: string; // JSONL of AuditCheckpoint
+    every: number;    // sign after every N events
+    keyDir?: string;  // defaults to DATA/keys
+  };
+  rotation?: AuditRotationPolicy; // archives the active log into gzip segments (see auditArchive.ts)
+}
+
+export interface AuditRotationPolicy {
+  maxBytes?: number; // rotate before the active log would grow past this
+  monthly?: boolean; // rotate when an event falls in a later month than the log's first event
 }
@@ -0,0 +1,292 @@
+// Audit Undo — undo, redo and point-in-time restore for Master Plan & Outreach, driven by the audit log
+// An operation is every event one command wrote (same op_id; older events without one stand alone).
+// Reversing an operation puts back each event's `before` state, newest event first, and is logged as a
+// new operation whose `reverts` names the one it reversed — so undo and redo are audited and can
+// themselves be undone. If an entity no longer matches what the log says the operation left behind,
+// a later change touched it and the whole request is refused with nothing applied.
+// Events for other modules (documents, deadlines, …) cannot be reversed: undo refuses an operation that
+// wrote any (e.g. highlight:promote, which also links the highlight), and restore leaves them alone.
+
+import { AuditEvent, AuditEntityType } from './auditTypes.js';
+import { MasterPlanData } from '../MODULES/masterPlan/masterPlanService.js';
+import { OutreachData } from '../MODULES/outreach/outreachService.js';
+import { UUID, ISODateTimeString } from '../DOMAIN/sparkModels.js';
+
+export type AuditWriter = (event: Omit<AuditEvent, 'id' | 'at'>) => void | Promise<void>;
+
+export interface UndoTargets {
+  masterPlan: MasterPlanData;
+  outreach: OutreachData;
+  audit?: AuditWriter; // receives the reversing events
+}
+
+export interface AuditOperation {
+  op_id: UUID;
+  at: ISODateTimeString; // time of its first event
+  events: AuditEvent[];
+  other_modules: AuditEvent[]; // changes the same command made outside Master Plan & Outreach
+  reverts?: UUID;
+}
+
+export interface UndoResult {
+  reversed: AuditOperation[];            // newest first
+  events: Omit<AuditEvent, 'id' | 'at'>[]; // what was written to the log
+}
+
+export interface RestoreResult extends UndoResult {
+  skipped: number; // events after the restore point that belong to other modules
+}
+
+// ─────────────────────────────────────────────────────────────
+// Working state
+// ─────────────────────────────────────────────────────────────
+interface WorkingState {
+  projects: { id: UUID }[];
+  planItems: { id: UUID }[];
+  categories: { id: UUID }[];
+  contacts: { id: UUID }[];
+  outreachActions: { id: UUID }[];
+  followUps: { id: UUID }[];
+  outcomes: { id: UUID }[];
+}
+
+const COLLECTIONS: Partial<Record<AuditEntityType, keyof WorkingState>> = {
+  Project: 'projects',
+  PlanItem: 'planItems',
+  ContactCategory: 'categories',
+  Contact: 'contacts',
+  OutreachAction: 'outreachActions',
+  FollowUpItem: 'followUps',
+  OutcomeRecord: 'outcomes',
+};
+
+function clone<T>(v: T): T { return JSON.parse(JSON.stringify(v)); }
+
+// Changes are applied to a copy and only committed once every event has reversed cleanly.
+function workingCopy(t: UndoTargets): WorkingState {
+  const { masterPlan: mp, outreach: o } = t;
+  return clone({
+    projects: mp.projects, planItems: mp.planItems,
+    categories: o.categories, contacts: o.contacts, outreachActions: o.outreachActions, followUps: o.followUps, outcomes: o.outcomes,
+  });
+}
+
+function commit(t: UndoTargets, s: WorkingState, events: Omit<AuditEvent, 'id' | 'at'>[]): void {
+  const { masterPlan: mp, outreach: o } = t;
+  Object.assign(mp, { projects: s.projects, planItems: s.planItems });
+  Object.assign(o, { categories: s.categories, contacts: s.contacts, outreachActions: s.outreachActions, followUps: s.followUps, outcomes: s.outcomes });
+  if (mp.persist) void mp.persist();
+  if (o.persist) void o.persist();
+  if (t.audit) for (const ev of events) void t.audit(ev);
+}
+
+// Key order differs between freshly built objects and ones loaded through validators.
+function canonical(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(canonical);
+  if (v && typeof v === 'object') {
+    return Object.fromEntries(Object.keys(v).sort().map(k => [k, canonical((v as Record<string, unknown>)[k])]));
+  }
+  return v;
+}
+
+// updated_at is bookkeeping (a grouped Reschedule event does not record it), so it is not compared.
+function same(a: unknown, b: unknown): boolean {
+  const strip = (v: unknown) => { const c = clone(v) as Record<string, unknown>; if (c && typeof c === 'object') delete c.updated_at; return c; };
+  return JSON.stringify(canonical(strip(a))) === JSON.stringify(canonical(strip(b)));
+}
+
+// ─────────────────────────────────────────────────────────────
+// History
+// ─────────────────────────────────────────────────────────────
+// An update with no `before` records no change (e.g. the runtime's overdue flags)
+function recordsChange(ev: AuditEvent): boolean {
+  return !((ev.change_type === 'Update' || ev.change_type === 'StatusChange' || ev.change_type === 'ChecklistToggle') && ev.before === undefined);
+}
+
+function tracked(ev: AuditEvent): boolean {
+  return !!COLLECTIONS[ev.entity_type] && recordsChange(ev);
+}
+
+export function groupOperations(events: AuditEvent[]): AuditOperation[] {
+  const ops: AuditOperation[] = [];
+  const byId = new Map<UUID, AuditOperation>();
+  const other = new Map<UUID, AuditEvent[]>();
+  for (const ev of events) {
+    if (!tracked(ev)) {
+      if (ev.op_id && !COLLECTIONS[ev.entity_type] && recordsChange(ev)) other.set(ev.op_id, [...(other.get(ev.op_id) ?? []), ev]);
+      continue;
+    }
+    const key = ev.op_id ?? ev.id;
+    let op = byId.get(key);
+    if (!op) {
+      op = { op_id: key, at: ev.at, events: [], other_modules: [], reverts: ev.reverts };
+      byId.set(key, op);
+      ops.push(op);
+    }
+    op.events.push(ev);
+  }
+  for (const op of ops) op.other_modules = other.get(op.op_id) ?? [];
+  return ops;
+}
+
+export interface UndoHistory {
+  undo: AuditOperation[]; // last entry is undone first
+  redo: AuditOperation[]; // undo operations that can be redone; last entry first
+}
+
+// Any new operation clears the redo stack, as in an editor.
+export function undoHistory(events: AuditEvent[]): UndoHistory {
+  const undo: AuditOperation[] = [];
+  const redo: AuditOperation[] = [];
+  for (const op of groupOperations(events)) {
+    const u = op.reverts ? undo.findIndex(o => o.op_id === op.reverts) : -1;
+    const r = op.reverts && u === -1 ? redo.findIndex(o => o.op_id === op.reverts) : -1;
+    if (u !== -1) { undo.splice(u, 1); redo.push(op); }
+    else if (r !== -1) { redo.splice(r, 1); undo.push(op); }
+    else { undo.push(op); redo.length = 0; }
+  }
+  return { undo, redo };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Reversal
+// ─────────────────────────────────────────────────────────────
+function refuse(ev: AuditEvent, why: string): never {
+  throw new Error(`Cannot reverse ${ev.change_type} of ${ev.entity_type} ${ev.entity_id} at ${ev.at}: ${why}`);
+}
+
+function reverseEvent(s: WorkingState, ev: AuditEvent, now: ISODateTimeString): Omit<AuditEvent, 'id' | 'at'> {
+  const list = s[COLLECTIONS[ev.entity_type]!];
+  const idx = list.findIndex(e => e.id === ev.entity_id);
+  const base = { entity_type: ev.entity_type, entity_id: ev.entity_id, project_id: ev.project_id };
+  switch (ev.change_type) {
+    case 'Create':
+    case 'TemplateLoad': {
+      if (idx === -1) refuse(ev, 'it has since been deleted');
+      if (!same(list[idx], ev.after)) refuse(ev, 'it was changed later');
+      const [removed] = list.splice(idx, 1);
+      return { ...base, change_type: 'Delete', before: removed };
+    }
+    case 'ChecklistToggle': {
+      // before/after hold the checklist entry ({ id, label, checked }), not the whole plan item
+      const before = ev.before as { id: UUID; checked: boolean };
+      const after = ev.after as { id: UUID; checked: boolean };
+      if (idx === -1) refuse(ev, 'it has since been deleted');
+      const pi = list[idx] as { id: UUID; checklist: { id: UUID; checked: boolean }[]; updated_at: string };
+      const entry = pi.checklist.find(c => c.id === after.id);
+      if (!entry) refuse(ev, `checklist item ${after.id} has since been removed`);
+      if (entry.checked !== after.checked) refuse(ev, 'it was changed later');
+      const current = clone(entry);
+      entry.checked = before.checked;
+      pi.updated_at = now;
+      return { ...base, change_type: 'ChecklistToggle', before: current, after: clone(entry) };
+    }
+    case 'Update':
+    case 'StatusChange': {
+      if (idx === -1) refuse(ev, 'it has since been deleted');
+      if (!same(list[idx], ev.after)) refuse(ev, 'it was changed later');
+      const current = list[idx];
+      list[idx] = clone(ev.before) as { id: UUID };
+      return { ...base, change_type: ev.change_type, before: current, after: clone(list[idx]) };
+    }
+    case 'Delete': {
+      if (ev.before === undefined) refuse(ev, 'the log has no copy of the deleted record');
+      if (idx !== -1) refuse(ev, 'it has since been re-created');
+      const restored = clone(ev.before) as { id: UUID; created_at?: string };
+      // Lists are kept in creation order, so a restored record goes back where it was. Events reverse
+      // newest first, so a tie places it ahead of records restored just before it.
+      const pos = list.findIndex(e => (e as { created_at?: string }).created_at! >= restored.created_at!);
+      list.splice(pos === -1 ? list.length : pos, 0, restored);
+      return { ...base, change_type: 'Create', after: clone(restored) };
+    }
+    case 'Reschedule': {
+      // Grouped due-date moves on a project: before/after are [{ id, due_date }]
+      const before = (ev.before ?? []) as { id: UUID; due_date: string | null }[];
+      const after = (ev.after ?? []) as { id: UUID; due_date: string | null }[];
+      const items = s.planItems as { id: UUID; due_date: string | null; updated_at: string }[];
+      for (const a of after) {
+        const pi = items.find(p => p.id === a.id);
+        if (!pi || pi.due_date !== a.due_date) refuse(ev, `plan item ${a.id} was changed later`);
+      }
+      for (const b of before) {
+        const pi = items.find(p => p.id === b.id)!;
+        pi.due_date = b.due_date;
+        pi.updated_at = now;
+      }
+      return { ...base, change_type: 'Reschedule', before: after, after: before };
+    }
+    default: {
+      const _exhaustive: never = ev.change_type;
+      return _exhaustive;
+    }
+  }
+}
+
+// A log can hold the same new record twice in one command (templates applied by older versions wrote
+// Create then TemplateLoad); once the newer event has removed it, the older one has nothing left to do.
+function reverseOperation(s: WorkingState, op: AuditOperation, now: ISODateTimeString): Omit<AuditEvent, 'id' | 'at'>[] {
+  const removed = new Set<UUID>();
+  const out: Omit<AuditEvent, 'id' | 'at'>[] = [];
+  for (const ev of op.events.slice().reverse()) {
+    if ((ev.change_type === 'Create' || ev.change_type === 'TemplateLoad') && removed.has(ev.entity_id)) continue;
+    const reversed = reverseEvent(s, ev, now);
+    if (reversed.change_type === 'Delete') removed.add(ev.entity_id);
+    else removed.delete(ev.entity_id);
+    out.push(reversed);
+  }
+  return out;
+}
+
+function reverseEach(t: UndoTargets, ops: AuditOperation[], label: 'Undo' | 'Redo'): UndoResult {
+  for (const op of ops) {
+    if (!op.other_modules.length) continue;
+    const types = [...new Set(op.other_modules.map(ev => ev.entity_type))].join(', ');
+    throw new Error(`Cannot ${label.toLowerCase()} operation ${op.op_id} at ${op.at}: it also changed ${types} records, which undo cannot reverse`);
+  }
+  const s = workingCopy(t);
+  const now = t.masterPlan.now();
+  const events: Omit<AuditEvent, 'id' | 'at'>[] = [];
+  for (const op of ops) {
+    const op_id = t.masterPlan.uuid();
+    const detail = label === 'Undo' ? `Undo of operation ${op.op_id}` : `Redo of operation ${op.reverts}`;
+    for (const ev of reverseOperation(s, op, now)) events.push({ ...ev, op_id, reverts: op.op_id, detail });
+  }
+  commit(t, s, events);
+  return { reversed: ops, events };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────
+export function undo(t: UndoTargets, log: AuditEvent[], count = 1): UndoResult {
+  if (!Number.isInteger(count) || count < 1) throw new Error('count: positive integer');
+  const { undo: stack } = undoHistory(log);
+  if (!stack.length) throw new Error('Nothing to undo');
+  if (stack.length < count) throw new Error(`Only ${stack.length} operation${stack.length === 1 ? '' : 's'} can be undone`);
+  return reverseEach(t, stack.slice(-count).reverse(), 'Undo');
+}
+
+export function redo(t: UndoTargets, log: AuditEvent[], count = 1): UndoResult {
+  if (!Number.isInteger(count) || count < 1) throw new Error('count: positive integer');
+  const { redo: stack } = undoHistory(log);
+  if (!stack.length) throw new Error('Nothing to redo');
+  if (stack.length < count) throw new Error(`Only ${stack.length} operation${stack.length === 1 ? '' : 's'} can be redone`);
+  return reverseEach(t, stack.slice(-count).reverse(), 'Redo');
+}
+
+// Reverses every operation after `at` as one new operation, which a later undo can take back.
+export function restoreTo(t: UndoTargets, log: AuditEvent[], at: ISODateTimeString): RestoreResult {
+  const ms = Date.parse(at);
+  if (Number.isNaN(ms)) throw new Error(`Invalid restore point: ${at}`);
+  const point = new Date(ms).toISOString();
+  const later = log.filter(ev => ev.at > point);
+  const ops = groupOperations(later).reverse();
+  const skipped = later.filter(ev => !COLLECTIONS[ev.entity_type]).length;
+  if (!ops.length) return { reversed: [], events: [], skipped };
+  const s = workingCopy(t);
+  const now = t.masterPlan.now();
+  const op_id = t.masterPlan.uuid();
+  const events = ops.flatMap(op => reverseOperation(s, op, now)).map(ev => ({ ...ev, op_id, detail: `Restore to ${point}` }));
+  commit(t, s, events);
+  return { reversed: ops, events, skipped };
+}
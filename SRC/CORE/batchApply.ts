@@ -0,0 +1,235 @@
+// Batch apply — a list of Master Plan / Outreach operations run in one transaction
+// Operations are JSON objects named after the CLI commands, with the service input fields, e.g.
+//   { "op": "outreach:record-action", "ref": "call", "contact_id": "…", "method": "Call", "summary": "Intake call" }
+//   { "op": "outreach:create-followup", "contact_id": "…", "outreach_action_id": "$call", "due_date": "2025-11-20" }
+// "$name" anywhere in a later operation is replaced with the id of the record the operation with
+// "ref": "name" created. If any operation fails, none of them are applied.
+import { UUID, ISODateString, Project, PlanItemCategory, PlanItemPriority, FollowUpStatus } from '../DOMAIN/sparkModels.js';
+import { RecurrenceInput } from './recurrence.js';
+import { Transaction, TransactionTargets, withTransaction } from './transaction.js';
+import { createProject, updateProject, deleteProject, createPlanItem, updatePlanItem, deletePlanItem, PlanItemChanges } from '../MODULES/masterPlan/masterPlanService.js';
+import {
+  createCategory, createContact, recordOutreachAction, createFollowUp, updateFollowUpStatus, recordOutcome,
+  CreateContactInput, CreateOutreachActionInput, CreateOutcomeInput,
+} from '../MODULES/outreach/outreachService.js';
+
+export type BatchOperation = { ref?: string } & (
+  | { op: 'mp:create-project'; name: string; description?: string; start_date: ISODateString; target_end_date: ISODateString; color?: string }
+  | { op: 'mp:update-project'; id: UUID; changes: Partial<Omit<Project, 'id' | 'created_at' | 'updated_at'>> }
+  | { op: 'mp:delete-project'; id: UUID }
+  | {
+      op: 'mp:create-item'; project_id: UUID; title: string; description?: string; category: PlanItemCategory; due_date?: ISODateString | null;
+      priority: PlanItemPriority; checklist?: string[]; depends_on?: UUID[]; notes?: string; recurrence?: RecurrenceInput | null;
+    }
+  | { op: 'mp:update-item'; id: UUID; changes: PlanItemChanges }
+  | { op: 'mp:delete-item'; id: UUID }
+  | { op: 'outreach:create-category'; name: string; color: string; tags?: string[] }
+  | ({ op: 'outreach:create-contact' } & Partial<CreateContactInput> & Pick<CreateContactInput, 'category_id' | 'contact_name' | 'preferred_method'>)
+  | ({ op: 'outreach:record-action' } & CreateOutreachActionInput)
+  | { op: 'outreach:create-followup'; contact_id: UUID; outreach_action_id?: UUID | null; due_date: ISODateString; notes?: string; recurrence?: RecurrenceInput }
+  | { op: 'outreach:followup-status'; id: UUID; status: FollowUpStatus }
+  | ({ op: 'outreach:record-outcome' } & Partial<CreateOutcomeInput> & Pick<CreateOutcomeInput, 'contact_id' | 'final_status' | 'date_closed'>)
+);
+
+export type BatchOpName = BatchOperation['op'];
+
+// JSON shape of each field; a trailing "?" marks it optional. Enum values and dates are left to the
+// services and the staged-record validation, which reject them with the same messages as the CLI.
+type FieldKind = 'string' | 'string?' | 'string|null?' | 'string[]?' | 'object?' | 'object|null?' | 'object[]?' | FieldSpec;
+interface FieldSpec { [field: string]: FieldKind }
+
+type OperationFields = {
+  [K in BatchOpName]: { [F in Exclude<keyof Extract<BatchOperation, { op: K }>, 'op' | 'ref'>]-?: FieldKind };
+};
+
+const PROJECT_CHANGES: FieldSpec = {
+  name: 'string?', description: 'string?', status: 'string?', start_date: 'string?', target_end_date: 'string?', color: 'string?',
+};
+
+const PLAN_ITEM_CHANGES: FieldSpec = {
+  title: 'string?', description: 'string?', category: 'string?', status: 'string?', due_date: 'string|null?', priority: 'string?',
+  depends_on: 'string[]?', notes: 'string?', checklist: 'object[]?', recurrence: 'object|null?',
+};
+
+const OPERATIONS: OperationFields = {
+  'mp:create-project': { name: 'string', description: 'string?', start_date: 'string', target_end_date: 'string', color: 'string?' },
+  'mp:update-project': { id: 'string', changes: PROJECT_CHANGES },
+  'mp:delete-project': { id: 'string' },
+  'mp:create-item': {
+    project_id: 'string', title: 'string', description: 'string?', category: 'string', due_date: 'string|null?', priority: 'string',
+    checklist: 'string[]?', depends_on: 'string[]?', notes: 'string?', recurrence: 'object|null?',
+  },
+  'mp:update-item': { id: 'string', changes: PLAN_ITEM_CHANGES },
+  'mp:delete-item': { id: 'string' },
+  'outreach:create-category': { name: 'string', color: 'string', tags: 'string[]?' },
+  'outreach:create-contact': {
+    category_id: 'string', organization: 'string?', contact_name: 'string', role: 'string?', phone: 'string?', email: 'string?',
+    mailing_address: 'string?', website_url: 'string?', preferred_method: 'string', tags: 'string[]?',
+  },
+  'outreach:record-action': {
+    contact_id: 'string', method: 'string', summary: 'string', artifacts_sent: 'string[]?',
+    linked_artifact_version: 'string|null?', outcome_status: 'string?', next_follow_up_date: 'string|null?',
+  },
+  'outreach:create-followup': { contact_id: 'string', outreach_action_id: 'string|null?', due_date: 'string', notes: 'string?', recurrence: 'object?' },
+  'outreach:followup-status': { id: 'string', status: 'string' },
+  'outreach:record-outcome': {
+    contact_id: 'string', final_status: 'string', date_closed: 'string', reason: 'string?', lesson_learned: 'string?', referred_contact_id: 'string|null?',
+  },
+};
+
+export const BATCH_OPERATIONS = Object.keys(OPERATIONS) as BatchOpName[];
+
+export interface BatchResult {
+  op: BatchOpName;
+  ref?: string;
+  id: UUID;
+}
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+
+function matches(kind: string, v: unknown): boolean {
+  switch (kind) {
+    case 'string': return typeof v === 'string';
+    case 'string|null': return v === null || typeof v === 'string';
+    case 'string[]': return Array.isArray(v) && v.every(x => typeof x === 'string');
+    case 'object': return isObj(v);
+    case 'object|null': return v === null || isObj(v);
+    case 'object[]': return Array.isArray(v) && v.every(isObj);
+    default: return false;
+  }
+}
+
+const DESCRIBE: Record<string, string> = {
+  'string': 'a string', 'string|null': 'a string or null', 'string[]': 'an array of strings',
+  'object': 'an object', 'object|null': 'an object or null', 'object[]': 'an array of objects',
+};
+
+// Throws "<path>: missing <field>", "<path>: <field> must be …" or "<path>: unknown field <field>".
+function checkFields(value: Record<string, unknown>, spec: FieldSpec, at: string, prefix = ''): void {
+  for (const key of Object.keys(value)) {
+    if (!prefix && (key === 'op' || key === 'ref')) continue;
+    if (!Object.hasOwn(spec, key)) throw new Error(`${at}: unknown field ${prefix}${key}`);
+  }
+  for (const [key, kind] of Object.entries(spec)) {
+    const v = value[key];
+    if (typeof kind !== 'string') {
+      if (v === undefined) throw new Error(`${at}: missing ${prefix}${key}`);
+      if (!isObj(v)) throw new Error(`${at}: ${prefix}${key} must be an object`);
+      checkFields(v, kind, at, `${prefix}${key}.`);
+      continue;
+    }
+    const optional = kind.endsWith('?');
+    const base = optional ? kind.slice(0, -1) : kind;
+    if (v === undefined) {
+      if (!optional) throw new Error(`${at}: missing ${prefix}${key}`);
+      continue;
+    }
+    if (!matches(base, v)) throw new Error(`${at}: ${prefix}${key} must be ${DESCRIBE[base]}`);
+  }
+}
+
+export function parseBatchOperations(raw: unknown): BatchOperation[] {
+  const list = Array.isArray(raw) ? raw : isObj(raw) ? raw.operations : undefined;
+  if (!Array.isArray(list)) throw new Error('Batch file must be a JSON array of operations (or { "operations": [...] })');
+  const refs = new Set<string>();
+  return list.map((entry: unknown, i) => {
+    if (!isObj(entry)) throw new Error(`operations[${i}]: not an object`);
+    const { op, ref } = entry;
+    if (typeof op !== 'string' || !Object.hasOwn(OPERATIONS, op)) {
+      throw new Error(`operations[${i}]: unknown op ${JSON.stringify(op)}; expected one of ${BATCH_OPERATIONS.join(', ')}`);
+    }
+    checkFields(entry, OPERATIONS[op as BatchOpName], `operations[${i}] (${op})`);
+    if (ref !== undefined) {
+      if (typeof ref !== 'string' || !ref) throw new Error(`operations[${i}]: ref must be a non-empty string`);
+      if (refs.has(ref)) throw new Error(`operations[${i}]: ref ${ref} is used twice`);
+      refs.add(ref);
+    }
+    return entry as BatchOperation;
+  });
+}
+
+function resolveRefs(value: unknown, ids: Map<string, UUID>): unknown {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    const id = ids.get(value.slice(1));
+    if (!id) throw new Error(`${value} does not name an earlier operation's ref`);
+    return id;
+  }
+  if (Array.isArray(value)) return value.map(v => resolveRefs(v, ids));
+  if (isObj(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveRefs(v, ids)]));
+  return value;
+}
+
+function found<T>(record: T | null, what: string, id: UUID): T {
+  if (!record) throw new Error(`${what} not found: ${id}`);
+  return record;
+}
+
+function applyOne(tx: Transaction, o: BatchOperation): UUID {
+  const mp = tx.masterPlan;
+  const out = tx.outreach;
+  switch (o.op) {
+    case 'mp:create-project':
+      return createProject(mp, { name: o.name, description: o.description ?? '', start_date: o.start_date, target_end_date: o.target_end_date, color: o.color }).id;
+    case 'mp:update-project':
+      return found(updateProject(mp, o.id, o.changes), 'Project', o.id).id;
+    case 'mp:delete-project':
+      if (!deleteProject(mp, o.id)) throw new Error(`Project not found: ${o.id}`);
+      return o.id;
+    case 'mp:create-item':
+      return createPlanItem(mp, {
+        project_id: o.project_id, title: o.title, description: o.description ?? '', category: o.category,
+        due_date: o.due_date ?? null, priority: o.priority,
+        checklist: (o.checklist ?? []).map(label => ({ label })), depends_on: o.depends_on, notes: o.notes, recurrence: o.recurrence,
+      }).id;
+    case 'mp:update-item':
+      return found(updatePlanItem(mp, o.id, o.changes), 'PlanItem', o.id).id;
+    case 'mp:delete-item':
+      if (!deletePlanItem(mp, o.id)) throw new Error(`PlanItem not found: ${o.id}`);
+      return o.id;
+    case 'outreach:create-category':
+      return createCategory(out, o.name, o.color, o.tags ?? []).id;
+    case 'outreach:create-contact':
+      return createContact(out, {
+        category_id: o.category_id, organization: o.organization ?? '', contact_name: o.contact_name, role: o.role ?? '',
+        phone: o.phone ?? '', email: o.email ?? '', mailing_address: o.mailing_address ?? '', website_url: o.website_url ?? '',
+        preferred_method: o.preferred_method, tags: o.tags,
+      }).id;
+    case 'outreach:record-action':
+      return recordOutreachAction(out, {
+        contact_id: o.contact_id, method: o.method, summary: o.summary, artifacts_sent: o.artifacts_sent,
+        linked_artifact_version: o.linked_artifact_version, outcome_status: o.outcome_status, next_follow_up_date: o.next_follow_up_date,
+      }).id;
+    case 'outreach:create-followup':
+      return createFollowUp(out, o.contact_id, o.outreach_action_id ?? null, o.due_date, o.notes ?? '', o.recurrence).id;
+    case 'outreach:followup-status':
+      return found(updateFollowUpStatus(out, o.id, o.status), 'Follow-up', o.id).id;
+    case 'outreach:record-outcome':
+      return recordOutcome(out, {
+        contact_id: o.contact_id, final_status: o.final_status, date_closed: o.date_closed,
+        reason: o.reason ?? '', lesson_learned: o.lesson_learned ?? '', referred_contact_id: o.referred_contact_id,
+      }).id;
+    default: {
+      const _exhaustive: never = o;
+      return _exhaustive;
+    }
+  }
+}
+
+// All operations or none; the error names the operation that failed.
+export async function applyBatch(core: TransactionTargets, operations: BatchOperation[]): Promise<BatchResult[]> {
+  return withTransaction(core, tx => {
+    const ids = new Map<string, UUID>();
+    return operations.map((raw, i) => {
+      const at = `operations[${i}] (${raw.op})`;
+      let id: UUID;
+      try {
+        // Refs only swap one string for another, so the operation keeps the shape parseBatchOperations checked.
+        id = applyOne(tx, resolveRefs(raw, ids) as BatchOperation);
+      } catch (err) {
+        throw new Error(`${at}: ${(err as Error).message}`);
+      }
+      if (raw.ref) ids.set(raw.ref, id);
+      return { op: raw.op, ...(raw.ref ? { ref: raw.ref } : {}), id };
+    });
+  });
+}
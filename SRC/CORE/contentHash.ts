@@ -0,0 +1,17 @@
+// Content hashing helpers — SHA-256 over files (streamed) and in-memory buffers
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+
+export async function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+export function sha256Buffer(buf: Buffer | string): string {
+  return createHash('sha256').update(buf).digest('hex');
+}
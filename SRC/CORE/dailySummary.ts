@@ -1,6 +1,9 @@
-// Daily Summary Aggregator — combines Master Plan & Outreach metrics
-import { MasterPlanData, projectProgress } from '../MODULES/masterPlan/masterPlanService';
-import { OutreachData, summaryMetrics, openFollowUps } from '../MODULES/outreach/outreachService';
+// Daily Summary Aggregator — combines Master Plan & Outreach metrics (plus the day's log and deadlines when given)
+import { MasterPlanData, projectProgress } from '../MODULES/masterPlan/masterPlanService.js';
+import { dependencyConflicts } from '../MODULES/masterPlan/masterPlanDependencies.js';
+import { OutreachData, summaryMetrics, openFollowUps } from '../MODULES/outreach/outreachService.js';
+import { DailyLogData, getDailyLog, describeEntries } from '../MODULES/dailyLog/dailyLogService.js';
+import { DeadlinesData, DeadlineEntry, deadlineView } from '../MODULES/deadlines/deadlinesService.js';
 import { ISODateString } from '../DOMAIN/sparkModels';
 
 export interface ProjectProgressSummary {
@@ -10,6 +13,7 @@ export interface ProjectProgressSummary {
   total: number;
   percent: number;
   overdue_items: number;
+  dependency_conflicts: number; // open items due before one of their prerequisites
 }
 
 export interface OutreachSummary {
@@ -20,22 +24,57 @@ export interface OutreachSummary {
   overdue_follow_ups: number;
 }
 
+export interface DailyLogSummary {
+  goals: string[];     // plan item titles or free text
+  completed: string[];
+  questions_for_tomorrow: string[];
+  emotion_check: string;
+}
+
 export interface DailySummary {
   date: ISODateString;
   projects: ProjectProgressSummary[];
   outreach: OutreachSummary;
+  daily_log?: DailyLogSummary | null; // present when daily log data is supplied; null if no log for the date
+  deadlines?: DeadlinesSummary;        // present when deadline data is supplied
+}
+
+export interface DeadlinesSummary {
+  overdue: DeadlineEntry[];  // sorted Critical → Normal, then by due date
+  upcoming: DeadlineEntry[]; // due within horizonDays
+}
+
+export interface DailySummaryOptions {
+  dailyLog?: DailyLogData;
+  deadlines?: DeadlinesData;
+  horizonDays?: number; // upcoming window for deadlines; default 7
 }
 
-export function buildDailySummary(mp: MasterPlanData, outreach: OutreachData, date: ISODateString): DailySummary {
+export function buildDailySummary(mp: MasterPlanData, outreach: OutreachData, date: ISODateString, opts: DailySummaryOptions = {}): DailySummary {
   const projects = mp.projects.map(p => {
     const prog = projectProgress(mp, p.id);
     const overdue_items = mp.planItems.filter(pi => pi.project_id === p.id && pi.due_date && pi.due_date < date && pi.status !== 'Done').length;
-    return { project_id: p.id, name: p.name, done: prog.done, total: prog.total, percent: prog.percent, overdue_items };
+    const dependency_conflicts = dependencyConflicts(mp, p.id).length;
+    return { project_id: p.id, name: p.name, done: prog.done, total: prog.total, percent: prog.percent, overdue_items, dependency_conflicts };
   });
 
   const om = summaryMetrics(outreach);
   const overdue_follow_ups = openFollowUps(outreach, date).filter(f => f.due_date < date).length;
   const outreachSummary: OutreachSummary = { ...om, overdue_follow_ups };
 
-  return { date, projects, outreach: outreachSummary };
+  const summary: DailySummary = { date, projects, outreach: outreachSummary };
+  if (opts.dailyLog) {
+    const log = getDailyLog(opts.dailyLog, date);
+    summary.daily_log = log ? {
+      goals: describeEntries(mp, log.goals_for_today),
+      completed: describeEntries(mp, log.completed_today),
+      questions_for_tomorrow: log.questions_for_tomorrow.slice(),
+      emotion_check: log.emotion_check,
+    } : null;
+  }
+  if (opts.deadlines) {
+    const view = deadlineView(opts.deadlines, mp, outreach, date, opts.horizonDays ?? 7);
+    summary.deadlines = { overdue: view.overdue, upcoming: view.upcoming };
+  }
+  return summary;
 }
@@ -0,0 +1,81 @@
+// Deadline calculator — date arithmetic for "N calendar days" / "N business days" from a trigger date
+// All dates are ISO dates (YYYY-MM-DD) handled in UTC, so the host time zone never shifts a day.
+// Counting follows the usual court rule: the trigger day is excluded, and a calendar-day deadline that
+// lands on a weekend or holiday rolls forward to the next business day.
+import { HolidayCalendar, isHoliday } from './holidayCalendar.js';
+
+export type DayCountUnit = 'Calendar' | 'Business';
+
+export interface DeadlineRule {
+  days: number;          // non-negative whole days
+  unit: DayCountUnit;
+  roll_forward?: boolean; // default true; only matters for Calendar counts
+}
+
+export const DAY_COUNT_UNITS: DayCountUnit[] = ['Calendar', 'Business'];
+
+function toDate(date: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid ISO date: ${date}`);
+  return new Date(date + 'T00:00:00Z');
+}
+
+export function addCalendarDays(date: string, days: number): string {
+  const d = toDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Weekends are never business days; a null calendar means no holidays.
+export function isBusinessDay(date: string, calendar: HolidayCalendar | null): boolean {
+  const dow = toDate(date).getUTCDay();
+  if (dow === 0 || dow === 6) return false;
+  return !(calendar && isHoliday(calendar, date));
+}
+
+// The date itself when it is a business day, otherwise the next one.
+export function rollForward(date: string, calendar: HolidayCalendar | null): string {
+  let d = date;
+  while (!isBusinessDay(d, calendar)) d = addCalendarDays(d, 1);
+  return d;
+}
+
+// Negative counts step backwards.
+export function addBusinessDays(date: string, days: number, calendar: HolidayCalendar | null): string {
+  const step = days < 0 ? -1 : 1;
+  let d = date;
+  for (let counted = 0; counted < Math.abs(days);) {
+    d = addCalendarDays(d, step);
+    if (isBusinessDay(d, calendar)) counted++;
+  }
+  return d;
+}
+
+export function validateDeadlineRule(rule: DeadlineRule): DeadlineRule {
+  if (!Number.isInteger(rule.days) || rule.days < 0) throw new Error('days: non-negative integer');
+  if (!DAY_COUNT_UNITS.includes(rule.unit)) throw new Error(`unit: one of ${DAY_COUNT_UNITS.join(',')}`);
+  return rule;
+}
+
+export function computeDeadline(trigger: string, rule: DeadlineRule, calendar: HolidayCalendar | null): string {
+  validateDeadlineRule(rule);
+  switch (rule.unit) {
+    case 'Calendar': {
+      const due = addCalendarDays(trigger, rule.days);
+      return rule.roll_forward === false ? due : rollForward(due, calendar);
+    }
+    case 'Business':
+      // Zero business days means "the trigger day, or the next business day if it is not one"
+      return rule.days === 0 ? rollForward(trigger, calendar) : addBusinessDays(trigger, rule.days, calendar);
+    default: {
+      const _exhaustive: never = rule.unit;
+      return _exhaustive;
+    }
+  }
+}
+
+// e.g. "21 business days after 2025-11-13 (Michigan)"
+export function describeDeadlineRule(trigger: string, rule: DeadlineRule, calendar: HolidayCalendar | null): string {
+  const unit = rule.unit === 'Business' ? 'business' : 'calendar';
+  const roll = rule.unit === 'Calendar' && rule.roll_forward === false ? ', no roll-forward' : '';
+  return `${rule.days} ${unit} day${rule.days === 1 ? '' : 's'} after ${trigger} (${calendar ? calendar.name : 'weekends only'}${roll})`;
+}
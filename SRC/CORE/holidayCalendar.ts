@@ -0,0 +1,224 @@
+// Holiday calendars — bundled US federal and Michigan court holidays, editable as DATA/holidays.json
+// Rules describe a holiday once ("third Monday of January") so any year can be expanded.
+// A file on disk replaces the bundled calendars entirely; `calendar:init` writes them out for editing.
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type HolidayRule =
+  // Fixed date; when `observed` is set a Saturday moves to Friday and a Sunday to Monday
+  | { name: string; kind: 'Fixed'; month: number; day: number; observed?: boolean; from_year?: number }
+  // nth weekday of the month (weekday 0 = Sunday; n = -1 for the last one), shifted by offset_days
+  | { name: string; kind: 'NthWeekday'; month: number; weekday: number; n: number; offset_days?: number; from_year?: number }
+  // The weekday before the observed date of month/day (an eve); month/day 1/1 lands in the year before
+  | { name: string; kind: 'DayBefore'; month: number; day: number; from_year?: number };
+
+export interface HolidayCalendar {
+  name: string;
+  rules: HolidayRule[];
+  extra_dates: string[];    // one-off closures (YYYY-MM-DD)
+  excluded_dates: string[]; // rule dates that should not count this time (YYYY-MM-DD)
+}
+
+export interface HolidayCalendarFile {
+  version: number;
+  calendars: HolidayCalendar[];
+}
+
+// 5 U.S.C. § 6103(a)
+const FEDERAL_RULES: HolidayRule[] = [
+  { name: "New Year's Day", kind: 'Fixed', month: 1, day: 1, observed: true },
+  { name: 'Martin Luther King Jr. Day', kind: 'NthWeekday', month: 1, weekday: 1, n: 3 },
+  { name: "Washington's Birthday", kind: 'NthWeekday', month: 2, weekday: 1, n: 3 },
+  { name: 'Memorial Day', kind: 'NthWeekday', month: 5, weekday: 1, n: -1 },
+  { name: 'Juneteenth', kind: 'Fixed', month: 6, day: 19, observed: true, from_year: 2021 },
+  { name: 'Independence Day', kind: 'Fixed', month: 7, day: 4, observed: true },
+  { name: 'Labor Day', kind: 'NthWeekday', month: 9, weekday: 1, n: 1 },
+  { name: 'Columbus Day', kind: 'NthWeekday', month: 10, weekday: 1, n: 2 },
+  { name: 'Veterans Day', kind: 'Fixed', month: 11, day: 11, observed: true },
+  { name: 'Thanksgiving Day', kind: 'NthWeekday', month: 11, weekday: 4, n: 4 },
+  { name: 'Christmas Day', kind: 'Fixed', month: 12, day: 25, observed: true },
+];
+
+// Michigan court holidays (MCR 8.110(D)(2)); no Columbus Day, plus the Friday after Thanksgiving
+// and Christmas Eve / New Year's Eve
+const MICHIGAN_RULES: HolidayRule[] = [
+  { name: "New Year's Day", kind: 'Fixed', month: 1, day: 1, observed: true },
+  { name: 'Martin Luther King Jr. Day', kind: 'NthWeekday', month: 1, weekday: 1, n: 3 },
+  { name: "Presidents' Day", kind: 'NthWeekday', month: 2, weekday: 1, n: 3 },
+  { name: 'Memorial Day', kind: 'NthWeekday', month: 5, weekday: 1, n: -1 },
+  { name: 'Juneteenth', kind: 'Fixed', month: 6, day: 19, observed: true, from_year: 2022 },
+  { name: 'Independence Day', kind: 'Fixed', month: 7, day: 4, observed: true },
+  { name: 'Labor Day', kind: 'NthWeekday', month: 9, weekday: 1, n: 1 },
+  { name: 'Veterans Day', kind: 'Fixed', month: 11, day: 11, observed: true },
+  { name: 'Thanksgiving Day', kind: 'NthWeekday', month: 11, weekday: 4, n: 4 },
+  { name: 'Day after Thanksgiving', kind: 'NthWeekday', month: 11, weekday: 4, n: 4, offset_days: 1 },
+  // The eves are the court day before the observed holiday: a Monday Christmas (2023) moves the Eve
+  // to Friday, a Friday one (2021) to Thursday, so the two never fall on the same day
+  { name: 'Christmas Eve', kind: 'DayBefore', month: 12, day: 25 },
+  { name: 'Christmas Day', kind: 'Fixed', month: 12, day: 25, observed: true },
+  { name: "New Year's Eve", kind: 'DayBefore', month: 1, day: 1 },
+];
+
+export const BUNDLED_HOLIDAY_CALENDARS: HolidayCalendar[] = [
+  { name: 'Federal', rules: FEDERAL_RULES, extra_dates: [], excluded_dates: [] },
+  { name: 'Michigan', rules: MICHIGAN_RULES, extra_dates: [], excluded_dates: [] },
+];
+
+export const DEFAULT_HOLIDAY_CALENDAR = 'Michigan';
+
+// ─────────────────────────────────────────────────────────────
+// Expansion
+// ─────────────────────────────────────────────────────────────
+function fmt(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function ruleDate(rule: HolidayRule, year: number): Date | null {
+  if (rule.from_year !== undefined && year < rule.from_year) return null;
+  switch (rule.kind) {
+    case 'Fixed': {
+      const d = new Date(Date.UTC(year, rule.month - 1, rule.day));
+      if (rule.observed) {
+        if (d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() - 1);
+        else if (d.getUTCDay() === 0) d.setUTCDate(d.getUTCDate() + 1);
+      }
+      return d;
+    }
+    case 'DayBefore': {
+      const d = ruleDate({ name: rule.name, kind: 'Fixed', month: rule.month, day: rule.day, observed: true }, year)!;
+      do d.setUTCDate(d.getUTCDate() - 1); while (d.getUTCDay() === 0 || d.getUTCDay() === 6);
+      return d;
+    }
+    case 'NthWeekday': {
+      let d: Date;
+      if (rule.n > 0) {
+        d = new Date(Date.UTC(year, rule.month - 1, 1));
+        d.setUTCDate(1 + ((rule.weekday - d.getUTCDay() + 7) % 7) + (rule.n - 1) * 7);
+      } else {
+        d = new Date(Date.UTC(year, rule.month, 0)); // last day of the month
+        d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() - rule.weekday + 7) % 7) + (rule.n + 1) * 7);
+      }
+      if (rule.offset_days) d.setUTCDate(d.getUTCDate() + rule.offset_days);
+      return d;
+    }
+    default: {
+      const _exhaustive: never = rule;
+      return _exhaustive;
+    }
+  }
+}
+
+export interface Holiday { date: string; name: string; }
+
+// Holidays falling in `year`, sorted by date. Neighbouring years are expanded too, because an
+// observed date can cross the year boundary (Jan 1 on a Saturday is observed on Dec 31).
+export function holidaysForYear(calendar: HolidayCalendar, year: number): Holiday[] {
+  const out: Holiday[] = [];
+  for (const y of [year - 1, year, year + 1]) {
+    for (const rule of calendar.rules) {
+      const d = ruleDate(rule, y);
+      if (!d) continue;
+      const date = fmt(d);
+      if (date.startsWith(`${year}-`) && !calendar.excluded_dates.includes(date)) out.push({ date, name: rule.name });
+    }
+  }
+  for (const date of calendar.extra_dates) {
+    if (date.startsWith(`${year}-`)) out.push({ date, name: 'Extra closure' });
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+const yearCache = new WeakMap<HolidayCalendar, Map<number, Set<string>>>();
+
+export function isHoliday(calendar: HolidayCalendar, date: string): boolean {
+  let byYear = yearCache.get(calendar);
+  if (!byYear) { byYear = new Map(); yearCache.set(calendar, byYear); }
+  const year = Number(date.slice(0, 4));
+  let dates = byYear.get(year);
+  if (!dates) { dates = new Set(holidaysForYear(calendar, year).map(h => h.date)); byYear.set(year, dates); }
+  return dates.has(date);
+}
+
+export function findHolidayCalendar(calendars: HolidayCalendar[], name: string): HolidayCalendar {
+  const cal = calendars.find(c => c.name.toLowerCase() === name.toLowerCase());
+  if (!cal) throw new Error(`Unknown holiday calendar: ${name} (known: ${calendars.map(c => c.name).join(', ')})`);
+  return cal;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Validation & file I/O
+// ─────────────────────────────────────────────────────────────
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isISODate(v: unknown): v is string { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isInt(v: unknown, min: number, max: number): v is number { return typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max; }
+
+function validateHolidayRule(input: unknown, field: string): HolidayRule {
+  if (!isObj(input)) fail(field, 'must be object');
+  const { name, kind, month, from_year } = input;
+  if (typeof name !== 'string' || !name.trim()) fail(`${field}.name`, 'non-empty string');
+  if (!isInt(month, 1, 12)) fail(`${field}.month`, 'integer 1-12');
+  if (from_year !== undefined && !isInt(from_year, 1900, 2999)) fail(`${field}.from_year`, 'year');
+  if (kind === 'Fixed') {
+    if (!isInt(input.day, 1, 31)) fail(`${field}.day`, 'integer 1-31');
+    if (input.observed !== undefined && typeof input.observed !== 'boolean') fail(`${field}.observed`, 'boolean');
+    return { name, kind, month, day: input.day, observed: input.observed as boolean | undefined, from_year: from_year as number | undefined };
+  }
+  if (kind === 'DayBefore') {
+    if (!isInt(input.day, 1, 31)) fail(`${field}.day`, 'integer 1-31');
+    return { name, kind, month, day: input.day, from_year: from_year as number | undefined };
+  }
+  if (kind === 'NthWeekday') {
+    if (!isInt(input.weekday, 0, 6)) fail(`${field}.weekday`, 'integer 0-6 (0 = Sunday)');
+    if (!isInt(input.n, -1, 5) || input.n === 0) fail(`${field}.n`, '1-5, or -1 for the last');
+    if (input.offset_days !== undefined && !isInt(input.offset_days, -6, 6)) fail(`${field}.offset_days`, 'integer -6..6');
+    return { name, kind, month, weekday: input.weekday, n: input.n, offset_days: input.offset_days as number | undefined, from_year: from_year as number | undefined };
+  }
+  return fail(`${field}.kind`, 'Fixed, NthWeekday or DayBefore');
+}
+
+export function validateHolidayCalendar(input: unknown, field = 'HolidayCalendar'): HolidayCalendar {
+  if (!isObj(input)) fail(field, 'must be object');
+  const { name, rules, extra_dates, excluded_dates } = input;
+  if (typeof name !== 'string' || !name.trim()) fail(`${field}.name`, 'non-empty string');
+  if (!Array.isArray(rules)) fail(`${field}.rules`, 'array');
+  const dates = (v: unknown, f: string): string[] => {
+    if (v === undefined) return [];
+    if (!Array.isArray(v) || !v.every(isISODate)) fail(`${field}.${f}`, 'array of ISO dates');
+    return v.slice();
+  };
+  return {
+    name: name.trim(),
+    rules: rules.map((r, i) => validateHolidayRule(r, `${field}.rules[${i}]`)),
+    extra_dates: dates(extra_dates, 'extra_dates'),
+    excluded_dates: dates(excluded_dates, 'excluded_dates'),
+  };
+}
+
+const DEFAULT_FILE = path.join(process.cwd(), 'DATA', 'holidays.json');
+
+// A missing file means the bundled calendars.
+export async function loadHolidayCalendars(filePath: string = DEFAULT_FILE): Promise<HolidayCalendar[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return BUNDLED_HOLIDAY_CALENDARS;
+    throw err;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!isObj(parsed) || !Array.isArray(parsed.calendars)) throw new Error('calendars: array');
+    return parsed.calendars.map((c: unknown, i: number) => validateHolidayCalendar(c, `calendars[${i}]`));
+  } catch (e) {
+    throw new Error(`Failed to load holiday calendars from ${filePath}: ${(e as Error).message}`);
+  }
+}
+
+export async function saveHolidayCalendars(calendars: HolidayCalendar[], filePath: string = DEFAULT_FILE): Promise<void> {
+  const file: HolidayCalendarFile = { version: 1, calendars: calendars.map((c, i) => validateHolidayCalendar(c, `calendars[${i}]`)) };
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, JSON.stringify(file, null, 2), 'utf8');
+  await fs.rename(tmp, filePath);
+}
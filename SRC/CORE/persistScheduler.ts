@@ -0,0 +1,93 @@
+// Persist scheduler — one write at a time per module, with bursts of requests coalesced into one
+// Services call `void data.persist()` after every change. The scheduler waits `delayMs` after the
+// first request, then runs a single write of the state as it is at that point; requests that arrive
+// while a write runs are served by one more write after it. Writes never overlap, so the last
+// write always holds the latest state.
+// A failed write is reported through onError and kept until the next flush(), which rethrows it;
+// the promise a request returns rejects too, but leaving it unawaited does not crash the process.
+
+export interface PersistScheduler {
+  (): Promise<void>;      // requests a write; resolves once a write started after this call is done
+  flush(): Promise<void>; // runs a pending write now and waits for the queue to drain
+}
+
+export interface PersistSchedulerOptions {
+  delayMs?: number;                // how long a burst may gather; default 20
+  onError?: (err: Error) => void;  // default: console.error
+}
+
+interface Batch {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+function createBatch(): Batch {
+  let resolve!: () => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  promise.catch(() => undefined); // surfaced through onError and flush()
+  return { promise, resolve, reject };
+}
+
+export function createPersistScheduler(write: () => Promise<void>, opts: PersistSchedulerOptions = {}): PersistScheduler {
+  const delayMs = opts.delayMs ?? 20;
+  const onError = opts.onError ?? (err => console.error(`Persist failed: ${err.message}`));
+  let timer: NodeJS.Timeout | null = null;
+  let pending: Batch | null = null; // requested, not started
+  let running: Promise<void> | null = null;
+  let failure: Error | null = null; // first failure since the last flush
+
+  async function run(batch: Batch): Promise<void> {
+    try {
+      await write();
+      batch.resolve();
+    } catch (err) {
+      const e = err instanceof Error ? err : new Error(String(err));
+      failure = failure ?? e;
+      onError(e);
+      batch.reject(e);
+    } finally {
+      running = null;
+      if (pending) start();
+    }
+  }
+
+  function start(): void {
+    if (timer) { clearTimeout(timer); timer = null; }
+    if (running || !pending) return; // a running write starts the next one when it ends
+    const batch = pending;
+    pending = null;
+    running = Promise.resolve().then(() => run(batch)); // set before run can finish, even on a synchronous throw
+  }
+
+  const schedule = function schedule() {
+    pending = pending ?? createBatch();
+    if (!running && !timer) timer = setTimeout(start, delayMs);
+    return pending.promise;
+  } as PersistScheduler;
+
+  schedule.flush = async () => {
+    while (pending || running) {
+      start();
+      await running;
+    }
+    if (failure) {
+      const err = failure;
+      failure = null;
+      throw err;
+    }
+  };
+  return schedule;
+}
+
+export function isPersistScheduler(persist: (() => Promise<void>) | undefined): persist is PersistScheduler {
+  return typeof (persist as Partial<PersistScheduler> | undefined)?.flush === 'function';
+}
+
+// Waits for every module's queued writes; throws the first failure after all of them have drained.
+export async function flushPersistence(hooks: ((() => Promise<void>) | undefined)[]): Promise<void> {
+  const results = await Promise.allSettled(hooks.filter(isPersistScheduler).map(h => h.flush()));
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failed) throw failed.reason;
+}
@@ -0,0 +1,94 @@
+// Recurrence — occurrence dates for RecurrenceRule (daily / weekly / monthly, ending by date or count)
+// Text form follows RRULE: "FREQ=WEEKLY;INTERVAL=2;COUNT=6;UNTIL=2026-01-31".
+import { RecurrenceFrequency, RecurrenceRule, ISODateString } from '../DOMAIN/sparkModels.js';
+import { addCalendarDays } from './deadlineCalculator.js';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['Daily', 'Weekly', 'Monthly'];
+
+// What callers supply; start defaults to the first occurrence's due date.
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  start?: ISODateString;
+  until?: ISODateString | null;
+  count?: number | null;
+}
+
+function fail(field: string, msg: string): never { throw new Error(`recurrence.${field}: ${msg}`); }
+function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isPositiveInt(v: unknown): v is number { return typeof v === 'number' && Number.isInteger(v) && v >= 1; }
+
+export function validateRecurrenceRule(input: unknown): RecurrenceRule {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) fail('rule', 'must be object');
+  const { frequency, interval, start, until, count } = input as Record<string, unknown>;
+  if (typeof frequency !== 'string' || !RECURRENCE_FREQUENCIES.includes(frequency as RecurrenceFrequency)) fail('frequency', `one of ${RECURRENCE_FREQUENCIES.join(',')}`);
+  if (!isPositiveInt(interval)) fail('interval', 'positive integer');
+  if (!isISODate(start)) fail('start', 'ISO date');
+  if (!(until === null || isISODate(until))) fail('until', 'ISO date or null');
+  if (until && until < start) fail('until', 'must not be before start');
+  if (!(count === null || isPositiveInt(count))) fail('count', 'positive integer or null');
+  return { frequency: frequency as RecurrenceFrequency, interval, start, until: until as ISODateString | null, count: count as number | null };
+}
+
+export function normalizeRecurrence(input: RecurrenceInput, firstDueDate: ISODateString): RecurrenceRule {
+  return validateRecurrenceRule({
+    frequency: input.frequency,
+    interval: input.interval ?? 1,
+    start: input.start ?? firstDueDate,
+    until: input.until ?? null,
+    count: input.count ?? null,
+  });
+}
+
+function addMonthsClamped(date: ISODateString, months: number): ISODateString {
+  const [y, m, d] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// Date of occurrence n (0 = start), ignoring until/count.
+export function occurrenceDate(rule: RecurrenceRule, n: number): ISODateString {
+  switch (rule.frequency) {
+    case 'Daily':
+      return addCalendarDays(rule.start, n * rule.interval);
+    case 'Weekly':
+      return addCalendarDays(rule.start, n * rule.interval * 7);
+    case 'Monthly':
+      return addMonthsClamped(rule.start, n * rule.interval);
+    default: {
+      const _exhaustive: never = rule.frequency;
+      return _exhaustive;
+    }
+  }
+}
+
+// The first occurrence strictly after `after`, or null when the series has ended. `generated` is how
+// many occurrences already exist, checked against count.
+export function nextOccurrence(rule: RecurrenceRule, after: ISODateString, generated: number): ISODateString | null {
+  if (rule.count !== null && generated >= rule.count) return null;
+  for (let n = 1; ; n++) {
+    const date = occurrenceDate(rule, n);
+    if (rule.until && date > rule.until) return null;
+    if (date > after) return date;
+  }
+}
+
+// "FREQ=WEEKLY;INTERVAL=2;COUNT=6" or "FREQ=MONTHLY;UNTIL=20260131"
+export function parseRecurrence(text: string): RecurrenceInput {
+  const parts = new Map(text.split(';').map(p => p.trim()).filter(Boolean).map(p => {
+    const eq = p.indexOf('=');
+    return [p.slice(0, eq).toUpperCase(), p.slice(eq + 1).trim()] as [string, string];
+  }));
+  const freq = parts.get('FREQ')?.toUpperCase();
+  const frequency = RECURRENCE_FREQUENCIES.find(f => f.toUpperCase() === freq);
+  if (!frequency) throw new Error(`Recurrence needs FREQ=DAILY, WEEKLY or MONTHLY: ${text}`);
+  const until = parts.get('UNTIL');
+  return {
+    frequency,
+    interval: parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : undefined,
+    until: until ? (/^\d{8}$/.test(until) ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : until) : null,
+    count: parts.has('COUNT') ? Number(parts.get('COUNT')) : null,
+  };
+}
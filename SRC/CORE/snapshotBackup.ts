@@ -0,0 +1,289 @@
+// Snapshot backups — timestamped copies of every snapshot under DATA/backups/, pruned by a retention
+// policy, restorable by time, and a tar.gz bundle of snapshots plus the audit log
+// A backup is a directory DATA/backups/<time>/ holding copies of the store files (every
+// *.snapshot.json, storage.json and the SQLite database) and a manifest.json with their hashes.
+// autoBackup takes one when the store files differ from the newest backup, so running read-only
+// commands does not pile up copies; the backup before a change always holds the state it replaced.
+// Retention keeps the newest few backups outright, so the copy from just before a bad edit survives
+// the next run, and beyond that the newest backup in each of the last N hours, days and weeks.
+import { promises as fs, createWriteStream } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { sha256Buffer, sha256File } from './contentHash.js';
+import { auditSegments, indexPath } from './auditArchive.js';
+import { ISODateTimeString } from '../DOMAIN/sparkModels.js';
+
+export interface BackupRetention {
+  last: number; // newest backups kept whatever their time (at least one)
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { last: 10, hourly: 24, daily: 7, weekly: 4 };
+
+export type BackupReason = 'auto' | 'pre-restore';
+
+export interface BackupFile {
+  name: string; // relative to the data directory
+  sha256: string;
+  bytes: number;
+}
+
+export interface BackupManifest {
+  version: number;
+  id: string; // the backup's directory name
+  created_at: ISODateTimeString;
+  reason: BackupReason;
+  files: BackupFile[];
+}
+
+export interface BackupLocation {
+  dataDir: string;    // where the snapshots live; usually DATA
+  backupDir?: string; // defaults to <dataDir>/backups
+}
+
+const MANIFEST = 'manifest.json';
+
+function backupDirOf(loc: BackupLocation): string {
+  return loc.backupDir ?? path.join(loc.dataDir, 'backups');
+}
+
+// The files a backup covers. WAL files go along with the database, since the CLI can exit with
+// changes not yet checkpointed into it.
+function isStoreFile(name: string): boolean {
+  return /\.snapshot\.json$/.test(name) || name === 'storage.json' || /\.sqlite(-wal)?$/.test(name);
+}
+
+async function storeFiles(dataDir: string): Promise<BackupFile[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dataDir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  const files: BackupFile[] = [];
+  for (const name of names.filter(isStoreFile).sort()) {
+    const file = path.join(dataDir, name);
+    const stat = await fs.stat(file);
+    if (stat.isFile()) files.push({ name, sha256: await sha256File(file), bytes: stat.size });
+  }
+  return files;
+}
+
+function sameFiles(a: BackupFile[], b: BackupFile[]): boolean {
+  return a.length === b.length && a.every((f, i) => f.name === b[i].name && f.sha256 === b[i].sha256);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Creating and listing
+// ─────────────────────────────────────────────────────────────
+
+// Oldest first; directories without a readable manifest (e.g. an interrupted backup) are skipped.
+export async function listBackups(loc: BackupLocation): Promise<BackupManifest[]> {
+  const dir = backupDirOf(loc);
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  const manifests: BackupManifest[] = [];
+  for (const name of names) {
+    if (name.endsWith('.tmp')) continue;
+    try {
+      manifests.push(JSON.parse(await fs.readFile(path.join(dir, name, MANIFEST), 'utf8')));
+    } catch {
+      continue;
+    }
+  }
+  return manifests.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+// Copies into a temp directory and renames it into place, so a listed backup is always complete.
+export async function createBackup(loc: BackupLocation, reason: BackupReason, clock: () => ISODateTimeString): Promise<BackupManifest> {
+  const dir = backupDirOf(loc);
+  const created_at = clock();
+  const stamp = created_at.replace(/[:.]/g, '-');
+  let id = stamp;
+  for (let n = 2; await fs.stat(path.join(dir, id)).then(() => true, () => false); n++) id = `${stamp}-${n}`;
+  const tmp = path.join(dir, `${id}.tmp`);
+  await fs.mkdir(tmp, { recursive: true });
+  const files: BackupFile[] = [];
+  for (const f of await storeFiles(loc.dataDir)) {
+    await fs.copyFile(path.join(loc.dataDir, f.name), path.join(tmp, f.name));
+    // Hash the copy: the original may have been rewritten between listing and copying
+    files.push({ name: f.name, sha256: await sha256File(path.join(tmp, f.name)), bytes: (await fs.stat(path.join(tmp, f.name))).size });
+  }
+  const manifest: BackupManifest = { version: 1, id, created_at, reason, files };
+  await fs.writeFile(path.join(tmp, MANIFEST), JSON.stringify(manifest, null, 2), 'utf8');
+  await fs.rename(tmp, path.join(dir, id));
+  return manifest;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Retention
+// ─────────────────────────────────────────────────────────────
+
+function weekKey(iso: string): string {
+  const d = new Date(iso.slice(0, 10) + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7)); // back to Monday
+  return d.toISOString().slice(0, 10);
+}
+
+// The backups the policy no longer keeps.
+export function backupsToPrune(backups: BackupManifest[], retention: BackupRetention): BackupManifest[] {
+  const newestFirst = [...backups].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const keep = new Set<string>(newestFirst.slice(0, Math.max(1, retention.last)).map(b => b.id));
+  const buckets: [number, (b: BackupManifest) => string][] = [
+    [retention.hourly, b => b.created_at.slice(0, 13)],
+    [retention.daily, b => b.created_at.slice(0, 10)],
+    [retention.weekly, b => weekKey(b.created_at)],
+  ];
+  for (const [count, key] of buckets) {
+    const seen = new Set<string>();
+    for (const b of newestFirst) {
+      const k = key(b);
+      if (seen.has(k)) continue;
+      if (seen.size >= count) break;
+      seen.add(k);
+      keep.add(b.id);
+    }
+  }
+  return newestFirst.filter(b => !keep.has(b.id)).reverse();
+}
+
+export async function pruneBackups(loc: BackupLocation, retention: BackupRetention): Promise<BackupManifest[]> {
+  const pruned = backupsToPrune(await listBackups(loc), retention);
+  for (const b of pruned) await fs.rm(path.join(backupDirOf(loc), b.id), { recursive: true, force: true });
+  return pruned;
+}
+
+// Backs up the store when it differs from the newest backup, then applies the retention policy.
+// Returns the new backup, or null when nothing changed.
+export async function autoBackup(loc: BackupLocation, retention: BackupRetention, clock: () => ISODateTimeString): Promise<BackupManifest | null> {
+  const current = await storeFiles(loc.dataDir);
+  if (!current.length) return null;
+  const backups = await listBackups(loc);
+  const latest = backups[backups.length - 1];
+  if (latest && sameFiles(latest.files, current)) return null;
+  const manifest = await createBackup(loc, 'auto', clock);
+  await pruneBackups(loc, retention);
+  return manifest;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Restore
+// ─────────────────────────────────────────────────────────────
+
+// The newest backup taken at or before `at`.
+export function findBackup(backups: BackupManifest[], at: string): BackupManifest {
+  const cutoff = new Date(at);
+  if (isNaN(cutoff.getTime())) throw new Error(`Invalid --at: ${at}`);
+  const found = backups.filter(b => new Date(b.created_at) <= cutoff).pop();
+  if (!found) throw new Error(`No backup at or before ${cutoff.toISOString()}${backups.length ? `; the oldest is ${backups[0].created_at}` : ''}`);
+  return found;
+}
+
+export interface RestoreResult {
+  restored: BackupManifest;
+  files: string[];
+  removed: string[];                 // store files the backup did not have
+  pre_restore: BackupManifest | null; // the state replaced, unless an identical backup already existed
+}
+
+// Puts the store files back as the backup holds them. The copies are checked against the manifest
+// first, and the current state is backed up, so a restore can itself be restored away.
+export async function restoreBackup(loc: BackupLocation, backup: BackupManifest, clock: () => ISODateTimeString): Promise<RestoreResult> {
+  const src = path.join(backupDirOf(loc), backup.id);
+  for (const f of backup.files) {
+    if (await sha256File(path.join(src, f.name)) !== f.sha256) throw new Error(`Backup ${backup.id} is damaged: ${f.name} does not match its manifest`);
+  }
+  const current = await storeFiles(loc.dataDir);
+  const latest = (await listBackups(loc)).pop();
+  const pre_restore = current.length && !(latest && sameFiles(latest.files, current)) ? await createBackup(loc, 'pre-restore', clock) : null;
+  await fs.mkdir(loc.dataDir, { recursive: true });
+  for (const f of backup.files) {
+    const tmp = path.join(loc.dataDir, `${f.name}.${Date.now()}.restore.tmp`);
+    await fs.copyFile(path.join(src, f.name), tmp);
+    await fs.rename(tmp, path.join(loc.dataDir, f.name));
+  }
+  const keep = new Set(backup.files.map(f => f.name));
+  const removed = current.map(f => f.name).filter(name => !keep.has(name));
+  // A shared-memory index left from the replaced WAL would not match the restored one
+  const shm = (await fs.readdir(loc.dataDir)).filter(name => name.endsWith('.sqlite-shm'));
+  for (const name of [...removed, ...shm]) await fs.rm(path.join(loc.dataDir, name), { force: true });
+  return { restored: backup, files: backup.files.map(f => f.name), removed, pre_restore };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Bundle (tar.gz)
+// ─────────────────────────────────────────────────────────────
+// A plain ustar archive, so `tar -xzf` unpacks it on any machine. Entries sit under the data
+// directory's name (DATA/…) with a bundle-manifest.json listing every file's hash.
+
+function tarHeader(name: string, size: number, mtime: Date): Buffer {
+  if (Buffer.byteLength(name) > 100) throw new Error(`Bundle entry name too long: ${name}`);
+  const h = Buffer.alloc(512);
+  const field = (value: string, offset: number, length: number) => h.write(value, offset, length, 'utf8');
+  const octal = (n: number, length: number) => n.toString(8).padStart(length - 1, '0');
+  field(name, 0, 100);
+  field(octal(0o644, 8), 100, 8);
+  field(octal(0, 8), 108, 8);
+  field(octal(0, 8), 116, 8);
+  field(octal(size, 12), 124, 12);
+  field(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 12);
+  field('        ', 148, 8); // checksum counts as spaces while it is computed
+  field('0', 156, 1);
+  field('ustar\u000000', 257, 8);
+  let sum = 0;
+  for (const byte of h) sum += byte;
+  field(`${octal(sum, 7)}\u0000 `, 148, 8);
+  return h;
+}
+
+function* tarBlocks(entries: { name: string; content: Buffer }[], mtime: Date): Generator<Buffer> {
+  for (const { name, content } of entries) {
+    yield tarHeader(name, content.length, mtime);
+    yield content;
+    yield Buffer.alloc((512 - (content.length % 512)) % 512);
+  }
+  yield Buffer.alloc(1024); // end of archive
+}
+
+export interface BundleResult {
+  out: string;
+  files: BackupFile[];
+}
+
+// Every store file plus the audit log with its archive segments, index and checkpoints. The signing
+// key pair is left out on purpose; move it separately if the new machine should keep signing.
+export async function createBundle(loc: BackupLocation, auditLogPath: string, out: string, clock: () => ISODateTimeString): Promise<BundleResult> {
+  const prefix = path.basename(path.resolve(loc.dataDir));
+  const sources = [
+    ...(await storeFiles(loc.dataDir)).map(f => path.join(loc.dataDir, f.name)),
+    ...(await auditSegments(auditLogPath)).map(s => s.path),
+    indexPath(auditLogPath),
+    path.join(path.dirname(auditLogPath), 'audit.checkpoints.jsonl'),
+  ];
+  const entries: { name: string; content: Buffer }[] = [];
+  for (const file of sources) {
+    try {
+      entries.push({ name: `${prefix}/${path.basename(file)}`, content: await fs.readFile(file) });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+  const files: BackupFile[] = entries.map(e => ({ name: e.name, sha256: sha256Buffer(e.content), bytes: e.content.length }));
+  const created_at = clock();
+  entries.push({ name: `${prefix}/bundle-${MANIFEST}`, content: Buffer.from(JSON.stringify({ version: 1, created_at, files }, null, 2), 'utf8') });
+  const tmp = `${out}.${Date.now()}.tmp`;
+  await fs.mkdir(path.dirname(path.resolve(out)), { recursive: true });
+  await pipeline(Readable.from(tarBlocks(entries, new Date(created_at))), createGzip(), createWriteStream(tmp));
+  await fs.rename(tmp, out);
+  return { out, files };
+}
@@ -0,0 +1,85 @@
+// Snapshot migrations — step a module's stored state from the version it was written with to the one
+// this code writes
+// Each module keeps a registry of single-step migrations (v1→v2, v2→v3, …) over its collections. On
+// load, a state older than `current` gets a backup copy first, then every step in order, and is
+// saved back at the new version. A state newer than `current` was written by a later release and
+// is refused rather than read with fields this code would drop on the next save.
+import { StorageAdapter, StoredRecord, StoredState } from './storage.js';
+
+export type StoredCollections = Record<string, StoredRecord[]>;
+
+export interface SnapshotMigration {
+  from: number; // to is always from + 1
+  description: string;
+  migrate(collections: StoredCollections): StoredCollections;
+}
+
+export interface MigrationRegistry {
+  module: string;
+  current: number; // the version this code reads and writes
+  migrations: SnapshotMigration[];
+}
+
+export interface MigrationPlan {
+  module: string;
+  from: number;
+  to: number;
+  steps: { from: number; to: number; description: string }[];
+}
+
+export function planMigration(registry: MigrationRegistry, version: number): MigrationPlan {
+  const { module, current } = registry;
+  if (!Number.isInteger(version) || version < 1) throw new Error(`${module} snapshot has an invalid version: ${version}`);
+  if (version > current) {
+    throw new Error(`${module} snapshot is version ${version}, newer than this code understands (${current}); update SPARK before opening it`);
+  }
+  const steps: MigrationPlan['steps'] = [];
+  for (let v = version; v < current; v++) {
+    const step = registry.migrations.find(m => m.from === v);
+    if (!step) throw new Error(`${module} snapshot: no migration from version ${v} to ${v + 1}`);
+    steps.push({ from: v, to: v + 1, description: step.description });
+  }
+  return { module, from: version, to: current, steps };
+}
+
+export function applyMigrations(registry: MigrationRegistry, state: StoredState): StoredState {
+  let collections = state.collections;
+  for (const step of planMigration(registry, state.version).steps) {
+    collections = registry.migrations.find(m => m.from === step.from)!.migrate(collections);
+  }
+  return { ...state, version: registry.current, collections };
+}
+
+export interface MigrationResult {
+  state: StoredState | null;
+  plan: MigrationPlan | null; // null when nothing is stored yet
+  backup: string | null;      // where the pre-migration copy went; null when no step ran
+}
+
+// Passed to the module loaders; the caller decides whether and how to report a migration.
+export interface AppliedMigration {
+  plan: MigrationPlan;
+  backup: string;
+}
+
+export type OnMigrate = (migration: AppliedMigration) => void;
+
+// Loads through the adapter and brings the state up to date. A migrated state must pass `check`
+// (the module's validators) before the backup is taken and it is saved over the old one.
+export async function loadMigrated(registry: MigrationRegistry, storage: StorageAdapter, check: (state: StoredState) => void = () => {}): Promise<MigrationResult> {
+  const stored = await storage.load();
+  if (!stored) return { state: null, plan: null, backup: null };
+  const plan = planMigration(registry, stored.version);
+  if (!plan.steps.length) return { state: stored, plan, backup: null };
+  const state = applyMigrations(registry, stored);
+  check(state);
+  const backup = await storage.backup(`v${stored.version}`);
+  await storage.save(state);
+  return { state, plan, backup };
+}
+
+// What loadMigrated would do, without writing anything.
+export async function pendingMigration(registry: MigrationRegistry, storage: StorageAdapter): Promise<MigrationPlan | null> {
+  const stored = await storage.load();
+  return stored ? planMigration(registry, stored.version) : null;
+}
@@ -0,0 +1,238 @@
+// Storage — adapter interface for module state, with a JSON snapshot and an embedded SQLite backend
+// A module describes its collections once (StorageSchema); the adapter stores each collection as an
+// array in a snapshot file, or as a table with one row per record. The module keeps validating
+// records itself; adapters only move them.
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+
+export type StorageKind = 'json' | 'sqlite';
+
+export interface StorageCollection {
+  name: string;      // snapshot key and table name, e.g. plan_items
+  indexes: string[]; // record fields copied into indexed columns, e.g. project_id
+}
+
+export interface StorageSchema {
+  module: string;
+  collections: StorageCollection[];
+}
+
+export interface StoredRecord { id: string; }
+
+export interface StoredState {
+  version: number;
+  updated_at?: string; // last write, when loaded
+  collections: Record<string, StoredRecord[]>; // every collection of the schema, in list order
+}
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  readonly location: string;
+  load(): Promise<StoredState | null>; // null when nothing has been stored yet
+  save(state: StoredState): Promise<void>;
+  backup(label: string): Promise<string>; // copies what is stored now next to it; returns the copy's path
+  close(): Promise<void>;
+}
+
+function backupStamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+// ─────────────────────────────────────────────────────────────
+// JSON snapshot
+// ─────────────────────────────────────────────────────────────
+// The file keeps the snapshot layout the modules always used: { version, updated_at, <collection>: [] }.
+let tmpSeq = 0; // two saves in the same millisecond must not share a temp file
+
+async function atomicWrite(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${Date.now()}.${++tmpSeq}.tmp`;
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export function jsonStorage(schema: StorageSchema, filePath: string): StorageAdapter {
+  return {
+    kind: 'json',
+    location: filePath,
+    async load() {
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+      const parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root not an object');
+      const collections: Record<string, StoredRecord[]> = {};
+      for (const c of schema.collections) collections[c.name] = Array.isArray(parsed[c.name]) ? parsed[c.name] : [];
+      const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : undefined;
+      return { version: typeof parsed.version === 'number' ? parsed.version : 1, updated_at, collections };
+    },
+    async save(state) {
+      const snapshot: Record<string, unknown> = { version: state.version, updated_at: new Date().toISOString() };
+      for (const c of schema.collections) snapshot[c.name] = state.collections[c.name] ?? [];
+      await atomicWrite(filePath, JSON.stringify(snapshot, null, 2));
+    },
+    async backup(label) {
+      const target = `${filePath}.${label}.${backupStamp()}.bak`;
+      await fs.copyFile(filePath, target);
+      return target;
+    },
+    async close() {},
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// SQLite
+// ─────────────────────────────────────────────────────────────
+// One table per collection: id, list position, the indexed fields, and the record as JSON. A save
+// upserts only the records that changed since the last load or save and deletes the ones that are
+// gone, in one transaction. Several modules can share one database file.
+const IDENT = /^[a-z_][a-z0-9_]*$/;
+
+function ident(name: string): string {
+  if (!IDENT.test(name)) throw new Error(`Invalid storage identifier: ${name}`);
+  return `"${name}"`;
+}
+
+async function openDatabase(filePath: string): Promise<DatabaseSync> {
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = await import('node:sqlite');
+  } catch {
+    throw new Error(`SQLite storage needs Node 22.5 or later (node:sqlite); this is Node ${process.versions.node}`);
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const db = new sqlite.DatabaseSync(filePath);
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('CREATE TABLE IF NOT EXISTS storage_meta (module TEXT PRIMARY KEY, version INTEGER NOT NULL, updated_at TEXT NOT NULL)');
+  return db;
+}
+
+export async function sqliteStorage(schema: StorageSchema, filePath: string): Promise<StorageAdapter> {
+  const db = await openDatabase(filePath);
+  for (const c of schema.collections) {
+    const cols = c.indexes.map(f => `${ident(f)} TEXT`).join(', ');
+    db.exec(`CREATE TABLE IF NOT EXISTS ${ident(c.name)} (id TEXT PRIMARY KEY, pos INTEGER NOT NULL, ${cols ? cols + ', ' : ''}data TEXT NOT NULL)`);
+    for (const f of c.indexes) db.exec(`CREATE INDEX IF NOT EXISTS ${ident(`${c.name}_${f}`)} ON ${ident(c.name)} (${ident(f)})`);
+  }
+  // What each row held after the last load or save, as "pos:json"
+  let written = new Map<string, Map<string, string>>(schema.collections.map(c => [c.name, new Map()]));
+
+  return {
+    kind: 'sqlite',
+    location: filePath,
+    async load() {
+      const meta = db.prepare('SELECT version, updated_at FROM storage_meta WHERE module = ?').get(schema.module) as { version: number; updated_at: string } | undefined;
+      if (!meta) return null;
+      const collections: Record<string, StoredRecord[]> = {};
+      const loaded = new Map<string, Map<string, string>>();
+      for (const c of schema.collections) {
+        const rows = db.prepare(`SELECT id, pos, data FROM ${ident(c.name)} ORDER BY pos`).all() as { id: string; pos: number; data: string }[];
+        collections[c.name] = rows.map(r => JSON.parse(r.data));
+        loaded.set(c.name, new Map(rows.map(r => [r.id, `${r.pos}:${r.data}`])));
+      }
+      written = loaded;
+      return { version: meta.version, updated_at: meta.updated_at, collections };
+    },
+    async save(state) {
+      const next = new Map<string, Map<string, string>>();
+      db.exec('BEGIN');
+      try {
+        for (const c of schema.collections) {
+          const cols = ['id', 'pos', ...c.indexes, 'data'];
+          const upsert = db.prepare(
+            `INSERT INTO ${ident(c.name)} (${cols.map(ident).join(', ')}) VALUES (${cols.map(() => '?').join(', ')}) ` +
+            `ON CONFLICT(id) DO UPDATE SET ${cols.slice(1).map(col => `${ident(col)} = excluded.${ident(col)}`).join(', ')}`,
+          );
+          const remove = db.prepare(`DELETE FROM ${ident(c.name)} WHERE id = ?`);
+          const before = written.get(c.name) ?? new Map<string, string>();
+          const after = new Map<string, string>();
+          (state.collections[c.name] ?? []).forEach((rec, pos) => {
+            const data = JSON.stringify(rec);
+            const row = `${pos}:${data}`;
+            after.set(rec.id, row);
+            if (before.get(rec.id) === row) return;
+            const indexed = c.indexes.map(f => {
+              const v = (rec as unknown as Record<string, unknown>)[f];
+              return v === undefined || v === null ? null : String(v);
+            });
+            upsert.run(rec.id, pos, ...indexed, data);
+          });
+          for (const id of before.keys()) if (!after.has(id)) remove.run(id);
+          next.set(c.name, after);
+        }
+        db.prepare('INSERT INTO storage_meta (module, version, updated_at) VALUES (?, ?, ?) ON CONFLICT(module) DO UPDATE SET version = excluded.version, updated_at = excluded.updated_at')
+          .run(schema.module, state.version, new Date().toISOString());
+        db.exec('COMMIT');
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+      written = next;
+    },
+    // The whole database file, since modules share it
+    async backup(label) {
+      const target = `${filePath}.${schema.module}-${label}.${backupStamp()}.bak`;
+      db.exec(`VACUUM INTO '${target.replace(/'/g, "''")}'`);
+      return target;
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Backend selection
+// ─────────────────────────────────────────────────────────────
+// DATA/storage.json names the backend; without it every module keeps its JSON snapshot.
+export interface StorageConfig {
+  backend: StorageKind;
+  path?: string; // SQLite database file; defaults to DATA/spark.sqlite
+}
+
+const DEFAULT_CONFIG_FILE = path.join(process.cwd(), 'DATA', 'storage.json');
+export const DEFAULT_SQLITE_FILE = path.join(process.cwd(), 'DATA', 'spark.sqlite');
+
+export async function loadStorageConfig(filePath: string = DEFAULT_CONFIG_FILE): Promise<StorageConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { backend: 'json' };
+    throw err;
+  }
+  const parsed = JSON.parse(raw);
+  if (parsed.backend !== 'json' && parsed.backend !== 'sqlite') throw new Error(`Unknown storage backend in ${filePath}: ${parsed.backend}`);
+  return { backend: parsed.backend, path: typeof parsed.path === 'string' ? parsed.path : undefined };
+}
+
+export async function saveStorageConfig(config: StorageConfig, filePath: string = DEFAULT_CONFIG_FILE): Promise<void> {
+  await atomicWrite(filePath, JSON.stringify(config, null, 2));
+}
+
+// The adapter a module should use under `config`; `jsonFile` is its snapshot file.
+export async function openStorage(config: StorageConfig, schema: StorageSchema, jsonFile: string): Promise<StorageAdapter> {
+  switch (config.backend) {
+    case 'json': return jsonStorage(schema, jsonFile);
+    case 'sqlite': return sqliteStorage(schema, config.path ?? DEFAULT_SQLITE_FILE);
+    default: {
+      const _exhaustive: never = config.backend;
+      return _exhaustive;
+    }
+  }
+}
+
+// Copies a module's state from one adapter to another, replacing what the target held; returns the
+// records per collection.
+export async function copyStorage(from: StorageAdapter, to: StorageAdapter): Promise<Record<string, number>> {
+  const state = await from.load();
+  if (!state) return {};
+  await to.load(); // so records the target holds but the source does not are deleted
+  await to.save(state);
+  return Object.fromEntries(Object.entries(state.collections).map(([name, recs]) => [name, recs.length]));
+}
@@ -0,0 +1,90 @@
+// Transactions — stage changes to Master Plan and Outreach together and keep all or none of them
+// The callback runs the ordinary service functions against staged copies (tx.masterPlan, tx.outreach).
+// Nothing reaches the real stores until it returns: then every staged record is validated, both
+// stores are swapped in and persisted, and only then are the staged audit events written, all under
+// one op_id so audit:undo takes the whole transaction back at once. Any throw before that leaves the
+// stores exactly as they were.
+import { MasterPlanData } from '../MODULES/masterPlan/masterPlanService.js';
+import { OutreachData } from '../MODULES/outreach/outreachService.js';
+import { validateProject, validatePlanItem } from '../MODULES/masterPlan/masterPlanValidators.js';
+import { validateContactCategory, validateContact, validateOutreachAction, validateFollowUpItem, validateOutcomeRecord } from '../MODULES/outreach/outreachValidators.js';
+import { UUID } from '../DOMAIN/sparkModels.js';
+
+export interface TransactionTargets {
+  masterPlan: MasterPlanData;
+  outreach: OutreachData;
+}
+
+export interface Transaction {
+  id: UUID;                 // op_id of the audit events it writes
+  masterPlan: MasterPlanData; // staged; pass to masterPlanService functions
+  outreach: OutreachData;     // staged; pass to outreachService functions
+}
+
+type MasterPlanAuditEvent = Parameters<NonNullable<MasterPlanData['audit']>>[0];
+type OutreachAuditEvent = Parameters<NonNullable<OutreachData['audit']>>[0];
+
+function clone<T>(v: T): T { return JSON.parse(JSON.stringify(v)); }
+
+function masterPlanState(mp: MasterPlanData) {
+  return { projects: mp.projects, planItems: mp.planItems };
+}
+
+function outreachState(o: OutreachData) {
+  return { categories: o.categories, contacts: o.contacts, outreachActions: o.outreachActions, followUps: o.followUps, outcomes: o.outcomes };
+}
+
+// Every staged record must pass its validator; reports the first one that does not.
+function validateStaged(tx: Transaction): void {
+  const check = <T>(label: string, records: T[], validate: (v: unknown) => T) => records.forEach((r, i) => {
+    try { validate(r); } catch (e) { throw new Error(`${label}[${i}] invalid: ${(e as Error).message}`); }
+  });
+  check('Project', tx.masterPlan.projects, validateProject);
+  check('PlanItem', tx.masterPlan.planItems, validatePlanItem);
+  check('Category', tx.outreach.categories, validateContactCategory);
+  check('Contact', tx.outreach.contacts, validateContact);
+  check('OutreachAction', tx.outreach.outreachActions, validateOutreachAction);
+  check('FollowUp', tx.outreach.followUps, validateFollowUpItem);
+  check('Outcome', tx.outreach.outcomes, validateOutcomeRecord);
+}
+
+export async function withTransaction<T>(core: TransactionTargets, fn: (tx: Transaction) => T | Promise<T>): Promise<T> {
+  const { masterPlan: mp, outreach: o } = core;
+  const before = { masterPlan: masterPlanState(mp), outreach: outreachState(o) };
+  const fingerprint = JSON.stringify(before);
+  const staged: ({ store: 'masterPlan'; ev: MasterPlanAuditEvent } | { store: 'outreach'; ev: OutreachAuditEvent })[] = [];
+  const tx: Transaction = {
+    id: mp.uuid(),
+    masterPlan: { ...mp, ...clone(before.masterPlan), persist: undefined, audit: ev => { staged.push({ store: 'masterPlan', ev: clone(ev) }); } },
+    outreach: { ...o, ...clone(before.outreach), persist: undefined, audit: ev => { staged.push({ store: 'outreach', ev: clone(ev) }); } },
+  };
+
+  let result: T;
+  try {
+    result = await fn(tx);
+    validateStaged(tx);
+  } catch (err) {
+    throw new Error(`Transaction rolled back: ${(err as Error).message}`);
+  }
+  // An await inside the callback lets other code run; its changes would be silently overwritten
+  if (JSON.stringify({ masterPlan: masterPlanState(mp), outreach: outreachState(o) }) !== fingerprint) {
+    throw new Error('Transaction rolled back: Master Plan or Outreach changed outside the transaction while it ran');
+  }
+
+  Object.assign(mp, masterPlanState(tx.masterPlan));
+  Object.assign(o, outreachState(tx.outreach));
+  try {
+    await Promise.all([mp.persist?.(), o.persist?.()]);
+  } catch (err) {
+    Object.assign(mp, before.masterPlan);
+    Object.assign(o, before.outreach);
+    // Put back whichever snapshot was already written
+    await Promise.allSettled([mp.persist?.(), o.persist?.()]);
+    throw new Error(`Transaction rolled back: ${(err as Error).message}`);
+  }
+  for (const s of staged) {
+    if (s.store === 'masterPlan') { if (mp.audit) void mp.audit({ ...s.ev, op_id: tx.id }); }
+    else if (o.audit) void o.audit({ ...s.ev, op_id: tx.id });
+  }
+  return result;
+}
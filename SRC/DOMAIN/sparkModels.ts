@@ -5,6 +5,18 @@ export type UUID = string;
 export type ISODateString = string;        // e.g. '2025-11-13'
 export type ISODateTimeString = string;    // e.g. '2025-11-13T23:15:00Z'
 
+// Recurrence (RRULE-like subset) shared by PlanItem and FollowUpItem. Occurrence n falls on
+// start + n × interval periods; monthly dates past the end of a month clamp to its last day.
+export type RecurrenceFrequency = 'Daily' | 'Weekly' | 'Monthly';
+
+export interface RecurrenceRule {
+   frequency: RecurrenceFrequency;
+   interval: number;             // every N days / weeks / months
+   start: ISODateString;         // due date of the first occurrence
+   until: ISODateString | null;  // no occurrence after this date
+   count: number | null;         // total occurrences in the series
+}
+
 // ─────────────────────────────────────────────────────────────
 // Project & Planning
 // ─────────────────────────────────────────────────────────────
@@ -43,11 +55,38 @@ export interface PlanItem {
    due_date: ISODateString | null;
    priority: PlanItemPriority;
    checklist: PlanItemChecklistItem[];
+   depends_on: UUID[];  // prerequisite plan items in the same project ("blocked by")
+   recurrence: RecurrenceRule | null;
+   series_id: UUID | null; // shared by every occurrence of a recurring item (the first occurrence's id)
    notes: string;
    created_at: ISODateTimeString;
    updated_at: ISODateTimeString;
 }
 
+// Plan templates: reusable task sets stored as JSON in DATA/templates/<id>.json
+export type TemplateOffsetUnit = 'Calendar' | 'Business';
+
+export interface PlanTemplateTask {
+   key: string;                  // unique within the template; referenced by depends_on
+   title: string;
+   description: string;
+   category: PlanItemCategory;
+   priority: PlanItemPriority;
+   offset_days: number | null;   // from the start date; null = no due date
+   offset_unit: TemplateOffsetUnit;
+   checklist: string[];
+   depends_on: string[];         // keys of prerequisite tasks
+   notes: string;
+}
+
+export interface PlanTemplate {
+   id: string;                   // slug, also the file name
+   name: string;
+   description: string;
+   tasks: PlanTemplateTask[];
+   created_at: ISODateTimeString;
+}
+
 // ─────────────────────────────────────────────────────────────
 // Daily Log
 // ─────────────────────────────────────────────────────────────
@@ -256,6 +295,8 @@ export interface FollowUpItem {
    due_date: ISODateString;
    status: FollowUpStatus;
    notes: string;
+   recurrence: RecurrenceRule | null;
+   series_id: UUID | null; // shared by every occurrence of a recurring follow-up
    created_at: ISODateTimeString;
 }
 
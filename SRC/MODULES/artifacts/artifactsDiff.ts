@@ -0,0 +1,89 @@
+// Artifacts Diff — line diff (LCS) and unified-diff rendering for text/Markdown drafts
+// Pure functions; no file access.
+
+export type DiffOpKind = 'equal' | 'add' | 'remove';
+
+export interface DiffOp {
+  kind: DiffOpKind;
+  line: string;
+  a_line: number | null; // 1-based line number in the "from" text
+  b_line: number | null; // 1-based line number in the "to" text
+}
+
+export function splitLines(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n');
+  if (normalized === '') return [];
+  return (normalized.endsWith('\n') ? normalized.slice(0, -1) : normalized).split('\n');
+}
+
+// Classic LCS table over the middle section once common prefix/suffix are trimmed.
+// Letters and packets are a few hundred lines, so O(n·m) memory is acceptable here.
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start;
+  const m = endB - start;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[at(i, j)] = a[start + i] === b[start + j] ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < start; k++) ops.push({ kind: 'equal', line: a[k], a_line: k + 1, b_line: k + 1 });
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ kind: 'equal', line: a[start + i], a_line: start + i + 1, b_line: start + j + 1 });
+      i++; j++;
+    } else if (i < n && (j === m || lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])) {
+      // On ties take the removal first, so a changed line reads -old then +new
+      ops.push({ kind: 'remove', line: a[start + i], a_line: start + i + 1, b_line: null });
+      i++;
+    } else {
+      ops.push({ kind: 'add', line: b[start + j], a_line: null, b_line: start + j + 1 });
+      j++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) ops.push({ kind: 'equal', line: a[endA + k], a_line: endA + k + 1, b_line: endB + k + 1 });
+  return ops;
+}
+
+// Render ops in unified diff format with `context` unchanged lines around each change.
+export function renderUnifiedDiff(fromLabel: string, toLabel: string, ops: DiffOp[], context = 3): string {
+  const out: string[] = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  const changed = ops.map((op, idx) => (op.kind === 'equal' ? -1 : idx)).filter(idx => idx >= 0);
+  if (changed.length === 0) return out.join('\n') + '\n';
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const idx of changed) {
+    const lo = Math.max(0, idx - context);
+    const hi = Math.min(ops.length - 1, idx + context);
+    const last = hunks[hunks.length - 1];
+    if (last && lo <= last[1] + 1) last[1] = Math.max(last[1], hi);
+    else hunks.push([lo, hi]);
+  }
+
+  for (const [lo, hi] of hunks) {
+    const slice = ops.slice(lo, hi + 1);
+    const aCount = slice.filter(op => op.kind !== 'add').length;
+    const bCount = slice.filter(op => op.kind !== 'remove').length;
+    // Start lines: first line present on each side, or the line before an empty range (diff convention)
+    const aStart = slice.find(op => op.a_line !== null)?.a_line ?? (ops.slice(0, lo).filter(op => op.kind !== 'add').length);
+    const bStart = slice.find(op => op.b_line !== null)?.b_line ?? (ops.slice(0, lo).filter(op => op.kind !== 'remove').length);
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for (const op of slice) {
+      const prefix = op.kind === 'equal' ? ' ' : op.kind === 'add' ? '+' : '-';
+      out.push(prefix + op.line);
+    }
+  }
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,77 @@
+// Artifacts Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Artifact, ArtifactVersion, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateArtifact, validateArtifactVersion } from './artifactsValidators.js';
+import { ArtifactsData } from './artifactsService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface ArtifactsSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  artifacts: Artifact[];
+  versions: ArtifactVersion[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'artifacts.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): ArtifactsSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), artifacts: [], versions: [] };
+}
+
+export async function loadArtifactsSnapshot(filePath: string = DEFAULT_FILE): Promise<ArtifactsSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const artifactsRaw = Array.isArray(parsed.artifacts) ? parsed.artifacts : [];
+    const versionsRaw = Array.isArray(parsed.versions) ? parsed.versions : [];
+    return {
+      version,
+      updated_at,
+      artifacts: artifactsRaw.map((a: unknown, i: number) => { try { return validateArtifact(a); } catch (e) { throw new Error(`Artifact[${i}] invalid: ${(e as Error).message}`); } }),
+      versions: versionsRaw.map((v: unknown, i: number) => { try { return validateArtifactVersion(v); } catch (e) { throw new Error(`ArtifactVersion[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load artifacts snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveArtifactsSnapshot(snapshot: ArtifactsSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: ArtifactsSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadArtifactsData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<ArtifactsData> {
+  const snap = await loadArtifactsSnapshot(filePath);
+  const data: ArtifactsData = {
+    artifacts: snap.artifacts,
+    versions: snap.versions,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: ArtifactsSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        artifacts: data.artifacts.map(a => validateArtifact(a)),
+        versions: data.versions.map(v => validateArtifactVersion(v)),
+      };
+      await saveArtifactsSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
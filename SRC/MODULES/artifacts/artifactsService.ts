@@ -0,0 +1,259 @@
+// Artifacts Service — versioned appeal letters/packets with a Draft → Ready → Production workflow
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// Each production release is its own Artifact; promoting a new one archives the previous release.
+
+import {
+  Artifact,
+  ArtifactType,
+  ArtifactStatus,
+  ArtifactVersion,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { validateArtifact, validateArtifactVersion } from './artifactsValidators.js';
+
+export interface ArtifactsData {
+  artifacts: Artifact[];
+  versions: ArtifactVersion[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'Artifact' | 'ArtifactVersion';
+    change_type: 'Create' | 'Update' | 'Delete' | 'StatusChange';
+    entity_id: UUID;
+    project_id?: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+    actor?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyArtifactsData(idGen: () => UUID, clock: () => ISODateTimeString): ArtifactsData {
+  return { artifacts: [], versions: [], uuid: idGen, now: clock };
+}
+
+// UI tokens kept in sync with status so consumers never compute colours themselves.
+export const ARTIFACT_STATUS_COLORS: Record<ArtifactStatus, string> = {
+  Draft: '#9ca3af',
+  Ready: '#2563eb',
+  Production: '#16a34a',
+  Archived: '#6b7280',
+};
+
+// ─────────────────────────────────────────────────────────────
+// Status workflow
+// ─────────────────────────────────────────────────────────────
+export function allowedArtifactTransitions(from: ArtifactStatus): ArtifactStatus[] {
+  switch (from) {
+    case 'Draft':
+      return ['Ready', 'Archived'];
+    case 'Ready':
+      return ['Draft', 'Production', 'Archived'];
+    case 'Production':
+      return ['Archived'];
+    case 'Archived':
+      return [];
+    default: {
+      const _exhaustive: never = from;
+      return _exhaustive;
+    }
+  }
+}
+
+export function isLegalArtifactTransition(from: ArtifactStatus, to: ArtifactStatus): boolean {
+  return allowedArtifactTransitions(from).includes(to);
+}
+
+function setStatus(data: ArtifactsData, artifact: Artifact, to: ArtifactStatus, detail: string, actor?: string): void {
+  const before: Artifact = { ...artifact };
+  artifact.status = to;
+  artifact.color_by_status = ARTIFACT_STATUS_COLORS[to];
+  artifact.updated_at = data.now();
+  validateArtifact(artifact);
+  if (data.audit) void data.audit({ entity_type: 'Artifact', change_type: 'StatusChange', entity_id: artifact.id, project_id: artifact.project_id, before, after: artifact, detail, actor });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Artifact CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateArtifactInput {
+  project_id: UUID;
+  type: ArtifactType;
+  name: string;
+}
+
+export function createArtifact(data: ArtifactsData, input: CreateArtifactInput): Artifact {
+  const artifact: Artifact = {
+    id: data.uuid(),
+    project_id: input.project_id,
+    type: input.type,
+    name: input.name.trim(),
+    status: 'Draft',
+    color_by_status: ARTIFACT_STATUS_COLORS.Draft,
+    current_file_path: '',
+    production_published_date: null,
+    previous_production_artifact_id: null,
+    created_at: data.now(),
+    updated_at: data.now(),
+  };
+  validateArtifact(artifact);
+  data.artifacts.push(artifact);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Artifact', change_type: 'Create', entity_id: artifact.id, project_id: artifact.project_id, after: artifact });
+  return artifact;
+}
+
+export function renameArtifact(data: ArtifactsData, id: UUID, name: string): Artifact | null {
+  const artifact = data.artifacts.find(a => a.id === id);
+  if (!artifact) return null;
+  const before: Artifact = { ...artifact };
+  artifact.name = name.trim();
+  artifact.updated_at = data.now();
+  validateArtifact(artifact);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Artifact', change_type: 'Update', entity_id: artifact.id, project_id: artifact.project_id, before, after: artifact });
+  return artifact;
+}
+
+// Only drafts can be deleted; anything that reached Ready or beyond may have been sent to someone.
+export function deleteArtifact(data: ArtifactsData, id: UUID): boolean {
+  const idx = data.artifacts.findIndex(a => a.id === id);
+  if (idx === -1) return false;
+  const before = data.artifacts[idx];
+  if (before.status !== 'Draft') throw new Error(`Cannot delete artifact in status ${before.status}; archive it instead`);
+  const removedVersions = data.versions.filter(v => v.artifact_id === id);
+  data.versions = data.versions.filter(v => v.artifact_id !== id);
+  data.artifacts.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    void data.audit({ entity_type: 'Artifact', change_type: 'Delete', entity_id: id, project_id: before.project_id, before });
+    for (const v of removedVersions) {
+      void data.audit({ entity_type: 'ArtifactVersion', change_type: 'Delete', entity_id: v.id, project_id: before.project_id, before: v, detail: 'Cascade delete due to artifact removal' });
+    }
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Versions
+// ─────────────────────────────────────────────────────────────
+export interface RegisterVersionInput {
+  version_label: string;
+  file_path: string;
+  notes?: string;
+}
+
+// New wording invalidates any review, so a Ready artifact drops back to Draft.
+export function registerVersion(data: ArtifactsData, artifact_id: UUID, input: RegisterVersionInput): ArtifactVersion {
+  const artifact = data.artifacts.find(a => a.id === artifact_id);
+  if (!artifact) throw new Error('Artifact not found');
+  if (artifact.status === 'Production' || artifact.status === 'Archived') {
+    throw new Error(`Cannot add versions to a ${artifact.status} artifact; create a new artifact for the next release`);
+  }
+  const label = input.version_label.trim();
+  if (data.versions.some(v => v.artifact_id === artifact_id && v.version_label === label)) throw new Error(`Version ${label} already exists`);
+  if (artifact.status === 'Ready') setStatus(data, artifact, 'Draft', `New version ${label} requires re-review`);
+  const version: ArtifactVersion = {
+    id: data.uuid(),
+    artifact_id,
+    version_label: label,
+    status_at_time: artifact.status,
+    file_path: input.file_path.trim(),
+    notes: input.notes?.trim() || '',
+    created_at: data.now(),
+  };
+  validateArtifactVersion(version);
+  data.versions.push(version);
+  artifact.current_file_path = version.file_path;
+  artifact.updated_at = data.now();
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ArtifactVersion', change_type: 'Create', entity_id: version.id, project_id: artifact.project_id, after: version });
+  return version;
+}
+
+export function listVersions(data: ArtifactsData, artifact_id: UUID): ArtifactVersion[] {
+  return data.versions.filter(v => v.artifact_id === artifact_id).sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export function findVersion(data: ArtifactsData, artifact_id: UUID, version_label: string): ArtifactVersion | null {
+  return data.versions.find(v => v.artifact_id === artifact_id && v.version_label === version_label.trim()) || null;
+}
+
+export function artifactVersionExists(data: ArtifactsData, version_id: UUID): boolean {
+  return data.versions.some(v => v.id === version_id);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Promotion
+// ─────────────────────────────────────────────────────────────
+export interface PromoteOptions {
+  by?: string;            // who performed the promotion; recorded on the audit event
+  version_label?: string; // pin current_file_path to this version before promoting
+}
+
+export function promoteArtifact(data: ArtifactsData, id: UUID, to: ArtifactStatus, opts: PromoteOptions = {}): Artifact {
+  const artifact = data.artifacts.find(a => a.id === id);
+  if (!artifact) throw new Error('Artifact not found');
+  if (!isLegalArtifactTransition(artifact.status, to)) {
+    const allowed = allowedArtifactTransitions(artifact.status);
+    throw new Error(`Illegal transition ${artifact.status} → ${to}${allowed.length ? ` (allowed: ${allowed.join(', ')})` : ''}`);
+  }
+  if (opts.version_label) {
+    const pinned = findVersion(data, id, opts.version_label);
+    if (!pinned) throw new Error(`Version ${opts.version_label} not found`);
+    artifact.current_file_path = pinned.file_path;
+  }
+  if ((to === 'Ready' || to === 'Production') && !data.versions.some(v => v.artifact_id === id)) {
+    throw new Error(`Cannot move to ${to} without at least one version`);
+  }
+
+  if (to === 'Production') {
+    if (!opts.by || !opts.by.trim()) throw new Error('Promotion to Production requires who performed it');
+    // Archive the release this one supersedes (same project & artifact type)
+    const previous = data.artifacts.find(a => a.id !== id && a.project_id === artifact.project_id && a.type === artifact.type && a.status === 'Production');
+    if (previous) {
+      setStatus(data, previous, 'Archived', `Superseded by ${artifact.name}`, opts.by);
+      artifact.previous_production_artifact_id = previous.id;
+    }
+    artifact.production_published_date = data.now();
+    setStatus(data, artifact, 'Production', `Promoted to Production by ${opts.by.trim()}`, opts.by.trim());
+  } else {
+    setStatus(data, artifact, to, `Status changed to ${to}${opts.by ? ` by ${opts.by}` : ''}`, opts.by);
+  }
+  if (data.persist) void data.persist();
+  return artifact;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Query Helpers
+// ─────────────────────────────────────────────────────────────
+export interface ArtifactFilter {
+  project_id?: UUID;
+  type?: ArtifactType[];
+  status?: ArtifactStatus[];
+}
+
+export function filterArtifacts(data: ArtifactsData, filter: ArtifactFilter): Artifact[] {
+  return data.artifacts.filter(a => {
+    if (filter.project_id && a.project_id !== filter.project_id) return false;
+    if (filter.type && !filter.type.includes(a.type)) return false;
+    if (filter.status && !filter.status.includes(a.status)) return false;
+    return true;
+  });
+}
+
+// Walk previous_production_artifact_id links from the given release back to the first.
+export function productionHistory(data: ArtifactsData, id: UUID): Artifact[] {
+  const chain: Artifact[] = [];
+  const seen = new Set<UUID>();
+  let cur = data.artifacts.find(a => a.id === id) || null;
+  while (cur && !seen.has(cur.id)) {
+    seen.add(cur.id);
+    chain.push(cur);
+    const prevId: UUID | null = cur.previous_production_artifact_id;
+    cur = prevId ? data.artifacts.find(a => a.id === prevId) || null : null;
+  }
+  return chain;
+}
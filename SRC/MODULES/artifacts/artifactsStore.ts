@@ -0,0 +1,100 @@
+// Artifacts Store — content-addressed file store for artifact versions
+// Files are copied to DATA/artifacts/<first two hex chars>/<sha256><ext>; the path itself carries
+// the expected digest, so every read can be verified against tampering or disk corruption.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ArtifactVersion, UUID } from '../../DOMAIN/sparkModels.js';
+import { sha256File, sha256Buffer } from '../../CORE/contentHash.js';
+import { ArtifactsData, registerVersion, findVersion } from './artifactsService.js';
+import { diffLines, renderUnifiedDiff, splitLines } from './artifactsDiff.js';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), 'DATA', 'artifacts');
+
+export interface StoredFile {
+  sha256: string;
+  size: number;
+  stored_path: string; // relative to cwd, forward slashes; suitable for ArtifactVersion.file_path
+}
+
+function toPortablePath(p: string): string {
+  return path.relative(process.cwd(), path.resolve(p)).split(path.sep).join('/');
+}
+
+export async function storeFile(sourcePath: string, storeDir: string = DEFAULT_STORE_DIR): Promise<StoredFile> {
+  const sha256 = await sha256File(sourcePath);
+  const ext = path.extname(sourcePath).toLowerCase();
+  const dest = path.join(storeDir, sha256.slice(0, 2), sha256 + ext);
+  const size = (await fs.stat(sourcePath)).size;
+  try {
+    await fs.access(dest);
+  } catch {
+    // Same content is stored once; copy via temp file so a crash never leaves a half-written blob
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    const tmp = dest + '.' + Date.now() + '.tmp';
+    await fs.copyFile(sourcePath, tmp);
+    await fs.rename(tmp, dest);
+  }
+  return { sha256, size, stored_path: toPortablePath(dest) };
+}
+
+// The expected digest is the stored file's basename without extension.
+export function expectedHashOf(storedPath: string): string | null {
+  const base = path.basename(storedPath, path.extname(storedPath));
+  return /^[0-9a-f]{64}$/.test(base) ? base : null;
+}
+
+export async function readVerified(storedPath: string): Promise<Buffer> {
+  const expected = expectedHashOf(storedPath);
+  if (!expected) throw new Error(`Not a content-addressed path: ${storedPath}`);
+  const buf = await fs.readFile(storedPath);
+  const actual = sha256Buffer(buf);
+  if (actual !== expected) throw new Error(`Integrity check failed for ${storedPath}: expected ${expected}, got ${actual}`);
+  return buf;
+}
+
+export interface RegisterStoredVersionInput {
+  version_label: string;
+  source_path: string;
+  notes?: string;
+}
+
+export async function registerStoredVersion(data: ArtifactsData, artifact_id: UUID, input: RegisterStoredVersionInput, storeDir: string = DEFAULT_STORE_DIR): Promise<ArtifactVersion> {
+  if (!data.artifacts.some(a => a.id === artifact_id)) throw new Error('Artifact not found');
+  const stored = await storeFile(input.source_path, storeDir);
+  return registerVersion(data, artifact_id, { version_label: input.version_label, file_path: stored.stored_path, notes: input.notes });
+}
+
+export interface VerifyResult {
+  version_id: UUID;
+  version_label: string;
+  file_path: string;
+  ok: boolean;
+  error?: string;
+}
+
+export async function verifyArtifactFiles(data: ArtifactsData, artifact_id?: UUID): Promise<VerifyResult[]> {
+  const versions = data.versions.filter(v => !artifact_id || v.artifact_id === artifact_id);
+  const results: VerifyResult[] = [];
+  for (const v of versions) {
+    try {
+      await readVerified(v.file_path);
+      results.push({ version_id: v.id, version_label: v.version_label, file_path: v.file_path, ok: true });
+    } catch (e) {
+      results.push({ version_id: v.id, version_label: v.version_label, file_path: v.file_path, ok: false, error: (e as Error).message });
+    }
+  }
+  return results;
+}
+
+// Line diff between two stored text/Markdown versions of the same artifact.
+export async function diffArtifactVersions(data: ArtifactsData, artifact_id: UUID, fromLabel: string, toLabel: string, context = 3): Promise<string> {
+  const from = findVersion(data, artifact_id, fromLabel);
+  const to = findVersion(data, artifact_id, toLabel);
+  if (!from) throw new Error(`Version ${fromLabel} not found`);
+  if (!to) throw new Error(`Version ${toLabel} not found`);
+  const [a, b] = await Promise.all([readVerified(from.file_path), readVerified(to.file_path)]);
+  if (a.includes(0) || b.includes(0)) throw new Error('Binary files cannot be diffed line by line');
+  const ops = diffLines(splitLines(a.toString('utf8')), splitLines(b.toString('utf8')));
+  return renderUnifiedDiff(`${from.version_label} (${from.file_path})`, `${to.version_label} (${to.file_path})`, ops, context);
+}
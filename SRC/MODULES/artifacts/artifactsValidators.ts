@@ -0,0 +1,64 @@
+// Artifacts Validators — runtime checks for Artifact, ArtifactVersion
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  Artifact,
+  ArtifactType,
+  ArtifactStatus,
+  ArtifactVersion,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+
+export const ARTIFACT_TYPES: ArtifactType[] = ['AppealLetter','Timeline','SummaryPacket','OnePager','Script','Other'];
+export const ARTIFACT_STATUS: ArtifactStatus[] = ['Draft','Ready','Production','Archived'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateArtifact(input: unknown): Artifact {
+  if (!isObj(input)) fail('Artifact','must be object');
+  const { id, project_id, type, name, status, color_by_status, current_file_path, production_published_date, previous_production_artifact_id, created_at, updated_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isUUID(project_id)) fail('project_id','invalid UUID');
+  if (!enumIncludes(ARTIFACT_TYPES, type)) fail('type',`one of ${ARTIFACT_TYPES.join(',')}`);
+  if (typeof name !== 'string' || !name.trim()) fail('name','non-empty string');
+  if (!enumIncludes(ARTIFACT_STATUS, status)) fail('status',`one of ${ARTIFACT_STATUS.join(',')}`);
+  if (typeof color_by_status !== 'string' || !color_by_status.trim()) fail('color_by_status','non-empty string');
+  if (typeof current_file_path !== 'string') fail('current_file_path','string');
+  if (!(production_published_date === null || isISODateTime(production_published_date))) fail('production_published_date','ISO datetime or null');
+  if (!(previous_production_artifact_id === null || isUUID(previous_production_artifact_id))) fail('previous_production_artifact_id','UUID or null');
+  if (status === 'Production' && production_published_date === null) fail('production_published_date','required when status is Production');
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  if (!isISODateTime(updated_at)) fail('updated_at','ISO datetime');
+  return {
+    id,
+    project_id,
+    type: type as ArtifactType,
+    name: (name as string).trim(),
+    status: status as ArtifactStatus,
+    color_by_status,
+    current_file_path,
+    production_published_date: production_published_date as ISODateTimeString | null,
+    previous_production_artifact_id: previous_production_artifact_id as UUID | null,
+    created_at,
+    updated_at,
+  };
+}
+
+export function validateArtifactVersion(input: unknown): ArtifactVersion {
+  if (!isObj(input)) fail('ArtifactVersion','must be object');
+  const { id, artifact_id, version_label, status_at_time, file_path, notes, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isUUID(artifact_id)) fail('artifact_id','invalid UUID');
+  if (typeof version_label !== 'string' || !version_label.trim()) fail('version_label','non-empty string');
+  if (!enumIncludes(ARTIFACT_STATUS, status_at_time)) fail('status_at_time',`one of ${ARTIFACT_STATUS.join(',')}`);
+  if (typeof file_path !== 'string' || !file_path.trim()) fail('file_path','non-empty string');
+  if (typeof notes !== 'string') fail('notes','string');
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return { id, artifact_id, version_label: (version_label as string).trim(), status_at_time: status_at_time as ArtifactStatus, file_path, notes, created_at };
+}
@@ -0,0 +1,138 @@
+// Conversations Import — turn a vendor export file into Conversation records and candidate highlights
+// Transcripts are written to DATA/conversations/<source>-<vendor id>.txt and referenced by raw_text_ref.
+// Re-importing the same export is idempotent: conversations whose transcript ref is known are skipped.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConversationHighlightType, UUID } from '../../DOMAIN/sparkModels.js';
+import { ConversationsData, createConversation, addHighlight } from './conversationsService.js';
+import { ImportableSource, ParsedConversation, ParsedMessage, parseExport } from './conversationsParsers.js';
+
+const DEFAULT_RAW_DIR = path.join(process.cwd(), 'DATA', 'conversations');
+
+export interface ConversationImportOptions {
+  rawDir?: string;  // where transcripts are written; defaults to DATA/conversations
+  tags?: string[];  // applied to every imported conversation
+}
+
+export interface ConversationImportEntry {
+  vendor_id: string;
+  title: string;
+  outcome: 'Imported' | 'Skipped';
+  conversation_id: UUID;
+  highlights: number;
+}
+
+export interface ConversationImportReport {
+  imported: number;
+  skipped: number;
+  highlights: number;
+  entries: ConversationImportEntry[];
+}
+
+// ─────────────────────────────────────────────────────────────
+// Highlight markers
+// ─────────────────────────────────────────────────────────────
+export interface HighlightCandidate {
+  type: ConversationHighlightType;
+  text: string;
+}
+
+const LIST_PREFIX = String.raw`^\s*(?:[-*•>]\s*|\d+[.)]\s+)?`;
+const MARKERS: Array<[ConversationHighlightType, RegExp]> = [
+  ['Task', new RegExp(LIST_PREFIX + String.raw`TODO\b[\s:\-–]*(.+)$`, 'i')],
+  ['Decision', new RegExp(LIST_PREFIX + String.raw`Decision:\s*(.+)$`, 'i')],
+  ['Rule', new RegExp(LIST_PREFIX + String.raw`Rule:\s*(.+)$`, 'i')],
+];
+
+// Markers count on any speaker's lines. Questions count only on the user's side: assistant replies
+// routinely end with offers ("Would you like me to…?") that are not open questions for the case.
+export function extractHighlights(messages: ParsedMessage[]): HighlightCandidate[] {
+  const out: HighlightCandidate[] = [];
+  const seen = new Set<string>();
+  const push = (type: ConversationHighlightType, text: string) => {
+    const t = text.trim();
+    const key = type + '\u0000' + t.toLowerCase();
+    if (!t || seen.has(key)) return;
+    seen.add(key);
+    out.push({ type, text: t });
+  };
+  for (const msg of messages) {
+    for (const line of msg.text.split(/\r?\n/)) {
+      const marker = MARKERS.find(([, re]) => re.test(line));
+      if (marker) {
+        push(marker[0], marker[1].exec(line)![1]);
+        continue;
+      }
+      const trimmed = line.trim().replace(new RegExp(LIST_PREFIX), '');
+      if (msg.role === 'user' && trimmed.endsWith('?') && trimmed.length >= 10) push('Question', trimmed);
+    }
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Transcripts
+// ─────────────────────────────────────────────────────────────
+export function renderTranscript(source: ImportableSource, conv: ParsedConversation): string {
+  const lines = [`# ${conv.title}`, `Source: ${source}`, `Vendor id: ${conv.vendor_id}`, `Created: ${conv.created_at ?? 'unknown'}`, ''];
+  for (const m of conv.messages) {
+    lines.push(`## ${m.role}${m.at ? ` (${m.at})` : ''}`, '', m.text, '');
+  }
+  return lines.join('\n');
+}
+
+function transcriptFileName(source: ImportableSource, vendor_id: string): string {
+  return `${source.toLowerCase()}-${vendor_id.replace(/[^A-Za-z0-9_-]+/g, '_')}.txt`;
+}
+
+function toPortablePath(p: string): string {
+  return path.relative(process.cwd(), path.resolve(p)).split(path.sep).join('/');
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function readTranscript(raw_text_ref: string): Promise<string> {
+  return fs.readFile(raw_text_ref, 'utf8');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Import
+// ─────────────────────────────────────────────────────────────
+export async function importConversations(data: ConversationsData, source: ImportableSource, exportFile: string, opts: ConversationImportOptions = {}): Promise<ConversationImportReport> {
+  const rawDir = opts.rawDir || DEFAULT_RAW_DIR;
+  let root: unknown;
+  try {
+    root = JSON.parse(await fs.readFile(exportFile, 'utf8'));
+  } catch (e) {
+    throw new Error(`Cannot read ${source} export ${exportFile}: ${(e as Error).message}`);
+  }
+  const parsed = parseExport(source, root);
+  const report: ConversationImportReport = { imported: 0, skipped: 0, highlights: 0, entries: [] };
+
+  for (const conv of parsed) {
+    if (conv.messages.length === 0) continue;
+    const ref = toPortablePath(path.join(rawDir, transcriptFileName(source, conv.vendor_id)));
+    const existing = data.conversations.find(c => c.raw_text_ref === ref);
+    if (existing) {
+      report.skipped++;
+      report.entries.push({ vendor_id: conv.vendor_id, title: existing.title, outcome: 'Skipped', conversation_id: existing.id, highlights: 0 });
+      continue;
+    }
+    await atomicWrite(ref, renderTranscript(source, conv));
+    const created = createConversation(data, { source, title: conv.title, raw_text_ref: ref, tags: opts.tags });
+    const candidates = extractHighlights(conv.messages);
+    for (const c of candidates) addHighlight(data, { conversation_id: created.id, type: c.type, text: c.text });
+    report.imported++;
+    report.highlights += candidates.length;
+    report.entries.push({ vendor_id: conv.vendor_id, title: created.title, outcome: 'Imported', conversation_id: created.id, highlights: candidates.length });
+  }
+
+  if (data.persist) await data.persist();
+  return report;
+}
@@ -0,0 +1,178 @@
+// Conversations Parsers — read each vendor's local export format into a common shape
+// Pure functions over already-parsed JSON; no network access, no file access.
+//   ChatGPT: conversations.json — array of { id, title, create_time, mapping: { node → { message, parent } }, current_node }
+//   Claude:  conversations.json — array of { uuid, name, created_at, chat_messages: [{ sender, text | content[], created_at }] }
+//   Gemini:  Takeout "My Activity/Gemini Apps/MyActivity.json" — array of activity records
+//            { title: "Prompted …", time, safeHtmlItem: [{ html }] }; Takeout has no conversation ids,
+//            so each prompt/response record becomes its own conversation keyed by its timestamp.
+
+import { ConversationSource } from '../../DOMAIN/sparkModels.js';
+
+export type ImportableSource = Extract<ConversationSource, 'ChatGPT' | 'Claude' | 'Gemini'>;
+export const IMPORTABLE_SOURCES: ImportableSource[] = ['ChatGPT', 'Claude', 'Gemini'];
+
+export type MessageRole = 'user' | 'assistant';
+
+export interface ParsedMessage {
+  role: MessageRole;
+  text: string;
+  at: string | null; // ISO datetime when the export carries one
+}
+
+export interface ParsedConversation {
+  vendor_id: string;
+  title: string;
+  created_at: string | null;
+  messages: ParsedMessage[];
+}
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+
+function asArray(root: unknown, source: ImportableSource): unknown[] {
+  if (Array.isArray(root)) return root;
+  // Some exports wrap the list, e.g. { conversations: [...] }
+  if (isObj(root) && Array.isArray(root.conversations)) return root.conversations as unknown[];
+  throw new Error(`${source} export: expected an array of conversations`);
+}
+
+function epochToIso(v: unknown): string | null {
+  return typeof v === 'number' && isFinite(v) ? new Date(v * 1000).toISOString() : null;
+}
+
+function isoOrNull(v: unknown): string | null {
+  if (typeof v !== 'string') return null;
+  const t = Date.parse(v);
+  return isNaN(t) ? null : new Date(t).toISOString();
+}
+
+function untitled(title: unknown, fallback: string): string {
+  return typeof title === 'string' && title.trim() ? title.trim() : fallback;
+}
+
+// ─────────────────────────────────────────────────────────────
+// ChatGPT
+// ─────────────────────────────────────────────────────────────
+function chatGptText(content: unknown): string {
+  if (!isObj(content)) return '';
+  if (Array.isArray(content.parts)) return content.parts.filter((p: unknown) => typeof p === 'string').join('\n').trim();
+  return typeof content.text === 'string' ? content.text.trim() : '';
+}
+
+// The mapping is a tree (edits and regenerations branch); follow current_node back to the root
+// so the transcript is the branch the user actually ended up on.
+export function parseChatGptExport(root: unknown): ParsedConversation[] {
+  return asArray(root, 'ChatGPT').map((c, i) => {
+    if (!isObj(c) || !isObj(c.mapping)) throw new Error(`ChatGPT export: conversation[${i}] has no mapping`);
+    const mapping = c.mapping;
+    let nodeId: string | null = typeof c.current_node === 'string' ? c.current_node : null;
+    if (!nodeId) {
+      // No current_node: take the last leaf in document order
+      const leaves = Object.keys(mapping).filter(k => {
+        const node = mapping[k];
+        return !isObj(node) || !Array.isArray(node.children) || node.children.length === 0;
+      });
+      nodeId = leaves.length ? leaves[leaves.length - 1] : null;
+    }
+    const chain: Record<string, unknown>[] = [];
+    const seen = new Set<string>();
+    while (nodeId && !seen.has(nodeId)) {
+      const node = mapping[nodeId];
+      if (!isObj(node)) break;
+      seen.add(nodeId);
+      chain.push(node);
+      nodeId = typeof node.parent === 'string' ? node.parent : null;
+    }
+    const messages: ParsedMessage[] = [];
+    for (const node of chain.reverse()) {
+      const msg = node.message;
+      if (!isObj(msg)) continue;
+      const role = isObj(msg.author) ? msg.author.role : undefined;
+      if (role !== 'user' && role !== 'assistant') continue; // system & tool messages are plumbing
+      const text = chatGptText(msg.content);
+      if (text) messages.push({ role, text, at: epochToIso(msg.create_time) });
+    }
+    const vendor_id = String(c.conversation_id ?? c.id ?? `index-${i}`);
+    return { vendor_id, title: untitled(c.title, 'Untitled ChatGPT conversation'), created_at: epochToIso(c.create_time), messages };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Claude
+// ─────────────────────────────────────────────────────────────
+function claudeText(m: Record<string, unknown>): string {
+  if (typeof m.text === 'string' && m.text.trim()) return m.text.trim();
+  if (Array.isArray(m.content)) {
+    return m.content.flatMap((p: unknown) => isObj(p) && p.type === 'text' && typeof p.text === 'string' ? [p.text] : []).join('\n').trim();
+  }
+  return '';
+}
+
+export function parseClaudeExport(root: unknown): ParsedConversation[] {
+  return asArray(root, 'Claude').map((c, i) => {
+    if (!isObj(c) || !Array.isArray(c.chat_messages)) throw new Error(`Claude export: conversation[${i}] has no chat_messages`);
+    const messages: ParsedMessage[] = [];
+    for (const m of c.chat_messages as unknown[]) {
+      if (!isObj(m)) continue;
+      const role: MessageRole | null = m.sender === 'human' ? 'user' : m.sender === 'assistant' ? 'assistant' : null;
+      if (!role) continue;
+      const text = claudeText(m);
+      if (text) messages.push({ role, text, at: isoOrNull(m.created_at) });
+    }
+    const vendor_id = String(c.uuid ?? `index-${i}`);
+    return { vendor_id, title: untitled(c.name, 'Untitled Claude conversation'), created_at: isoOrNull(c.created_at), messages };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Gemini (Google Takeout activity)
+// ─────────────────────────────────────────────────────────────
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseGeminiExport(root: unknown): ParsedConversation[] {
+  const out: ParsedConversation[] = [];
+  asArray(root, 'Gemini').forEach((rec, i) => {
+    if (!isObj(rec) || typeof rec.title !== 'string') throw new Error(`Gemini export: record[${i}] has no title`);
+    // Only prompt records carry a conversation; other activity ("Used Gemini Apps", feedback) is skipped
+    const m = /^Prompted\s+([\s\S]*)$/.exec(rec.title.trim());
+    if (!m || !m[1].trim()) return;
+    const prompt = m[1].trim();
+    const at = isoOrNull(rec.time);
+    const response = Array.isArray(rec.safeHtmlItem)
+      ? rec.safeHtmlItem.flatMap((h: unknown) => isObj(h) && typeof h.html === 'string' ? [htmlToText(h.html)] : []).join('\n\n').trim()
+      : '';
+    const messages: ParsedMessage[] = [{ role: 'user', text: prompt, at }];
+    if (response) messages.push({ role: 'assistant', text: response, at });
+    const firstLine = prompt.split('\n')[0];
+    out.push({ vendor_id: String(rec.time ?? `index-${i}`), title: firstLine.length > 80 ? firstLine.slice(0, 77) + '...' : firstLine, created_at: at, messages });
+  });
+  return out;
+}
+
+export function parseExport(source: ImportableSource, root: unknown): ParsedConversation[] {
+  switch (source) {
+    case 'ChatGPT':
+      return parseChatGptExport(root);
+    case 'Claude':
+      return parseClaudeExport(root);
+    case 'Gemini':
+      return parseGeminiExport(root);
+    default: {
+      const _exhaustive: never = source;
+      throw new Error(`Unsupported export source: ${_exhaustive}`);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// Conversations Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Conversation, ConversationHighlight, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateConversation, validateConversationHighlight } from './conversationsValidators.js';
+import { ConversationsData } from './conversationsService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface ConversationsSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  conversations: Conversation[];
+  highlights: ConversationHighlight[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'conversations.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): ConversationsSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), conversations: [], highlights: [] };
+}
+
+export async function loadConversationsSnapshot(filePath: string = DEFAULT_FILE): Promise<ConversationsSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const conversationsRaw = Array.isArray(parsed.conversations) ? parsed.conversations : [];
+    const highlightsRaw = Array.isArray(parsed.highlights) ? parsed.highlights : [];
+    return {
+      version,
+      updated_at,
+      conversations: conversationsRaw.map((c: unknown, i: number) => { try { return validateConversation(c); } catch (e) { throw new Error(`Conversation[${i}] invalid: ${(e as Error).message}`); } }),
+      highlights: highlightsRaw.map((h: unknown, i: number) => { try { return validateConversationHighlight(h); } catch (e) { throw new Error(`ConversationHighlight[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load conversations snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveConversationsSnapshot(snapshot: ConversationsSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: ConversationsSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadConversationsData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<ConversationsData> {
+  const snap = await loadConversationsSnapshot(filePath);
+  const data: ConversationsData = {
+    conversations: snap.conversations,
+    highlights: snap.highlights,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: ConversationsSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        conversations: data.conversations.map(c => validateConversation(c)),
+        highlights: data.highlights.map(h => validateConversationHighlight(h)),
+      };
+      await saveConversationsSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,146 @@
+// Conversations Promote — turn a reviewed highlight into a real record in another module
+//   Task              → PlanItem (via createPlanItem); sets linked_project_id & linked_plan_item_id
+//   Rule / Precedent  → Rule with created_from_conversation_id; sets linked_rule_id
+//   Insight           → ResearchInsight sourced from the conversation
+// Every precondition is checked before anything is created, so a refused promotion changes nothing.
+
+import {
+  ConversationHighlight,
+  ConversationHighlightImportance,
+  PlanItem,
+  PlanItemCategory,
+  PlanItemPriority,
+  Rule,
+  RuleCategory,
+  ResearchInsight,
+  ResearchImportance,
+  UUID,
+  ISODateString,
+} from '../../DOMAIN/sparkModels.js';
+import { ConversationsData, linkHighlight } from './conversationsService.js';
+import { MasterPlanData, createPlanItem } from '../masterPlan/masterPlanService.js';
+import { RulesData, createRule, resolveRule } from '../rules/rulesService.js';
+import { parseCitation } from '../rules/rulesCitation.js';
+import { ResearchData, createInsight, filterInsights } from '../research/researchService.js';
+
+export interface PromotionTargets {
+  masterPlan?: MasterPlanData;
+  rules?: RulesData;
+  research?: ResearchData;
+}
+
+export interface PromoteHighlightOptions {
+  // Task → PlanItem
+  project_id?: UUID; // defaults to the highlight's linked_project_id
+  category?: PlanItemCategory;
+  due_date?: ISODateString | null;
+  priority?: PlanItemPriority;
+  // Rule/Precedent → Rule
+  rule_category?: RuleCategory;
+  jurisdiction?: string;
+  citation?: string;
+  // Insight → ResearchInsight
+  tags?: string[];
+}
+
+export type PromotionResult =
+  | { kind: 'PlanItem'; highlight: ConversationHighlight; planItem: PlanItem }
+  | { kind: 'Rule'; highlight: ConversationHighlight; rule: Rule; created: boolean }
+  | { kind: 'ResearchInsight'; highlight: ConversationHighlight; insight: ResearchInsight };
+
+function priorityFor(importance: ConversationHighlightImportance): PlanItemPriority {
+  switch (importance) {
+    case 'Low':
+      return 'Low';
+    case 'Normal':
+      return 'Normal';
+    case 'High':
+      return 'High';
+    default: {
+      const _exhaustive: never = importance;
+      return _exhaustive;
+    }
+  }
+}
+
+function researchImportanceFor(importance: ConversationHighlightImportance): ResearchImportance {
+  return importance; // same three levels; research adds Critical on top
+}
+
+export function promoteHighlight(conversations: ConversationsData, highlight_id: UUID, targets: PromotionTargets, opts: PromoteHighlightOptions = {}): PromotionResult {
+  const hl = conversations.highlights.find(h => h.id === highlight_id);
+  if (!hl) throw new Error('Highlight not found');
+  const conv = conversations.conversations.find(c => c.id === hl.conversation_id);
+  if (!conv) throw new Error('Conversation not found');
+  const origin = `From conversation "${conv.title}" (${conv.source})`;
+
+  switch (hl.type) {
+    case 'Task': {
+      const mp = targets.masterPlan;
+      if (!mp) throw new Error('Master Plan data required to promote a Task');
+      if (hl.linked_plan_item_id) throw new Error(`Highlight already promoted to plan item ${hl.linked_plan_item_id}`);
+      const project_id = opts.project_id ?? hl.linked_project_id;
+      if (!project_id) throw new Error('Project required to promote a Task');
+      const planItem = createPlanItem(mp, {
+        project_id,
+        title: hl.text,
+        description: origin,
+        category: opts.category ?? 'Other',
+        due_date: opts.due_date ?? null,
+        priority: opts.priority ?? priorityFor(hl.importance),
+      });
+      const linked = linkHighlight(conversations, hl.id, { linked_project_id: project_id, linked_plan_item_id: planItem.id }, `Promoted to PlanItem ${planItem.id}`)!;
+      return { kind: 'PlanItem', highlight: linked, planItem };
+    }
+    case 'Rule':
+    case 'Precedent': {
+      const rules = targets.rules;
+      if (!rules) throw new Error('Rule Library data required to promote a Rule');
+      if (hl.linked_rule_id) throw new Error(`Highlight already promoted to rule ${hl.linked_rule_id}`);
+      // A citation already in the library is linked rather than duplicated
+      const existing = opts.citation ? resolveRule(rules, opts.citation) : null;
+      if (existing) {
+        const linked = linkHighlight(conversations, hl.id, { linked_rule_id: existing.id }, `Linked to existing Rule ${existing.id}`)!;
+        return { kind: 'Rule', highlight: linked, rule: existing, created: false };
+      }
+      const jurisdiction = opts.jurisdiction || (opts.citation ? parseCitation(opts.citation).jurisdiction : null);
+      if (!jurisdiction) throw new Error('Jurisdiction required to promote a Rule without a recognised citation');
+      const rule = createRule(rules, {
+        category: opts.rule_category ?? (hl.type === 'Precedent' ? 'Precedent' : 'Strategy'),
+        title: hl.text,
+        description: origin,
+        jurisdiction,
+        citation: opts.citation ?? null,
+        tags: conv.tags,
+        created_from_conversation_id: conv.id,
+      });
+      const linked = linkHighlight(conversations, hl.id, { linked_rule_id: rule.id }, `Promoted to Rule ${rule.id}`)!;
+      return { kind: 'Rule', highlight: linked, rule, created: true };
+    }
+    case 'Insight': {
+      const research = targets.research;
+      if (!research) throw new Error('Research data required to promote an Insight');
+      // Highlights have no insight link field: the insight's source plus identical text identifies a repeat,
+      // and the highlight's audit trail records which insight it became
+      const dup = filterInsights(research, { source_type: ['Conversation'], source_id: conv.id }).find(i => i.text === hl.text);
+      if (dup) throw new Error(`Highlight already promoted to insight ${dup.id}`);
+      const insight = createInsight(research, {
+        source_type: 'Conversation',
+        source_id: conv.id,
+        text: hl.text,
+        tags: opts.tags ?? conv.tags,
+        importance: researchImportanceFor(hl.importance),
+      });
+      const linked = linkHighlight(conversations, hl.id, {}, `Promoted to ResearchInsight ${insight.id}`)!;
+      return { kind: 'ResearchInsight', highlight: linked, insight };
+    }
+    case 'Decision':
+    case 'Definition':
+    case 'Question':
+      throw new Error(`${hl.type} highlights cannot be promoted; change the type to Task, Rule, Precedent or Insight first`);
+    default: {
+      const _exhaustive: never = hl.type;
+      return _exhaustive;
+    }
+  }
+}
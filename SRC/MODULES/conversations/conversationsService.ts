@@ -0,0 +1,200 @@
+// Conversations Service — CRUD & query helpers for imported conversations and their highlights
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// Transcript text lives outside the snapshot; Conversation.raw_text_ref points at it.
+
+import {
+  Conversation,
+  ConversationSource,
+  ConversationHighlight,
+  ConversationHighlightType,
+  ConversationHighlightImportance,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { validateConversation, validateConversationHighlight } from './conversationsValidators.js';
+
+export interface ConversationsData {
+  conversations: Conversation[];
+  highlights: ConversationHighlight[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'Conversation' | 'ConversationHighlight';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyConversationsData(idGen: () => UUID, clock: () => ISODateTimeString): ConversationsData {
+  return { conversations: [], highlights: [], uuid: idGen, now: clock };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Conversation CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateConversationInput {
+  source: ConversationSource;
+  title: string;
+  raw_text_ref: string;
+  tags?: string[];
+}
+
+export function createConversation(data: ConversationsData, input: CreateConversationInput): Conversation {
+  const conv: Conversation = {
+    id: data.uuid(),
+    source: input.source,
+    date_imported: data.now(),
+    title: input.title.trim(),
+    raw_text_ref: input.raw_text_ref.trim(),
+    tags: (input.tags || []).map(t => t.trim()).filter(Boolean),
+  };
+  validateConversation(conv);
+  data.conversations.push(conv);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Conversation', change_type: 'Create', entity_id: conv.id, after: conv });
+  return conv;
+}
+
+export function updateConversation(data: ConversationsData, id: UUID, changes: Partial<Pick<Conversation, 'title' | 'tags'>>): Conversation | null {
+  const conv = data.conversations.find(c => c.id === id);
+  if (!conv) return null;
+  const before: Conversation = JSON.parse(JSON.stringify(conv));
+  if (changes.title !== undefined) conv.title = changes.title.trim();
+  if (changes.tags !== undefined) conv.tags = changes.tags.map(t => t.trim()).filter(Boolean);
+  validateConversation(conv); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Conversation', change_type: 'Update', entity_id: conv.id, before, after: conv });
+  return conv;
+}
+
+// The transcript file is left in place; it is the original evidence of what was said.
+export function deleteConversation(data: ConversationsData, id: UUID): boolean {
+  const idx = data.conversations.findIndex(c => c.id === id);
+  if (idx === -1) return false;
+  const before = data.conversations[idx];
+  const removed = data.highlights.filter(h => h.conversation_id === id);
+  data.highlights = data.highlights.filter(h => h.conversation_id !== id);
+  data.conversations.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    void data.audit({ entity_type: 'Conversation', change_type: 'Delete', entity_id: id, before });
+    for (const h of removed) {
+      void data.audit({ entity_type: 'ConversationHighlight', change_type: 'Delete', entity_id: h.id, before: h, detail: 'Cascade delete due to conversation removal' });
+    }
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Highlights
+// ─────────────────────────────────────────────────────────────
+export interface CreateHighlightInput {
+  conversation_id: UUID;
+  type: ConversationHighlightType;
+  text: string;
+  importance?: ConversationHighlightImportance;
+  linked_project_id?: UUID | null;
+  linked_plan_item_id?: UUID | null;
+  linked_rule_id?: UUID | null;
+}
+
+export function addHighlight(data: ConversationsData, input: CreateHighlightInput): ConversationHighlight {
+  if (!data.conversations.some(c => c.id === input.conversation_id)) throw new Error('Conversation not found');
+  const hl: ConversationHighlight = {
+    id: data.uuid(),
+    conversation_id: input.conversation_id,
+    type: input.type,
+    text: input.text.trim(),
+    linked_project_id: input.linked_project_id ?? null,
+    linked_plan_item_id: input.linked_plan_item_id ?? null,
+    linked_rule_id: input.linked_rule_id ?? null,
+    importance: input.importance ?? 'Normal',
+    created_at: data.now(),
+  };
+  validateConversationHighlight(hl);
+  data.highlights.push(hl);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ConversationHighlight', change_type: 'Create', entity_id: hl.id, after: hl });
+  return hl;
+}
+
+export function updateHighlight(data: ConversationsData, id: UUID, changes: Partial<Omit<ConversationHighlight, 'id' | 'conversation_id' | 'created_at'>>): ConversationHighlight | null {
+  const hl = data.highlights.find(h => h.id === id);
+  if (!hl) return null;
+  const before: ConversationHighlight = { ...hl };
+  if (changes.type !== undefined) hl.type = changes.type as ConversationHighlightType;
+  if (changes.text !== undefined) hl.text = changes.text.trim();
+  if (changes.importance !== undefined) hl.importance = changes.importance as ConversationHighlightImportance;
+  if (changes.linked_project_id !== undefined) hl.linked_project_id = changes.linked_project_id;
+  if (changes.linked_plan_item_id !== undefined) hl.linked_plan_item_id = changes.linked_plan_item_id;
+  if (changes.linked_rule_id !== undefined) hl.linked_rule_id = changes.linked_rule_id;
+  validateConversationHighlight(hl); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ConversationHighlight', change_type: 'Update', entity_id: hl.id, before, after: hl });
+  return hl;
+}
+
+export type HighlightLinks = Partial<Pick<ConversationHighlight, 'linked_project_id' | 'linked_plan_item_id' | 'linked_rule_id'>>;
+
+// Record what a highlight became; `detail` says why (e.g. which promotion created the target).
+export function linkHighlight(data: ConversationsData, id: UUID, links: HighlightLinks, detail: string): ConversationHighlight | null {
+  const hl = data.highlights.find(h => h.id === id);
+  if (!hl) return null;
+  const before: ConversationHighlight = { ...hl };
+  if (links.linked_project_id !== undefined) hl.linked_project_id = links.linked_project_id;
+  if (links.linked_plan_item_id !== undefined) hl.linked_plan_item_id = links.linked_plan_item_id;
+  if (links.linked_rule_id !== undefined) hl.linked_rule_id = links.linked_rule_id;
+  validateConversationHighlight(hl);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ConversationHighlight', change_type: 'Update', entity_id: hl.id, before, after: hl, detail });
+  return hl;
+}
+
+export function deleteHighlight(data: ConversationsData, id: UUID): boolean {
+  const idx = data.highlights.findIndex(h => h.id === id);
+  if (idx === -1) return false;
+  const before = data.highlights[idx];
+  data.highlights.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ConversationHighlight', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Query Helpers
+// ─────────────────────────────────────────────────────────────
+export interface ConversationFilter {
+  source?: ConversationSource[];
+  tags?: string[]; // any-of, case-insensitive
+  text?: string;   // substring of title
+}
+
+export function filterConversations(data: ConversationsData, filter: ConversationFilter): Conversation[] {
+  const tags = filter.tags?.map(t => t.toLowerCase());
+  const text = filter.text?.trim().toLowerCase();
+  return data.conversations.filter(c => {
+    if (filter.source && !filter.source.includes(c.source)) return false;
+    if (tags && !c.tags.some(t => tags.includes(t.toLowerCase()))) return false;
+    if (text && !c.title.toLowerCase().includes(text)) return false;
+    return true;
+  });
+}
+
+export interface HighlightFilter {
+  conversation_id?: UUID;
+  type?: ConversationHighlightType[];
+  importance?: ConversationHighlightImportance[];
+}
+
+export function filterHighlights(data: ConversationsData, filter: HighlightFilter): ConversationHighlight[] {
+  return data.highlights.filter(h => {
+    if (filter.conversation_id && h.conversation_id !== filter.conversation_id) return false;
+    if (filter.type && !filter.type.includes(h.type)) return false;
+    if (filter.importance && !filter.importance.includes(h.importance)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,68 @@
+// Conversations Validators — runtime checks for Conversation, ConversationHighlight
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  Conversation,
+  ConversationSource,
+  ConversationHighlight,
+  ConversationHighlightType,
+  ConversationHighlightImportance,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+export const CONVERSATION_SOURCES: ConversationSource[] = ['ChatGPT','Claude','Gemini','Manual','Other'];
+export const HIGHLIGHT_TYPES: ConversationHighlightType[] = ['Task','Insight','Rule','Decision','Definition','Precedent','Question'];
+export const HIGHLIGHT_IMPORTANCE: ConversationHighlightImportance[] = ['Low','Normal','High'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateConversation(input: unknown): Conversation {
+  if (!isObj(input)) fail('Conversation','must be object');
+  const { id, source, date_imported, title, raw_text_ref, tags } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!enumIncludes(CONVERSATION_SOURCES, source)) fail('source',`one of ${CONVERSATION_SOURCES.join(',')}`);
+  if (!isISODateTime(date_imported)) fail('date_imported','ISO datetime');
+  if (typeof title !== 'string' || !title.trim()) fail('title','non-empty string');
+  if (typeof raw_text_ref !== 'string' || !raw_text_ref.trim()) fail('raw_text_ref','non-empty string');
+  if (!isStringArray(tags)) fail('tags','string[]');
+  return {
+    id,
+    source: source as ConversationSource,
+    date_imported,
+    title: (title as string).trim(),
+    raw_text_ref,
+    tags,
+  };
+}
+
+export function validateConversationHighlight(input: unknown): ConversationHighlight {
+  if (!isObj(input)) fail('ConversationHighlight','must be object');
+  const { id, conversation_id, type, text, linked_project_id, linked_plan_item_id, linked_rule_id, importance, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isUUID(conversation_id)) fail('conversation_id','invalid UUID');
+  if (!enumIncludes(HIGHLIGHT_TYPES, type)) fail('type',`one of ${HIGHLIGHT_TYPES.join(',')}`);
+  if (typeof text !== 'string' || !text.trim()) fail('text','non-empty string');
+  if (!(linked_project_id === null || isUUID(linked_project_id))) fail('linked_project_id','UUID or null');
+  if (!(linked_plan_item_id === null || isUUID(linked_plan_item_id))) fail('linked_plan_item_id','UUID or null');
+  if (!(linked_rule_id === null || isUUID(linked_rule_id))) fail('linked_rule_id','UUID or null');
+  if (!enumIncludes(HIGHLIGHT_IMPORTANCE, importance)) fail('importance',`one of ${HIGHLIGHT_IMPORTANCE.join(',')}`);
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return {
+    id,
+    conversation_id,
+    type: type as ConversationHighlightType,
+    text: (text as string).trim(),
+    linked_project_id: linked_project_id as UUID | null,
+    linked_plan_item_id: linked_plan_item_id as UUID | null,
+    linked_rule_id: linked_rule_id as UUID | null,
+    importance: importance as ConversationHighlightImportance,
+    created_at,
+  };
+}
@@ -0,0 +1,72 @@
+// Daily Log Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DailyLog, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateDailyLog } from './dailyLogValidators.js';
+import { DailyLogData } from './dailyLogService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface DailyLogSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  logs: DailyLog[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'dailyLog.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): DailyLogSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), logs: [] };
+}
+
+export async function loadDailyLogSnapshot(filePath: string = DEFAULT_FILE): Promise<DailyLogSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const logsRaw = Array.isArray(parsed.logs) ? parsed.logs : [];
+    return {
+      version,
+      updated_at,
+      logs: logsRaw.map((l: unknown, i: number) => { try { return validateDailyLog(l); } catch (e) { throw new Error(`DailyLog[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load daily log snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveDailyLogSnapshot(snapshot: DailyLogSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: DailyLogSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadDailyLogData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<DailyLogData> {
+  const snap = await loadDailyLogSnapshot(filePath);
+  const data: DailyLogData = {
+    logs: snap.logs,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: DailyLogSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        logs: data.logs.map(l => validateDailyLog(l)),
+      };
+      await saveDailyLogSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,165 @@
+// Daily Log Service — one DailyLog per date, filled by a morning/evening workflow
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// List entries are either free text or the id of the PlanItem they refer to.
+
+import {
+  DailyLog,
+  PlanItem,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { AuditEvent } from '../../CORE/auditTypes.js';
+import { MasterPlanData, filterPlanItems } from '../masterPlan/masterPlanService.js';
+import { validateDailyLog } from './dailyLogValidators.js';
+
+export interface DailyLogData {
+  logs: DailyLog[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'DailyLog';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyDailyLogData(idGen: () => UUID, clock: () => ISODateTimeString): DailyLogData {
+  return { logs: [], uuid: idGen, now: clock };
+}
+
+function mergeUnique(existing: string[], additions: string[]): string[] {
+  const out = existing.slice();
+  for (const a of additions.map(s => s.trim()).filter(Boolean)) if (!out.includes(a)) out.push(a);
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────
+// DailyLog CRUD
+// ─────────────────────────────────────────────────────────────
+export function getDailyLog(data: DailyLogData, date: ISODateString): DailyLog | null {
+  return data.logs.find(l => l.date === date) || null;
+}
+
+// Most recent log strictly before `date`; weekends and days off are simply skipped.
+export function previousDailyLog(data: DailyLogData, date: ISODateString): DailyLog | null {
+  return data.logs.filter(l => l.date < date).sort((a, b) => b.date.localeCompare(a.date))[0] || null;
+}
+
+function createDailyLog(data: DailyLogData, date: ISODateString): DailyLog {
+  const log: DailyLog = {
+    id: data.uuid(),
+    date,
+    goals_for_today: [],
+    completed_today: [],
+    what_i_learned: [],
+    questions_for_tomorrow: [],
+    emotion_check: '',
+    conversation_refs: [],
+    created_at: data.now(),
+    updated_at: data.now(),
+  };
+  validateDailyLog(log);
+  return log;
+}
+
+export type DailyLogChanges = Partial<Omit<DailyLog, 'id' | 'date' | 'created_at' | 'updated_at'>>;
+
+// Upsert: creates the day's log on first write. List fields are replaced, not merged.
+export function updateDailyLog(data: DailyLogData, date: ISODateString, changes: DailyLogChanges, detail?: string): DailyLog {
+  const existing = getDailyLog(data, date);
+  const log = existing || createDailyLog(data, date);
+  const before: DailyLog | undefined = existing ? JSON.parse(JSON.stringify(existing)) : undefined;
+  if (changes.goals_for_today !== undefined) log.goals_for_today = changes.goals_for_today.slice();
+  if (changes.completed_today !== undefined) log.completed_today = changes.completed_today.slice();
+  if (changes.what_i_learned !== undefined) log.what_i_learned = changes.what_i_learned.slice();
+  if (changes.questions_for_tomorrow !== undefined) log.questions_for_tomorrow = changes.questions_for_tomorrow.slice();
+  if (changes.emotion_check !== undefined) log.emotion_check = changes.emotion_check.trim();
+  if (changes.conversation_refs !== undefined) log.conversation_refs = changes.conversation_refs.slice();
+  log.updated_at = data.now();
+  validateDailyLog(log); // throws if invalid
+  if (!existing) data.logs.push(log);
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    if (existing) void data.audit({ entity_type: 'DailyLog', change_type: 'Update', entity_id: log.id, before, after: log, detail });
+    else void data.audit({ entity_type: 'DailyLog', change_type: 'Create', entity_id: log.id, after: log, detail });
+  }
+  return log;
+}
+
+export function deleteDailyLog(data: DailyLogData, date: ISODateString): boolean {
+  const idx = data.logs.findIndex(l => l.date === date);
+  if (idx === -1) return false;
+  const before = data.logs[idx];
+  data.logs.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'DailyLog', change_type: 'Delete', entity_id: before.id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Morning / Evening workflow
+// ─────────────────────────────────────────────────────────────
+export function planItemsDueOn(mp: MasterPlanData, date: ISODateString): PlanItem[] {
+  return filterPlanItems(mp, { status: ['NotStarted', 'InProgress'], due_after: date, due_before: date })
+    .filter(pi => pi.due_date === date); // the range filter lets undated items through
+}
+
+export interface StartDayInput {
+  goals?: string[]; // extra free-text goals
+  emotion_check?: string;
+}
+
+// Goals = open plan items due today + the previous log's questions_for_tomorrow + any extras.
+// Running it again the same day only adds what is missing.
+export function startDay(data: DailyLogData, mp: MasterPlanData, date: ISODateString, input: StartDayInput = {}): DailyLog {
+  const existing = getDailyLog(data, date);
+  const carried = previousDailyLog(data, date)?.questions_for_tomorrow || [];
+  const goals = mergeUnique(existing?.goals_for_today || [], [
+    ...planItemsDueOn(mp, date).map(pi => pi.id),
+    ...carried,
+    ...(input.goals || []),
+  ]);
+  return updateDailyLog(data, date, {
+    goals_for_today: goals,
+    ...(input.emotion_check !== undefined ? { emotion_check: input.emotion_check } : {}),
+  }, 'Start of day');
+}
+
+// PlanItem ids whose audit trail shows a move into Done on `date` (UTC date of the event).
+export function planItemsCompletedOn(events: AuditEvent[], date: ISODateString): UUID[] {
+  const ids: UUID[] = [];
+  for (const ev of events) {
+    if (ev.entity_type !== 'PlanItem' || ev.change_type !== 'Update' || !ev.at.startsWith(date)) continue;
+    const before = ev.before as Partial<PlanItem> | undefined;
+    const after = ev.after as Partial<PlanItem> | undefined;
+    if (before && after && before.status !== 'Done' && after.status === 'Done' && !ids.includes(ev.entity_id)) ids.push(ev.entity_id);
+  }
+  return ids;
+}
+
+export interface EndDayInput {
+  completed?: string[]; // extra free-text accomplishments
+  learned?: string[];
+  questions?: string[];
+  emotion_check?: string;
+}
+
+export function endDay(data: DailyLogData, date: ISODateString, auditEvents: AuditEvent[], input: EndDayInput = {}): DailyLog {
+  const existing = getDailyLog(data, date);
+  return updateDailyLog(data, date, {
+    completed_today: mergeUnique(existing?.completed_today || [], [...planItemsCompletedOn(auditEvents, date), ...(input.completed || [])]),
+    what_i_learned: mergeUnique(existing?.what_i_learned || [], input.learned || []),
+    questions_for_tomorrow: mergeUnique(existing?.questions_for_tomorrow || [], input.questions || []),
+    ...(input.emotion_check !== undefined ? { emotion_check: input.emotion_check } : {}),
+  }, 'End of day');
+}
+
+// Replace PlanItem ids with their titles for display; free text passes through.
+export function describeEntries(mp: MasterPlanData, entries: string[]): string[] {
+  return entries.map(e => mp.planItems.find(pi => pi.id === e)?.title ?? e);
+}
@@ -0,0 +1,44 @@
+// Daily Log Validators — runtime checks for DailyLog
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  DailyLog,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateDailyLog(input: unknown): DailyLog {
+  if (!isObj(input)) fail('DailyLog','must be object');
+  const { id, date, goals_for_today, completed_today, what_i_learned, questions_for_tomorrow, emotion_check, conversation_refs, created_at, updated_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isISODate(date)) fail('date','ISO date');
+  if (!isStringArray(goals_for_today)) fail('goals_for_today','(string|UUID)[]');
+  if (!isStringArray(completed_today)) fail('completed_today','(string|UUID)[]');
+  if (!isStringArray(what_i_learned)) fail('what_i_learned','(string|UUID)[]');
+  if (!isStringArray(questions_for_tomorrow)) fail('questions_for_tomorrow','string[]');
+  if (typeof emotion_check !== 'string') fail('emotion_check','string');
+  if (!Array.isArray(conversation_refs) || conversation_refs.some(c => !isUUID(c))) fail('conversation_refs','UUID[]');
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  if (!isISODateTime(updated_at)) fail('updated_at','ISO datetime');
+  return {
+    id,
+    date,
+    goals_for_today,
+    completed_today,
+    what_i_learned,
+    questions_for_tomorrow,
+    emotion_check,
+    conversation_refs: conversation_refs as UUID[],
+    created_at,
+    updated_at,
+  };
+}
@@ -0,0 +1,76 @@
+// Deadlines Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Deadline, UUID, ISODateString, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateDeadline, validateSnoozes } from './deadlinesValidators.js';
+import { DeadlinesData } from './deadlinesService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface DeadlinesSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  deadlines: Deadline[];
+  snoozed_until: Record<string, ISODateString>;
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'deadlines.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): DeadlinesSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), deadlines: [], snoozed_until: {} };
+}
+
+export async function loadDeadlinesSnapshot(filePath: string = DEFAULT_FILE): Promise<DeadlinesSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const deadlinesRaw = Array.isArray(parsed.deadlines) ? parsed.deadlines : [];
+    return {
+      version,
+      updated_at,
+      deadlines: deadlinesRaw.map((d: unknown, i: number) => { try { return validateDeadline(d); } catch (e) { throw new Error(`Deadline[${i}] invalid: ${(e as Error).message}`); } }),
+      snoozed_until: validateSnoozes(parsed.snoozed_until ?? {}),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load deadlines snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveDeadlinesSnapshot(snapshot: DeadlinesSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: DeadlinesSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadDeadlinesData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<DeadlinesData> {
+  const snap = await loadDeadlinesSnapshot(filePath);
+  const data: DeadlinesData = {
+    deadlines: snap.deadlines,
+    snoozes: snap.snoozed_until,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: DeadlinesSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        deadlines: data.deadlines.map(d => validateDeadline(d)),
+        snoozed_until: validateSnoozes(data.snoozes),
+      };
+      await saveDeadlinesSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,276 @@
+// Deadlines Service — explicit deadlines plus ones derived from plan items and follow-ups
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// Derived deadlines are computed on demand (never stored) and carry stable ids such as
+// "PlanItem:<uuid>", so they can be snoozed like explicit ones.
+
+import {
+  Deadline,
+  DeadlineRelatedEntityType,
+  DeadlineSeverity,
+  DeadlineStatus,
+  PlanItemPriority,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { MasterPlanData } from '../masterPlan/masterPlanService.js';
+import { OutreachData } from '../outreach/outreachService.js';
+import { DocumentsData } from '../documents/documentsService.js';
+import { ArtifactsData } from '../artifacts/artifactsService.js';
+import { DeadlineRule, computeDeadline, describeDeadlineRule } from '../../CORE/deadlineCalculator.js';
+import { HolidayCalendar } from '../../CORE/holidayCalendar.js';
+import { validateDeadline } from './deadlinesValidators.js';
+
+export interface DeadlinesData {
+  deadlines: Deadline[];
+  snoozes: Record<string, ISODateString>; // deadline id (explicit or derived) → wake date
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'Deadline';
+    change_type: 'Create' | 'Update' | 'Delete' | 'StatusChange';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+  entityExists?: (type: DeadlineRelatedEntityType, id: UUID) => boolean; // optional guard for related_entity_id
+  calendar?: HolidayCalendar; // holidays for computed due dates; weekends only when absent
+}
+
+export function createEmptyDeadlinesData(idGen: () => UUID, clock: () => ISODateTimeString): DeadlinesData {
+  return { deadlines: [], snoozes: {}, uuid: idGen, now: clock };
+}
+
+function assertRelatedEntity(data: DeadlinesData, type: DeadlineRelatedEntityType, id: UUID): void {
+  if (type !== 'Other' && data.entityExists && !data.entityExists(type, id)) throw new Error(`${type} not found: ${id}`);
+}
+
+export interface RelatedEntitySources {
+  masterPlan: MasterPlanData;
+  outreach: OutreachData;
+  documents: DocumentsData;
+  artifacts: ArtifactsData;
+}
+
+// Builds the entityExists hook over the loaded module data.
+export function relatedEntityExists(src: RelatedEntitySources): (type: DeadlineRelatedEntityType, id: UUID) => boolean {
+  return (type, id) => {
+    switch (type) {
+      case 'Project':
+        return src.masterPlan.projects.some(p => p.id === id);
+      case 'PlanItem':
+        return src.masterPlan.planItems.some(pi => pi.id === id);
+      case 'Outreach':
+        return src.outreach.outreachActions.some(a => a.id === id) || src.outreach.followUps.some(f => f.id === id);
+      case 'Document':
+        return src.documents.documents.some(d => d.id === id);
+      case 'Artifact':
+        return src.artifacts.artifacts.some(a => a.id === id);
+      case 'Other':
+        return true;
+      default: {
+        const _exhaustive: never = type;
+        return _exhaustive;
+      }
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Explicit Deadline CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateDeadlineInput {
+  related_entity_type: DeadlineRelatedEntityType;
+  related_entity_id: UUID;
+  label: string;
+  due_date?: ISODateString; // either a fixed date…
+  trigger?: { date: ISODateString; rule: DeadlineRule }; // …or counted from a triggering event
+  severity?: DeadlineSeverity;
+}
+
+function resolveDueDate(data: DeadlinesData, input: CreateDeadlineInput): { due_date: ISODateString; detail?: string } {
+  if (input.trigger && input.due_date) throw new Error('Give either due_date or trigger, not both');
+  if (input.trigger) {
+    const calendar = data.calendar ?? null;
+    return { due_date: computeDeadline(input.trigger.date, input.trigger.rule, calendar), detail: `Computed: ${describeDeadlineRule(input.trigger.date, input.trigger.rule, calendar)}` };
+  }
+  if (!input.due_date) throw new Error('due_date or trigger required');
+  return { due_date: input.due_date };
+}
+
+export function createDeadline(data: DeadlinesData, input: CreateDeadlineInput): Deadline {
+  assertRelatedEntity(data, input.related_entity_type, input.related_entity_id);
+  const { due_date, detail } = resolveDueDate(data, input);
+  const deadline: Deadline = {
+    id: data.uuid(),
+    related_entity_type: input.related_entity_type,
+    related_entity_id: input.related_entity_id,
+    label: input.label.trim(),
+    due_date,
+    severity: input.severity ?? 'Normal',
+    status: 'Open',
+    created_at: data.now(),
+  };
+  validateDeadline(deadline);
+  data.deadlines.push(deadline);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'Create', entity_id: deadline.id, after: deadline, detail });
+  return deadline;
+}
+
+export function updateDeadline(data: DeadlinesData, id: UUID, changes: Partial<Pick<Deadline, 'label' | 'due_date' | 'severity'>>): Deadline | null {
+  const deadline = data.deadlines.find(d => d.id === id);
+  if (!deadline) return null;
+  const before: Deadline = { ...deadline };
+  if (changes.label !== undefined) deadline.label = changes.label.trim();
+  if (changes.due_date !== undefined) deadline.due_date = changes.due_date;
+  if (changes.severity !== undefined) deadline.severity = changes.severity as DeadlineSeverity;
+  validateDeadline(deadline); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'Update', entity_id: deadline.id, before, after: deadline });
+  return deadline;
+}
+
+export function setDeadlineStatus(data: DeadlinesData, id: UUID, status: Exclude<DeadlineStatus, 'Snoozed'>): Deadline | null {
+  const deadline = data.deadlines.find(d => d.id === id);
+  if (!deadline) return null;
+  const before: Deadline = { ...deadline };
+  deadline.status = status;
+  delete data.snoozes[id];
+  validateDeadline(deadline);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'StatusChange', entity_id: deadline.id, before, after: deadline, detail: `Status changed to ${status}` });
+  return deadline;
+}
+
+export function deleteDeadline(data: DeadlinesData, id: UUID): boolean {
+  const idx = data.deadlines.findIndex(d => d.id === id);
+  if (idx === -1) return false;
+  const before = data.deadlines[idx];
+  data.deadlines.splice(idx, 1);
+  delete data.snoozes[id];
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Snooze
+// ─────────────────────────────────────────────────────────────
+// Works for explicit ids and derived ids ("PlanItem:<uuid>", "FollowUpItem:<uuid>").
+export function snoozeDeadline(data: DeadlinesData, id: string, until: ISODateString): void {
+  const explicit = data.deadlines.find(d => d.id === id);
+  if (explicit) {
+    if (explicit.status === 'Completed' || explicit.status === 'Cancelled') throw new Error(`Cannot snooze a ${explicit.status} deadline`);
+    const before: Deadline = { ...explicit };
+    explicit.status = 'Snoozed';
+    data.snoozes[id] = until;
+    if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'StatusChange', entity_id: id, before, after: explicit, detail: `Snoozed until ${until}` });
+  } else {
+    if (!/^(PlanItem|FollowUpItem):/.test(id)) throw new Error('Deadline not found');
+    data.snoozes[id] = until;
+    if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'StatusChange', entity_id: id, after: { id, snoozed_until: until }, detail: `Snoozed until ${until}` });
+  }
+  if (data.persist) void data.persist();
+}
+
+export function unsnoozeDeadline(data: DeadlinesData, id: string, detail = 'Snooze cleared'): boolean {
+  if (!(id in data.snoozes)) return false;
+  delete data.snoozes[id];
+  const explicit = data.deadlines.find(d => d.id === id);
+  if (explicit && explicit.status === 'Snoozed') {
+    const before: Deadline = { ...explicit };
+    explicit.status = 'Open';
+    if (data.audit) void data.audit({ entity_type: 'Deadline', change_type: 'StatusChange', entity_id: id, before, after: explicit, detail });
+  } else if (data.audit) {
+    void data.audit({ entity_type: 'Deadline', change_type: 'StatusChange', entity_id: id, detail });
+  }
+  if (data.persist) void data.persist();
+  return true;
+}
+
+// Reopen everything whose wake date has arrived. Returns the ids woken.
+export function wakeSnoozedDeadlines(data: DeadlinesData, date: ISODateString): string[] {
+  const due = Object.entries(data.snoozes).filter(([, until]) => until <= date).map(([id]) => id);
+  for (const id of due) unsnoozeDeadline(data, id, `Snooze ended ${date}`);
+  return due;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Derived deadlines
+// ─────────────────────────────────────────────────────────────
+function severityForPriority(priority: PlanItemPriority): DeadlineSeverity {
+  switch (priority) {
+    case 'Low':
+    case 'Normal':
+      return 'Normal';
+    case 'High':
+      return 'Important';
+    case 'Critical':
+      return 'Critical';
+    default: {
+      const _exhaustive: never = priority;
+      return _exhaustive;
+    }
+  }
+}
+
+export function derivedDeadlines(mp: MasterPlanData | null, outreach: OutreachData | null): Deadline[] {
+  const out: Deadline[] = [];
+  if (mp) {
+    for (const pi of mp.planItems) {
+      if (!pi.due_date || pi.status === 'Done' || pi.status === 'Dropped') continue;
+      out.push({ id: `PlanItem:${pi.id}`, related_entity_type: 'PlanItem', related_entity_id: pi.id, label: pi.title, due_date: pi.due_date, severity: severityForPriority(pi.priority), status: 'Open', created_at: pi.created_at });
+    }
+  }
+  if (outreach) {
+    for (const fu of outreach.followUps) {
+      if (fu.status !== 'Open') continue;
+      const contact = outreach.contacts.find(c => c.id === fu.contact_id);
+      const who = contact ? (contact.organization || contact.contact_name) : 'unknown contact';
+      out.push({ id: `FollowUpItem:${fu.id}`, related_entity_type: 'Outreach', related_entity_id: fu.id, label: `Follow up with ${who}${fu.notes ? `: ${fu.notes}` : ''}`, due_date: fu.due_date, severity: 'Normal', status: 'Open', created_at: fu.created_at });
+    }
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Upcoming / overdue view
+// ─────────────────────────────────────────────────────────────
+export interface DeadlineEntry extends Deadline {
+  derived: boolean;
+  days_until: number; // negative when overdue
+}
+
+export interface DeadlineView {
+  date: ISODateString;
+  overdue: DeadlineEntry[];
+  upcoming: DeadlineEntry[]; // due today through date + horizonDays
+}
+
+const SEVERITY_RANK: Record<DeadlineSeverity, number> = { Critical: 0, Important: 1, Normal: 2 };
+
+// Critical first; within a severity, the earliest due date first.
+export function compareDeadlines(a: Deadline, b: Deadline): number {
+  return SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.due_date.localeCompare(b.due_date) || a.label.localeCompare(b.label) || a.id.localeCompare(b.id);
+}
+
+function daysBetween(from: ISODateString, to: ISODateString): number {
+  return Math.round((Date.parse(to + 'T00:00:00Z') - Date.parse(from + 'T00:00:00Z')) / 86_400_000);
+}
+
+export function deadlineView(data: DeadlinesData, mp: MasterPlanData | null, outreach: OutreachData | null, date: ISODateString, horizonDays = 7): DeadlineView {
+  const candidates: DeadlineEntry[] = [
+    ...data.deadlines.filter(d => d.status === 'Open' || d.status === 'Snoozed').map(d => ({ ...d, derived: false, days_until: daysBetween(date, d.due_date) })),
+    ...derivedDeadlines(mp, outreach).map(d => ({ ...d, derived: true, days_until: daysBetween(date, d.due_date) })),
+  ];
+  // A snooze hides the deadline until its wake date, whether or not the stored status was reset yet
+  const active = candidates.filter(d => !(data.snoozes[d.id] && data.snoozes[d.id] > date));
+  return {
+    date,
+    overdue: active.filter(d => d.days_until < 0).sort(compareDeadlines),
+    upcoming: active.filter(d => d.days_until >= 0 && d.days_until <= horizonDays).sort(compareDeadlines),
+  };
+}
@@ -0,0 +1,56 @@
+// Deadlines Validators — runtime checks for Deadline
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  Deadline,
+  DeadlineRelatedEntityType,
+  DeadlineSeverity,
+  DeadlineStatus,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+
+export const DEADLINE_RELATED_TYPES: DeadlineRelatedEntityType[] = ['Project','PlanItem','Outreach','Document','Artifact','Other'];
+export const DEADLINE_SEVERITY: DeadlineSeverity[] = ['Normal','Important','Critical'];
+export const DEADLINE_STATUS: DeadlineStatus[] = ['Open','Completed','Snoozed','Cancelled'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateDeadline(input: unknown): Deadline {
+  if (!isObj(input)) fail('Deadline','must be object');
+  const { id, related_entity_type, related_entity_id, label, due_date, severity, status, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!enumIncludes(DEADLINE_RELATED_TYPES, related_entity_type)) fail('related_entity_type',`one of ${DEADLINE_RELATED_TYPES.join(',')}`);
+  if (!isUUID(related_entity_id)) fail('related_entity_id','invalid UUID');
+  if (typeof label !== 'string' || !label.trim()) fail('label','non-empty string');
+  if (!isISODate(due_date)) fail('due_date','ISO date');
+  if (!enumIncludes(DEADLINE_SEVERITY, severity)) fail('severity',`one of ${DEADLINE_SEVERITY.join(',')}`);
+  if (!enumIncludes(DEADLINE_STATUS, status)) fail('status',`one of ${DEADLINE_STATUS.join(',')}`);
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return {
+    id,
+    related_entity_type: related_entity_type as DeadlineRelatedEntityType,
+    related_entity_id,
+    label: (label as string).trim(),
+    due_date,
+    severity: severity as DeadlineSeverity,
+    status: status as DeadlineStatus,
+    created_at,
+  };
+}
+
+// Snoozes are kept beside the deadlines as { deadline id → wake date }.
+export function validateSnoozes(input: unknown): Record<string, ISODateString> {
+  if (!isObj(input)) fail('snoozed_until','must be object');
+  for (const [id, until] of Object.entries(input)) {
+    if (!isISODate(until)) fail(`snoozed_until.${id}`,'ISO date');
+  }
+  return { ...(input as Record<string, ISODateString>) };
+}
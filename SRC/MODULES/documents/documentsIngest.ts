@@ -0,0 +1,142 @@
+// Documents Ingest — walk a local folder, fingerprint files, create Document records
+// Duplicates are linked to the first-seen document via DuplicateLink rather than left unlinked.
+// Re-running over the same folder is idempotent: known storage paths are skipped. A known path with new
+// content keeps its earlier hash in the fingerprint's history and is logged as a Document update.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { sha256File } from '../../CORE/contentHash.js';
+import { Document, DocumentType, UUID } from '../../DOMAIN/sparkModels.js';
+import { DocumentsData, DocumentFingerprint, createDocument, linkDuplicate } from './documentsService.js';
+import { validateDocumentFingerprint } from './documentsValidators.js';
+
+export interface IngestOptions {
+  recursive?: boolean; // default true
+  includeHidden?: boolean; // default false; dotfiles are usually OS/editor noise
+}
+
+export type IngestOutcome = 'Created' | 'Duplicate' | 'Skipped' | 'Changed';
+
+export interface IngestEntry {
+  storage_path: string;
+  outcome: IngestOutcome;
+  document_id: UUID;
+  duplicate_of?: UUID;
+  reason?: string;
+}
+
+export interface IngestReport {
+  created: number;
+  duplicates: number;
+  skipped: number;
+  changed: number;
+  entries: IngestEntry[];
+}
+
+export const DUPLICATE_REASON_HASH = 'identical hash';
+export const DUPLICATE_REASON_NAME_SIZE = 'same filename and size';
+
+const SCANNED_EXTENSIONS = ['.pdf', '.jpg', '.jpeg', '.png', '.tif', '.tiff', '.heic'];
+const EMAIL_EXTENSIONS = ['.eml', '.msg'];
+
+// Sorted walk so ingestion order (and therefore which copy becomes "primary") is deterministic.
+async function listFiles(dir: string, opts: Required<IngestOptions>): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  const out: string[] = [];
+  for (const entry of entries) {
+    if (!opts.includeHidden && entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (opts.recursive) out.push(...await listFiles(full, opts));
+    } else if (entry.isFile()) {
+      out.push(full);
+    }
+  }
+  return out;
+}
+
+function toStoragePath(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+function inferDocType(filename: string): DocumentType {
+  return EMAIL_EXTENSIONS.includes(path.extname(filename).toLowerCase()) ? 'Email' : 'Other';
+}
+
+function titleFromFilename(filename: string): string {
+  const base = path.basename(filename, path.extname(filename)).replace(/[_]+/g, ' ').trim();
+  return base || filename;
+}
+
+function findDuplicateSource(data: DocumentsData, sha256: string, filename: string, size: number): { fp: DocumentFingerprint; reason: string } | null {
+  const byHash = data.fingerprints.find(fp => fp.sha256 === sha256);
+  if (byHash) return { fp: byHash, reason: DUPLICATE_REASON_HASH };
+  const byNameSize = data.fingerprints.find(fp => fp.original_filename === filename && fp.size === size);
+  if (byNameSize) return { fp: byNameSize, reason: DUPLICATE_REASON_NAME_SIZE };
+  return null;
+}
+
+// The primary of a duplicate chain is the document that is not itself someone's duplicate.
+function resolvePrimary(data: DocumentsData, document_id: UUID): UUID {
+  const link = data.duplicateLinks.find(l => l.duplicate_document_id === document_id);
+  return link ? link.primary_document_id : document_id;
+}
+
+export async function ingestDirectory(data: DocumentsData, dir: string, options: IngestOptions = {}): Promise<IngestReport> {
+  const opts: Required<IngestOptions> = { recursive: options.recursive ?? true, includeHidden: options.includeHidden ?? false };
+  const stat = await fs.stat(dir);
+  if (!stat.isDirectory()) throw new Error(`Not a directory: ${dir}`);
+
+  const report: IngestReport = { created: 0, duplicates: 0, skipped: 0, changed: 0, entries: [] };
+  for (const file of await listFiles(dir, opts)) {
+    const storage_path = toStoragePath(file);
+    const original_filename = path.basename(file);
+    const fileStat = await fs.stat(file);
+    const size = fileStat.size;
+    const sha256 = await sha256File(file);
+
+    const known = data.fingerprints.find(fp => fp.storage_path === storage_path);
+    if (known) {
+      if (known.sha256 === sha256) {
+        report.skipped++;
+        report.entries.push({ storage_path, outcome: 'Skipped', document_id: known.document_id });
+      } else {
+        // Same path, new content: keep the document, refresh its fingerprint and surface it for review
+        const before = { ...known, history: known.history.slice() };
+        known.history.push({ sha256: known.sha256, size: known.size, ingested_at: known.ingested_at });
+        known.sha256 = sha256;
+        known.size = size;
+        known.ingested_at = data.now();
+        if (data.audit) void data.audit({ entity_type: 'DocumentFingerprint', change_type: 'Update', entity_id: known.document_id, before, after: { ...known, history: known.history.slice() }, detail: `File content changed on re-ingest: ${storage_path}` });
+        report.changed++;
+        report.entries.push({ storage_path, outcome: 'Changed', document_id: known.document_id });
+      }
+      continue;
+    }
+
+    const dup = findDuplicateSource(data, sha256, original_filename, size);
+    const doc: Document = createDocument(data, {
+      original_filename,
+      storage_path,
+      title: titleFromFilename(original_filename),
+      doc_type: inferDocType(original_filename),
+      date_document_created: fileStat.mtime.toISOString().slice(0, 10),
+      scanned: SCANNED_EXTENSIONS.includes(path.extname(original_filename).toLowerCase()),
+    });
+    data.fingerprints.push(validateDocumentFingerprint({ document_id: doc.id, storage_path, original_filename, size, sha256, ingested_at: data.now(), history: [] }));
+
+    if (dup) {
+      const primary = resolvePrimary(data, dup.fp.document_id);
+      linkDuplicate(data, primary, doc.id, dup.reason);
+      report.duplicates++;
+      report.entries.push({ storage_path, outcome: 'Duplicate', document_id: doc.id, duplicate_of: primary, reason: dup.reason });
+    } else {
+      report.created++;
+      report.entries.push({ storage_path, outcome: 'Created', document_id: doc.id });
+    }
+  }
+  // Fingerprints are pushed after createDocument's own persist; write once more so they land on disk.
+  if (data.persist) await data.persist();
+  return report;
+}
@@ -0,0 +1,88 @@
+// Documents Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Document, MisconductFlag, DuplicateLink, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateDocument, validateMisconductFlag, validateDuplicateLink, validateDocumentFingerprint } from './documentsValidators.js';
+import { DocumentsData, DocumentFingerprint } from './documentsService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface DocumentsSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  documents: Document[];
+  misconduct_flags: MisconductFlag[];
+  duplicate_links: DuplicateLink[];
+  file_fingerprints: DocumentFingerprint[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'documents.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): DocumentsSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), documents: [], misconduct_flags: [], duplicate_links: [], file_fingerprints: [] };
+}
+
+export async function loadDocumentsSnapshot(filePath: string = DEFAULT_FILE): Promise<DocumentsSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const documentsRaw = Array.isArray(parsed.documents) ? parsed.documents : [];
+    const flagsRaw = Array.isArray(parsed.misconduct_flags) ? parsed.misconduct_flags : [];
+    const linksRaw = Array.isArray(parsed.duplicate_links) ? parsed.duplicate_links : [];
+    const fingerprintsRaw = Array.isArray(parsed.file_fingerprints) ? parsed.file_fingerprints : [];
+
+    return {
+      version,
+      updated_at,
+      documents: documentsRaw.map((d: unknown, i: number) => { try { return validateDocument(d); } catch (e) { throw new Error(`Document[${i}] invalid: ${(e as Error).message}`); } }),
+      misconduct_flags: flagsRaw.map((f: unknown, i: number) => { try { return validateMisconductFlag(f); } catch (e) { throw new Error(`MisconductFlag[${i}] invalid: ${(e as Error).message}`); } }),
+      duplicate_links: linksRaw.map((l: unknown, i: number) => { try { return validateDuplicateLink(l); } catch (e) { throw new Error(`DuplicateLink[${i}] invalid: ${(e as Error).message}`); } }),
+      file_fingerprints: fingerprintsRaw.map((f: unknown, i: number) => { try { return validateDocumentFingerprint(f); } catch (e) { throw new Error(`FileFingerprint[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load documents snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveDocumentsSnapshot(snapshot: DocumentsSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: DocumentsSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadDocumentsData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<DocumentsData> {
+  const snap = await loadDocumentsSnapshot(filePath);
+  const data: DocumentsData = {
+    documents: snap.documents,
+    misconductFlags: snap.misconduct_flags,
+    duplicateLinks: snap.duplicate_links,
+    fingerprints: snap.file_fingerprints,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: DocumentsSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        documents: data.documents.map(d => validateDocument(d)),
+        misconduct_flags: data.misconductFlags.map(f => validateMisconductFlag(f)),
+        duplicate_links: data.duplicateLinks.map(l => validateDuplicateLink(l)),
+        file_fingerprints: data.fingerprints.map(f => validateDocumentFingerprint(f)),
+      };
+      await saveDocumentsSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,294 @@
+// Documents Service — CRUD & query helpers for documents, misconduct flags, duplicate links
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+
+import {
+  Document,
+  DocumentType,
+  AllegationType,
+  OcrStatus,
+  PrimaryRelevance,
+  DocumentRoute,
+  MisconductFlag,
+  MisconductSeverity,
+  DuplicateLink,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+import {
+  validateDocument,
+  validateMisconductFlag,
+  validateDuplicateLink,
+} from './documentsValidators.js';
+
+// An earlier content of the same file, kept when re-ingestion finds it changed.
+export interface FingerprintVersion {
+  sha256: string;
+  size: number;
+  ingested_at: ISODateTimeString;
+}
+
+// Content fingerprint of an ingested file; lets re-ingestion recognise files it has already seen.
+export interface DocumentFingerprint {
+  document_id: UUID;
+  storage_path: string;
+  original_filename: string;
+  size: number;
+  sha256: string;
+  ingested_at: ISODateTimeString;
+  history: FingerprintVersion[]; // previous contents, oldest first
+}
+
+export interface DocumentsData {
+  documents: Document[];
+  misconductFlags: MisconductFlag[];
+  duplicateLinks: DuplicateLink[];
+  fingerprints: DocumentFingerprint[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'Document' | 'DocumentFingerprint' | 'MisconductFlag' | 'DuplicateLink';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyDocumentsData(idGen: () => UUID, clock: () => ISODateTimeString): DocumentsData {
+  return { documents: [], misconductFlags: [], duplicateLinks: [], fingerprints: [], uuid: idGen, now: clock };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Document CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateDocumentInput {
+  original_filename: string;
+  storage_path: string;
+  title: string;
+  doc_type: DocumentType;
+  date_of_event?: ISODateString | null;
+  date_document_created?: ISODateString | null;
+  children_involved?: string[];
+  agencies_involved?: string[];
+  people_involved?: string[];
+  allegation_types?: AllegationType[];
+  summary?: string;
+  scanned?: boolean;
+  ocr_status?: OcrStatus;
+  primary_relevance?: PrimaryRelevance;
+  routes?: DocumentRoute[];
+}
+
+export function createDocument(data: DocumentsData, input: CreateDocumentInput): Document {
+  const doc: Document = {
+    id: data.uuid(),
+    original_filename: input.original_filename.trim(),
+    storage_path: input.storage_path.trim(),
+    title: input.title.trim(),
+    doc_type: input.doc_type,
+    date_of_event: input.date_of_event ?? null,
+    date_document_created: input.date_document_created ?? null,
+    children_involved: (input.children_involved || []).map(s => s.trim()),
+    agencies_involved: (input.agencies_involved || []).map(s => s.trim()),
+    people_involved: (input.people_involved || []).map(s => s.trim()),
+    allegation_types: (input.allegation_types || []).slice(),
+    summary: input.summary?.trim() || '',
+    misconduct_flags: [],
+    scanned: input.scanned ?? false,
+    ocr_status: input.ocr_status ?? 'NotRun',
+    primary_relevance: input.primary_relevance ?? 'Supporting',
+    routes: (input.routes || []).slice(),
+    created_at: data.now(),
+    updated_at: data.now(),
+  };
+  validateDocument(doc);
+  data.documents.push(doc);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Document', change_type: 'Create', entity_id: doc.id, after: doc });
+  return doc;
+}
+
+export function updateDocument(data: DocumentsData, id: UUID, changes: Partial<Omit<Document, 'id' | 'created_at' | 'misconduct_flags'>>): Document | null {
+  const doc = data.documents.find(d => d.id === id);
+  if (!doc) return null;
+  const before: Document = JSON.parse(JSON.stringify(doc));
+  if (changes.original_filename !== undefined) doc.original_filename = changes.original_filename.trim();
+  if (changes.storage_path !== undefined) doc.storage_path = changes.storage_path.trim();
+  if (changes.title !== undefined) doc.title = changes.title.trim();
+  if (changes.doc_type !== undefined) doc.doc_type = changes.doc_type as DocumentType;
+  if (changes.date_of_event !== undefined) doc.date_of_event = changes.date_of_event;
+  if (changes.date_document_created !== undefined) doc.date_document_created = changes.date_document_created;
+  if (changes.children_involved !== undefined) doc.children_involved = changes.children_involved.map(s => s.trim());
+  if (changes.agencies_involved !== undefined) doc.agencies_involved = changes.agencies_involved.map(s => s.trim());
+  if (changes.people_involved !== undefined) doc.people_involved = changes.people_involved.map(s => s.trim());
+  if (changes.allegation_types !== undefined) doc.allegation_types = changes.allegation_types.slice();
+  if (changes.summary !== undefined) doc.summary = changes.summary.trim();
+  if (changes.scanned !== undefined) doc.scanned = changes.scanned;
+  if (changes.ocr_status !== undefined) doc.ocr_status = changes.ocr_status as OcrStatus;
+  if (changes.primary_relevance !== undefined) doc.primary_relevance = changes.primary_relevance as PrimaryRelevance;
+  if (changes.routes !== undefined) doc.routes = changes.routes.slice();
+  doc.updated_at = data.now();
+  validateDocument(doc); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Document', change_type: 'Update', entity_id: doc.id, before, after: doc });
+  return doc;
+}
+
+export function deleteDocument(data: DocumentsData, id: UUID): boolean {
+  const idx = data.documents.findIndex(d => d.id === id);
+  if (idx === -1) return false;
+  const before = data.documents[idx];
+  // Cascade: flags belong to the document; duplicate links are meaningless without both ends
+  const removedFlags = data.misconductFlags.filter(f => f.document_id === id);
+  const removedLinks = data.duplicateLinks.filter(l => l.primary_document_id === id || l.duplicate_document_id === id);
+  data.misconductFlags = data.misconductFlags.filter(f => f.document_id !== id);
+  data.duplicateLinks = data.duplicateLinks.filter(l => l.primary_document_id !== id && l.duplicate_document_id !== id);
+  data.fingerprints = data.fingerprints.filter(fp => fp.document_id !== id);
+  data.documents.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    void data.audit({ entity_type: 'Document', change_type: 'Delete', entity_id: id, before });
+    for (const f of removedFlags) {
+      void data.audit({ entity_type: 'MisconductFlag', change_type: 'Delete', entity_id: f.id, before: f, detail: 'Cascade delete due to document removal' });
+    }
+    for (const l of removedLinks) {
+      void data.audit({ entity_type: 'DuplicateLink', change_type: 'Delete', entity_id: l.id, before: l, detail: 'Cascade delete due to document removal' });
+    }
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Misconduct Flags
+// ─────────────────────────────────────────────────────────────
+export interface CreateMisconductFlagInput {
+  document_id: UUID;
+  law_or_policy: string;
+  description: string;
+  severity: MisconductSeverity;
+  page_ref?: string | null;
+  paragraph_ref?: string | null;
+}
+
+export function addMisconductFlag(data: DocumentsData, input: CreateMisconductFlagInput): MisconductFlag {
+  const doc = data.documents.find(d => d.id === input.document_id);
+  if (!doc) throw new Error('Document not found');
+  const flag: MisconductFlag = {
+    id: data.uuid(),
+    document_id: input.document_id,
+    law_or_policy: input.law_or_policy.trim(),
+    description: input.description.trim(),
+    severity: input.severity,
+    page_ref: input.page_ref ?? null,
+    paragraph_ref: input.paragraph_ref ?? null,
+    created_at: data.now(),
+  };
+  validateMisconductFlag(flag);
+  data.misconductFlags.push(flag);
+  doc.misconduct_flags.push(flag.id);
+  doc.updated_at = data.now();
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'MisconductFlag', change_type: 'Create', entity_id: flag.id, after: flag });
+  return flag;
+}
+
+export function updateMisconductFlag(data: DocumentsData, id: UUID, changes: Partial<Omit<MisconductFlag, 'id' | 'document_id' | 'created_at'>>): MisconductFlag | null {
+  const flag = data.misconductFlags.find(f => f.id === id);
+  if (!flag) return null;
+  const before: MisconductFlag = { ...flag };
+  if (changes.law_or_policy !== undefined) flag.law_or_policy = changes.law_or_policy.trim();
+  if (changes.description !== undefined) flag.description = changes.description.trim();
+  if (changes.severity !== undefined) flag.severity = changes.severity as MisconductSeverity;
+  if (changes.page_ref !== undefined) flag.page_ref = changes.page_ref;
+  if (changes.paragraph_ref !== undefined) flag.paragraph_ref = changes.paragraph_ref;
+  validateMisconductFlag(flag);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'MisconductFlag', change_type: 'Update', entity_id: flag.id, before, after: flag });
+  return flag;
+}
+
+export function deleteMisconductFlag(data: DocumentsData, id: UUID): boolean {
+  const idx = data.misconductFlags.findIndex(f => f.id === id);
+  if (idx === -1) return false;
+  const before = data.misconductFlags[idx];
+  data.misconductFlags.splice(idx, 1);
+  const doc = data.documents.find(d => d.id === before.document_id);
+  if (doc) {
+    doc.misconduct_flags = doc.misconduct_flags.filter(fid => fid !== id);
+    doc.updated_at = data.now();
+  }
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'MisconductFlag', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+export function flagsForDocument(data: DocumentsData, document_id: UUID): MisconductFlag[] {
+  return data.misconductFlags.filter(f => f.document_id === document_id);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Duplicate Links
+// ─────────────────────────────────────────────────────────────
+export function linkDuplicate(data: DocumentsData, primary_document_id: UUID, duplicate_document_id: UUID, reason: string): DuplicateLink {
+  if (!data.documents.some(d => d.id === primary_document_id)) throw new Error('Primary document not found');
+  if (!data.documents.some(d => d.id === duplicate_document_id)) throw new Error('Duplicate document not found');
+  const existing = data.duplicateLinks.find(l => l.primary_document_id === primary_document_id && l.duplicate_document_id === duplicate_document_id);
+  if (existing) return existing;
+  const link: DuplicateLink = { id: data.uuid(), primary_document_id, duplicate_document_id, reason: reason.trim() };
+  validateDuplicateLink(link);
+  data.duplicateLinks.push(link);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'DuplicateLink', change_type: 'Create', entity_id: link.id, after: link });
+  return link;
+}
+
+export function unlinkDuplicate(data: DocumentsData, id: UUID): boolean {
+  const idx = data.duplicateLinks.findIndex(l => l.id === id);
+  if (idx === -1) return false;
+  const before = data.duplicateLinks[idx];
+  data.duplicateLinks.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'DuplicateLink', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Query Helpers
+// ─────────────────────────────────────────────────────────────
+export interface DocumentFilter {
+  doc_type?: DocumentType[];
+  allegation_types?: AllegationType[]; // match if the document carries any of these
+  child?: string;   // case-insensitive match against children_involved
+  agency?: string;  // case-insensitive match against agencies_involved
+  routes?: DocumentRoute[]; // match if the document is routed to any of these
+  primary_relevance?: PrimaryRelevance[];
+  event_before?: ISODateString;
+  event_after?: ISODateString;
+}
+
+function includesIgnoreCase(list: string[], value: string): boolean {
+  const needle = value.trim().toLowerCase();
+  return list.some(s => s.toLowerCase() === needle);
+}
+
+export function filterDocuments(data: DocumentsData, filter: DocumentFilter): Document[] {
+  return data.documents.filter(d => {
+    if (filter.doc_type && !filter.doc_type.includes(d.doc_type)) return false;
+    if (filter.allegation_types && !filter.allegation_types.some(a => d.allegation_types.includes(a))) return false;
+    if (filter.child && !includesIgnoreCase(d.children_involved, filter.child)) return false;
+    if (filter.agency && !includesIgnoreCase(d.agencies_involved, filter.agency)) return false;
+    if (filter.routes && !filter.routes.some(r => d.routes.includes(r))) return false;
+    if (filter.primary_relevance && !filter.primary_relevance.includes(d.primary_relevance)) return false;
+    if (filter.event_before && d.date_of_event && d.date_of_event > filter.event_before) return false;
+    if (filter.event_after && d.date_of_event && d.date_of_event < filter.event_after) return false;
+    return true;
+  });
+}
+
+export function duplicatesOf(data: DocumentsData, document_id: UUID): DuplicateLink[] {
+  return data.duplicateLinks.filter(l => l.primary_document_id === document_id || l.duplicate_document_id === document_id);
+}
@@ -0,0 +1,129 @@
+// Documents Validators — runtime checks for Document, MisconductFlag, DuplicateLink
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  Document,
+  DocumentType,
+  AllegationType,
+  OcrStatus,
+  PrimaryRelevance,
+  DocumentRoute,
+  MisconductFlag,
+  MisconductSeverity,
+  DuplicateLink,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import type { DocumentFingerprint } from './documentsService.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+export const DOCUMENT_TYPES: DocumentType[] = ['CPSComplaint','PoliceReport','MedicalRecord','CourtOrder','OversightLetter','Email','Timeline','Other'];
+export const ALLEGATION_TYPES: AllegationType[] = ['PhysicalAbuse','SexualAbuse','Neglect','EvidenceSuppression','Retaliation','Other'];
+export const OCR_STATUS: OcrStatus[] = ['NotRun','Success','Failed'];
+export const PRIMARY_RELEVANCE: PrimaryRelevance[] = ['Primary','Supporting','External'];
+export const DOCUMENT_ROUTES: DocumentRoute[] = ['MDCR','DOJ','AG','Media','MasterFile','Other'];
+export const MISCONDUCT_SEVERITY: MisconductSeverity[] = ['Low','Medium','High','Extreme'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateDocument(input: unknown): Document {
+  if (!isObj(input)) fail('Document','must be object');
+  const {
+    id, original_filename, storage_path, title, doc_type, date_of_event, date_document_created,
+    children_involved, agencies_involved, people_involved, allegation_types, summary, misconduct_flags,
+    scanned, ocr_status, primary_relevance, routes, created_at, updated_at,
+  } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (typeof original_filename !== 'string') fail('original_filename','string');
+  if (typeof storage_path !== 'string') fail('storage_path','string');
+  if (typeof title !== 'string' || !title.trim()) fail('title','non-empty string');
+  if (!enumIncludes(DOCUMENT_TYPES, doc_type)) fail('doc_type',`one of ${DOCUMENT_TYPES.join(',')}`);
+  if (!(date_of_event === null || isISODate(date_of_event))) fail('date_of_event','ISO date or null');
+  if (!(date_document_created === null || isISODate(date_document_created))) fail('date_document_created','ISO date or null');
+  if (!isStringArray(children_involved)) fail('children_involved','string[]');
+  if (!isStringArray(agencies_involved)) fail('agencies_involved','string[]');
+  if (!isStringArray(people_involved)) fail('people_involved','string[]');
+  if (!Array.isArray(allegation_types) || allegation_types.some(a => !enumIncludes(ALLEGATION_TYPES, a))) fail('allegation_types',`array of ${ALLEGATION_TYPES.join(',')}`);
+  if (typeof summary !== 'string') fail('summary','string');
+  if (!Array.isArray(misconduct_flags) || misconduct_flags.some(f => !isUUID(f))) fail('misconduct_flags','UUID[]');
+  if (typeof scanned !== 'boolean') fail('scanned','boolean');
+  if (!enumIncludes(OCR_STATUS, ocr_status)) fail('ocr_status',`one of ${OCR_STATUS.join(',')}`);
+  if (!enumIncludes(PRIMARY_RELEVANCE, primary_relevance)) fail('primary_relevance',`one of ${PRIMARY_RELEVANCE.join(',')}`);
+  if (!Array.isArray(routes) || routes.some(r => !enumIncludes(DOCUMENT_ROUTES, r))) fail('routes',`array of ${DOCUMENT_ROUTES.join(',')}`);
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  if (!isISODateTime(updated_at)) fail('updated_at','ISO datetime');
+  return {
+    id,
+    original_filename,
+    storage_path,
+    title: (title as string).trim(),
+    doc_type: doc_type as DocumentType,
+    date_of_event: date_of_event as ISODateString | null,
+    date_document_created: date_document_created as ISODateString | null,
+    children_involved,
+    agencies_involved,
+    people_involved,
+    allegation_types: allegation_types as AllegationType[],
+    summary,
+    misconduct_flags: misconduct_flags as UUID[],
+    scanned,
+    ocr_status: ocr_status as OcrStatus,
+    primary_relevance: primary_relevance as PrimaryRelevance,
+    routes: routes as DocumentRoute[],
+    created_at,
+    updated_at,
+  };
+}
+
+export function validateMisconductFlag(input: unknown): MisconductFlag {
+  if (!isObj(input)) fail('MisconductFlag','must be object');
+  const { id, document_id, law_or_policy, description, severity, page_ref, paragraph_ref, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isUUID(document_id)) fail('document_id','invalid UUID');
+  if (typeof law_or_policy !== 'string' || !law_or_policy.trim()) fail('law_or_policy','non-empty string');
+  if (typeof description !== 'string') fail('description','string');
+  if (!enumIncludes(MISCONDUCT_SEVERITY, severity)) fail('severity',`one of ${MISCONDUCT_SEVERITY.join(',')}`);
+  if (!(page_ref === null || typeof page_ref === 'string')) fail('page_ref','string or null');
+  if (!(paragraph_ref === null || typeof paragraph_ref === 'string')) fail('paragraph_ref','string or null');
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return { id, document_id, law_or_policy: (law_or_policy as string).trim(), description, severity: severity as MisconductSeverity, page_ref: page_ref as string | null, paragraph_ref: paragraph_ref as string | null, created_at };
+}
+
+export function validateDuplicateLink(input: unknown): DuplicateLink {
+  if (!isObj(input)) fail('DuplicateLink','must be object');
+  const { id, primary_document_id, duplicate_document_id, reason } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isUUID(primary_document_id)) fail('primary_document_id','invalid UUID');
+  if (!isUUID(duplicate_document_id)) fail('duplicate_document_id','invalid UUID');
+  if (primary_document_id === duplicate_document_id) fail('duplicate_document_id','must differ from primary_document_id');
+  if (typeof reason !== 'string' || !reason.trim()) fail('reason','non-empty string');
+  return { id, primary_document_id, duplicate_document_id, reason: (reason as string).trim() };
+}
+
+export function validateDocumentFingerprint(input: unknown): DocumentFingerprint {
+  if (!isObj(input)) fail('DocumentFingerprint','must be object');
+  const { document_id, storage_path, original_filename, size, sha256, ingested_at, history } = input;
+  if (!isUUID(document_id)) fail('document_id','invalid UUID');
+  if (typeof storage_path !== 'string' || !storage_path) fail('storage_path','non-empty string');
+  if (typeof original_filename !== 'string') fail('original_filename','string');
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 0) fail('size','non-negative integer');
+  if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) fail('sha256','hex SHA-256 digest');
+  if (!isISODateTime(ingested_at)) fail('ingested_at','ISO datetime');
+  // Fingerprints written before history was kept have none
+  if (history !== undefined && !Array.isArray(history)) fail('history','array');
+  const versions = ((history ?? []) as unknown[]).map((h, i) => {
+    if (!isObj(h)) fail(`history[${i}]`,'must be object');
+    if (typeof h.sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(h.sha256)) fail(`history[${i}].sha256`,'hex SHA-256 digest');
+    if (typeof h.size !== 'number' || !Number.isInteger(h.size) || h.size < 0) fail(`history[${i}].size`,'non-negative integer');
+    if (!isISODateTime(h.ingested_at)) fail(`history[${i}].ingested_at`,'ISO datetime');
+    return { sha256: h.sha256, size: h.size, ingested_at: h.ingested_at };
+  });
+  return { document_id, storage_path, original_filename, size, sha256, ingested_at, history: versions };
+}
@@ -0,0 +1,171 @@
+// Master Plan Dependencies — "blocked by" edges between plan items, due-date conflicts and critical path
+// Edges live on PlanItem.depends_on; every change goes through updatePlanItem so it is validated
+// (same project, no cycles) and audited like any other edit.
+
+import {
+  PlanItem,
+  PlanItemStatus,
+  UUID,
+  ISODateString,
+} from '../../DOMAIN/sparkModels.js';
+import { MasterPlanData, updatePlanItem } from './masterPlanService.js';
+import { addCalendarDays } from '../../CORE/deadlineCalculator.js';
+
+const OPEN_STATUSES: PlanItemStatus[] = ['NotStarted', 'InProgress'];
+
+export function addDependencies(data: MasterPlanData, item_id: UUID, prerequisite_ids: UUID[]): PlanItem | null {
+  const pi = data.planItems.find(p => p.id === item_id);
+  if (!pi) return null;
+  return updatePlanItem(data, item_id, { depends_on: [...pi.depends_on, ...prerequisite_ids] });
+}
+
+export function removeDependencies(data: MasterPlanData, item_id: UUID, prerequisite_ids: UUID[]): PlanItem | null {
+  const pi = data.planItems.find(p => p.id === item_id);
+  if (!pi) return null;
+  return updatePlanItem(data, item_id, { depends_on: pi.depends_on.filter(d => !prerequisite_ids.includes(d)) });
+}
+
+// Items this one waits on, and items waiting on this one
+export function prerequisitesOf(data: MasterPlanData, item_id: UUID): PlanItem[] {
+  const pi = data.planItems.find(p => p.id === item_id);
+  return pi ? data.planItems.filter(p => pi.depends_on.includes(p.id)) : [];
+}
+
+export function dependentsOf(data: MasterPlanData, item_id: UUID): PlanItem[] {
+  return data.planItems.filter(p => p.depends_on.includes(item_id));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Due-date conflicts
+// ─────────────────────────────────────────────────────────────
+export interface DependencyConflict {
+  item_id: UUID;
+  title: string;
+  due_date: ISODateString;
+  prerequisite_id: UUID;
+  prerequisite_title: string;
+  prerequisite_due_date: ISODateString;
+}
+
+// An open item due before one of its prerequisites. Dropped prerequisites no longer block anything.
+export function dependencyConflicts(data: MasterPlanData, project_id?: UUID): DependencyConflict[] {
+  const out: DependencyConflict[] = [];
+  for (const pi of data.planItems) {
+    if (project_id && pi.project_id !== project_id) continue;
+    if (!pi.due_date || !OPEN_STATUSES.includes(pi.status)) continue;
+    for (const dep of pi.depends_on) {
+      const prereq = data.planItems.find(p => p.id === dep);
+      if (!prereq || !prereq.due_date || prereq.status === 'Dropped') continue;
+      if (pi.due_date < prereq.due_date) {
+        out.push({ item_id: pi.id, title: pi.title, due_date: pi.due_date, prerequisite_id: prereq.id, prerequisite_title: prereq.title, prerequisite_due_date: prereq.due_date });
+      }
+    }
+  }
+  return out.sort((a, b) => a.due_date.localeCompare(b.due_date) || a.title.localeCompare(b.title));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Critical path
+// ─────────────────────────────────────────────────────────────
+export interface ScheduledItem {
+  id: UUID;
+  title: string;
+  status: PlanItemStatus;
+  due_date: ISODateString | null;
+  earliest: ISODateString; // earliest day the item can be finished
+  latest: ISODateString;   // latest day it can finish without pushing past the target end date
+  slack_days: number;      // latest - earliest; negative means the target cannot be met
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  project_id: UUID;
+  start_date: ISODateString;
+  target_end_date: ISODateString;
+  earliest_finish: ISODateString | null; // null when nothing is left open
+  slack_days: number | null;             // target_end_date - earliest_finish
+  critical_path: UUID[];                 // zero-slack (or least-slack) items in schedule order
+  items: ScheduledItem[];
+  conflicts: DependencyConflict[];
+}
+
+function daysBetween(from: ISODateString, to: ISODateString): number {
+  return Math.round((Date.parse(to + 'T00:00:00Z') - Date.parse(from + 'T00:00:00Z')) / 86_400_000);
+}
+
+// Plan items carry no duration, so each open item counts as one day of work: it can finish no earlier
+// than the day after its last open prerequisite, and no earlier than the project start (or asOf,
+// when given). Done and Dropped items are finished and constrain nothing.
+export function criticalPath(data: MasterPlanData, project_id: UUID, asOf?: ISODateString): CriticalPathResult {
+  const project = data.projects.find(p => p.id === project_id);
+  if (!project) throw new Error('Project not found');
+  const open = data.planItems.filter(pi => pi.project_id === project_id && OPEN_STATUSES.includes(pi.status));
+  const openIds = new Set(open.map(pi => pi.id));
+  const prereqs = new Map(open.map(pi => [pi.id, pi.depends_on.filter(d => openIds.has(d))]));
+  const successors = new Map<UUID, UUID[]>(open.map(pi => [pi.id, []]));
+  for (const [id, deps] of prereqs) for (const d of deps) successors.get(d)!.push(id);
+
+  // Kahn's algorithm; ties broken by due date then title so the output is stable
+  const byId = new Map(open.map(pi => [pi.id, pi]));
+  const remaining = new Map([...prereqs].map(([id, deps]) => [id, deps.length]));
+  const order: UUID[] = [];
+  const ready = open.filter(pi => remaining.get(pi.id) === 0);
+  const cmp = (a: PlanItem, b: PlanItem) => (a.due_date ?? '9999-12-31').localeCompare(b.due_date ?? '9999-12-31') || a.title.localeCompare(b.title);
+  while (ready.length) {
+    ready.sort(cmp);
+    const next = ready.shift()!;
+    order.push(next.id);
+    for (const s of successors.get(next.id)!) {
+      remaining.set(s, remaining.get(s)! - 1);
+      if (remaining.get(s) === 0) ready.push(byId.get(s)!);
+    }
+  }
+  if (order.length !== open.length) throw new Error('Dependency cycle in project; fix it before scheduling');
+
+  const base = asOf && asOf > project.start_date ? asOf : project.start_date;
+  const earliest = new Map<UUID, ISODateString>();
+  for (const id of order) {
+    let e = base;
+    for (const d of prereqs.get(id)!) {
+      const after = addCalendarDays(earliest.get(d)!, 1);
+      if (after > e) e = after;
+    }
+    earliest.set(id, e);
+  }
+  const latest = new Map<UUID, ISODateString>();
+  for (const id of [...order].reverse()) {
+    let l = project.target_end_date;
+    for (const s of successors.get(id)!) {
+      const before = addCalendarDays(latest.get(s)!, -1);
+      if (before < l) l = before;
+    }
+    latest.set(id, l);
+  }
+
+  const slack = new Map(order.map(id => [id, daysBetween(earliest.get(id)!, latest.get(id)!)]));
+  const minSlack = order.length ? Math.min(...slack.values()) : null;
+  const items: ScheduledItem[] = order.map(id => {
+    const pi = byId.get(id)!;
+    return {
+      id,
+      title: pi.title,
+      status: pi.status,
+      due_date: pi.due_date,
+      earliest: earliest.get(id)!,
+      latest: latest.get(id)!,
+      slack_days: slack.get(id)!,
+      critical: slack.get(id) === minSlack,
+    };
+  });
+  const earliest_finish = order.length ? [...earliest.values()].sort().pop()! : null;
+  return {
+    project_id,
+    start_date: project.start_date,
+    target_end_date: project.target_end_date,
+    earliest_finish,
+    slack_days: earliest_finish ? daysBetween(earliest_finish, project.target_end_date) : null,
+    critical_path: items.filter(i => i.critical).sort((a, b) => a.earliest.localeCompare(b.earliest) || a.title.localeCompare(b.title)).map(i => i.id),
+    items,
+    conflicts: dependencyConflicts(data, project_id),
+  };
+}
@@ -1,15 +1,18 @@
-// Master Plan Persistence — JSON Snapshot Adapter
-// Stores projects and planItems in a single JSON file.
-// Pure Node fs usage; no external dependencies.
+// Master Plan Persistence — storage adapter wiring
+// Stores projects and planItems through a StorageAdapter (CORE/storage.ts): a single JSON snapshot
+// file by default, or tables in the SQLite database once storage:migrate --to=sqlite has run.
+// Older snapshot versions are migrated on load (MASTER_PLAN_MIGRATIONS, CORE/snapshotMigrations.ts).
 
-import { promises as fs } from 'fs';
 import * as path from 'path';
 import { Project, PlanItem, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels';
-import { validateProject, validatePlanItem } from './masterPlanValidators';
+import { validateProject, validatePlanItem } from './masterPlanValidators.js';
 import { MasterPlanData } from './masterPlanService';
+import { StorageAdapter, StorageConfig, StorageSchema, StoredState, jsonStorage, openStorage } from '../../CORE/storage.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+import { MigrationRegistry, MigrationPlan, OnMigrate, loadMigrated, pendingMigration } from '../../CORE/snapshotMigrations.js';
 
 export interface MasterPlanSnapshot {
-  version: number; // increment when schema evolves
+  version: number; // MASTER_PLAN_MIGRATIONS.current; add a migration when the schema evolves
   updated_at: ISODateTimeString; // last write time
   projects: Project[];
   plan_items: PlanItem[];
@@ -18,97 +21,110 @@ export interface MasterPlanSnapshot {
 const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
 const DEFAULT_FILE = path.join(DEFAULT_DIR, 'masterPlan.snapshot.json');
 
-async function ensureDir(dir: string): Promise<void> {
-  await fs.mkdir(dir, { recursive: true });
+export const MASTER_PLAN_STORAGE: StorageSchema = {
+  module: 'masterPlan',
+  collections: [
+    { name: 'projects', indexes: [] },
+    { name: 'plan_items', indexes: ['project_id', 'due_date'] },
+  ],
+};
+
+// Add a step (and bump current) whenever stored records change shape.
+export const MASTER_PLAN_MIGRATIONS: MigrationRegistry = {
+  module: 'masterPlan',
+  current: 2,
+  migrations: [
+    {
+      from: 1,
+      description: 'Plan items carry depends_on, recurrence and series_id',
+      migrate: c => ({ ...c, plan_items: c.plan_items.map(pi => ({ depends_on: [], recurrence: null, series_id: null, ...pi })) }),
+    },
+  ],
+};
+
+// The Master Plan adapter for the configured backend; filePath is the JSON snapshot.
+export async function openMasterPlanStorage(config: StorageConfig, filePath: string = DEFAULT_FILE): Promise<StorageAdapter> {
+  return openStorage(config, MASTER_PLAN_STORAGE, filePath);
 }
 
 function createEmptySnapshot(): MasterPlanSnapshot {
   return {
-    version: 1,
+    version: MASTER_PLAN_MIGRATIONS.current,
     updated_at: new Date().toISOString(),
     projects: [],
     plan_items: [],
   };
 }
 
-export async function loadSnapshot(filePath: string = DEFAULT_FILE): Promise<MasterPlanSnapshot> {
+function snapshotFromStored(stored: StoredState): MasterPlanSnapshot {
+  const projects: Project[] = stored.collections.projects.map((p: unknown, idx: number) => {
+    try { return validateProject(p); } catch (e) { throw new Error(`Project[${idx}] invalid: ${(e as Error).message}`); }
+  });
+  const plan_items: PlanItem[] = stored.collections.plan_items.map((pi: unknown, idx: number) => {
+    try { return validatePlanItem(pi); } catch (e) { throw new Error(`PlanItem[${idx}] invalid: ${(e as Error).message}`); }
+  });
+  return { version: stored.version, updated_at: stored.updated_at ?? new Date().toISOString(), projects, plan_items };
+}
+
+export async function loadSnapshotFrom(storage: StorageAdapter, onMigrate?: OnMigrate): Promise<MasterPlanSnapshot> {
   try {
-    const raw = await fs.readFile(filePath, 'utf8');
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root not an object');
-    const version = typeof parsed.version === 'number' ? parsed.version : 1;
-    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
-    const projectsRaw = Array.isArray(parsed.projects) ? parsed.projects : [];
-    const planItemsRaw = Array.isArray(parsed.plan_items) ? parsed.plan_items : [];
-
-    const projects: Project[] = projectsRaw.map((p: unknown, idx: number) => {
-      try { return validateProject(p); } catch (e) { throw new Error(`Project[${idx}] invalid: ${(e as Error).message}`); }
-    });
-    const plan_items: PlanItem[] = planItemsRaw.map((pi: unknown, idx: number) => {
-      try { return validatePlanItem(pi); } catch (e) { throw new Error(`PlanItem[${idx}] invalid: ${(e as Error).message}`); }
-    });
-
-    return { version, updated_at, projects, plan_items };
+    const { state, plan, backup } = await loadMigrated(MASTER_PLAN_MIGRATIONS, storage, snapshotFromStored);
+    if (backup && onMigrate) onMigrate({ plan: plan!, backup });
+    return state ? snapshotFromStored(state) : createEmptySnapshot();
   } catch (err) {
-    const e = err as NodeJS.ErrnoException;
-    if (e.code === 'ENOENT') return createEmptySnapshot();
-    throw new Error(`Failed to load snapshot: ${e.message}`);
+    throw new Error(`Failed to load snapshot: ${(err as Error).message}`);
   }
 }
 
-async function atomicWrite(filePath: string, content: string): Promise<void> {
-  await ensureDir(path.dirname(filePath));
-  const tmp = filePath + '.' + Date.now() + '.tmp';
-  await fs.writeFile(tmp, content, 'utf8');
-  await fs.rename(tmp, filePath);
+// The migration the next load would run, for storage:migrate --dry-run; null when nothing is stored.
+export async function pendingMasterPlanMigration(storage: StorageAdapter): Promise<MigrationPlan | null> {
+  return pendingMigration(MASTER_PLAN_MIGRATIONS, storage);
+}
+
+export async function loadSnapshot(filePath: string = DEFAULT_FILE): Promise<MasterPlanSnapshot> {
+  return loadSnapshotFrom(jsonStorage(MASTER_PLAN_STORAGE, filePath));
 }
 
 export async function saveSnapshot(snapshot: MasterPlanSnapshot, filePath: string = DEFAULT_FILE): Promise<void> {
-  const toSave: MasterPlanSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
-  const json = JSON.stringify(toSave, null, 2);
-  await atomicWrite(filePath, json);
+  await saveSnapshotTo(snapshot, jsonStorage(MASTER_PLAN_STORAGE, filePath));
 }
 
-// Attach persistence to an existing MasterPlanData instance.
-// Adds a persist() method which validates current memory state and writes snapshot.
-export function attachPersistence(data: MasterPlanData, filePath: string = DEFAULT_FILE): void {
-  data.persist = async () => {
-    // validate all before writing to avoid partial corruption
+export async function saveSnapshotTo(snapshot: MasterPlanSnapshot, storage: StorageAdapter): Promise<void> {
+  await storage.save({ version: snapshot.version, collections: { projects: snapshot.projects, plan_items: snapshot.plan_items } });
+}
+
+// Validates current memory state and writes it; nothing is written if any record is invalid.
+function persistTo(data: MasterPlanData, storage: StorageAdapter, version: number): () => Promise<void> {
+  return async () => {
     const projects = data.projects.map(p => validateProject(p));
     const plan_items = data.planItems.map(pi => validatePlanItem(pi));
-    const snapshot: MasterPlanSnapshot = {
-      version: 1,
-      updated_at: new Date().toISOString(),
-      projects,
-      plan_items,
-    };
-    await saveSnapshot(snapshot, filePath);
+    await saveSnapshotTo({ version, updated_at: new Date().toISOString(), projects, plan_items }, storage);
   };
 }
 
-// Convenience loader that returns a MasterPlanData hydrated from disk.
+// Attach persistence to an existing MasterPlanData instance.
+// Adds a persist() method which validates current memory state and writes snapshot; bursts of calls
+// share one write (see CORE/persistScheduler.ts).
+export function attachPersistence(data: MasterPlanData, filePath: string = DEFAULT_FILE, storage: StorageAdapter = jsonStorage(MASTER_PLAN_STORAGE, filePath)): void {
+  data.persist = createPersistScheduler(persistTo(data, storage, MASTER_PLAN_MIGRATIONS.current));
+}
+
+// Convenience loader that returns a MasterPlanData hydrated from storage (the JSON snapshot at
+// filePath unless another adapter is given). onMigrate hears about an older snapshot brought up to date.
 export async function loadMasterPlanData(
   filePath: string = DEFAULT_FILE,
   idGen: () => UUID,
   clock: () => ISODateTimeString,
+  storage: StorageAdapter = jsonStorage(MASTER_PLAN_STORAGE, filePath),
+  onMigrate?: OnMigrate,
 ): Promise<MasterPlanData> {
-  const snap = await loadSnapshot(filePath);
+  const snap = await loadSnapshotFrom(storage, onMigrate);
   const data: MasterPlanData = {
     projects: snap.projects,
     planItems: snap.plan_items,
     uuid: idGen,
     now: clock,
-    persist: async () => {
-      const projects = data.projects.map(p => validateProject(p));
-      const plan_items = data.planItems.map(pi => validatePlanItem(pi));
-      const snapshot: MasterPlanSnapshot = {
-        version: snap.version, // keep existing version
-        updated_at: new Date().toISOString(),
-        projects,
-        plan_items,
-      };
-      await saveSnapshot(snapshot, filePath);
-    },
   };
+  data.persist = createPersistScheduler(persistTo(data, storage, snap.version)); // keep existing version
   return data;
 }
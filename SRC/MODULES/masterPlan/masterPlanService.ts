@@ -1,5 +1,5 @@
-// Master Plan Service — CRUD and template logic
-// Depends only on domain types from SRC/DOMAIN/sparkModels.ts
+// Master Plan Service — CRUD and queries (templates live in masterPlanTemplates.ts)
+// Depends on domain types from SRC/DOMAIN/sparkModels.ts and the CORE recurrence helpers
 // Keep pure and framework-agnostic; consumer decides persistence.
 
 import {
@@ -13,6 +13,8 @@ import {
   ISODateString,
   ISODateTimeString,
 } from "../../DOMAIN/sparkModels.js";
+import { findDependencyCycle } from "./masterPlanValidators.js";
+import { RecurrenceInput, normalizeRecurrence, nextOccurrence } from "../../CORE/recurrence.js";
 
 // In-memory stores (replace with adapters later)
 export interface MasterPlanData {
@@ -25,12 +27,13 @@ export interface MasterPlanData {
   persist?: () => Promise<void>;
   audit?: (event: {
     entity_type: 'Project' | 'PlanItem';
-    change_type: 'Create' | 'Update' | 'Delete' | 'TemplateLoad' | 'ChecklistToggle';
+    change_type: 'Create' | 'Update' | 'Delete' | 'TemplateLoad' | 'ChecklistToggle' | 'Reschedule';
     entity_id: UUID;
     project_id?: UUID;
     before?: unknown;
     after?: unknown;
     detail?: string;
+    op_id?: UUID; // groups the events of one transaction; the logger's own op_id otherwise
   }) => void | Promise<void>; // optional audit hook
 }
 
@@ -88,13 +91,14 @@ export function updateProject(data: MasterPlanData, id: UUID, changes: Partial<O
 export function deleteProject(data: MasterPlanData, id: UUID): boolean {
   const idx = data.projects.findIndex(p => p.id === id);
   if (idx === -1) return false;
+  const before = data.projects[idx];
   // Also remove associated plan items
   const removedItems = data.planItems.filter(pi => pi.project_id === id);
   data.planItems = data.planItems.filter(pi => pi.project_id !== id);
   data.projects.splice(idx, 1);
   if (data.persist) void data.persist();
   if (data.audit) {
-    void data.audit({ entity_type: 'Project', change_type: 'Delete', entity_id: id });
+    void data.audit({ entity_type: 'Project', change_type: 'Delete', entity_id: id, before });
     for (const pi of removedItems) {
       void data.audit({ entity_type: 'PlanItem', change_type: 'Delete', entity_id: pi.id, project_id: id, before: pi, detail: 'Cascade delete due to project removal' });
     }
@@ -114,10 +118,30 @@ export interface CreatePlanItemInput {
   due_date: ISODateString | null;
   priority: PlanItemPriority;
   checklist?: { label: string }[];
+  depends_on?: UUID[];
+  recurrence?: RecurrenceInput | null; // needs a due_date; the first occurrence starts the series
   notes?: string;
 }
 
-export function createPlanItem(data: MasterPlanData, input: CreatePlanItemInput): PlanItem {
+// Prerequisites must be other items of the same project, and the dependency graph must stay acyclic.
+function assertDependencies(data: MasterPlanData, item: Pick<PlanItem, 'id' | 'project_id'>, depends_on: UUID[]): void {
+  for (const dep of depends_on) {
+    if (dep === item.id) throw new Error('Plan item cannot depend on itself');
+    const prereq = data.planItems.find(p => p.id === dep);
+    if (!prereq) throw new Error(`Prerequisite not found: ${dep}`);
+    if (prereq.project_id !== item.project_id) throw new Error('Prerequisites must belong to the same project');
+  }
+  const graph = new Map(data.planItems.map(p => [p.id, p.depends_on]));
+  graph.set(item.id, depends_on);
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    const title = (id: UUID) => data.planItems.find(p => p.id === id)?.title ?? id;
+    throw new Error(`Dependency cycle: ${cycle.map(title).join(' → ')}`);
+  }
+}
+
+// Builds, checks and stores the item without persisting or logging it; callers add their own event.
+export function insertPlanItem(data: MasterPlanData, input: CreatePlanItemInput): PlanItem {
   // Validate project exists
   if (!data.projects.some(p => p.id === input.project_id)) throw new Error('Project not found');
   const planItem: PlanItem = {
@@ -130,20 +154,39 @@ export function createPlanItem(data: MasterPlanData, input: CreatePlanItemInput)
     due_date: input.due_date,
     priority: input.priority,
     checklist: (input.checklist || []).map(c => ({ id: data.uuid(), label: c.label.trim(), checked: false })),
+    depends_on: [...new Set(input.depends_on || [])],
+    recurrence: null,
+    series_id: null,
     notes: input.notes?.trim() || '',
     created_at: data.now(),
     updated_at: data.now(),
   };
+  assertDependencies(data, planItem, planItem.depends_on);
+  if (input.recurrence) startSeries(planItem, input.recurrence);
   data.planItems.push(planItem);
+  return planItem;
+}
+
+export function createPlanItem(data: MasterPlanData, input: CreatePlanItemInput): PlanItem {
+  const planItem = insertPlanItem(data, input);
   if (data.persist) void data.persist();
   if (data.audit) void data.audit({ entity_type: 'PlanItem', change_type: 'Create', entity_id: planItem.id, project_id: planItem.project_id, after: planItem });
   return planItem;
 }
 
-export function updatePlanItem(data: MasterPlanData, id: UUID, changes: Partial<Omit<PlanItem, 'id' | 'project_id' | 'created_at' | 'checklist'>> & { checklist?: { id?: UUID; label: string; checked?: boolean }[] }): PlanItem | null {
+export type PlanItemChanges = Partial<Omit<PlanItem, 'id' | 'project_id' | 'created_at' | 'checklist' | 'recurrence' | 'series_id'>> & {
+  checklist?: { id?: UUID; label: string; checked?: boolean }[];
+  recurrence?: RecurrenceInput | null; // null stops the series after this occurrence
+};
+
+// Completing an occurrence of a recurring item (moving it to Done) creates the next occurrence. Dropping
+// one does not; cancelPlanItemSeries ends the series.
+export function updatePlanItem(data: MasterPlanData, id: UUID, changes: PlanItemChanges): PlanItem | null {
   const pi = data.planItems.find(pi => pi.id === id);
   if (!pi) return null;
-  const before: PlanItem = { ...pi, checklist: pi.checklist.map(c => ({ ...c })) };
+  if (changes.depends_on !== undefined) assertDependencies(data, pi, changes.depends_on);
+  if (changes.recurrence && !(changes.due_date ?? pi.due_date)) throw new Error('A recurring plan item needs a due date');
+  const before: PlanItem = JSON.parse(JSON.stringify(pi));
   if (changes.title !== undefined) pi.title = changes.title.trim();
   if (changes.description !== undefined) pi.description = changes.description.trim();
   if (changes.category !== undefined) pi.category = changes.category as PlanItemCategory;
@@ -151,6 +194,9 @@ export function updatePlanItem(data: MasterPlanData, id: UUID, changes: Partial<
   if (changes.due_date !== undefined) pi.due_date = changes.due_date;
   if (changes.priority !== undefined) pi.priority = changes.priority as PlanItemPriority;
   if (changes.notes !== undefined) pi.notes = changes.notes.trim();
+  if (changes.depends_on !== undefined) pi.depends_on = [...new Set(changes.depends_on)];
+  if (changes.recurrence === null) pi.recurrence = null;
+  else if (changes.recurrence !== undefined) startSeries(pi, changes.recurrence);
   if (changes.checklist !== undefined) {
     // Replace items (future improvement: patch-level updates)
     pi.checklist = changes.checklist.map(item => ({
@@ -160,8 +206,12 @@ export function updatePlanItem(data: MasterPlanData, id: UUID, changes: Partial<
     }));
   }
   pi.updated_at = data.now();
+  const next = pi.status === 'Done' && before.status !== 'Done' ? createNextOccurrence(data, pi) : null;
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'PlanItem', change_type: 'Update', entity_id: pi.id, project_id: pi.project_id, before, after: pi });
+  if (data.audit) {
+    void data.audit({ entity_type: 'PlanItem', change_type: 'Update', entity_id: pi.id, project_id: pi.project_id, before, after: pi });
+    if (next) void data.audit({ entity_type: 'PlanItem', change_type: 'Create', entity_id: next.id, project_id: next.project_id, after: next, detail: `Next occurrence of series ${next.series_id}` });
+  }
   return pi;
 }
 
@@ -170,11 +220,76 @@ export function deletePlanItem(data: MasterPlanData, id: UUID): boolean {
   if (idx === -1) return false;
   const before = data.planItems[idx];
   data.planItems.splice(idx, 1);
+  // Items that waited on the deleted one are no longer blocked by it
+  const unblocked: { item: PlanItem; before: PlanItem }[] = [];
+  for (const pi of data.planItems) {
+    if (!pi.depends_on.includes(id)) continue;
+    unblocked.push({ item: pi, before: { ...pi, depends_on: pi.depends_on.slice() } });
+    pi.depends_on = pi.depends_on.filter(d => d !== id);
+    pi.updated_at = data.now();
+  }
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'PlanItem', change_type: 'Delete', entity_id: id, project_id: before.project_id, before });
+  if (data.audit) {
+    void data.audit({ entity_type: 'PlanItem', change_type: 'Delete', entity_id: id, project_id: before.project_id, before });
+    for (const u of unblocked) {
+      void data.audit({ entity_type: 'PlanItem', change_type: 'Update', entity_id: u.item.id, project_id: u.item.project_id, before: u.before, after: u.item, detail: 'Prerequisite removed by delete' });
+    }
+  }
   return true;
 }
 
+// ─────────────────────────────────────────────────────────────
+// Recurring series
+// ─────────────────────────────────────────────────────────────
+function startSeries(pi: PlanItem, input: RecurrenceInput): void {
+  if (!pi.due_date) throw new Error('A recurring plan item needs a due date');
+  pi.recurrence = normalizeRecurrence(input, pi.due_date);
+  pi.series_id = pi.series_id ?? pi.id;
+}
+
+export function seriesPlanItems(data: MasterPlanData, series_id: UUID): PlanItem[] {
+  return data.planItems.filter(p => p.series_id === series_id).sort((a, b) => (a.due_date ?? '').localeCompare(b.due_date ?? ''));
+}
+
+// Closed occurrences stay as history; the next one copies the item with a fresh checklist.
+function createNextOccurrence(data: MasterPlanData, pi: PlanItem): PlanItem | null {
+  if (!pi.recurrence || !pi.series_id || !pi.due_date) return null;
+  const series = seriesPlanItems(data, pi.series_id);
+  if (series.some(s => s.id !== pi.id && s.due_date && s.due_date > pi.due_date!)) return null; // already generated (e.g. reopened and closed again)
+  const due_date = nextOccurrence(pi.recurrence, pi.due_date, series.length);
+  if (!due_date) return null;
+  const next: PlanItem = {
+    ...JSON.parse(JSON.stringify(pi)),
+    id: data.uuid(),
+    status: 'NotStarted',
+    due_date,
+    checklist: pi.checklist.map(c => ({ id: data.uuid(), label: c.label, checked: false })),
+    depends_on: [],
+    created_at: data.now(),
+    updated_at: data.now(),
+  };
+  data.planItems.push(next);
+  return next;
+}
+
+export type PlanItemSeriesChanges = Partial<Pick<PlanItem, 'title' | 'description' | 'category' | 'priority' | 'notes'>> & { recurrence?: RecurrenceInput };
+
+// Applies to every open occurrence; closed ones are history and keep their values. A rule edit keeps
+// the series' original start so occurrence dates stay aligned.
+export function updatePlanItemSeries(data: MasterPlanData, series_id: UUID, changes: PlanItemSeriesChanges): PlanItem[] {
+  const series = seriesPlanItems(data, series_id);
+  if (!series.length) throw new Error('Series not found');
+  const recurrence = changes.recurrence ? { start: series[0].recurrence?.start ?? series[0].due_date!, ...changes.recurrence } : undefined;
+  return series.filter(p => p.status === 'NotStarted' || p.status === 'InProgress').map(pi => updatePlanItem(data, pi.id, { ...changes, recurrence })!);
+}
+
+// Drops every open occurrence and stops the series; closed occurrences are kept.
+export function cancelPlanItemSeries(data: MasterPlanData, series_id: UUID): PlanItem[] {
+  const series = seriesPlanItems(data, series_id);
+  if (!series.length) throw new Error('Series not found');
+  return series.filter(p => p.status === 'NotStarted' || p.status === 'InProgress').map(pi => updatePlanItem(data, pi.id, { status: 'Dropped', recurrence: null })!);
+}
+
 // ─────────────────────────────────────────────────────────────
 // Query & Metrics
 // ─────────────────────────────────────────────────────────────
@@ -208,58 +323,6 @@ export function projectProgress(data: MasterPlanData, project_id: UUID): { total
   return { total, done, percent };
 }
 
-// ─────────────────────────────────────────────────────────────
-// MDCR 11-Day Template (Example stub)
-// ─────────────────────────────────────────────────────────────
-
-interface MdcrTaskSpec { title: string; description: string; category: PlanItemCategory; priority: PlanItemPriority; dayOffset: number; }
-
-const MDCR_TEMPLATE: MdcrTaskSpec[] = [
-  { title: 'Collect core documents', description: 'Gather CPS, medical, police records', category: 'Evidence', priority: 'High', dayOffset: 0 },
-  { title: 'Initial timeline draft', description: 'Start chronology of key events', category: 'Drafting', priority: 'Normal', dayOffset: 0 },
-  { title: 'Identify misconduct flags', description: 'Scan documents for potential violations', category: 'Research', priority: 'High', dayOffset: 1 },
-  { title: 'Draft appeal outline', description: 'High-level structure for MDCR appeal', category: 'Drafting', priority: 'High', dayOffset: 2 },
-  { title: 'Refine timeline', description: 'Add details & corroborations', category: 'Drafting', priority: 'Normal', dayOffset: 3 },
-  { title: 'Evidence packet assembly', description: 'Compile supporting exhibits', category: 'Evidence', priority: 'High', dayOffset: 4 },
-  { title: 'First draft appeal letter', description: 'Write narrative and legal basis', category: 'Drafting', priority: 'Critical', dayOffset: 5 },
-  { title: 'Review & edit draft', description: 'Iterate for clarity & impact', category: 'Drafting', priority: 'High', dayOffset: 6 },
-  { title: 'Legal rule cross-check', description: 'Validate citations & policies', category: 'Research', priority: 'High', dayOffset: 7 },
-  { title: 'Finalize evidence packet', description: 'Ensure completeness & labeling', category: 'Evidence', priority: 'High', dayOffset: 8 },
-  { title: 'Finalize appeal letter', description: 'Polish language, ensure accuracy', category: 'Drafting', priority: 'Critical', dayOffset: 9 },
-  { title: 'Submission prep', description: 'Confirm submission process & contacts', category: 'Admin', priority: 'Normal', dayOffset: 10 },
-];
-
-export function preloadMdcrTemplate(data: MasterPlanData, project_id: UUID, start_date: ISODateString): PlanItem[] {
-  const baseDate = new Date(start_date + 'T00:00:00Z');
-  const created: PlanItem[] = [];
-  for (const spec of MDCR_TEMPLATE) {
-    const dueDateObj = new Date(baseDate.getTime() + spec.dayOffset * 24 * 60 * 60 * 1000);
-    const yyyy = dueDateObj.getUTCFullYear();
-    const mm = String(dueDateObj.getUTCMonth() + 1).padStart(2, '0');
-    const dd = String(dueDateObj.getUTCDate()).padStart(2, '0');
-    const due_date: ISODateString = `${yyyy}-${mm}-${dd}`;
-    created.push(
-      createPlanItem(data, {
-        project_id,
-        title: spec.title,
-        description: spec.description,
-        category: spec.category,
-        due_date,
-        priority: spec.priority,
-        checklist: [],
-        notes: '',
-      })
-    );
-  }
-  if (data.persist) void data.persist();
-  if (data.audit) {
-    for (const createdItem of created) {
-      void data.audit({ entity_type: 'PlanItem', change_type: 'TemplateLoad', entity_id: createdItem.id, project_id: project_id, after: createdItem, detail: 'MDCR template preload' });
-    }
-  }
-  return created;
-}
-
 // ─────────────────────────────────────────────────────────────
 // Utility: toggle checklist item
 // ─────────────────────────────────────────────────────────────
@@ -272,7 +335,7 @@ export function toggleChecklistItem(data: MasterPlanData, planItemId: UUID, chec
   item.checked = checked;
   pi.updated_at = data.now();
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'PlanItem', change_type: 'ChecklistToggle', entity_id: pi.id, project_id: pi.project_id, before: beforeItem, after: item, detail: 'Checklist item toggled' });
+  if (data.audit) void data.audit({ entity_type: 'PlanItem', change_type: 'ChecklistToggle', entity_id: pi.id, project_id: pi.project_id, before: beforeItem, after: { ...item }, detail: 'Checklist item toggled' });
   return true;
 }
 
@@ -0,0 +1,97 @@
+// Master Plan Shift — move a block of due dates when work slips
+// A shift touches open items only (NotStarted / InProgress with a due date) and is recorded as one
+// grouped Reschedule event on the project, listing every item's before/after date.
+
+import {
+  PlanItem,
+  PlanItemStatus,
+  UUID,
+  ISODateString,
+} from '../../DOMAIN/sparkModels.js';
+import { MasterPlanData } from './masterPlanService.js';
+import { dependentsOf } from './masterPlanDependencies.js';
+import { addCalendarDays, addBusinessDays } from '../../CORE/deadlineCalculator.js';
+import { HolidayCalendar } from '../../CORE/holidayCalendar.js';
+
+const OPEN_STATUSES: PlanItemStatus[] = ['NotStarted', 'InProgress'];
+
+export interface ShiftOptions {
+  days: number;             // may be negative to pull dates in
+  business_days?: boolean;  // count weekends (and calendar holidays) out of the shift
+  calendar?: HolidayCalendar;
+  dry_run?: boolean;        // compute the changes without applying them
+}
+
+export interface ShiftChange {
+  id: UUID;
+  title: string;
+  before: ISODateString;
+  after: ISODateString;
+}
+
+export interface ShiftResult {
+  project_id: UUID;
+  dry_run: boolean;
+  changes: ShiftChange[];
+}
+
+function shiftDate(date: ISODateString, opts: ShiftOptions): ISODateString {
+  return opts.business_days ? addBusinessDays(date, opts.days, opts.calendar ?? null) : addCalendarDays(date, opts.days);
+}
+
+function applyShift(data: MasterPlanData, project_id: UUID, items: PlanItem[], opts: ShiftOptions, detail: string): ShiftResult {
+  if (!Number.isInteger(opts.days) || opts.days === 0) throw new Error('days: non-zero integer');
+  const changes: ShiftChange[] = items
+    .map(pi => ({ id: pi.id, title: pi.title, before: pi.due_date!, after: shiftDate(pi.due_date!, opts) }))
+    .sort((a, b) => a.before.localeCompare(b.before) || a.title.localeCompare(b.title));
+  const dry_run = !!opts.dry_run;
+  if (dry_run || !changes.length) return { project_id, dry_run, changes };
+
+  const stamp = data.now();
+  for (const c of changes) {
+    const pi = data.planItems.find(p => p.id === c.id)!;
+    pi.due_date = c.after;
+    pi.updated_at = stamp;
+  }
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    void data.audit({
+      entity_type: 'Project',
+      change_type: 'Reschedule',
+      entity_id: project_id,
+      project_id,
+      before: changes.map(c => ({ id: c.id, due_date: c.before })),
+      after: changes.map(c => ({ id: c.id, due_date: c.after })),
+      detail: `${detail}; ${changes.length} item${changes.length === 1 ? '' : 's'} moved`,
+    });
+  }
+  return { project_id, dry_run, changes };
+}
+
+function describeShift(opts: ShiftOptions): string {
+  const unit = opts.business_days ? 'business day' : 'day';
+  return `${opts.days > 0 ? '+' : ''}${opts.days} ${unit}${Math.abs(opts.days) === 1 ? '' : 's'}`;
+}
+
+// Every open item in the project due on or after from_date.
+export function shiftFromDate(data: MasterPlanData, project_id: UUID, from_date: ISODateString, opts: ShiftOptions): ShiftResult {
+  if (!data.projects.some(p => p.id === project_id)) throw new Error('Project not found');
+  const items = data.planItems.filter(pi => pi.project_id === project_id && OPEN_STATUSES.includes(pi.status) && pi.due_date && pi.due_date >= from_date);
+  return applyShift(data, project_id, items, opts, `Shifted ${describeShift(opts)} from ${from_date}`);
+}
+
+// One item plus everything downstream of it in the dependency graph.
+export function shiftItem(data: MasterPlanData, item_id: UUID, opts: ShiftOptions): ShiftResult {
+  const root = data.planItems.find(p => p.id === item_id);
+  if (!root) throw new Error('PlanItem not found');
+  if (!root.due_date) throw new Error('PlanItem has no due date to shift');
+  const seen = new Set<UUID>([root.id]);
+  const queue = [root.id];
+  while (queue.length) {
+    for (const dep of dependentsOf(data, queue.shift()!)) {
+      if (!seen.has(dep.id)) { seen.add(dep.id); queue.push(dep.id); }
+    }
+  }
+  const items = data.planItems.filter(pi => seen.has(pi.id) && OPEN_STATUSES.includes(pi.status) && pi.due_date);
+  return applyShift(data, root.project_id, items, opts, `Shifted "${root.title}" and its dependents ${describeShift(opts)}`);
+}
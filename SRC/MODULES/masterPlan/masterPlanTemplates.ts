@@ -0,0 +1,210 @@
+// Master Plan Templates — reusable task sets applied to a project from a start date
+// Templates live as JSON files in DATA/templates/<id>.json. The MDCR 11-day plan ships built in;
+// a file with the same id overrides it.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  PlanItem,
+  PlanTemplate,
+  PlanTemplateTask,
+  UUID,
+  ISODateString,
+} from '../../DOMAIN/sparkModels.js';
+import { MasterPlanData, insertPlanItem } from './masterPlanService.js';
+import { validatePlanTemplate } from './masterPlanValidators.js';
+import { computeDeadline } from '../../CORE/deadlineCalculator.js';
+import { HolidayCalendar } from '../../CORE/holidayCalendar.js';
+
+// ─────────────────────────────────────────────────────────────
+// Built-in templates
+// ─────────────────────────────────────────────────────────────
+function task(key: string, title: string, description: string, category: PlanTemplateTask['category'], priority: PlanTemplateTask['priority'], offset_days: number, depends_on: string[] = []): PlanTemplateTask {
+  return { key, title, description, category, priority, offset_days, offset_unit: 'Calendar', checklist: [], depends_on, notes: '' };
+}
+
+export const MDCR_11_DAY_TEMPLATE: PlanTemplate = validatePlanTemplate({
+  id: 'mdcr-11-day',
+  name: 'MDCR 11-Day Appeal',
+  description: 'Evidence, timeline and appeal letter for an MDCR appeal window',
+  created_at: '2025-11-13T00:00:00Z',
+  tasks: [
+    task('collect-documents', 'Collect core documents', 'Gather CPS, medical, police records', 'Evidence', 'High', 0),
+    task('timeline-draft', 'Initial timeline draft', 'Start chronology of key events', 'Drafting', 'Normal', 0),
+    task('misconduct-flags', 'Identify misconduct flags', 'Scan documents for potential violations', 'Research', 'High', 1, ['collect-documents']),
+    task('appeal-outline', 'Draft appeal outline', 'High-level structure for MDCR appeal', 'Drafting', 'High', 2, ['misconduct-flags']),
+    task('refine-timeline', 'Refine timeline', 'Add details & corroborations', 'Drafting', 'Normal', 3, ['timeline-draft']),
+    task('evidence-packet', 'Evidence packet assembly', 'Compile supporting exhibits', 'Evidence', 'High', 4, ['collect-documents']),
+    task('first-draft', 'First draft appeal letter', 'Write narrative and legal basis', 'Drafting', 'Critical', 5, ['appeal-outline', 'refine-timeline']),
+    task('review-draft', 'Review & edit draft', 'Iterate for clarity & impact', 'Drafting', 'High', 6, ['first-draft']),
+    task('rule-cross-check', 'Legal rule cross-check', 'Validate citations & policies', 'Research', 'High', 7, ['review-draft']),
+    task('finalize-evidence', 'Finalize evidence packet', 'Ensure completeness & labeling', 'Evidence', 'High', 8, ['evidence-packet']),
+    task('finalize-letter', 'Finalize appeal letter', 'Polish language, ensure accuracy', 'Drafting', 'Critical', 9, ['rule-cross-check']),
+    task('submission-prep', 'Submission prep', 'Confirm submission process & contacts', 'Admin', 'Normal', 10, ['finalize-letter', 'finalize-evidence']),
+  ],
+});
+
+export const BUILTIN_TEMPLATES: PlanTemplate[] = [MDCR_11_DAY_TEMPLATE];
+
+// ─────────────────────────────────────────────────────────────
+// Apply
+// ─────────────────────────────────────────────────────────────
+export interface ApplyTemplateResult {
+  items: PlanItem[];
+  item_for_key: Record<string, UUID>;
+}
+
+// Offsets count from start_date in the task's unit. With a holiday calendar, a calendar-day due date
+// that lands on a weekend or holiday rolls forward; without one, calendar offsets are used as-is and
+// business offsets skip weekends only. Prerequisites are created first, so every item is stored and
+// logged once, as TemplateLoad, with its real depends_on.
+export function applyPlanTemplate(data: MasterPlanData, template: PlanTemplate, project_id: UUID, start_date: ISODateString, calendar?: HolidayCalendar): ApplyTemplateResult {
+  if (!data.projects.some(p => p.id === project_id)) throw new Error('Project not found');
+  const created: PlanItem[] = [];
+  const item_for_key: Record<string, UUID> = {};
+  // The template validator already ruled out unknown keys and cycles, so a ready task always exists
+  const pending = [...template.tasks];
+  while (pending.length) {
+    const [spec] = pending.splice(pending.findIndex(t => t.depends_on.every(k => k in item_for_key)), 1);
+    const due_date = spec.offset_days === null ? null
+      : computeDeadline(start_date, { days: spec.offset_days, unit: spec.offset_unit, roll_forward: !!calendar }, calendar ?? null);
+    const item = insertPlanItem(data, {
+      project_id,
+      title: spec.title,
+      description: spec.description,
+      category: spec.category,
+      due_date,
+      priority: spec.priority,
+      checklist: spec.checklist.map(label => ({ label })),
+      depends_on: spec.depends_on.map(k => item_for_key[k]),
+      notes: spec.notes,
+    });
+    created.push(item);
+    item_for_key[spec.key] = item.id;
+  }
+  if (data.persist) void data.persist();
+  if (data.audit) {
+    for (const item of created) {
+      void data.audit({ entity_type: 'PlanItem', change_type: 'TemplateLoad', entity_id: item.id, project_id, after: item, detail: `Template ${template.id} applied` });
+    }
+  }
+  const items = template.tasks.map(spec => created.find(item => item.id === item_for_key[spec.key])!);
+  return { items, item_for_key };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Capture a project as a template
+// ─────────────────────────────────────────────────────────────
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'task';
+}
+
+function daysBetween(from: ISODateString, to: ISODateString): number {
+  return Math.round((Date.parse(to + 'T00:00:00Z') - Date.parse(from + 'T00:00:00Z')) / 86_400_000);
+}
+
+export interface TemplateFromProjectInput {
+  id: string;
+  name?: string;        // defaults to the project name
+  description?: string; // defaults to the project description
+}
+
+// Offsets are calendar days from the project's start date; an item due before the start gets offset 0.
+// Statuses and checklist ticks are not captured, so an applied template always starts fresh.
+export function templateFromProject(data: MasterPlanData, project_id: UUID, input: TemplateFromProjectInput): PlanTemplate {
+  const project = data.projects.find(p => p.id === project_id);
+  if (!project) throw new Error('Project not found');
+  const items = data.planItems
+    .filter(pi => pi.project_id === project_id)
+    .sort((a, b) => (a.due_date ?? '9999-12-31').localeCompare(b.due_date ?? '9999-12-31') || a.created_at.localeCompare(b.created_at));
+  if (!items.length) throw new Error('Project has no plan items to capture');
+  const used = new Set<string>();
+  const key_for_item = new Map<UUID, string>();
+  for (const pi of items) {
+    let key = slugify(pi.title);
+    for (let n = 2; used.has(key); n++) key = `${slugify(pi.title)}-${n}`;
+    used.add(key);
+    key_for_item.set(pi.id, key);
+  }
+  const tasks: PlanTemplateTask[] = items.map(pi => {
+    const key = key_for_item.get(pi.id)!;
+    return {
+      key,
+      title: pi.title,
+      description: pi.description,
+      category: pi.category,
+      priority: pi.priority,
+      offset_days: pi.due_date ? Math.max(0, daysBetween(project.start_date, pi.due_date)) : null,
+      offset_unit: 'Calendar',
+      checklist: pi.checklist.map(c => c.label),
+      depends_on: pi.depends_on.map(d => key_for_item.get(d)!).filter(Boolean),
+      notes: pi.notes,
+    };
+  });
+  return validatePlanTemplate({
+    id: input.id,
+    name: input.name ?? project.name,
+    description: input.description ?? project.description,
+    tasks,
+    created_at: data.now(),
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Template files
+// ─────────────────────────────────────────────────────────────
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA', 'templates');
+
+export interface ListedTemplate { template: PlanTemplate; source: 'builtin' | 'file'; }
+
+// Built-ins first unless a file overrides them; sorted by id.
+export async function loadPlanTemplates(dir: string = DEFAULT_DIR): Promise<ListedTemplate[]> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(dir)).filter(n => n.endsWith('.json')).sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    names = [];
+  }
+  const fromFiles: PlanTemplate[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    let template: PlanTemplate;
+    try {
+      template = validatePlanTemplate(JSON.parse(await fs.readFile(file, 'utf8')));
+    } catch (e) {
+      throw new Error(`Template ${file} invalid: ${(e as Error).message}`);
+    }
+    if (template.id !== path.basename(name, '.json')) throw new Error(`Template ${file} invalid: id ${template.id} does not match the file name`);
+    fromFiles.push(template);
+  }
+  const listed: ListedTemplate[] = [
+    ...BUILTIN_TEMPLATES.filter(b => !fromFiles.some(f => f.id === b.id)).map(template => ({ template, source: 'builtin' as const })),
+    ...fromFiles.map(template => ({ template, source: 'file' as const })),
+  ];
+  return listed.sort((a, b) => a.template.id.localeCompare(b.template.id));
+}
+
+export async function findPlanTemplate(id: string, dir: string = DEFAULT_DIR): Promise<PlanTemplate> {
+  const found = (await loadPlanTemplates(dir)).find(l => l.template.id === id);
+  if (!found) throw new Error(`Template not found: ${id}`);
+  return found.template;
+}
+
+export async function savePlanTemplate(template: PlanTemplate, dir: string = DEFAULT_DIR, opts: { overwrite?: boolean } = {}): Promise<string> {
+  const valid = validatePlanTemplate(template);
+  const file = path.join(dir, `${valid.id}.json`);
+  await fs.mkdir(dir, { recursive: true });
+  if (!opts.overwrite) {
+    try {
+      await fs.access(file);
+      throw new Error(`Template file already exists: ${file}`);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+  const tmp = file + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, JSON.stringify(valid, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+  return file;
+}
@@ -10,10 +10,14 @@ import {
   PlanItemPriority,
   PlanItemCategory,
   PlanItemChecklistItem,
+  PlanTemplate,
+  PlanTemplateTask,
+  TemplateOffsetUnit,
   UUID,
   ISODateString,
   ISODateTimeString,
 } from "../../DOMAIN/sparkModels.js";
+import { validateRecurrenceRule } from "../../CORE/recurrence.js";
 
 // ─────────────────────────────────────────────────────────────
 // Helpers
@@ -32,13 +36,14 @@ function isISODateString(v: unknown): v is ISODateString {
 }
 
 function isISODateTimeString(v: unknown): v is ISODateTimeString {
-  return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(v);
+  return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v);
 }
 
 const PROJECT_STATUS: ProjectStatus[] = ['Active', 'OnHold', 'Completed', 'Archived'];
 const PLAN_ITEM_STATUS: PlanItemStatus[] = ['NotStarted', 'InProgress', 'Done', 'Dropped'];
 const PLAN_ITEM_PRIORITY: PlanItemPriority[] = ['Low', 'Normal', 'High', 'Critical'];
 const PLAN_ITEM_CATEGORY: PlanItemCategory[] = ['Research', 'Drafting', 'Outreach', 'Evidence', 'Admin', 'Other'];
+const TEMPLATE_OFFSET_UNIT: TemplateOffsetUnit[] = ['Calendar', 'Business'];
 
 function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T {
   return typeof v === 'string' && arr.includes(v as T);
@@ -125,6 +130,9 @@ export function validatePlanItem(input: unknown): PlanItem {
     due_date,
     priority,
     checklist,
+    depends_on,
+    recurrence,
+    series_id,
     notes,
     created_at,
     updated_at,
@@ -139,6 +147,14 @@ export function validatePlanItem(input: unknown): PlanItem {
   if (!(due_date === null || isISODateString(due_date))) pushErr(errors, 'due_date', 'must be null or YYYY-MM-DD');
   if (!enumIncludes(PLAN_ITEM_PRIORITY, priority)) pushErr(errors, 'priority', `must be one of ${PLAN_ITEM_PRIORITY.join(', ')}`);
   if (!Array.isArray(checklist)) pushErr(errors, 'checklist', 'must be array');
+  // Absent in snapshots written before dependencies existed
+  if (depends_on !== undefined && !(Array.isArray(depends_on) && depends_on.every(isUUID))) pushErr(errors, 'depends_on', 'must be array of UUIDs');
+  let validatedRecurrence: PlanItem['recurrence'] = null;
+  if (recurrence !== undefined && recurrence !== null) {
+    try { validatedRecurrence = validateRecurrenceRule(recurrence); } catch (e) { errors.push((e as Error).message); }
+  }
+  if (!(series_id === undefined || series_id === null || isUUID(series_id))) pushErr(errors, 'series_id', 'must be null or UUID');
+  if (validatedRecurrence && !series_id) pushErr(errors, 'series_id', 'required when recurrence is set');
   if (typeof notes !== 'string') pushErr(errors, 'notes', 'must be string');
   if (!isISODateTimeString(created_at)) pushErr(errors, 'created_at', 'must be ISO timestamp (Z)');
   if (!isISODateTimeString(updated_at)) pushErr(errors, 'updated_at', 'must be ISO timestamp (Z)');
@@ -163,12 +179,114 @@ export function validatePlanItem(input: unknown): PlanItem {
     due_date: due_date as ISODateString | null,
     priority: priority as PlanItemPriority,
     checklist: validatedChecklist,
+    depends_on: ((depends_on as UUID[] | undefined) ?? []).slice(),
+    recurrence: validatedRecurrence,
+    series_id: (series_id as UUID | null | undefined) ?? null,
     notes: (notes as string).trim(),
     created_at: created_at as ISODateTimeString,
     updated_at: updated_at as ISODateTimeString,
   };
 }
 
+// ─────────────────────────────────────────────────────────────
+// PlanTemplate
+// ─────────────────────────────────────────────────────────────
+const TEMPLATE_SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+function validateTemplateTask(input: unknown, field: string, errors: string[]): PlanTemplateTask | null {
+  if (!isObject(input)) { pushErr(errors, field, 'must be an object'); return null; }
+  const { key, title, description, category, priority, offset_days, offset_unit, checklist, depends_on, notes } = input;
+  const before = errors.length;
+  if (typeof key !== 'string' || !TEMPLATE_SLUG.test(key)) pushErr(errors, `${field}.key`, 'must be lowercase letters, digits and dashes');
+  if (typeof title !== 'string' || !title.trim()) pushErr(errors, `${field}.title`, 'must be non-empty string');
+  if (description !== undefined && typeof description !== 'string') pushErr(errors, `${field}.description`, 'must be string');
+  if (!enumIncludes(PLAN_ITEM_CATEGORY, category)) pushErr(errors, `${field}.category`, `must be one of ${PLAN_ITEM_CATEGORY.join(', ')}`);
+  if (!enumIncludes(PLAN_ITEM_PRIORITY, priority)) pushErr(errors, `${field}.priority`, `must be one of ${PLAN_ITEM_PRIORITY.join(', ')}`);
+  if (!(offset_days === null || (typeof offset_days === 'number' && Number.isInteger(offset_days) && offset_days >= 0))) pushErr(errors, `${field}.offset_days`, 'must be null or a non-negative integer');
+  if (offset_unit !== undefined && !enumIncludes(TEMPLATE_OFFSET_UNIT, offset_unit)) pushErr(errors, `${field}.offset_unit`, `must be one of ${TEMPLATE_OFFSET_UNIT.join(', ')}`);
+  if (checklist !== undefined && !(Array.isArray(checklist) && checklist.every(c => typeof c === 'string' && c.trim()))) pushErr(errors, `${field}.checklist`, 'must be array of non-empty strings');
+  if (depends_on !== undefined && !(Array.isArray(depends_on) && depends_on.every(d => typeof d === 'string'))) pushErr(errors, `${field}.depends_on`, 'must be array of task keys');
+  if (notes !== undefined && typeof notes !== 'string') pushErr(errors, `${field}.notes`, 'must be string');
+  if (errors.length > before) return null;
+  return {
+    key: key as string,
+    title: (title as string).trim(),
+    description: ((description as string | undefined) ?? '').trim(),
+    category: category as PlanItemCategory,
+    priority: priority as PlanItemPriority,
+    offset_days: offset_days as number | null,
+    offset_unit: (offset_unit as TemplateOffsetUnit | undefined) ?? 'Calendar',
+    checklist: ((checklist as string[] | undefined) ?? []).map(c => c.trim()),
+    depends_on: ((depends_on as string[] | undefined) ?? []).slice(),
+    notes: ((notes as string | undefined) ?? '').trim(),
+  };
+}
+
+// Optional task fields (description, offset_unit, checklist, depends_on, notes) default when absent,
+// so hand-written template files can stay short.
+export function validatePlanTemplate(input: unknown): PlanTemplate {
+  const errors: string[] = [];
+  if (!isObject(input)) throw new Error('PlanTemplate must be an object');
+  const { id, name, description, tasks, created_at } = input;
+  if (typeof id !== 'string' || !TEMPLATE_SLUG.test(id)) pushErr(errors, 'id', 'must be lowercase letters, digits and dashes');
+  if (typeof name !== 'string' || !name.trim()) pushErr(errors, 'name', 'must be non-empty string');
+  if (description !== undefined && typeof description !== 'string') pushErr(errors, 'description', 'must be string');
+  if (!isISODateTimeString(created_at)) pushErr(errors, 'created_at', 'must be ISO timestamp (Z)');
+  const validated: PlanTemplateTask[] = [];
+  if (!Array.isArray(tasks) || tasks.length === 0) pushErr(errors, 'tasks', 'must be non-empty array');
+  else tasks.forEach((t, i) => { const task = validateTemplateTask(t, `tasks[${i}]`, errors); if (task) validated.push(task); });
+
+  const keys = new Set<string>();
+  for (const t of validated) {
+    if (keys.has(t.key)) pushErr(errors, 'tasks', `duplicate key ${t.key}`);
+    keys.add(t.key);
+  }
+  for (const t of validated) {
+    for (const dep of t.depends_on) {
+      if (dep === t.key) pushErr(errors, `${t.key}.depends_on`, 'task cannot depend on itself');
+      else if (!keys.has(dep)) pushErr(errors, `${t.key}.depends_on`, `unknown task ${dep}`);
+    }
+  }
+  if (!errors.length) {
+    const cycle = findDependencyCycle(new Map(validated.map(t => [t.key, t.depends_on])));
+    if (cycle) pushErr(errors, 'tasks', `dependency cycle ${cycle.join(' → ')}`);
+  }
+
+  if (errors.length) throw new Error(`PlanTemplate validation failed: ${errors.join('; ')}`);
+  return {
+    id: id as string,
+    name: (name as string).trim(),
+    description: ((description as string | undefined) ?? '').trim(),
+    tasks: validated,
+    created_at: created_at as ISODateTimeString,
+  };
+}
+
+// Depth-first search over node → prerequisites. Returns the first cycle found (first node repeated
+// at the end), or null when the graph is acyclic. Shared by templates and plan items.
+export function findDependencyCycle(deps: Map<string, string[]>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const visit = (key: string): string[] | null => {
+    if (state.get(key) === 'done') return null;
+    if (state.get(key) === 'visiting') return [...stack.slice(stack.indexOf(key)), key];
+    state.set(key, 'visiting');
+    stack.push(key);
+    for (const dep of deps.get(key) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(key, 'done');
+    return null;
+  };
+  for (const key of deps.keys()) {
+    const cycle = visit(key);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
 // ─────────────────────────────────────────────────────────────
 // Bulk convenience
 // ─────────────────────────────────────────────────────────────
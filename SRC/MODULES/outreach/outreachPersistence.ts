@@ -1,9 +1,11 @@
-// Outreach Persistence — JSON snapshot (parallel to masterPlanPersistence)
-import { promises as fs } from 'fs';
+// Outreach Persistence — storage adapter wiring and snapshot migrations (parallel to masterPlanPersistence)
 import * as path from 'path';
 import { ContactCategory, Contact, OutreachAction, FollowUpItem, OutcomeRecord, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
 import { validateContactCategory, validateContact, validateOutreachAction, validateFollowUpItem, validateOutcomeRecord } from './outreachValidators.js';
 import { OutreachData } from './outreachService';
+import { StorageAdapter, StorageConfig, StorageSchema, StoredState, jsonStorage, openStorage } from '../../CORE/storage.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+import { MigrationRegistry, MigrationPlan, OnMigrate, loadMigrated, pendingMigration } from '../../CORE/snapshotMigrations.js';
 
 export interface OutreachSnapshot {
   version: number;
@@ -18,57 +20,81 @@ export interface OutreachSnapshot {
 const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
 const DEFAULT_FILE = path.join(DEFAULT_DIR, 'outreach.snapshot.json');
 
-async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+export const OUTREACH_STORAGE: StorageSchema = {
+  module: 'outreach',
+  collections: [
+    { name: 'categories', indexes: [] },
+    { name: 'contacts', indexes: ['category_id'] },
+    { name: 'outreach_actions', indexes: ['contact_id'] },
+    { name: 'follow_ups', indexes: ['contact_id', 'due_date'] },
+    { name: 'outcomes', indexes: ['contact_id'] },
+  ],
+};
+
+export const OUTREACH_MIGRATIONS: MigrationRegistry = {
+  module: 'outreach',
+  current: 2,
+  migrations: [
+    {
+      from: 1,
+      description: 'Follow-ups carry recurrence and series_id',
+      migrate: c => ({ ...c, follow_ups: c.follow_ups.map(f => ({ recurrence: null, series_id: null, ...f })) }),
+    },
+  ],
+};
+
+export async function openOutreachStorage(config: StorageConfig, filePath: string = DEFAULT_FILE): Promise<StorageAdapter> {
+  return openStorage(config, OUTREACH_STORAGE, filePath);
+}
 
 function emptySnapshot(): OutreachSnapshot {
-  return { version: 1, updated_at: new Date().toISOString(), categories: [], contacts: [], outreach_actions: [], follow_ups: [], outcomes: [] };
+  return { version: OUTREACH_MIGRATIONS.current, updated_at: new Date().toISOString(), categories: [], contacts: [], outreach_actions: [], follow_ups: [], outcomes: [] };
 }
 
-export async function loadOutreachSnapshot(filePath: string = DEFAULT_FILE): Promise<OutreachSnapshot> {
-  try {
-    const raw = await fs.readFile(filePath, 'utf8');
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
-    const version = typeof parsed.version === 'number' ? parsed.version : 1;
-    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
-    const categoriesRaw = Array.isArray(parsed.categories) ? parsed.categories : [];
-    const contactsRaw = Array.isArray(parsed.contacts) ? parsed.contacts : [];
-    const actionsRaw = Array.isArray(parsed.outreach_actions) ? parsed.outreach_actions : [];
-    const followUpsRaw = Array.isArray(parsed.follow_ups) ? parsed.follow_ups : [];
-    const outcomesRaw = Array.isArray(parsed.outcomes) ? parsed.outcomes : [];
+function snapshotFromStored(stored: StoredState): OutreachSnapshot {
+  const { categories, contacts, outreach_actions, follow_ups, outcomes } = stored.collections;
+  return {
+    version: stored.version,
+    updated_at: stored.updated_at ?? new Date().toISOString(),
+    categories: categories.map((c: unknown, i: number) => { try { return validateContactCategory(c); } catch (e) { throw new Error(`Category[${i}] invalid: ${(e as Error).message}`); } }),
+    contacts: contacts.map((c: unknown, i: number) => { try { return validateContact(c); } catch (e) { throw new Error(`Contact[${i}] invalid: ${(e as Error).message}`); } }),
+    outreach_actions: outreach_actions.map((a: unknown, i: number) => { try { return validateOutreachAction(a); } catch (e) { throw new Error(`OutreachAction[${i}] invalid: ${(e as Error).message}`); } }),
+    follow_ups: follow_ups.map((f: unknown, i: number) => { try { return validateFollowUpItem(f); } catch (e) { throw new Error(`FollowUp[${i}] invalid: ${(e as Error).message}`); } }),
+    outcomes: outcomes.map((o: unknown, i: number) => { try { return validateOutcomeRecord(o); } catch (e) { throw new Error(`Outcome[${i}] invalid: ${(e as Error).message}`); } }),
+  };
+}
 
-    return {
-      version,
-      updated_at,
-      categories: categoriesRaw.map((c: unknown, i: number) => { try { return validateContactCategory(c); } catch (e) { throw new Error(`Category[${i}] invalid: ${(e as Error).message}`); } }),
-      contacts: contactsRaw.map((c: unknown, i: number) => { try { return validateContact(c); } catch (e) { throw new Error(`Contact[${i}] invalid: ${(e as Error).message}`); } }),
-      outreach_actions: actionsRaw.map((a: unknown, i: number) => { try { return validateOutreachAction(a); } catch (e) { throw new Error(`OutreachAction[${i}] invalid: ${(e as Error).message}`); } }),
-      follow_ups: followUpsRaw.map((f: unknown, i: number) => { try { return validateFollowUpItem(f); } catch (e) { throw new Error(`FollowUp[${i}] invalid: ${(e as Error).message}`); } }),
-      outcomes: outcomesRaw.map((o: unknown, i: number) => { try { return validateOutcomeRecord(o); } catch (e) { throw new Error(`Outcome[${i}] invalid: ${(e as Error).message}`); } }),
-    };
+export async function loadOutreachSnapshotFrom(storage: StorageAdapter, onMigrate?: OnMigrate): Promise<OutreachSnapshot> {
+  try {
+    const { state, plan, backup } = await loadMigrated(OUTREACH_MIGRATIONS, storage, snapshotFromStored);
+    if (backup && onMigrate) onMigrate({ plan: plan!, backup });
+    return state ? snapshotFromStored(state) : emptySnapshot();
   } catch (err) {
-    const e = err as NodeJS.ErrnoException;
-    if (e.code === 'ENOENT') return emptySnapshot();
-    throw new Error(`Failed to load outreach snapshot: ${e.message}`);
+    throw new Error(`Failed to load outreach snapshot: ${(err as Error).message}`);
   }
 }
 
-async function atomicWrite(filePath: string, content: string) {
-  await ensureDir(path.dirname(filePath));
-  const tmp = filePath + '.' + Date.now() + '.tmp';
-  await fs.writeFile(tmp, content, 'utf8');
-  await fs.rename(tmp, filePath);
+export async function pendingOutreachMigration(storage: StorageAdapter): Promise<MigrationPlan | null> {
+  return pendingMigration(OUTREACH_MIGRATIONS, storage);
+}
+
+export async function loadOutreachSnapshot(filePath: string = DEFAULT_FILE): Promise<OutreachSnapshot> {
+  return loadOutreachSnapshotFrom(jsonStorage(OUTREACH_STORAGE, filePath));
+}
+
+export async function saveOutreachSnapshotTo(snapshot: OutreachSnapshot, storage: StorageAdapter) {
+  const { categories, contacts, outreach_actions, follow_ups, outcomes } = snapshot;
+  await storage.save({ version: snapshot.version, collections: { categories, contacts, outreach_actions, follow_ups, outcomes } });
 }
 
 export async function saveOutreachSnapshot(snapshot: OutreachSnapshot, filePath: string = DEFAULT_FILE) {
-  const toSave: OutreachSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
-  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+  await saveOutreachSnapshotTo(snapshot, jsonStorage(OUTREACH_STORAGE, filePath));
 }
 
-export function attachOutreachPersistence(data: OutreachData, filePath: string = DEFAULT_FILE) {
-  data.persist = async () => {
+function persistTo(data: OutreachData, storage: StorageAdapter, version: number): () => Promise<void> {
+  return async () => {
     const snapshot: OutreachSnapshot = {
-      version: 1,
+      version,
       updated_at: new Date().toISOString(),
       categories: data.categories.map(c => validateContactCategory(c)),
       contacts: data.contacts.map(c => validateContact(c)),
@@ -76,12 +102,16 @@ export function attachOutreachPersistence(data: OutreachData, filePath: string =
       follow_ups: data.followUps.map(f => validateFollowUpItem(f)),
       outcomes: data.outcomes.map(o => validateOutcomeRecord(o)),
     };
-    await saveOutreachSnapshot(snapshot, filePath);
+    await saveOutreachSnapshotTo(snapshot, storage);
   };
 }
 
-export async function loadOutreachData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<OutreachData> {
-  const snap = await loadOutreachSnapshot(filePath);
+export function attachOutreachPersistence(data: OutreachData, filePath: string = DEFAULT_FILE, storage: StorageAdapter = jsonStorage(OUTREACH_STORAGE, filePath)) {
+  data.persist = createPersistScheduler(persistTo(data, storage, OUTREACH_MIGRATIONS.current));
+}
+
+export async function loadOutreachData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString, storage: StorageAdapter = jsonStorage(OUTREACH_STORAGE, filePath), onMigrate?: OnMigrate): Promise<OutreachData> {
+  const snap = await loadOutreachSnapshotFrom(storage, onMigrate);
   const data: OutreachData = {
     categories: snap.categories,
     contacts: snap.contacts,
@@ -90,18 +120,7 @@ export async function loadOutreachData(filePath: string = DEFAULT_FILE, idGen: (
     outcomes: snap.outcomes,
     uuid: idGen,
     now: clock,
-    persist: async () => {
-      const snapshot: OutreachSnapshot = {
-        version: snap.version,
-        updated_at: new Date().toISOString(),
-        categories: data.categories.map(c => validateContactCategory(c)),
-        contacts: data.contacts.map(c => validateContact(c)),
-        outreach_actions: data.outreachActions.map(a => validateOutreachAction(a)),
-        follow_ups: data.followUps.map(f => validateFollowUpItem(f)),
-        outcomes: data.outcomes.map(o => validateOutcomeRecord(o)),
-      };
-      await saveOutreachSnapshot(snapshot, filePath);
-    }
   };
+  data.persist = createPersistScheduler(persistTo(data, storage, snap.version));
   return data;
 }
@@ -24,6 +24,7 @@ import {
   validateFollowUpItem,
   validateOutcomeRecord,
 } from './outreachValidators.js';
+import { RecurrenceInput, normalizeRecurrence, nextOccurrence } from '../../CORE/recurrence.js';
 
 export interface OutreachData {
   categories: ContactCategory[];
@@ -34,6 +35,8 @@ export interface OutreachData {
   now: () => ISODateTimeString;
   uuid: () => UUID;
   persist?: () => Promise<void>; // optional snapshot persistence
+  // Optional lookup injected by the host so linked_artifact_version can be checked against real versions.
+  artifactVersionExists?: (id: UUID) => boolean;
   audit?: (event: {
     entity_type: 'ContactCategory' | 'Contact' | 'OutreachAction' | 'FollowUpItem' | 'OutcomeRecord';
     change_type: 'Create' | 'Update' | 'Delete';
@@ -41,6 +44,7 @@ export interface OutreachData {
     before?: unknown;
     after?: unknown;
     detail?: string;
+    op_id?: UUID; // groups the events of one transaction; the logger's own op_id otherwise
   }) => void | Promise<void>; // optional audit hook
 }
 
@@ -69,13 +73,14 @@ export function createCategory(data: OutreachData, name: string, color: string,
 export function updateCategory(data: OutreachData, id: UUID, changes: Partial<Omit<ContactCategory,'id'|'created_at'>>): ContactCategory | null {
   const cat = data.categories.find(c => c.id === id);
   if (!cat) return null;
+  const before: ContactCategory = { ...cat };
   if (changes.name !== undefined) cat.name = changes.name.trim();
   if (changes.color !== undefined) cat.color = changes.color.trim();
   if (changes.tags !== undefined && Array.isArray(changes.tags)) cat.tags = changes.tags.map(t => t.trim());
   cat.updated_at = data.now();
   validateContactCategory(cat); // throws if invalid
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'ContactCategory', change_type: 'Update', entity_id: cat.id, after: cat });
+  if (data.audit) void data.audit({ entity_type: 'ContactCategory', change_type: 'Update', entity_id: cat.id, before, after: cat });
   return cat;
 }
 
@@ -84,9 +89,9 @@ export function deleteCategory(data: OutreachData, id: UUID): boolean {
   if (idx === -1) return false;
   // Remove category only if no contacts linked (simple rule to prevent orphaned contacts)
   if (data.contacts.some(ct => ct.category_id === id)) throw new Error('Cannot delete category with existing contacts');
-  data.categories.splice(idx, 1);
+  const [before] = data.categories.splice(idx, 1);
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'ContactCategory', change_type: 'Delete', entity_id: id });
+  if (data.audit) void data.audit({ entity_type: 'ContactCategory', change_type: 'Delete', entity_id: id, before });
   return true;
 }
 
@@ -132,6 +137,7 @@ export function createContact(data: OutreachData, input: CreateContactInput): Co
 export function updateContact(data: OutreachData, id: UUID, changes: Partial<Omit<Contact,'id'|'category_id'|'created_at'>> & { tags?: string[] }): Contact | null {
   const ct = data.contacts.find(c => c.id === id);
   if (!ct) return null;
+  const before: Contact = { ...ct };
   if (changes.organization !== undefined) ct.organization = changes.organization.trim();
   if (changes.contact_name !== undefined) ct.contact_name = changes.contact_name.trim();
   if (changes.role !== undefined) ct.role = changes.role.trim();
@@ -145,7 +151,7 @@ export function updateContact(data: OutreachData, id: UUID, changes: Partial<Omi
   ct.updated_at = data.now();
   validateContact(ct);
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'Contact', change_type: 'Update', entity_id: ct.id, after: ct });
+  if (data.audit) void data.audit({ entity_type: 'Contact', change_type: 'Update', entity_id: ct.id, before, after: ct });
   return ct;
 }
 
@@ -154,10 +160,16 @@ export function deleteContact(data: OutreachData, id: UUID): boolean {
   if (idx === -1) return false;
   // Prevent deletion if follow-ups or outcomes reference it (simple integrity rule)
   if (data.followUps.some(f => f.contact_id === id) || data.outcomes.some(o => o.contact_id === id)) throw new Error('Cannot delete contact referenced by follow-ups or outcomes');
+  const removedActions = data.outreachActions.filter(a => a.contact_id === id);
   data.outreachActions = data.outreachActions.filter(a => a.contact_id !== id);
-  data.contacts.splice(idx, 1);
+  const [before] = data.contacts.splice(idx, 1);
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'Contact', change_type: 'Delete', entity_id: id });
+  if (data.audit) {
+    void data.audit({ entity_type: 'Contact', change_type: 'Delete', entity_id: id, before });
+    for (const act of removedActions) {
+      void data.audit({ entity_type: 'OutreachAction', change_type: 'Delete', entity_id: act.id, before: act, detail: 'Cascade delete due to contact removal' });
+    }
+  }
   return true;
 }
 
@@ -174,8 +186,13 @@ export interface CreateOutreachActionInput {
   next_follow_up_date?: ISODateString | null;
 }
 
+function assertArtifactVersion(data: OutreachData, id: UUID | null | undefined) {
+  if (id && data.artifactVersionExists && !data.artifactVersionExists(id)) throw new Error('Artifact version not found');
+}
+
 export function recordOutreachAction(data: OutreachData, input: CreateOutreachActionInput): OutreachAction {
   if (!data.contacts.some(c => c.id === input.contact_id)) throw new Error('Contact not found');
+  assertArtifactVersion(data, input.linked_artifact_version);
   const action: OutreachAction = {
     id: data.uuid(),
     contact_id: input.contact_id,
@@ -197,6 +214,8 @@ export function recordOutreachAction(data: OutreachData, input: CreateOutreachAc
 export function updateOutreachAction(data: OutreachData, id: UUID, changes: Partial<Omit<OutreachAction,'id'|'contact_id'|'created_at'>>): OutreachAction | null {
   const act = data.outreachActions.find(a => a.id === id);
   if (!act) return null;
+  const before: OutreachAction = { ...act };
+  assertArtifactVersion(data, changes.linked_artifact_version);
   if (changes.method !== undefined) act.method = changes.method as OutreachMethod;
   if (changes.summary !== undefined) act.summary = changes.summary.trim();
   if (changes.artifacts_sent !== undefined && Array.isArray(changes.artifacts_sent)) act.artifacts_sent = changes.artifacts_sent as UUID[];
@@ -205,23 +224,27 @@ export function updateOutreachAction(data: OutreachData, id: UUID, changes: Part
   if (changes.next_follow_up_date !== undefined) act.next_follow_up_date = changes.next_follow_up_date as ISODateString | null;
   validateOutreachAction(act);
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'OutreachAction', change_type: 'Update', entity_id: act.id, after: act });
+  if (data.audit) void data.audit({ entity_type: 'OutreachAction', change_type: 'Update', entity_id: act.id, before, after: act });
   return act;
 }
 
 // ─────────────────────────────────────────────────────────────
 // Follow Ups
 // ─────────────────────────────────────────────────────────────
-export function createFollowUp(data: OutreachData, contact_id: UUID, outreach_action_id: UUID | null, due_date: ISODateString, notes: string): FollowUpItem {
+// With a recurrence, this follow-up is the first occurrence of a series.
+export function createFollowUp(data: OutreachData, contact_id: UUID, outreach_action_id: UUID | null, due_date: ISODateString, notes: string, recurrence?: RecurrenceInput): FollowUpItem {
   if (!data.contacts.some(c => c.id === contact_id)) throw new Error('Contact not found');
   if (outreach_action_id && !data.outreachActions.some(a => a.id === outreach_action_id)) throw new Error('Outreach action not found');
+  const id = data.uuid();
   const fu: FollowUpItem = {
-    id: data.uuid(),
+    id,
     contact_id,
     outreach_action_id,
     due_date,
     status: 'Open',
     notes: notes.trim(),
+    recurrence: recurrence ? normalizeRecurrence(recurrence, due_date) : null,
+    series_id: recurrence ? id : null,
     created_at: data.now(),
   };
   data.followUps.push(validateFollowUpItem(fu));
@@ -230,16 +253,69 @@ export function createFollowUp(data: OutreachData, contact_id: UUID, outreach_ac
   return fu;
 }
 
+// Completing or cancelling one occurrence of a recurring follow-up creates the next one.
 export function updateFollowUpStatus(data: OutreachData, id: UUID, status: FollowUpStatus): FollowUpItem | null {
   const fu = data.followUps.find(f => f.id === id);
   if (!fu) return null;
+  const before: FollowUpItem = { ...fu };
   fu.status = status;
   validateFollowUpItem(fu);
+  // Only completion advances a series; a cancelled occurrence does not schedule another
+  const next = before.status !== 'Completed' && status === 'Completed' ? createNextFollowUp(data, fu) : null;
   if (data.persist) void data.persist();
-  if (data.audit) void data.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: fu.id, after: fu });
+  if (data.audit) {
+    void data.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: fu.id, before, after: fu });
+    if (next) void data.audit({ entity_type: 'FollowUpItem', change_type: 'Create', entity_id: next.id, after: next, detail: `Next occurrence of series ${next.series_id}` });
+  }
   return fu;
 }
 
+export function seriesFollowUps(data: OutreachData, series_id: UUID): FollowUpItem[] {
+  return data.followUps.filter(f => f.series_id === series_id).sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
+
+function createNextFollowUp(data: OutreachData, fu: FollowUpItem): FollowUpItem | null {
+  if (!fu.recurrence || !fu.series_id) return null;
+  const series = seriesFollowUps(data, fu.series_id);
+  if (series.some(s => s.id !== fu.id && s.due_date > fu.due_date)) return null; // already generated
+  const due_date = nextOccurrence(fu.recurrence, fu.due_date, series.length);
+  if (!due_date) return null;
+  const next: FollowUpItem = { ...fu, id: data.uuid(), due_date, status: 'Open', recurrence: { ...fu.recurrence }, created_at: data.now() };
+  data.followUps.push(validateFollowUpItem(next));
+  return next;
+}
+
+// Notes and the rule apply to every open occurrence; closed ones are history.
+export function updateFollowUpSeries(data: OutreachData, series_id: UUID, changes: { notes?: string; recurrence?: RecurrenceInput }): FollowUpItem[] {
+  const series = seriesFollowUps(data, series_id);
+  if (!series.length) throw new Error('Series not found');
+  const open = series.filter(f => f.status === 'Open');
+  for (const fu of open) {
+    const before: FollowUpItem = { ...fu };
+    if (changes.notes !== undefined) fu.notes = changes.notes.trim();
+    if (changes.recurrence) fu.recurrence = normalizeRecurrence({ start: series[0].recurrence?.start ?? series[0].due_date, ...changes.recurrence }, fu.due_date);
+    validateFollowUpItem(fu);
+    if (data.audit) void data.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: fu.id, before, after: fu, detail: 'Series update' });
+  }
+  if (data.persist) void data.persist();
+  return open;
+}
+
+// Cancels every open occurrence and stops the series.
+export function cancelFollowUpSeries(data: OutreachData, series_id: UUID): FollowUpItem[] {
+  const series = seriesFollowUps(data, series_id);
+  if (!series.length) throw new Error('Series not found');
+  const open = series.filter(f => f.status === 'Open');
+  for (const fu of open) {
+    const before: FollowUpItem = { ...fu };
+    fu.status = 'Cancelled';
+    fu.recurrence = null;
+    if (data.audit) void data.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: fu.id, before, after: fu, detail: 'Series cancelled' });
+  }
+  if (data.persist) void data.persist();
+  return open;
+}
+
 // ─────────────────────────────────────────────────────────────
 // Outcomes
 // ─────────────────────────────────────────────────────────────
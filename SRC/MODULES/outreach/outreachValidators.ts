@@ -16,11 +16,12 @@ import {
   ISODateString,
   ISODateTimeString,
 } from '../../DOMAIN/sparkModels';
+import { validateRecurrenceRule } from '../../CORE/recurrence.js';
 
 function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
 function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
 function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
-function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(v); }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
 function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
 
 const PREFERRED_METHOD: PreferredContactMethod[] = ['Call','Email','Mail','Form','Combo'];
@@ -80,15 +81,19 @@ export function validateOutreachAction(input: unknown): OutreachAction {
 
 export function validateFollowUpItem(input: unknown): FollowUpItem {
   if (!isObj(input)) fail('FollowUpItem','must be object');
-  const { id, contact_id, outreach_action_id, due_date, status, notes, created_at } = input;
+  const { id, contact_id, outreach_action_id, due_date, status, notes, recurrence, series_id, created_at } = input;
   if (!isUUID(id)) fail('id','invalid UUID');
   if (!isUUID(contact_id)) fail('contact_id','invalid UUID');
   if (!(outreach_action_id === null || isUUID(outreach_action_id))) fail('outreach_action_id','UUID or null');
   if (!isISODate(due_date)) fail('due_date','ISO date');
   if (!enumIncludes(FOLLOW_UP_STATUS, status)) fail('status',`one of ${FOLLOW_UP_STATUS.join(',')}`);
   if (typeof notes !== 'string') fail('notes','string');
+  // recurrence / series_id are absent in snapshots written before recurring follow-ups existed
+  const rule = recurrence === undefined || recurrence === null ? null : validateRecurrenceRule(recurrence);
+  if (!(series_id === undefined || series_id === null || isUUID(series_id))) fail('series_id','UUID or null');
+  if (rule && !series_id) fail('series_id','required when recurrence is set');
   if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
-  return { id, contact_id, outreach_action_id: outreach_action_id as UUID | null, due_date, status: status as FollowUpStatus, notes, created_at };
+  return { id, contact_id, outreach_action_id: outreach_action_id as UUID | null, due_date, status: status as FollowUpStatus, notes, recurrence: rule, series_id: (series_id as UUID | null | undefined) ?? null, created_at };
 }
 
 export function validateOutcomeRecord(input: unknown): OutcomeRecord {
@@ -0,0 +1,72 @@
+// Research Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ResearchInsight, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateResearchInsight } from './researchValidators.js';
+import { ResearchData } from './researchService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface ResearchSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  insights: ResearchInsight[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'research.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): ResearchSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), insights: [] };
+}
+
+export async function loadResearchSnapshot(filePath: string = DEFAULT_FILE): Promise<ResearchSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const insightsRaw = Array.isArray(parsed.insights) ? parsed.insights : [];
+    return {
+      version,
+      updated_at,
+      insights: insightsRaw.map((ins: unknown, i: number) => { try { return validateResearchInsight(ins); } catch (e) { throw new Error(`ResearchInsight[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load research snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveResearchSnapshot(snapshot: ResearchSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: ResearchSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadResearchData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<ResearchData> {
+  const snap = await loadResearchSnapshot(filePath);
+  const data: ResearchData = {
+    insights: snap.insights,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: ResearchSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        insights: data.insights.map(ins => validateResearchInsight(ins)),
+      };
+      await saveResearchSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,106 @@
+// Research Service — CRUD & query helpers for ResearchInsight records
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// Insights point back at what produced them via source_type/source_id (e.g. a Conversation).
+
+import {
+  ResearchInsight,
+  ResearchSourceType,
+  ResearchImportance,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { validateResearchInsight } from './researchValidators.js';
+
+export interface ResearchData {
+  insights: ResearchInsight[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'ResearchInsight';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyResearchData(idGen: () => UUID, clock: () => ISODateTimeString): ResearchData {
+  return { insights: [], uuid: idGen, now: clock };
+}
+
+// ─────────────────────────────────────────────────────────────
+// ResearchInsight CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateInsightInput {
+  source_type: ResearchSourceType;
+  source_id: UUID;
+  text: string;
+  tags?: string[];
+  importance?: ResearchImportance;
+}
+
+export function createInsight(data: ResearchData, input: CreateInsightInput): ResearchInsight {
+  const insight: ResearchInsight = {
+    id: data.uuid(),
+    source_type: input.source_type,
+    source_id: input.source_id,
+    text: input.text.trim(),
+    tags: (input.tags || []).map(t => t.trim()).filter(Boolean),
+    importance: input.importance ?? 'Normal',
+    created_at: data.now(),
+  };
+  validateResearchInsight(insight);
+  data.insights.push(insight);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ResearchInsight', change_type: 'Create', entity_id: insight.id, after: insight });
+  return insight;
+}
+
+export function updateInsight(data: ResearchData, id: UUID, changes: Partial<Pick<ResearchInsight, 'text' | 'tags' | 'importance'>>): ResearchInsight | null {
+  const insight = data.insights.find(i => i.id === id);
+  if (!insight) return null;
+  const before: ResearchInsight = JSON.parse(JSON.stringify(insight));
+  if (changes.text !== undefined) insight.text = changes.text.trim();
+  if (changes.tags !== undefined) insight.tags = changes.tags.map(t => t.trim()).filter(Boolean);
+  if (changes.importance !== undefined) insight.importance = changes.importance as ResearchImportance;
+  validateResearchInsight(insight); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ResearchInsight', change_type: 'Update', entity_id: insight.id, before, after: insight });
+  return insight;
+}
+
+export function deleteInsight(data: ResearchData, id: UUID): boolean {
+  const idx = data.insights.findIndex(i => i.id === id);
+  if (idx === -1) return false;
+  const before = data.insights[idx];
+  data.insights.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'ResearchInsight', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Query Helpers
+// ─────────────────────────────────────────────────────────────
+export interface InsightFilter {
+  source_type?: ResearchSourceType[];
+  source_id?: UUID;
+  tags?: string[]; // any-of, case-insensitive
+  importance?: ResearchImportance[];
+  text?: string;   // substring match
+}
+
+export function filterInsights(data: ResearchData, filter: InsightFilter): ResearchInsight[] {
+  const tags = filter.tags?.map(t => t.toLowerCase());
+  const text = filter.text?.trim().toLowerCase();
+  return data.insights.filter(i => {
+    if (filter.source_type && !filter.source_type.includes(i.source_type)) return false;
+    if (filter.source_id && i.source_id !== filter.source_id) return false;
+    if (tags && !i.tags.some(t => tags.includes(t.toLowerCase()))) return false;
+    if (filter.importance && !filter.importance.includes(i.importance)) return false;
+    if (text && !i.text.toLowerCase().includes(text)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,42 @@
+// Research Validators — runtime checks for ResearchInsight
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  ResearchInsight,
+  ResearchSourceType,
+  ResearchImportance,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+export const RESEARCH_SOURCE_TYPES: ResearchSourceType[] = ['Conversation','Document','DailyLog','Outreach','Rule','TimelineEvent','Other'];
+export const RESEARCH_IMPORTANCE: ResearchImportance[] = ['Low','Normal','High','Critical'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateResearchInsight(input: unknown): ResearchInsight {
+  if (!isObj(input)) fail('ResearchInsight','must be object');
+  const { id, source_type, source_id, text, tags, importance, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!enumIncludes(RESEARCH_SOURCE_TYPES, source_type)) fail('source_type',`one of ${RESEARCH_SOURCE_TYPES.join(',')}`);
+  if (!isUUID(source_id)) fail('source_id','invalid UUID');
+  if (typeof text !== 'string' || !text.trim()) fail('text','non-empty string');
+  if (!isStringArray(tags)) fail('tags','string[]');
+  if (!enumIncludes(RESEARCH_IMPORTANCE, importance)) fail('importance',`one of ${RESEARCH_IMPORTANCE.join(',')}`);
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return {
+    id,
+    source_type: source_type as ResearchSourceType,
+    source_id,
+    text: (text as string).trim(),
+    tags,
+    importance: importance as ResearchImportance,
+    created_at,
+  };
+}
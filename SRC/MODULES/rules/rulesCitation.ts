@@ -0,0 +1,60 @@
+// Rules Citation — recognise and normalise common US citation forms
+// Pure functions. The normalised form is what gets stored on Rule.citation and compared for duplicates,
+// so "42 USC 1983", "42 U.S.C. sec. 1983" and "42 U.S.C. § 1983" all land on the same rule.
+
+export type CitationKind = 'USC' | 'CFR' | 'MCL' | 'MichAdminCode' | 'Unrecognized';
+
+export interface ParsedCitation {
+  kind: CitationKind;
+  normalized: string;
+  jurisdiction: string | null; // inferred from the code the citation belongs to
+  title: string | null;        // U.S.C. / C.F.R. title number
+  section: string | null;
+  subsection: string;          // e.g. "(1)(a)"; empty when absent
+}
+
+const SECTION_MARK = String.raw`(?:§§?|sec(?:tion)?s?\.?)?`;
+const SUBSECTIONS = String.raw`((?:\s*\([0-9A-Za-z]+\))*)`;
+
+const USC = new RegExp(String.raw`^(\d+)\s*U\.?\s*S\.?\s*C\.?(?:\s*A\.?)?\s*${SECTION_MARK}\s*(\d+[0-9A-Za-z\-]*)${SUBSECTIONS}$`, 'i');
+const CFR = new RegExp(String.raw`^(\d+)\s*C\.?\s*F\.?\s*R\.?\s*(?:${SECTION_MARK}|part)\s*(\d+(?:\.\d+)?)${SUBSECTIONS}$`, 'i');
+const MCL = new RegExp(String.raw`^(?:M\.?\s*C\.?\s*L\.?(?:\s*A\.?)?|Mich(?:igan|\.)?\s*Comp(?:iled|\.)?\s*Laws(?:\s*Ann(?:otated|\.)?)?)\s*${SECTION_MARK}\s*(\d+\.\d+[a-z]?)${SUBSECTIONS}$`, 'i');
+const MICH_ADMIN = new RegExp(String.raw`^(?:Mich(?:igan|\.)?\s*Admin(?:istrative|\.)?\s*Code,?\s*)?R(?:ule)?\.?\s*(\d+\.\d+[a-z]?)${SUBSECTIONS}$`, 'i');
+
+function collapse(s: string): string {
+  return s.replace(/\s+/g, ' ').trim();
+}
+
+function subsectionsOf(raw: string | undefined): string {
+  return (raw || '').replace(/\s+/g, '');
+}
+
+export function parseCitation(text: string): ParsedCitation {
+  const input = collapse(text);
+  let m = USC.exec(input);
+  if (m) {
+    const sub = subsectionsOf(m[3]);
+    return { kind: 'USC', normalized: `${m[1]} U.S.C. § ${m[2]}${sub}`, jurisdiction: 'Federal', title: m[1], section: m[2], subsection: sub };
+  }
+  m = CFR.exec(input);
+  if (m) {
+    const sub = subsectionsOf(m[3]);
+    return { kind: 'CFR', normalized: `${m[1]} C.F.R. § ${m[2]}${sub}`, jurisdiction: 'Federal', title: m[1], section: m[2], subsection: sub };
+  }
+  m = MCL.exec(input);
+  if (m) {
+    const sub = subsectionsOf(m[2]);
+    return { kind: 'MCL', normalized: `MCL ${m[1]}${sub}`, jurisdiction: 'Michigan', title: null, section: m[1], subsection: sub };
+  }
+  m = MICH_ADMIN.exec(input);
+  if (m) {
+    const sub = subsectionsOf(m[2]);
+    return { kind: 'MichAdminCode', normalized: `Mich. Admin. Code R ${m[1]}${sub}`, jurisdiction: 'Michigan', title: null, section: m[1], subsection: sub };
+  }
+  return { kind: 'Unrecognized', normalized: input, jurisdiction: null, title: null, section: null, subsection: '' };
+}
+
+// Comparison key for duplicate detection; unrecognised citations compare case-insensitively.
+export function citationKey(text: string): string {
+  return parseCitation(text).normalized.toLowerCase();
+}
@@ -0,0 +1,72 @@
+// Rules Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Rule, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateRule } from './rulesValidators.js';
+import { RulesData } from './rulesService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface RulesSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  rules: Rule[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'rules.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): RulesSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), rules: [] };
+}
+
+export async function loadRulesSnapshot(filePath: string = DEFAULT_FILE): Promise<RulesSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const rulesRaw = Array.isArray(parsed.rules) ? parsed.rules : [];
+    return {
+      version,
+      updated_at,
+      rules: rulesRaw.map((r: unknown, i: number) => { try { return validateRule(r); } catch (e) { throw new Error(`Rule[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load rules snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveRulesSnapshot(snapshot: RulesSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: RulesSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadRulesData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<RulesData> {
+  const snap = await loadRulesSnapshot(filePath);
+  const data: RulesData = {
+    rules: snap.rules,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: RulesSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        rules: data.rules.map(r => validateRule(r)),
+      };
+      await saveRulesSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
@@ -0,0 +1,184 @@
+// Rules Service — CRUD & search for the Rule Library (laws, policies, precedents, strategy notes)
+// Framework-agnostic. Optional persistence & audit hooks like MasterPlanData/OutreachData.
+// Citations are stored in normalised form (see rulesCitation.ts) and must be unique across the library.
+
+import {
+  Rule,
+  RuleCategory,
+  MisconductFlag,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { DocumentsData, updateMisconductFlag } from '../documents/documentsService.js';
+import { parseCitation, citationKey } from './rulesCitation.js';
+import { validateRule } from './rulesValidators.js';
+
+export interface RulesData {
+  rules: Rule[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'Rule';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+  isRuleReferenced?: (id: UUID) => boolean; // optional guard, e.g. misconduct flags citing the rule
+}
+
+export function createEmptyRulesData(idGen: () => UUID, clock: () => ISODateTimeString): RulesData {
+  return { rules: [], uuid: idGen, now: clock };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rule CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateRuleInput {
+  category: RuleCategory;
+  title: string;
+  description?: string;
+  jurisdiction?: string; // inferred from the citation when omitted (e.g. MCL → Michigan)
+  citation?: string | null;
+  tags?: string[];
+  created_from_conversation_id?: UUID | null;
+}
+
+function normalizeCitation(citation: string | null | undefined): string | null {
+  if (citation === undefined || citation === null || !citation.trim()) return null;
+  return parseCitation(citation).normalized;
+}
+
+function assertUniqueCitation(data: RulesData, citation: string | null, selfId?: UUID): void {
+  if (!citation) return;
+  const existing = findRuleByCitation(data, citation);
+  if (existing && existing.id !== selfId) throw new Error(`Duplicate citation ${citation}: already recorded as rule ${existing.id} (${existing.title})`);
+}
+
+export function createRule(data: RulesData, input: CreateRuleInput): Rule {
+  const citation = normalizeCitation(input.citation);
+  const jurisdiction = input.jurisdiction?.trim() || (citation ? parseCitation(citation).jurisdiction : null);
+  if (!jurisdiction) throw new Error('Jurisdiction required when it cannot be inferred from the citation');
+  assertUniqueCitation(data, citation);
+  const rule: Rule = {
+    id: data.uuid(),
+    category: input.category,
+    title: input.title.trim(),
+    description: input.description?.trim() || '',
+    jurisdiction,
+    citation,
+    tags: (input.tags || []).map(t => t.trim()).filter(Boolean),
+    created_from_conversation_id: input.created_from_conversation_id ?? null,
+    created_at: data.now(),
+    updated_at: data.now(),
+  };
+  validateRule(rule);
+  data.rules.push(rule);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Rule', change_type: 'Create', entity_id: rule.id, after: rule });
+  return rule;
+}
+
+export function updateRule(data: RulesData, id: UUID, changes: Partial<Omit<Rule, 'id' | 'created_at' | 'updated_at'>>): Rule | null {
+  const rule = data.rules.find(r => r.id === id);
+  if (!rule) return null;
+  const before: Rule = JSON.parse(JSON.stringify(rule));
+  if (changes.citation !== undefined) {
+    const citation = normalizeCitation(changes.citation);
+    assertUniqueCitation(data, citation, id);
+    rule.citation = citation;
+  }
+  if (changes.category !== undefined) rule.category = changes.category as RuleCategory;
+  if (changes.title !== undefined) rule.title = changes.title.trim();
+  if (changes.description !== undefined) rule.description = changes.description.trim();
+  if (changes.jurisdiction !== undefined) rule.jurisdiction = changes.jurisdiction.trim();
+  if (changes.tags !== undefined) rule.tags = changes.tags.map(t => t.trim()).filter(Boolean);
+  if (changes.created_from_conversation_id !== undefined) rule.created_from_conversation_id = changes.created_from_conversation_id;
+  rule.updated_at = data.now();
+  validateRule(rule); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Rule', change_type: 'Update', entity_id: rule.id, before, after: rule });
+  return rule;
+}
+
+export function deleteRule(data: RulesData, id: UUID): boolean {
+  const idx = data.rules.findIndex(r => r.id === id);
+  if (idx === -1) return false;
+  if (data.isRuleReferenced && data.isRuleReferenced(id)) throw new Error('Rule is cited by misconduct flags; relink them before deleting');
+  const before = data.rules[idx];
+  data.rules.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'Rule', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Lookup & Search
+// ─────────────────────────────────────────────────────────────
+export function findRuleByCitation(data: RulesData, citation: string): Rule | null {
+  const key = citationKey(citation);
+  return data.rules.find(r => r.citation !== null && citationKey(r.citation) === key) || null;
+}
+
+// Accepts a rule id or any citation form that normalises to a stored rule.
+export function resolveRule(data: RulesData, ref: string): Rule | null {
+  return data.rules.find(r => r.id === ref) || findRuleByCitation(data, ref);
+}
+
+// Groups of rules sharing a citation — only possible in snapshots edited by hand or written
+// before citations were normalised, since create/update refuse duplicates.
+export function duplicateRuleGroups(data: RulesData): Rule[][] {
+  const byKey = new Map<string, Rule[]>();
+  for (const r of data.rules) {
+    if (!r.citation) continue;
+    const key = citationKey(r.citation);
+    byKey.set(key, [...(byKey.get(key) || []), r]);
+  }
+  return [...byKey.values()].filter(g => g.length > 1);
+}
+
+export interface RuleFilter {
+  category?: RuleCategory[];
+  jurisdiction?: string; // case-insensitive exact match
+  tags?: string[];       // any-of, case-insensitive
+  text?: string;         // substring of title, description or citation
+}
+
+export function filterRules(data: RulesData, filter: RuleFilter): Rule[] {
+  const jurisdiction = filter.jurisdiction?.trim().toLowerCase();
+  const tags = filter.tags?.map(t => t.toLowerCase());
+  const text = filter.text?.trim().toLowerCase();
+  return data.rules.filter(r => {
+    if (filter.category && !filter.category.includes(r.category)) return false;
+    if (jurisdiction && r.jurisdiction.toLowerCase() !== jurisdiction) return false;
+    if (tags && !r.tags.some(t => tags.includes(t.toLowerCase()))) return false;
+    if (text && ![r.title, r.description, r.citation || ''].some(s => s.toLowerCase().includes(text))) return false;
+    return true;
+  }).sort((a, b) => a.jurisdiction.localeCompare(b.jurisdiction) || (a.citation || '').localeCompare(b.citation || '') || a.title.localeCompare(b.title));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Misconduct flag links (MisconductFlag.law_or_policy holds a Rule.id once linked)
+// ─────────────────────────────────────────────────────────────
+export function ruleForFlag(data: RulesData, flag: MisconductFlag): Rule | null {
+  return data.rules.find(r => r.id === flag.law_or_policy) || null;
+}
+
+export function flagsCitingRule(docs: DocumentsData, rule_id: UUID): MisconductFlag[] {
+  return docs.misconductFlags.filter(f => f.law_or_policy === rule_id);
+}
+
+// Replace free-text law_or_policy values that name a known citation with the rule's id.
+export function linkFlagsToRules(data: RulesData, docs: DocumentsData): MisconductFlag[] {
+  const linked: MisconductFlag[] = [];
+  for (const flag of docs.misconductFlags) {
+    if (ruleForFlag(data, flag)) continue;
+    const rule = findRuleByCitation(data, flag.law_or_policy);
+    if (!rule) continue;
+    const updated = updateMisconductFlag(docs, flag.id, { law_or_policy: rule.id });
+    if (updated) linked.push(updated);
+  }
+  return linked;
+}
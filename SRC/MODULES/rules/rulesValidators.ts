@@ -0,0 +1,46 @@
+// Rules Validators — runtime checks for Rule
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  Rule,
+  RuleCategory,
+  UUID,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+export const RULE_CATEGORIES: RuleCategory[] = ['Law','Policy','InternalGuideline','Precedent','Strategy'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateRule(input: unknown): Rule {
+  if (!isObj(input)) fail('Rule','must be object');
+  const { id, category, title, description, jurisdiction, citation, tags, created_from_conversation_id, created_at, updated_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!enumIncludes(RULE_CATEGORIES, category)) fail('category',`one of ${RULE_CATEGORIES.join(',')}`);
+  if (typeof title !== 'string' || !title.trim()) fail('title','non-empty string');
+  if (typeof description !== 'string') fail('description','string');
+  if (typeof jurisdiction !== 'string' || !jurisdiction.trim()) fail('jurisdiction','non-empty string');
+  if (!(citation === null || (typeof citation === 'string' && citation.trim()))) fail('citation','non-empty string or null');
+  if (!isStringArray(tags)) fail('tags','string[]');
+  if (!(created_from_conversation_id === null || isUUID(created_from_conversation_id))) fail('created_from_conversation_id','UUID or null');
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  if (!isISODateTime(updated_at)) fail('updated_at','ISO datetime');
+  return {
+    id,
+    category: category as RuleCategory,
+    title: (title as string).trim(),
+    description,
+    jurisdiction: (jurisdiction as string).trim(),
+    citation: citation as string | null,
+    tags,
+    created_from_conversation_id: created_from_conversation_id as UUID | null,
+    created_at,
+    updated_at,
+  };
+}
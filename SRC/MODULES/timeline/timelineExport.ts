@@ -0,0 +1,190 @@
+// Timeline Export — render a chronology as Markdown, CSV or standalone HTML
+// Output is deterministic (stable ordering, no generation timestamps) so exports can be diffed.
+
+import { TimelineEvent, DocumentRoute, ISODateString } from '../../DOMAIN/sparkModels.js';
+import { DocumentsData } from '../documents/documentsService.js';
+import { OutreachData } from '../outreach/outreachService.js';
+import { TimelineData, filterTimelineEvents, TimelineFilter } from './timelineService.js';
+
+export type TimelineExportFormat = 'md' | 'csv' | 'html';
+
+export interface TimelineExportOptions extends TimelineFilter {
+  route?: DocumentRoute;
+  title?: string; // heading for md/html; defaults to "Chronology"
+}
+
+export interface TimelineExportRow {
+  date: ISODateString;
+  title: string;
+  event_type: string;
+  severity: string;
+  description: string;
+  documents: string[]; // linked document titles
+  agencies: string[];
+  children: string[];
+}
+
+// An event goes to a recipient when one of its documents is routed there, or when one of its
+// outreach actions was made to a contact tagged with the route (e.g. a contact tagged "MDCR").
+// Events with neither link are internal notes and are left out of routed exports.
+function eventMatchesRoute(ev: TimelineEvent, route: DocumentRoute, docs: DocumentsData | null, outreach: OutreachData | null): boolean {
+  if (docs) {
+    for (const id of ev.document_ids) {
+      const doc = docs.documents.find(d => d.id === id);
+      if (doc && doc.routes.includes(route)) return true;
+    }
+  }
+  if (outreach) {
+    const tag = route.toLowerCase();
+    for (const id of ev.outreach_ids) {
+      const action = outreach.outreachActions.find(a => a.id === id);
+      const contact = action && outreach.contacts.find(c => c.id === action.contact_id);
+      if (contact && contact.tags.some(t => t.toLowerCase() === tag)) return true;
+    }
+  }
+  return false;
+}
+
+export function selectExportRows(timeline: TimelineData, docs: DocumentsData | null, outreach: OutreachData | null, opts: TimelineExportOptions = {}): TimelineExportRow[] {
+  const events = filterTimelineEvents(timeline, opts).filter(ev => !opts.route || eventMatchesRoute(ev, opts.route, docs, outreach));
+  return events.map(ev => ({
+    date: ev.date,
+    title: ev.title,
+    event_type: ev.event_type,
+    severity: ev.severity,
+    description: ev.description,
+    documents: ev.document_ids.map(id => docs?.documents.find(d => d.id === id)?.title ?? `[missing document ${id}]`),
+    agencies: ev.agencies_involved.slice(),
+    children: ev.children_involved.slice(),
+  }));
+}
+
+function scopeLine(opts: TimelineExportOptions): string {
+  const parts: string[] = [];
+  if (opts.route) parts.push(`Route: ${opts.route}`);
+  if (opts.from || opts.to) parts.push(`Range: ${opts.from || '…'} to ${opts.to || '…'}`);
+  return parts.join(' · ');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Markdown
+// ─────────────────────────────────────────────────────────────
+function mdInline(s: string): string {
+  return s.replace(/\r?\n+/g, ' ').replace(/([\\`*_[\]|])/g, '\\$1');
+}
+
+export function renderTimelineMarkdown(rows: TimelineExportRow[], opts: TimelineExportOptions = {}): string {
+  const lines: string[] = [`# ${mdInline(opts.title || 'Chronology')}`, ''];
+  const scope = scopeLine(opts);
+  if (scope) lines.push(`_${mdInline(scope)}_`, '');
+  lines.push(`Events: ${rows.length}`, '');
+  for (const r of rows) {
+    lines.push(`## ${r.date} — ${mdInline(r.title)}`, '');
+    lines.push(`- **Severity:** ${r.severity}`);
+    lines.push(`- **Type:** ${r.event_type}`);
+    if (r.agencies.length) lines.push(`- **Agencies:** ${r.agencies.map(mdInline).join(', ')}`);
+    if (r.children.length) lines.push(`- **Children:** ${r.children.map(mdInline).join(', ')}`);
+    if (r.documents.length) {
+      lines.push('- **Documents:**');
+      for (const d of r.documents) lines.push(`  - ${mdInline(d)}`);
+    }
+    if (r.description) lines.push('', mdInline(r.description));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────
+// CSV (RFC 4180 quoting; list cells joined with "; ")
+// ─────────────────────────────────────────────────────────────
+function csvCell(s: string): string {
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function renderTimelineCsv(rows: TimelineExportRow[]): string {
+  const header = ['date', 'title', 'event_type', 'severity', 'agencies', 'children', 'documents', 'description'];
+  const lines = [header.join(',')];
+  for (const r of rows) {
+    lines.push([
+      r.date,
+      r.title,
+      r.event_type,
+      r.severity,
+      r.agencies.join('; '),
+      r.children.join('; '),
+      r.documents.join('; '),
+      r.description,
+    ].map(csvCell).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ─────────────────────────────────────────────────────────────
+// HTML (single file, inline CSS, no scripts)
+// ─────────────────────────────────────────────────────────────
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = [
+  'body{font-family:Georgia,serif;max-width:860px;margin:2em auto;color:#222;line-height:1.45}',
+  'h1{margin-bottom:.2em}',
+  '.scope{color:#555;font-style:italic}',
+  'ol.timeline{list-style:none;padding:0;border-left:3px solid #ccc}',
+  'ol.timeline li{margin:0 0 1.2em 0;padding-left:1em;position:relative}',
+  '.date{font-weight:bold;font-family:monospace}',
+  '.sev{display:inline-block;font-size:.8em;padding:0 .5em;border-radius:3px;margin-left:.5em;color:#fff}',
+  '.sev-Informational{background:#6b7280}',
+  '.sev-Important{background:#d97706}',
+  '.sev-Critical{background:#b91c1c}',
+  '.meta{color:#444;font-size:.9em}',
+  '@media print{.sev{border:1px solid #000;color:#000;background:none}}',
+].join('\n');
+
+export function renderTimelineHtml(rows: TimelineExportRow[], opts: TimelineExportOptions = {}): string {
+  const title = opts.title || 'Chronology';
+  const scope = scopeLine(opts);
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${esc(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${esc(title)}</h1>`,
+  ];
+  if (scope) out.push(`<p class="scope">${esc(scope)}</p>`);
+  out.push(`<p>Events: ${rows.length}</p>`, '<ol class="timeline">');
+  for (const r of rows) {
+    out.push('<li>');
+    out.push(`<div><span class="date">${esc(r.date)}</span> <strong>${esc(r.title)}</strong><span class="sev sev-${esc(r.severity)}">${esc(r.severity)}</span></div>`);
+    out.push(`<div class="meta">Type: ${esc(r.event_type)}${r.agencies.length ? ` · Agencies: ${esc(r.agencies.join(', '))}` : ''}${r.children.length ? ` · Children: ${esc(r.children.join(', '))}` : ''}</div>`);
+    if (r.description) out.push(`<p>${esc(r.description)}</p>`);
+    if (r.documents.length) {
+      out.push('<ul class="docs">');
+      for (const d of r.documents) out.push(`<li>${esc(d)}</li>`);
+      out.push('</ul>');
+    }
+    out.push('</li>');
+  }
+  out.push('</ol>', '</body>', '</html>', '');
+  return out.join('\n');
+}
+
+export function exportTimeline(timeline: TimelineData, docs: DocumentsData | null, outreach: OutreachData | null, format: TimelineExportFormat, opts: TimelineExportOptions = {}): string {
+  const rows = selectExportRows(timeline, docs, outreach, opts);
+  switch (format) {
+    case 'md':
+      return renderTimelineMarkdown(rows, opts);
+    case 'csv':
+      return renderTimelineCsv(rows);
+    case 'html':
+      return renderTimelineHtml(rows, opts);
+    default: {
+      const _exhaustive: never = format;
+      throw new Error(`Unsupported export format: ${_exhaustive}`);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// Timeline Persistence — JSON snapshot (parallel to outreachPersistence)
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TimelineEvent, UUID, ISODateTimeString } from '../../DOMAIN/sparkModels.js';
+import { validateTimelineEvent } from './timelineValidators.js';
+import { TimelineData } from './timelineService.js';
+import { createPersistScheduler } from '../../CORE/persistScheduler.js';
+
+export interface TimelineSnapshot {
+  version: number;
+  updated_at: ISODateTimeString;
+  events: TimelineEvent[];
+}
+
+const DEFAULT_DIR = path.join(process.cwd(), 'DATA');
+const DEFAULT_FILE = path.join(DEFAULT_DIR, 'timeline.snapshot.json');
+
+async function ensureDir(dir: string) { await fs.mkdir(dir, { recursive: true }); }
+
+function emptySnapshot(): TimelineSnapshot {
+  return { version: 1, updated_at: new Date().toISOString(), events: [] };
+}
+
+export async function loadTimelineSnapshot(filePath: string = DEFAULT_FILE): Promise<TimelineSnapshot> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') throw new Error('Snapshot root invalid');
+    const version = typeof parsed.version === 'number' ? parsed.version : 1;
+    const updated_at = typeof parsed.updated_at === 'string' ? parsed.updated_at : new Date().toISOString();
+    const eventsRaw = Array.isArray(parsed.events) ? parsed.events : [];
+    return {
+      version,
+      updated_at,
+      events: eventsRaw.map((ev: unknown, i: number) => { try { return validateTimelineEvent(ev); } catch (e) { throw new Error(`TimelineEvent[${i}] invalid: ${(e as Error).message}`); } }),
+    };
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e.code === 'ENOENT') return emptySnapshot();
+    throw new Error(`Failed to load timeline snapshot: ${e.message}`);
+  }
+}
+
+async function atomicWrite(filePath: string, content: string) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = filePath + '.' + Date.now() + '.tmp';
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+export async function saveTimelineSnapshot(snapshot: TimelineSnapshot, filePath: string = DEFAULT_FILE) {
+  const toSave: TimelineSnapshot = { ...snapshot, updated_at: new Date().toISOString() };
+  await atomicWrite(filePath, JSON.stringify(toSave, null, 2));
+}
+
+export async function loadTimelineData(filePath: string = DEFAULT_FILE, idGen: () => UUID, clock: () => ISODateTimeString): Promise<TimelineData> {
+  const snap = await loadTimelineSnapshot(filePath);
+  const data: TimelineData = {
+    events: snap.events,
+    uuid: idGen,
+    now: clock,
+    persist: createPersistScheduler(async () => {
+      const snapshot: TimelineSnapshot = {
+        version: snap.version,
+        updated_at: new Date().toISOString(),
+        events: data.events.map(ev => validateTimelineEvent(ev)),
+      };
+      await saveTimelineSnapshot(snapshot, filePath);
+    }),
+  };
+  return data;
+}
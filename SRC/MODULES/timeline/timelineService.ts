@@ -0,0 +1,255 @@
+// Timeline Service — CRUD, queries and derivation of TimelineEvent records
+// Framework-agnostic. Derivation reads Documents & Outreach data but never mutates them.
+
+import {
+  TimelineEvent,
+  TimelineEventType,
+  TimelineSeverity,
+  Document,
+  MisconductSeverity,
+  OutreachAction,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+import { DocumentsData } from '../documents/documentsService.js';
+import { OutreachData } from '../outreach/outreachService.js';
+import { validateTimelineEvent } from './timelineValidators.js';
+
+export interface TimelineData {
+  events: TimelineEvent[];
+  now: () => ISODateTimeString;
+  uuid: () => UUID;
+  persist?: () => Promise<void>; // optional snapshot persistence
+  audit?: (event: {
+    entity_type: 'TimelineEvent';
+    change_type: 'Create' | 'Update' | 'Delete';
+    entity_id: UUID;
+    before?: unknown;
+    after?: unknown;
+    detail?: string;
+  }) => void | Promise<void>; // optional audit hook
+}
+
+export function createEmptyTimelineData(idGen: () => UUID, clock: () => ISODateTimeString): TimelineData {
+  return { events: [], uuid: idGen, now: clock };
+}
+
+// ─────────────────────────────────────────────────────────────
+// TimelineEvent CRUD
+// ─────────────────────────────────────────────────────────────
+export interface CreateTimelineEventInput {
+  date: ISODateString;
+  title: string;
+  description?: string;
+  event_type: TimelineEventType;
+  document_ids?: UUID[];
+  outreach_ids?: UUID[];
+  children_involved?: string[];
+  agencies_involved?: string[];
+  severity?: TimelineSeverity;
+}
+
+export function createTimelineEvent(data: TimelineData, input: CreateTimelineEventInput): TimelineEvent {
+  const ev: TimelineEvent = {
+    id: data.uuid(),
+    date: input.date,
+    title: input.title.trim(),
+    description: input.description?.trim() || '',
+    event_type: input.event_type,
+    document_ids: (input.document_ids || []).slice(),
+    outreach_ids: (input.outreach_ids || []).slice(),
+    children_involved: (input.children_involved || []).map(s => s.trim()),
+    agencies_involved: (input.agencies_involved || []).map(s => s.trim()),
+    severity: input.severity ?? 'Informational',
+    created_at: data.now(),
+  };
+  validateTimelineEvent(ev);
+  data.events.push(ev);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'TimelineEvent', change_type: 'Create', entity_id: ev.id, after: ev });
+  return ev;
+}
+
+export function updateTimelineEvent(data: TimelineData, id: UUID, changes: Partial<Omit<TimelineEvent, 'id' | 'created_at'>>): TimelineEvent | null {
+  const ev = data.events.find(e => e.id === id);
+  if (!ev) return null;
+  const before: TimelineEvent = JSON.parse(JSON.stringify(ev));
+  if (changes.date !== undefined) ev.date = changes.date;
+  if (changes.title !== undefined) ev.title = changes.title.trim();
+  if (changes.description !== undefined) ev.description = changes.description.trim();
+  if (changes.event_type !== undefined) ev.event_type = changes.event_type as TimelineEventType;
+  if (changes.document_ids !== undefined) ev.document_ids = changes.document_ids.slice();
+  if (changes.outreach_ids !== undefined) ev.outreach_ids = changes.outreach_ids.slice();
+  if (changes.children_involved !== undefined) ev.children_involved = changes.children_involved.map(s => s.trim());
+  if (changes.agencies_involved !== undefined) ev.agencies_involved = changes.agencies_involved.map(s => s.trim());
+  if (changes.severity !== undefined) ev.severity = changes.severity as TimelineSeverity;
+  validateTimelineEvent(ev); // throws if invalid
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'TimelineEvent', change_type: 'Update', entity_id: ev.id, before, after: ev });
+  return ev;
+}
+
+export function deleteTimelineEvent(data: TimelineData, id: UUID): boolean {
+  const idx = data.events.findIndex(e => e.id === id);
+  if (idx === -1) return false;
+  const before = data.events[idx];
+  data.events.splice(idx, 1);
+  if (data.persist) void data.persist();
+  if (data.audit) void data.audit({ entity_type: 'TimelineEvent', change_type: 'Delete', entity_id: id, before });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Query Helpers
+// ─────────────────────────────────────────────────────────────
+export interface TimelineFilter {
+  from?: ISODateString; // inclusive
+  to?: ISODateString;   // inclusive
+  child?: string;       // case-insensitive match against children_involved
+  agency?: string;      // case-insensitive match against agencies_involved
+  severity?: TimelineSeverity[];
+  event_type?: TimelineEventType[];
+}
+
+function includesIgnoreCase(list: string[], value: string): boolean {
+  const needle = value.trim().toLowerCase();
+  return list.some(s => s.toLowerCase() === needle);
+}
+
+// Chronological order; ties broken by title then id so listings are stable.
+export function compareTimelineEvents(a: TimelineEvent, b: TimelineEvent): number {
+  return a.date.localeCompare(b.date) || a.title.localeCompare(b.title) || a.id.localeCompare(b.id);
+}
+
+export function filterTimelineEvents(data: TimelineData, filter: TimelineFilter): TimelineEvent[] {
+  return data.events.filter(ev => {
+    if (filter.from && ev.date < filter.from) return false;
+    if (filter.to && ev.date > filter.to) return false;
+    if (filter.child && !includesIgnoreCase(ev.children_involved, filter.child)) return false;
+    if (filter.agency && !includesIgnoreCase(ev.agencies_involved, filter.agency)) return false;
+    if (filter.severity && !filter.severity.includes(ev.severity)) return false;
+    if (filter.event_type && !filter.event_type.includes(ev.event_type)) return false;
+    return true;
+  }).sort(compareTimelineEvents);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Derivation from Documents & Outreach
+// ─────────────────────────────────────────────────────────────
+function eventTypeForDocument(doc: Document): TimelineEventType {
+  switch (doc.doc_type) {
+    case 'CourtOrder':
+      return 'CourtAction';
+    case 'OversightLetter':
+      return 'AgencyDecision';
+    case 'CPSComplaint':
+    case 'PoliceReport':
+    case 'MedicalRecord':
+    case 'Email':
+    case 'Timeline':
+    case 'Other':
+      return 'Document';
+    default: {
+      const _exhaustive: never = doc.doc_type;
+      return _exhaustive;
+    }
+  }
+}
+
+function severityForMisconduct(severity: MisconductSeverity): TimelineSeverity {
+  switch (severity) {
+    case 'Low':
+      return 'Informational';
+    case 'Medium':
+      return 'Important';
+    case 'High':
+    case 'Extreme':
+      return 'Critical';
+    default: {
+      const _exhaustive: never = severity;
+      return _exhaustive;
+    }
+  }
+}
+
+const SEVERITY_RANK: Record<TimelineSeverity, number> = { Informational: 0, Important: 1, Critical: 2 };
+
+function maxSeverity(a: TimelineSeverity, b: TimelineSeverity): TimelineSeverity {
+  return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+}
+
+function severityForDocument(docs: DocumentsData, doc: Document): TimelineSeverity {
+  let sev: TimelineSeverity = doc.primary_relevance === 'Primary' ? 'Important' : 'Informational';
+  for (const flag of docs.misconductFlags) {
+    if (flag.document_id === doc.id) sev = maxSeverity(sev, severityForMisconduct(flag.severity));
+  }
+  return sev;
+}
+
+function severityForOutreach(action: OutreachAction): TimelineSeverity {
+  switch (action.outcome_status) {
+    case 'None':
+    case 'Waiting':
+      return 'Informational';
+    case 'Positive':
+    case 'Negative':
+    case 'ReferredElsewhere':
+      return 'Important';
+    default: {
+      const _exhaustive: never = action.outcome_status;
+      return _exhaustive;
+    }
+  }
+}
+
+// Propose events for dated documents and outreach actions that no existing event references yet.
+// Documents recorded as someone else's duplicate are left out; their primary already stands for them.
+export function deriveTimelineEvents(data: TimelineData, docs: DocumentsData | null, outreach: OutreachData | null): CreateTimelineEventInput[] {
+  const coveredDocs = new Set(data.events.flatMap(e => e.document_ids));
+  const coveredOutreach = new Set(data.events.flatMap(e => e.outreach_ids));
+  const proposals: CreateTimelineEventInput[] = [];
+
+  if (docs) {
+    const duplicates = new Set(docs.duplicateLinks.map(l => l.duplicate_document_id));
+    for (const doc of docs.documents) {
+      if (!doc.date_of_event || coveredDocs.has(doc.id) || duplicates.has(doc.id)) continue;
+      proposals.push({
+        date: doc.date_of_event,
+        title: doc.title,
+        description: doc.summary,
+        event_type: eventTypeForDocument(doc),
+        document_ids: [doc.id],
+        outreach_ids: [],
+        children_involved: doc.children_involved.slice(),
+        agencies_involved: doc.agencies_involved.slice(),
+        severity: severityForDocument(docs, doc),
+      });
+    }
+  }
+
+  if (outreach) {
+    for (const action of outreach.outreachActions) {
+      if (coveredOutreach.has(action.id)) continue;
+      const contact = outreach.contacts.find(c => c.id === action.contact_id);
+      const who = contact ? (contact.organization || contact.contact_name) : 'unknown contact';
+      proposals.push({
+        date: action.date.slice(0, 10),
+        title: `${action.method} to ${who}`,
+        description: action.summary,
+        event_type: 'Outreach',
+        document_ids: [],
+        outreach_ids: [action.id],
+        children_involved: [],
+        agencies_involved: contact && contact.organization ? [contact.organization] : [],
+        severity: severityForOutreach(action),
+      });
+    }
+  }
+
+  return proposals.sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+export function applyDerivedEvents(data: TimelineData, proposals: CreateTimelineEventInput[]): TimelineEvent[] {
+  return proposals.map(p => createTimelineEvent(data, p));
+}
@@ -0,0 +1,52 @@
+// Timeline Validators — runtime checks for TimelineEvent
+// No external deps. Align strictly with sparkModels.ts
+
+import {
+  TimelineEvent,
+  TimelineEventType,
+  TimelineSeverity,
+  UUID,
+  ISODateString,
+  ISODateTimeString,
+} from '../../DOMAIN/sparkModels.js';
+
+function isObj(v: unknown): v is Record<string, unknown> { return typeof v === 'object' && v !== null && !Array.isArray(v); }
+function isUUID(v: unknown): v is UUID { return typeof v === 'string' && v.length > 0; }
+function isISODate(v: unknown): v is ISODateString { return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v); }
+function isISODateTime(v: unknown): v is ISODateTimeString { return typeof v === 'string' && /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(v); }
+function enumIncludes<T extends string>(arr: readonly T[], v: unknown): v is T { return typeof v === 'string' && arr.includes(v as T); }
+function isStringArray(v: unknown): v is string[] { return Array.isArray(v) && v.every(s => typeof s === 'string'); }
+
+export const TIMELINE_EVENT_TYPES: TimelineEventType[] = ['Document','Outreach','CourtAction','AgencyDecision','PersonalMilestone','Other'];
+export const TIMELINE_SEVERITY: TimelineSeverity[] = ['Informational','Important','Critical'];
+
+function fail(field: string, msg: string): never { throw new Error(`${field}: ${msg}`); }
+
+export function validateTimelineEvent(input: unknown): TimelineEvent {
+  if (!isObj(input)) fail('TimelineEvent','must be object');
+  const { id, date, title, description, event_type, document_ids, outreach_ids, children_involved, agencies_involved, severity, created_at } = input;
+  if (!isUUID(id)) fail('id','invalid UUID');
+  if (!isISODate(date)) fail('date','ISO date');
+  if (typeof title !== 'string' || !title.trim()) fail('title','non-empty string');
+  if (typeof description !== 'string') fail('description','string');
+  if (!enumIncludes(TIMELINE_EVENT_TYPES, event_type)) fail('event_type',`one of ${TIMELINE_EVENT_TYPES.join(',')}`);
+  if (!Array.isArray(document_ids) || document_ids.some(d => !isUUID(d))) fail('document_ids','UUID[]');
+  if (!Array.isArray(outreach_ids) || outreach_ids.some(o => !isUUID(o))) fail('outreach_ids','UUID[]');
+  if (!isStringArray(children_involved)) fail('children_involved','string[]');
+  if (!isStringArray(agencies_involved)) fail('agencies_involved','string[]');
+  if (!enumIncludes(TIMELINE_SEVERITY, severity)) fail('severity',`one of ${TIMELINE_SEVERITY.join(',')}`);
+  if (!isISODateTime(created_at)) fail('created_at','ISO datetime');
+  return {
+    id,
+    date,
+    title: (title as string).trim(),
+    description,
+    event_type: event_type as TimelineEventType,
+    document_ids: document_ids as UUID[],
+    outreach_ids: outreach_ids as UUID[],
+    children_involved,
+    agencies_involved,
+    severity: severity as TimelineSeverity,
+    created_at,
+  };
+}
@@ -6,7 +6,10 @@ function idGen() { return crypto.randomUUID(); }
 function clock(): ISODateTimeString { return new Date().toISOString(); }
 
 async function main() {
-  const core = new SparkCore(idGen, clock, { tickIntervalMs: 60_000 });
+  const core = new SparkCore(idGen, clock, {
+    tickIntervalMs: 60_000,
+    onMigrate: m => console.log(`[SPARK] Migrated ${m.plan.module} snapshot from version ${m.plan.from} to ${m.plan.to} (backup: ${m.backup})`),
+  });
   await core.init();
   console.log('[SPARK] Core initialized');
 
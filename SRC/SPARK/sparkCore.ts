@@ -1,16 +1,55 @@
 // SPARK Runtime Core — orchestrates modules, provides tick loop state
 import { MasterPlanData } from '../MODULES/masterPlan/masterPlanService.js';
-import { OutreachData, openFollowUps } from '../MODULES/outreach/outreachService.js';
-import { loadMasterPlanData } from '../MODULES/masterPlan/masterPlanPersistence.js';
-import { loadOutreachData } from '../MODULES/outreach/outreachPersistence.js';
-import { createAuditLogger } from '../CORE/auditLogger.js';
+import { OutreachData } from '../MODULES/outreach/outreachService.js';
+import { loadMasterPlanData, openMasterPlanStorage } from '../MODULES/masterPlan/masterPlanPersistence.js';
+import { loadOutreachData, openOutreachStorage } from '../MODULES/outreach/outreachPersistence.js';
+import { DocumentsData } from '../MODULES/documents/documentsService.js';
+import { loadDocumentsData } from '../MODULES/documents/documentsPersistence.js';
+import { TimelineData } from '../MODULES/timeline/timelineService.js';
+import { loadTimelineData } from '../MODULES/timeline/timelinePersistence.js';
+import { ArtifactsData, artifactVersionExists } from '../MODULES/artifacts/artifactsService.js';
+import { loadArtifactsData } from '../MODULES/artifacts/artifactsPersistence.js';
+import { RulesData, flagsCitingRule } from '../MODULES/rules/rulesService.js';
+import { loadRulesData } from '../MODULES/rules/rulesPersistence.js';
+import { ConversationsData } from '../MODULES/conversations/conversationsService.js';
+import { loadConversationsData } from '../MODULES/conversations/conversationsPersistence.js';
+import { ResearchData } from '../MODULES/research/researchService.js';
+import { loadResearchData } from '../MODULES/research/researchPersistence.js';
+import { DailyLogData } from '../MODULES/dailyLog/dailyLogService.js';
+import { loadDailyLogData } from '../MODULES/dailyLog/dailyLogPersistence.js';
+import { DeadlinesData, wakeSnoozedDeadlines, relatedEntityExists } from '../MODULES/deadlines/deadlinesService.js';
+import { loadDeadlinesData } from '../MODULES/deadlines/deadlinesPersistence.js';
+import * as path from 'path';
+import { createAuditLogger, AuditLogger } from '../CORE/auditLogger.js';
+import { AuditRotationPolicy } from '../CORE/auditTypes.js';
+import { loadStorageConfig } from '../CORE/storage.js';
+import { flushPersistence } from '../CORE/persistScheduler.js';
+import { OnMigrate } from '../CORE/snapshotMigrations.js';
+import { autoBackup, BackupRetention, DEFAULT_BACKUP_RETENTION } from '../CORE/snapshotBackup.js';
+import { loadHolidayCalendars, findHolidayCalendar, DEFAULT_HOLIDAY_CALENDAR } from '../CORE/holidayCalendar.js';
 import { buildDailySummary, DailySummary } from '../CORE/dailySummary.js';
 import { UUID, ISODateTimeString } from '../DOMAIN/sparkModels';
 
 export interface SparkCoreConfig {
   masterPlanPath?: string; // defaults to DATA/masterPlan.snapshot.json
   outreachPath?: string;   // defaults to DATA/outreach.snapshot.json
+  documentsPath?: string;  // defaults to DATA/documents.snapshot.json
+  timelinePath?: string;   // defaults to DATA/timeline.snapshot.json
+  artifactsPath?: string;  // defaults to DATA/artifacts.snapshot.json
+  rulesPath?: string;      // defaults to DATA/rules.snapshot.json
+  conversationsPath?: string; // defaults to DATA/conversations.snapshot.json
+  researchPath?: string;   // defaults to DATA/research.snapshot.json
+  dailyLogPath?: string;   // defaults to DATA/dailyLog.snapshot.json
+  deadlinesPath?: string;  // defaults to DATA/deadlines.snapshot.json
+  holidaysPath?: string;   // defaults to DATA/holidays.json (bundled calendars when missing)
+  holidayCalendar?: string; // defaults to Michigan
   auditLogPath?: string;   // defaults to DATA/audit.log.jsonl
+  storageConfigPath?: string; // defaults to DATA/storage.json (JSON snapshots when missing)
+  auditCheckpointEvery?: number; // signed checkpoint every N events (next to the log); default 100
+  auditRotation?: AuditRotationPolicy; // defaults to 10 MB or a new month, whichever comes first
+  dataDir?: string;        // whose snapshots are backed up on start (into <dataDir>/backups); defaults to DATA
+  onMigrate?: OnMigrate;   // told when an older Master Plan / Outreach snapshot was migrated on load
+  backupRetention?: BackupRetention | null; // defaults to the last 10, then 24 hourly, 7 daily, 4 weekly; null turns start-up backups off
   tickIntervalMs?: number; // consumer may read this after construction
 }
 
@@ -20,9 +59,16 @@ export class SparkCore {
   private cfg: SparkCoreConfig;
   masterPlan!: MasterPlanData;
   outreach!: OutreachData;
-  private audit!: ReturnType<typeof createAuditLogger>;
-  private flaggedOverduePlanItems = new Set<UUID>();
-  private flaggedOverdueFollowUps = new Set<UUID>();
+  documents!: DocumentsData;
+  timeline!: TimelineData;
+  artifacts!: ArtifactsData;
+  rules!: RulesData;
+  conversations!: ConversationsData;
+  research!: ResearchData;
+  dailyLog!: DailyLogData;
+  deadlines!: DeadlinesData;
+  private audit!: AuditLogger;
+  private flaggedOverdueDeadlines = new Set<string>();
 
   constructor(idGen: () => UUID, clock: () => ISODateTimeString, cfg: SparkCoreConfig = {}) {
     this.idGen = idGen;
@@ -32,42 +78,76 @@ export class SparkCore {
 
   async init(): Promise<void> {
     const auditLogPath = this.cfg.auditLogPath || 'DATA/audit.log.jsonl';
-    this.audit = createAuditLogger({ filePath: auditLogPath, idGen: this.idGen, clock: this.clock });
-    this.masterPlan = await loadMasterPlanData(this.cfg.masterPlanPath, this.idGen, this.clock);
-    this.outreach   = await loadOutreachData(this.cfg.outreachPath, this.idGen, this.clock);
+    this.audit = createAuditLogger({
+      filePath: auditLogPath,
+      idGen: this.idGen,
+      clock: this.clock,
+      checkpoints: { filePath: path.join(path.dirname(auditLogPath), 'audit.checkpoints.jsonl'), every: this.cfg.auditCheckpointEvery ?? 100 },
+      rotation: this.cfg.auditRotation ?? { maxBytes: 10 * 1024 * 1024, monthly: true },
+    });
+    if (this.cfg.backupRetention !== null) {
+      await autoBackup({ dataDir: this.cfg.dataDir || 'DATA' }, this.cfg.backupRetention ?? DEFAULT_BACKUP_RETENTION, this.clock);
+    }
+    const storage = await loadStorageConfig(this.cfg.storageConfigPath);
+    this.masterPlan = await loadMasterPlanData(this.cfg.masterPlanPath, this.idGen, this.clock, await openMasterPlanStorage(storage, this.cfg.masterPlanPath), this.cfg.onMigrate);
+    this.outreach   = await loadOutreachData(this.cfg.outreachPath, this.idGen, this.clock, await openOutreachStorage(storage, this.cfg.outreachPath), this.cfg.onMigrate);
+    this.documents  = await loadDocumentsData(this.cfg.documentsPath, this.idGen, this.clock);
+    this.timeline   = await loadTimelineData(this.cfg.timelinePath, this.idGen, this.clock);
+    this.artifacts  = await loadArtifactsData(this.cfg.artifactsPath, this.idGen, this.clock);
+    this.rules      = await loadRulesData(this.cfg.rulesPath, this.idGen, this.clock);
+    this.conversations = await loadConversationsData(this.cfg.conversationsPath, this.idGen, this.clock);
+    this.research   = await loadResearchData(this.cfg.researchPath, this.idGen, this.clock);
+    this.dailyLog   = await loadDailyLogData(this.cfg.dailyLogPath, this.idGen, this.clock);
+    this.deadlines  = await loadDeadlinesData(this.cfg.deadlinesPath, this.idGen, this.clock);
     // Attach audit to data objects so existing services emit events
     this.masterPlan.audit = this.audit;
     this.outreach.audit = this.audit;
+    this.documents.audit = this.audit;
+    this.timeline.audit = this.audit;
+    this.artifacts.audit = this.audit;
+    this.rules.audit = this.audit;
+    this.conversations.audit = this.audit;
+    this.research.audit = this.audit;
+    this.dailyLog.audit = this.audit;
+    this.deadlines.audit = this.audit;
+    this.outreach.artifactVersionExists = id => artifactVersionExists(this.artifacts, id);
+    this.rules.isRuleReferenced = id => flagsCitingRule(this.documents, id).length > 0;
+    const calendars = await loadHolidayCalendars(this.cfg.holidaysPath);
+    this.deadlines.calendar = findHolidayCalendar(calendars, this.cfg.holidayCalendar || DEFAULT_HOLIDAY_CALENDAR);
+    this.deadlines.entityExists = relatedEntityExists({ masterPlan: this.masterPlan, outreach: this.outreach, documents: this.documents, artifacts: this.artifacts });
   }
 
   // Perform one runtime tick. currentDateIso should be an ISO date string (YYYY-MM-DD) extracted from clock.
   tick(currentDateIso: string): DailySummary {
-    const summary = buildDailySummary(this.masterPlan, this.outreach, currentDateIso);
-
-    // Detect newly overdue plan items
-    for (const pi of this.masterPlan.planItems) {
-      if (pi.due_date && pi.due_date < currentDateIso && pi.status !== 'Done') {
-        if (!this.flaggedOverduePlanItems.has(pi.id)) {
-          this.flaggedOverduePlanItems.add(pi.id);
-          void this.audit({ entity_type: 'PlanItem', change_type: 'Update', entity_id: pi.id, project_id: pi.project_id, after: pi, detail: 'Overdue detected (first tick flag)' });
-        }
-      }
-    }
+    wakeSnoozedDeadlines(this.deadlines, currentDateIso);
+    const summary = buildDailySummary(this.masterPlan, this.outreach, currentDateIso, { dailyLog: this.dailyLog, deadlines: this.deadlines });
 
-    // Detect newly overdue follow ups
-    const open = openFollowUps(this.outreach, currentDateIso).filter(f => f.due_date < currentDateIso);
-    for (const fu of open) {
-      if (!this.flaggedOverdueFollowUps.has(fu.id)) {
-        this.flaggedOverdueFollowUps.add(fu.id);
-        void this.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: fu.id, after: fu, detail: 'Follow-up overdue detected (first tick flag)' });
+    // Flag newly overdue deadlines (explicit and derived) once per runtime
+    for (const d of summary.deadlines!.overdue) {
+      if (this.flaggedOverdueDeadlines.has(d.id)) continue;
+      this.flaggedOverdueDeadlines.add(d.id);
+      if (d.derived && d.related_entity_type === 'PlanItem') {
+        const pi = this.masterPlan.planItems.find(p => p.id === d.related_entity_id);
+        void this.audit({ entity_type: 'PlanItem', change_type: 'Update', entity_id: d.related_entity_id, project_id: pi?.project_id, after: pi, detail: 'Overdue detected (first tick flag)' });
+      } else if (d.derived) {
+        const fu = this.outreach.followUps.find(f => f.id === d.related_entity_id);
+        void this.audit({ entity_type: 'FollowUpItem', change_type: 'Update', entity_id: d.related_entity_id, after: fu, detail: 'Follow-up overdue detected (first tick flag)' });
+      } else {
+        void this.audit({ entity_type: 'Deadline', change_type: 'Update', entity_id: d.id, after: d, detail: 'Deadline overdue detected (first tick flag)' });
       }
     }
 
     return summary;
   }
 
+  // One final write per module, then waits for every queued write; the first failure is rethrown.
   async shutdown(): Promise<void> {
-    if (this.masterPlan.persist) await this.masterPlan.persist();
-    if (this.outreach.persist) await this.outreach.persist();
+    const hooks = [
+      this.masterPlan.persist, this.outreach.persist, this.documents.persist, this.timeline.persist, this.artifacts.persist,
+      this.rules.persist, this.conversations.persist, this.research.persist, this.dailyLog.persist, this.deadlines.persist,
+    ];
+    for (const persist of hooks) if (persist) void persist();
+    await flushPersistence(hooks);
+    await this.audit.flush();
   }
 }
@@ -3,16 +3,85 @@
 //   npm run cli -- mp:list-projects
 //   npm run cli -- mp:create-project --name="MDCR Appeal" --description="Buildout" --start=2025-11-13 --end=2025-11-24 --color=#3366ff
 //   npm run cli -- mp:preload-mdcr --project=<uuid> --start=2025-11-13
+//   npm run cli -- mp:template-apply --template=mdcr-11-day --project=<uuid> --start=2025-11-13
+//   npm run cli -- mp:critical-path --project=<uuid>
+//   npm run cli -- mp:shift --project=<uuid> --from-date=2025-11-15 --days=1 --dry-run
 //   npm run cli -- mp:summary --date=2025-11-13
+//   npm run cli -- log:start-day --date=2025-11-13
+//   npm run cli -- deadline:view --date=2025-11-13 --horizon=14
+//   npm run cli -- calendar:compute --trigger=2025-11-13 --days=21 --unit=Business
+//   npm run cli -- audit:undo --count=2
+//   npm run cli -- audit:verify --public-key=./spark-audit.pub.pem
+//   npm run cli -- audit:compact
+//   npm run cli -- storage:migrate --to=sqlite
+//   npm run cli -- storage:migrate --dry-run
+//   npm run cli -- backup:restore --at=2025-11-13T09:00:00Z
+//   npm run cli -- backup:create --out=spark-backup.tar.gz
+//   npm run cli -- batch:apply --file=intake-call.json
+//   npm run cli -- audit:query --entity-type=PlanItem --change-type=Update,Delete --from=2025-11-01 --diff --format=text
+//   npm run cli -- log:end-day --date=2025-11-13 --learned="Intake closes at 4pm" --questions="Who signs the appeal?"
 //   npm run cli -- outreach:create-category --name=Media --color=#ff0000 --tags=press,investigative
 //   npm run cli -- outreach:open-followups --date=2025-11-13
+//   npm run cli -- outreach:create-followup --contact=<uuid> --due=2025-11-17 --repeat="FREQ=WEEKLY;COUNT=8"
+//   npm run cli -- doc:create --title="CPS intake" --type=CPSComplaint --event-date=2025-03-02 --routes=MDCR,DOJ
+//   npm run cli -- doc:list --route=MDCR --allegation=Neglect
+//   npm run cli -- doc:ingest --dir=./inbox
+//   npm run cli -- timeline:derive --apply
+//   npm run cli -- timeline:export --format=html --route=MDCR --out=mdcr-chronology.html
+//   npm run cli -- artifact:promote --id=<uuid> --to=Production --by="S. Spedowski"
+//   npm run cli -- artifact:diff --artifact=<uuid> --from=v0.1 --to=v1.0
+//   npm run cli -- rule:create --category=Law --title="Child abuse reporting" --citation="MCL 722.623" --tags=reporting
+//   npm run cli -- doc:flag --document=<uuid> --rule="MCL 722.623" --severity=High
+//   npm run cli -- conv:import --source=ChatGPT --file=./exports/conversations.json
+//   npm run cli -- highlight:promote --id=<uuid> --project=<uuid> --due=2025-11-20
 
-import { loadMasterPlanData } from './MODULES/masterPlan/masterPlanPersistence.js';
-import { loadOutreachData } from './MODULES/outreach/outreachPersistence.js';
-import { createProject, preloadMdcrTemplate, filterPlanItems, createPlanItem, updatePlanItem, deletePlanItem, toggleChecklistItem } from './MODULES/masterPlan/masterPlanService.js';
-import { createCategory } from './MODULES/outreach/outreachService.js';
+import { loadMasterPlanData, openMasterPlanStorage, pendingMasterPlanMigration } from './MODULES/masterPlan/masterPlanPersistence.js';
+import { loadOutreachData, openOutreachStorage, pendingOutreachMigration } from './MODULES/outreach/outreachPersistence.js';
+import { StorageConfig, loadStorageConfig, saveStorageConfig, copyStorage } from './CORE/storage.js';
+import { createProject, filterPlanItems, createPlanItem, updatePlanItem, deletePlanItem, toggleChecklistItem, seriesPlanItems, updatePlanItemSeries, cancelPlanItemSeries } from './MODULES/masterPlan/masterPlanService.js';
+import { addDependencies, removeDependencies, criticalPath, dependencyConflicts } from './MODULES/masterPlan/masterPlanDependencies.js';
+import { shiftFromDate, shiftItem } from './MODULES/masterPlan/masterPlanShift.js';
+import { applyPlanTemplate, findPlanTemplate, loadPlanTemplates, savePlanTemplate, templateFromProject } from './MODULES/masterPlan/masterPlanTemplates.js';
+import { createCategory, createFollowUp, updateFollowUpStatus, updateFollowUpSeries, cancelFollowUpSeries } from './MODULES/outreach/outreachService.js';
+import { parseRecurrence } from './CORE/recurrence.js';
+import { loadDocumentsData } from './MODULES/documents/documentsPersistence.js';
+import { ingestDirectory } from './MODULES/documents/documentsIngest.js';
+import { createDocument, updateDocument, deleteDocument, filterDocuments, addMisconductFlag, deleteMisconductFlag, flagsForDocument } from './MODULES/documents/documentsService.js';
+import { loadTimelineData } from './MODULES/timeline/timelinePersistence.js';
+import { createTimelineEvent, updateTimelineEvent, deleteTimelineEvent, filterTimelineEvents, deriveTimelineEvents, applyDerivedEvents } from './MODULES/timeline/timelineService.js';
+import { exportTimeline } from './MODULES/timeline/timelineExport.js';
+import { loadArtifactsData } from './MODULES/artifacts/artifactsPersistence.js';
+import { createArtifact, listVersions, promoteArtifact, filterArtifacts, artifactVersionExists } from './MODULES/artifacts/artifactsService.js';
+import { registerStoredVersion, verifyArtifactFiles, diffArtifactVersions } from './MODULES/artifacts/artifactsStore.js';
+import { loadRulesData } from './MODULES/rules/rulesPersistence.js';
+import { createRule, updateRule, deleteRule, filterRules, resolveRule, duplicateRuleGroups, linkFlagsToRules, flagsCitingRule } from './MODULES/rules/rulesService.js';
+import { parseCitation } from './MODULES/rules/rulesCitation.js';
+import { loadConversationsData } from './MODULES/conversations/conversationsPersistence.js';
+import { filterConversations, filterHighlights, updateHighlight, deleteHighlight } from './MODULES/conversations/conversationsService.js';
+import { importConversations, readTranscript } from './MODULES/conversations/conversationsImport.js';
+import { IMPORTABLE_SOURCES } from './MODULES/conversations/conversationsParsers.js';
+import { promoteHighlight } from './MODULES/conversations/conversationsPromote.js';
+import { loadResearchData } from './MODULES/research/researchPersistence.js';
+import { filterInsights } from './MODULES/research/researchService.js';
+import { loadDailyLogData } from './MODULES/dailyLog/dailyLogPersistence.js';
+import { startDay, endDay, getDailyLog, describeEntries } from './MODULES/dailyLog/dailyLogService.js';
+import { readAuditLog, streamAuditLog, AuditReadFilter } from './CORE/auditReader.js';
+import { diffAuditEvent, formatAuditEvent, dailyActivity } from './CORE/auditReport.js';
+import { undo, redo, restoreTo, UndoResult } from './CORE/auditUndo.js';
+import { verifyAuditLog } from './CORE/auditChain.js';
+import { loadArchiveIndex, activeLogState, compactAuditArchive } from './CORE/auditArchive.js';
+import { loadOrCreateSigningKey, readPublicKey } from './CORE/auditSigning.js';
+import { loadDeadlinesData } from './MODULES/deadlines/deadlinesPersistence.js';
+import { createDeadline, updateDeadline, setDeadlineStatus, deleteDeadline, snoozeDeadline, unsnoozeDeadline, wakeSnoozedDeadlines, deadlineView, relatedEntityExists } from './MODULES/deadlines/deadlinesService.js';
+import { loadHolidayCalendars, saveHolidayCalendars, findHolidayCalendar, holidaysForYear, DEFAULT_HOLIDAY_CALENDAR, BUNDLED_HOLIDAY_CALENDARS } from './CORE/holidayCalendar.js';
+import { computeDeadline, describeDeadlineRule, DeadlineRule } from './CORE/deadlineCalculator.js';
 import { buildDailySummary } from './CORE/dailySummary.js';
 import { createAuditLogger } from './CORE/auditLogger.js';
+import { flushPersistence } from './CORE/persistScheduler.js';
+import { applyBatch, parseBatchOperations, BATCH_OPERATIONS } from './CORE/batchApply.js';
+import { AppliedMigration } from './CORE/snapshotMigrations.js';
+import { autoBackup, listBackups, findBackup, restoreBackup, createBundle, DEFAULT_BACKUP_RETENTION } from './CORE/snapshotBackup.js';
+import { promises as fs } from 'fs';
 
 function idGen() { return crypto.randomUUID(); }
 function clock() { return new Date().toISOString(); }
@@ -36,19 +105,126 @@ function parseArgs(argv: string[]): { cmd: string; flags: Record<string,string>
   return { cmd: cmd || 'help', flags };
 }
 
+function listFlag(flags: Record<string,string>, key: string): string[] | undefined {
+  return flags[key] !== undefined ? flags[key].split(',').map(s => s.trim()).filter(Boolean) : undefined;
+}
+
+function auditFilter(flags: Record<string,string>): AuditReadFilter {
+  return {
+    date: flags['date'],
+    entity_type: listFlag(flags, 'entity-type') as AuditReadFilter['entity_type'],
+    change_type: listFlag(flags, 'change-type') as AuditReadFilter['change_type'],
+    entity_id: flags['entity'],
+    project_id: flags['project'],
+    from: flags['from'],
+    to: flags['to'],
+  };
+}
+
+function dateFlag(flags: Record<string,string>, key: string): string | null | undefined {
+  const v = flags[key];
+  return v === undefined ? undefined : (v === 'null' ? null : v);
+}
+
+function ruleFlags(flags: Record<string,string>): DeadlineRule {
+  return { days: Number(flags['days']), unit: (flags['unit'] || 'Calendar') as DeadlineRule['unit'], roll_forward: flags['no-roll'] === undefined };
+}
+
 function usage() {
   console.log(`SPARK CLI commands:
   mp:list-projects
   mp:create-project --name= --description= --start=YYYY-MM-DD --end=YYYY-MM-DD [--color=#hex]
-  mp:preload-mdcr --project=<uuid> --start=YYYY-MM-DD
+  mp:preload-mdcr --project=<uuid> --start=YYYY-MM-DD [--calendar=Michigan|Federal|none]   (same as mp:template-apply --template=mdcr-11-day)
+  mp:template-list
+  mp:template-apply --template=<id> --project=<uuid> --start=YYYY-MM-DD [--calendar=Michigan|Federal|none]   (weekend/holiday due dates roll forward)
+  mp:template-save-from-project --project=<uuid> --id=<slug> [--name=] [--description=] [--overwrite]   (writes DATA/templates/<id>.json)
   mp:summary --date=YYYY-MM-DD
+  log:start-day [--date=YYYY-MM-DD] [--goals=a,b] [--emotion=]
+  log:end-day [--date=YYYY-MM-DD] [--completed=a,b] [--learned=a,b] [--questions=a,b] [--emotion=]
+  log:show [--date=YYYY-MM-DD]
+  audit:query [--entity-type=a,b] [--change-type=a,b] [--entity=<uuid>] [--project=<uuid>] [--date=YYYY-MM-DD] [--from=] [--to=] [--limit=N] [--diff] [--format=json|text]
+  audit:report [--from=] [--to=] [--entity-type=a,b] [--project=<uuid>] [--format=json|text]   (activity per day)
+  audit:verify [--public-key=<pem file>]   (checks the hash chain and signed checkpoints; exit code 1 on the first broken link)
+  audit:checkpoint   (signs the current end of the chain now; one is also written every 100 events)
+  audit:export-key [--out=<pem file>]   (public key for third-party verification)
+  audit:files   (archived segments with the time range each covers, then the active log)
+  audit:rotate   (archives the active log now; it also rotates at 10 MB or when the month changes)
+  audit:compact   (drops repeated no-change events such as overdue flags from archived segments)
+  batch:apply --file=<ops.json>   (Master Plan / Outreach operations in one transaction: all applied or none; ops: ${BATCH_OPERATIONS.join(', ')})
+  storage:migrate --to=sqlite|json [--path=DATA/spark.sqlite]   (copies Master Plan and Outreach to that backend and switches to it)
+  storage:migrate --dry-run [--to=sqlite|json] [--path=]   (reports pending snapshot version migrations and what a copy would move; writes nothing)
+  backup:list   (automatic snapshot backups in DATA/backups/, oldest first)
+  backup:restore --at=<ISO datetime>   (puts every snapshot back as the newest backup at or before then had it; the current state is backed up first)
+  backup:create --out=spark-backup.tar.gz   (snapshots plus the audit log, for moving to another machine)
+  audit:undo [--count=1]   (reverses the last Master Plan / Outreach commands; refused if a later change touched the same records)
+  audit:redo [--count=1]
+  audit:restore --at=<ISO datetime>   (puts Master Plan and Outreach back as they were at that moment)
+  deadline:view [--date=YYYY-MM-DD] [--horizon=7]   (explicit + plan item + follow-up deadlines, Critical first)
+  deadline:create --type=Project|PlanItem|Outreach|Document|Artifact|Other --entity=<uuid> --label= (--due=YYYY-MM-DD | --trigger=YYYY-MM-DD --days=N [--unit=Calendar|Business] [--no-roll]) [--severity=Normal|Important|Critical] [--calendar=Michigan]
+  deadline:update --id=<uuid> [--label=] [--due=YYYY-MM-DD] [--severity=]
+  deadline:complete --id=<uuid>
+  deadline:cancel --id=<uuid>
+  deadline:delete --id=<uuid>
+  deadline:snooze --id=<uuid|PlanItem:uuid|FollowUpItem:uuid> --until=YYYY-MM-DD
+  deadline:unsnooze --id=<id>
+  calendar:compute --trigger=YYYY-MM-DD --days=N [--unit=Calendar|Business] [--no-roll] [--calendar=Michigan|Federal|none]
+  calendar:holidays [--year=YYYY] [--calendar=Michigan]
+  calendar:init   (write the bundled holiday calendars to DATA/holidays.json for editing)
   mp:list-items [--project=<uuid>] [--status=NotStarted,InProgress,Done,Dropped] [--category=Research,Drafting,Outreach,Evidence,Admin,Other] [--priority=Low,Normal,High,Critical] [--due_before=YYYY-MM-DD] [--due_after=YYYY-MM-DD]
-  mp:create-item --project=<uuid> --title= --description= --category=Research|Drafting|Outreach|Evidence|Admin|Other --priority=Low|Normal|High|Critical [--due=YYYY-MM-DD|null] [--notes=] [--checklist="Label1;Label2;..."]
-  mp:update-item --id=<uuid> [--title=] [--description=] [--category=...] [--status=NotStarted|InProgress|Done|Dropped] [--priority=Low|Normal|High|Critical] [--due=YYYY-MM-DD|null] [--notes=] [--replace-checklist="Label1;Label2;..."]
+  mp:create-item --project=<uuid> --title= --description= --category=Research|Drafting|Outreach|Evidence|Admin|Other --priority=Low|Normal|High|Critical [--due=YYYY-MM-DD|null] [--notes=] [--checklist="Label1;Label2;..."] [--depends-on=<uuid>,<uuid>] [--repeat="FREQ=WEEKLY;INTERVAL=1;COUNT=6|UNTIL=YYYY-MM-DD"]
+  mp:update-item --id=<uuid> [--title=] [--description=] [--category=...] [--status=NotStarted|InProgress|Done|Dropped] [--priority=Low|Normal|High|Critical] [--due=YYYY-MM-DD|null] [--notes=] [--replace-checklist="Label1;Label2;..."] [--depends-on=<uuid>,<uuid>|null] [--repeat=<rule>|null]
+  mp:series --series=<uuid>   (every occurrence of a recurring item)
+  mp:series-update --series=<uuid> [--title=] [--description=] [--category=] [--priority=] [--notes=] [--repeat=<rule>]   (open occurrences only)
+  mp:series-cancel --series=<uuid>
+  mp:depend --item=<uuid> --on=<uuid>,<uuid>     (item is blocked by the listed items)
+  mp:undepend --item=<uuid> --on=<uuid>,<uuid>
+  mp:critical-path --project=<uuid> [--date=YYYY-MM-DD]   (earliest/latest dates and slack against the target end date)
+  mp:dependency-conflicts [--project=<uuid>]   (open items due before a prerequisite)
+  mp:shift (--project=<uuid> --from-date=YYYY-MM-DD | --item=<uuid>) --days=N [--business] [--dry-run]   (--item also moves its dependents)
   mp:delete-item --id=<uuid>
   mp:toggle-check --item=<planItemUuid> --check=<checklistUuid> --checked=true|false
   outreach:create-category --name= --color=#hex [--tags=a,b]
   outreach:open-followups --date=YYYY-MM-DD
+  outreach:create-followup --contact=<uuid> --due=YYYY-MM-DD [--action=<uuid>] [--notes=] [--repeat=<rule>]
+  outreach:followup-status --id=<uuid> --status=Open|Completed|Cancelled   (completing a recurring follow-up creates the next one)
+  outreach:followup-series-update --series=<uuid> [--notes=] [--repeat=<rule>]
+  outreach:followup-series-cancel --series=<uuid>
+  doc:list [--type=CPSComplaint,PoliceReport,...] [--allegation=Neglect,...] [--child=] [--agency=] [--route=MDCR,DOJ,AG,Media,MasterFile,Other] [--relevance=Primary,Supporting,External]
+  doc:create --title= --type=<DocumentType> [--file=] [--path=] [--event-date=YYYY-MM-DD] [--created-date=YYYY-MM-DD] [--children=a,b] [--agencies=a,b] [--people=a,b] [--allegations=a,b] [--summary=] [--relevance=] [--routes=a,b] [--scanned=true|false]
+  doc:update --id=<uuid> [same fields as doc:create]
+  doc:delete --id=<uuid>
+  doc:flag --document=<uuid> (--rule=<uuid|citation> | --law=<free text>) --severity=Low|Medium|High|Extreme [--description=] [--page=] [--paragraph=]
+  doc:unflag --id=<flagUuid>
+  doc:flags --document=<uuid>
+  doc:ingest --dir=<folder> [--recursive=true|false]
+  timeline:list [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--child=] [--agency=] [--severity=Informational,Important,Critical] [--type=Document,Outreach,...]
+  timeline:create --date=YYYY-MM-DD --title= --type=Document|Outreach|CourtAction|AgencyDecision|PersonalMilestone|Other [--description=] [--severity=] [--documents=a,b] [--outreach=a,b] [--children=a,b] [--agencies=a,b]
+  timeline:update --id=<uuid> [same fields as timeline:create]
+  timeline:delete --id=<uuid>
+  timeline:derive [--apply]
+  artifact:list [--project=<uuid>] [--type=AppealLetter,...] [--status=Draft,Ready,Production,Archived]
+  artifact:create --project=<uuid> --type=AppealLetter|Timeline|SummaryPacket|OnePager|Script|Other --name=
+  artifact:add-version --artifact=<uuid> --label=v0.1 --file=<path> [--notes=]   (file is copied into DATA/artifacts by content hash)
+  artifact:diff --artifact=<uuid> --from=v0.1 --to=v1.0 [--context=3]
+  artifact:verify [--artifact=<uuid>]
+  artifact:versions --artifact=<uuid>
+  artifact:promote --id=<uuid> --to=Draft|Ready|Production|Archived [--by=] [--version=v1.0]
+  timeline:export --format=md|csv|html [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--route=MDCR|DOJ|AG|Media|MasterFile|Other] [--title=] [--out=<file>]
+  rule:list [--category=Law,Policy,...] [--jurisdiction=] [--tags=a,b] [--q=text]
+  rule:create --category=Law|Policy|InternalGuideline|Precedent|Strategy --title= [--citation=] [--jurisdiction=] [--description=] [--tags=a,b]
+  rule:update --id=<uuid> [same fields as rule:create]
+  rule:delete --id=<uuid>
+  rule:parse --citation="42 USC 1983"
+  rule:duplicates
+  rule:link-flags   (replace free-text misconduct flag citations with matching rule ids)
+  conv:import --source=ChatGPT|Claude|Gemini --file=<export.json> [--tags=a,b]
+  conv:list [--source=ChatGPT,...] [--tags=a,b] [--q=text]
+  conv:show --id=<uuid>
+  conv:highlights [--conversation=<uuid>] [--type=Task,Decision,Rule,Question,...] [--importance=Low,Normal,High]
+  conv:highlight-update --id=<uuid> [--type=] [--text=] [--importance=] [--project=<uuid|null>] [--plan-item=<uuid|null>] [--rule=<uuid|null>]
+  conv:highlight-delete --id=<uuid>
+  highlight:promote --id=<uuid> [Task: --project=<uuid> --category= --due=YYYY-MM-DD --priority=] [Rule/Precedent: --citation= --jurisdiction= --rule-category=] [Insight: --tags=a,b]
+  research:list [--tags=a,b] [--importance=Low,Normal,High,Critical] [--source=<uuid>] [--q=text]
 `);
 }
 
@@ -56,12 +232,88 @@ async function main() {
   const { cmd, flags } = parseArgs(process.argv);
   if (cmd === 'help' || cmd === undefined) { usage(); return; }
 
-  const audit = createAuditLogger({ filePath: 'DATA/audit.log.jsonl', idGen, clock });
+  const auditLogPath = 'DATA/audit.log.jsonl';
+  // One operation per invocation, so audit:undo reverses a whole command (e.g. a cascade delete)
+  const checkpointsPath = 'DATA/audit.checkpoints.jsonl';
+  const audit = createAuditLogger({
+    filePath: auditLogPath, idGen, clock, op_id: idGen(),
+    checkpoints: { filePath: checkpointsPath, every: 100 },
+    rotation: { maxBytes: 10 * 1024 * 1024, monthly: true },
+  });
 
-  const mp = await loadMasterPlanData(undefined, idGen, clock);
+  // DATA/storage.json picks the backend for Master Plan and Outreach (JSON snapshots by default)
+  const storageConfig = await loadStorageConfig();
+  // Backup commands work on the files themselves, before anything is loaded (and possibly migrated)
+  const backupLocation = { dataDir: 'DATA' };
+  if (cmd.startsWith('backup:')) {
+    switch (cmd) {
+      case 'backup:list': {
+        const backups = await listBackups(backupLocation);
+        console.log(JSON.stringify(backups.map(b => ({ id: b.id, created_at: b.created_at, reason: b.reason, files: b.files.map(f => f.name), bytes: b.files.reduce((n, f) => n + f.bytes, 0) })), null, 2));
+        break;
+      }
+      case 'backup:restore': {
+        if (!flags['at']) { usage(); process.exit(1); }
+        const backup = findBackup(await listBackups(backupLocation), flags['at']);
+        const result = await restoreBackup(backupLocation, backup, clock);
+        console.log(JSON.stringify({ restored: backup.id, created_at: backup.created_at, files: result.files, removed: result.removed, pre_restore: result.pre_restore?.id ?? null }, null, 2));
+        break;
+      }
+      case 'backup:create': {
+        if (!flags['out']) { usage(); process.exit(1); }
+        const bundle = await createBundle(backupLocation, auditLogPath, flags['out'], clock);
+        console.log(JSON.stringify({ out: bundle.out, files: bundle.files.length, bytes: (await fs.stat(bundle.out)).size }, null, 2));
+        break;
+      }
+      default:
+        usage();
+        process.exit(1);
+    }
+    return;
+  }
+  await autoBackup(backupLocation, DEFAULT_BACKUP_RETENTION, clock);
+  const mpStorage = await openMasterPlanStorage(storageConfig);
+  const outreachStorage = await openOutreachStorage(storageConfig);
+  // Loading migrates older snapshots in place, so the dry run has to look before that happens
+  if (cmd === 'storage:migrate' && flags['dry-run'] === 'true') {
+    const to = flags['to'];
+    if (to !== undefined && to !== 'sqlite' && to !== 'json') { usage(); process.exit(1); }
+    const pending = { masterPlan: await pendingMasterPlanMigration(mpStorage), outreach: await pendingOutreachMigration(outreachStorage) };
+    const count = async (s: typeof mpStorage) => Object.fromEntries(Object.entries((await s.load())?.collections ?? {}).map(([name, recs]) => [name, recs.length]));
+    const copy = to ? { from: storageConfig.backend, to, would_copy: { masterPlan: await count(mpStorage), outreach: await count(outreachStorage) } } : null;
+    console.log(JSON.stringify({ dry_run: true, backend: storageConfig.backend, location: { masterPlan: mpStorage.location, outreach: outreachStorage.location }, migrations: pending, copy }, null, 2));
+    await mpStorage.close();
+    await outreachStorage.close();
+    return;
+  }
+  const onMigrate = (m: AppliedMigration) => console.warn(`Migrated the ${m.plan.module} snapshot from version ${m.plan.from} to ${m.plan.to}; previous copy at ${m.backup}`);
+  const mp = await loadMasterPlanData(undefined, idGen, clock, mpStorage, onMigrate);
   mp.audit = audit;
-  const outreach = await loadOutreachData(undefined, idGen, clock);
+  const outreach = await loadOutreachData(undefined, idGen, clock, outreachStorage, onMigrate);
   outreach.audit = audit;
+  const docs = await loadDocumentsData(undefined, idGen, clock);
+  docs.audit = audit;
+  const timeline = await loadTimelineData(undefined, idGen, clock);
+  timeline.audit = audit;
+  const artifacts = await loadArtifactsData(undefined, idGen, clock);
+  artifacts.audit = audit;
+  outreach.artifactVersionExists = id => artifactVersionExists(artifacts, id);
+  const rules = await loadRulesData(undefined, idGen, clock);
+  rules.audit = audit;
+  rules.isRuleReferenced = id => flagsCitingRule(docs, id).length > 0;
+  const conversations = await loadConversationsData(undefined, idGen, clock);
+  conversations.audit = audit;
+  const research = await loadResearchData(undefined, idGen, clock);
+  research.audit = audit;
+  const dailyLog = await loadDailyLogData(undefined, idGen, clock);
+  dailyLog.audit = audit;
+  const deadlines = await loadDeadlinesData(undefined, idGen, clock);
+  deadlines.audit = audit;
+  const calendars = await loadHolidayCalendars();
+  // --calendar=none counts weekends only
+  const calendar = flags['calendar'] === 'none' ? null : findHolidayCalendar(calendars, flags['calendar'] || DEFAULT_HOLIDAY_CALENDAR);
+  if (calendar) deadlines.calendar = calendar;
+  deadlines.entityExists = relatedEntityExists({ masterPlan: mp, outreach, documents: docs, artifacts });
 
   try {
     switch (cmd) {
@@ -80,12 +332,29 @@ async function main() {
         console.log(JSON.stringify(proj, null, 2));
         break;
       }
-      case 'mp:preload-mdcr': {
+      case 'mp:preload-mdcr':
+      case 'mp:template-apply': {
+        const templateId = cmd === 'mp:preload-mdcr' ? 'mdcr-11-day' : flags['template'];
         const project = flags['project'];
         const start = flags['start'];
-        if (!project || !start) { usage(); process.exit(1); }
-        const items = preloadMdcrTemplate(mp, project, start);
-        console.log(JSON.stringify({ created: items.length }, null, 2));
+        if (!templateId || !project || !start) { usage(); process.exit(1); }
+        const template = await findPlanTemplate(templateId);
+        const { items } = applyPlanTemplate(mp, template, project, start, calendar ?? undefined);
+        console.log(JSON.stringify({ template: template.id, created: items.length, due_dates: items.map(i => ({ title: i.title, due_date: i.due_date })) }, null, 2));
+        break;
+      }
+      case 'mp:template-list': {
+        const listed = await loadPlanTemplates();
+        console.log(JSON.stringify(listed.map(l => ({ id: l.template.id, name: l.template.name, description: l.template.description, tasks: l.template.tasks.length, source: l.source })), null, 2));
+        break;
+      }
+      case 'mp:template-save-from-project': {
+        const project = flags['project'];
+        const id = flags['id'];
+        if (!project || !id) { usage(); process.exit(1); }
+        const template = templateFromProject(mp, project, { id, name: flags['name'], description: flags['description'] });
+        const file = await savePlanTemplate(template, undefined, { overwrite: flags['overwrite'] === 'true' });
+        console.log(JSON.stringify({ saved: file, id: template.id, tasks: template.tasks.length }, null, 2));
         break;
       }
       case 'mp:list-items': {
@@ -110,7 +379,9 @@ async function main() {
         const notes = flags['notes'] || '';
         const checklist = (flags['checklist'] || '').split(';').filter(s => s.trim().length > 0).map(label => ({ label: label.trim() }));
         if (!project_id || !title || !category || !priority) { usage(); process.exit(1); }
-        const item = createPlanItem(mp, { project_id, title, description, category, due_date, priority, checklist, notes });
+        const depends_on = listFlag(flags, 'depends-on');
+        const recurrence = flags['repeat'] ? parseRecurrence(flags['repeat']) : undefined;
+        const item = createPlanItem(mp, { project_id, title, description, category, due_date, priority, checklist, depends_on, recurrence, notes });
         console.log(JSON.stringify(item, null, 2));
         break;
       }
@@ -125,6 +396,8 @@ async function main() {
         if (flags['priority'] !== undefined) changes.priority = flags['priority'];
         if (flags['due'] !== undefined) changes.due_date = flags['due'] === 'null' ? null : flags['due'];
         if (flags['notes'] !== undefined) changes.notes = flags['notes'];
+        if (flags['repeat'] !== undefined) changes.recurrence = flags['repeat'] === 'null' ? null : parseRecurrence(flags['repeat']);
+        if (flags['depends-on'] !== undefined) changes.depends_on = flags['depends-on'] === 'null' ? [] : listFlag(flags, 'depends-on');
         if (flags['replace-checklist'] !== undefined) {
           const labels = flags['replace-checklist'].split(';').filter(s => s.trim().length > 0).map(label => ({ label: label.trim() }));
           changes.checklist = labels as any;
@@ -134,6 +407,57 @@ async function main() {
         console.log(JSON.stringify(updated, null, 2));
         break;
       }
+      case 'mp:series': {
+        const series = flags['series'];
+        if (!series) { usage(); process.exit(1); }
+        console.log(JSON.stringify(seriesPlanItems(mp, series), null, 2));
+        break;
+      }
+      case 'mp:series-update': {
+        const series = flags['series'];
+        if (!series) { usage(); process.exit(1); }
+        const changes: any = {};
+        for (const k of ['title', 'description', 'category', 'priority', 'notes']) if (flags[k] !== undefined) changes[k] = flags[k];
+        if (flags['repeat'] !== undefined) changes.recurrence = parseRecurrence(flags['repeat']);
+        const updated = updatePlanItemSeries(mp, series, changes);
+        console.log(JSON.stringify({ series, updated: updated.map(i => ({ id: i.id, due_date: i.due_date })) }, null, 2));
+        break;
+      }
+      case 'mp:series-cancel': {
+        const series = flags['series'];
+        if (!series) { usage(); process.exit(1); }
+        const dropped = cancelPlanItemSeries(mp, series);
+        console.log(JSON.stringify({ series, dropped: dropped.map(i => i.id) }, null, 2));
+        break;
+      }
+      case 'mp:depend':
+      case 'mp:undepend': {
+        const item = flags['item'];
+        const on = listFlag(flags, 'on');
+        if (!item || !on || !on.length) { usage(); process.exit(1); }
+        const updated = cmd === 'mp:depend' ? addDependencies(mp, item, on) : removeDependencies(mp, item, on);
+        if (!updated) { console.error('PlanItem not found'); process.exit(1); }
+        console.log(JSON.stringify({ id: updated.id, depends_on: updated.depends_on, conflicts: dependencyConflicts(mp, updated.project_id).filter(c => c.item_id === updated.id) }, null, 2));
+        break;
+      }
+      case 'mp:critical-path': {
+        const project = flags['project'];
+        if (!project) { usage(); process.exit(1); }
+        console.log(JSON.stringify(criticalPath(mp, project, flags['date']), null, 2));
+        break;
+      }
+      case 'mp:shift': {
+        const days = Number(flags['days']);
+        if (flags['days'] === undefined || (!flags['item'] && !(flags['project'] && flags['from-date']))) { usage(); process.exit(1); }
+        const opts = { days, business_days: flags['business'] === 'true', calendar: calendar ?? undefined, dry_run: flags['dry-run'] === 'true' };
+        const result = flags['item'] ? shiftItem(mp, flags['item'], opts) : shiftFromDate(mp, flags['project'], flags['from-date'], opts);
+        console.log(JSON.stringify(result, null, 2));
+        break;
+      }
+      case 'mp:dependency-conflicts': {
+        console.log(JSON.stringify(dependencyConflicts(mp, flags['project']), null, 2));
+        break;
+      }
       case 'mp:delete-item': {
         const id = flags['id'];
         if (!id) { usage(); process.exit(1); }
@@ -154,7 +478,7 @@ async function main() {
       case 'mp:summary': {
         const date = flags['date'];
         if (!date) { usage(); process.exit(1); }
-        const summary = buildDailySummary(mp, outreach, date);
+        const summary = buildDailySummary(mp, outreach, date, { dailyLog, deadlines });
         console.log(JSON.stringify(summary, null, 2));
         break;
       }
@@ -176,10 +500,635 @@ async function main() {
         console.log(JSON.stringify(open, null, 2));
         break;
       }
+      case 'outreach:create-followup': {
+        const contact = flags['contact'];
+        const due = flags['due'];
+        if (!contact || !due) { usage(); process.exit(1); }
+        const fu = createFollowUp(outreach, contact, flags['action'] || null, due, flags['notes'] || '', flags['repeat'] ? parseRecurrence(flags['repeat']) : undefined);
+        console.log(JSON.stringify(fu, null, 2));
+        break;
+      }
+      case 'outreach:followup-status': {
+        const id = flags['id'];
+        const status = flags['status'] as any;
+        if (!id || !status) { usage(); process.exit(1); }
+        const fu = updateFollowUpStatus(outreach, id, status);
+        if (!fu) { console.error('Follow-up not found'); process.exit(1); }
+        const next = fu.series_id ? outreach.followUps.find(f => f.series_id === fu.series_id && f.status === 'Open' && f.due_date > fu.due_date) : undefined;
+        console.log(JSON.stringify({ follow_up: fu, next: next ?? null }, null, 2));
+        break;
+      }
+      case 'outreach:followup-series-update': {
+        const series = flags['series'];
+        if (!series) { usage(); process.exit(1); }
+        const updated = updateFollowUpSeries(outreach, series, { notes: flags['notes'], recurrence: flags['repeat'] ? parseRecurrence(flags['repeat']) : undefined });
+        console.log(JSON.stringify({ series, updated: updated.map(f => f.id) }, null, 2));
+        break;
+      }
+      case 'outreach:followup-series-cancel': {
+        const series = flags['series'];
+        if (!series) { usage(); process.exit(1); }
+        const cancelled = cancelFollowUpSeries(outreach, series);
+        console.log(JSON.stringify({ series, cancelled: cancelled.map(f => f.id) }, null, 2));
+        break;
+      }
+      case 'doc:list': {
+        const docsFound = filterDocuments(docs, {
+          doc_type: listFlag(flags, 'type') as any,
+          allegation_types: listFlag(flags, 'allegation') as any,
+          child: flags['child'],
+          agency: flags['agency'],
+          routes: listFlag(flags, 'route') as any,
+          primary_relevance: listFlag(flags, 'relevance') as any,
+        });
+        console.log(JSON.stringify(docsFound, null, 2));
+        break;
+      }
+      case 'doc:create': {
+        const title = flags['title'];
+        const doc_type = flags['type'] as any;
+        if (!title || !doc_type) { usage(); process.exit(1); }
+        const doc = createDocument(docs, {
+          title,
+          doc_type,
+          original_filename: flags['file'] || '',
+          storage_path: flags['path'] || '',
+          date_of_event: dateFlag(flags, 'event-date'),
+          date_document_created: dateFlag(flags, 'created-date'),
+          children_involved: listFlag(flags, 'children'),
+          agencies_involved: listFlag(flags, 'agencies'),
+          people_involved: listFlag(flags, 'people'),
+          allegation_types: listFlag(flags, 'allegations') as any,
+          summary: flags['summary'],
+          scanned: flags['scanned'] === undefined ? undefined : flags['scanned'] === 'true',
+          primary_relevance: flags['relevance'] as any,
+          routes: listFlag(flags, 'routes') as any,
+        });
+        console.log(JSON.stringify(doc, null, 2));
+        break;
+      }
+      case 'doc:update': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const changes: any = {};
+        if (flags['title'] !== undefined) changes.title = flags['title'];
+        if (flags['type'] !== undefined) changes.doc_type = flags['type'];
+        if (flags['file'] !== undefined) changes.original_filename = flags['file'];
+        if (flags['path'] !== undefined) changes.storage_path = flags['path'];
+        if (flags['event-date'] !== undefined) changes.date_of_event = dateFlag(flags, 'event-date');
+        if (flags['created-date'] !== undefined) changes.date_document_created = dateFlag(flags, 'created-date');
+        if (flags['children'] !== undefined) changes.children_involved = listFlag(flags, 'children');
+        if (flags['agencies'] !== undefined) changes.agencies_involved = listFlag(flags, 'agencies');
+        if (flags['people'] !== undefined) changes.people_involved = listFlag(flags, 'people');
+        if (flags['allegations'] !== undefined) changes.allegation_types = listFlag(flags, 'allegations');
+        if (flags['summary'] !== undefined) changes.summary = flags['summary'];
+        if (flags['scanned'] !== undefined) changes.scanned = flags['scanned'] === 'true';
+        if (flags['relevance'] !== undefined) changes.primary_relevance = flags['relevance'];
+        if (flags['routes'] !== undefined) changes.routes = listFlag(flags, 'routes');
+        const updated = updateDocument(docs, id, changes);
+        if (!updated) { console.error('Document not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'doc:delete': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteDocument(docs, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'doc:flag': {
+        const document_id = flags['document'];
+        const severity = flags['severity'] as any;
+        if (!document_id || !(flags['rule'] || flags['law']) || !severity) { usage(); process.exit(1); }
+        let law_or_policy = flags['law'];
+        if (flags['rule']) {
+          const rule = resolveRule(rules, flags['rule']);
+          if (!rule) { console.error(`Rule not found: ${flags['rule']}`); process.exit(1); }
+          law_or_policy = rule.id;
+        }
+        const flag = addMisconductFlag(docs, {
+          document_id,
+          law_or_policy,
+          severity,
+          description: flags['description'] || '',
+          page_ref: flags['page'] ?? null,
+          paragraph_ref: flags['paragraph'] ?? null,
+        });
+        console.log(JSON.stringify(flag, null, 2));
+        break;
+      }
+      case 'doc:unflag': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteMisconductFlag(docs, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'doc:flags': {
+        const document_id = flags['document'];
+        if (!document_id) { usage(); process.exit(1); }
+        console.log(JSON.stringify(flagsForDocument(docs, document_id), null, 2));
+        break;
+      }
+      case 'doc:ingest': {
+        const dir = flags['dir'];
+        if (!dir) { usage(); process.exit(1); }
+        const report = await ingestDirectory(docs, dir, { recursive: flags['recursive'] !== 'false' });
+        console.log(JSON.stringify(report, null, 2));
+        break;
+      }
+      case 'timeline:list': {
+        const events = filterTimelineEvents(timeline, {
+          from: flags['from'],
+          to: flags['to'],
+          child: flags['child'],
+          agency: flags['agency'],
+          severity: listFlag(flags, 'severity') as any,
+          event_type: listFlag(flags, 'type') as any,
+        });
+        console.log(JSON.stringify(events, null, 2));
+        break;
+      }
+      case 'timeline:create': {
+        const date = flags['date'];
+        const title = flags['title'];
+        const event_type = flags['type'] as any;
+        if (!date || !title || !event_type) { usage(); process.exit(1); }
+        const ev = createTimelineEvent(timeline, {
+          date,
+          title,
+          event_type,
+          description: flags['description'],
+          severity: flags['severity'] as any,
+          document_ids: listFlag(flags, 'documents'),
+          outreach_ids: listFlag(flags, 'outreach'),
+          children_involved: listFlag(flags, 'children'),
+          agencies_involved: listFlag(flags, 'agencies'),
+        });
+        console.log(JSON.stringify(ev, null, 2));
+        break;
+      }
+      case 'timeline:update': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const changes: any = {};
+        if (flags['date'] !== undefined) changes.date = flags['date'];
+        if (flags['title'] !== undefined) changes.title = flags['title'];
+        if (flags['type'] !== undefined) changes.event_type = flags['type'];
+        if (flags['description'] !== undefined) changes.description = flags['description'];
+        if (flags['severity'] !== undefined) changes.severity = flags['severity'];
+        if (flags['documents'] !== undefined) changes.document_ids = listFlag(flags, 'documents');
+        if (flags['outreach'] !== undefined) changes.outreach_ids = listFlag(flags, 'outreach');
+        if (flags['children'] !== undefined) changes.children_involved = listFlag(flags, 'children');
+        if (flags['agencies'] !== undefined) changes.agencies_involved = listFlag(flags, 'agencies');
+        const updated = updateTimelineEvent(timeline, id, changes);
+        if (!updated) { console.error('TimelineEvent not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'timeline:delete': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteTimelineEvent(timeline, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'timeline:derive': {
+        const proposals = deriveTimelineEvents(timeline, docs, outreach);
+        if (flags['apply'] === 'true') {
+          const created = applyDerivedEvents(timeline, proposals);
+          console.log(JSON.stringify({ created: created.length }, null, 2));
+        } else {
+          console.log(JSON.stringify({ proposed: proposals }, null, 2));
+        }
+        break;
+      }
+      case 'timeline:export': {
+        const format = flags['format'];
+        if (format !== 'md' && format !== 'csv' && format !== 'html') { usage(); process.exit(1); }
+        const output = exportTimeline(timeline, docs, outreach, format, {
+          from: flags['from'],
+          to: flags['to'],
+          route: flags['route'] as any,
+          title: flags['title'],
+        });
+        if (flags['out']) {
+          await fs.writeFile(flags['out'], output, 'utf8');
+          console.log(JSON.stringify({ written: flags['out'], format }, null, 2));
+        } else {
+          process.stdout.write(output);
+        }
+        break;
+      }
+      case 'artifact:list': {
+        const found = filterArtifacts(artifacts, { project_id: flags['project'], type: listFlag(flags, 'type') as any, status: listFlag(flags, 'status') as any });
+        console.log(JSON.stringify(found, null, 2));
+        break;
+      }
+      case 'artifact:create': {
+        const project_id = flags['project'];
+        const type = flags['type'] as any;
+        const name = flags['name'];
+        if (!project_id || !type || !name) { usage(); process.exit(1); }
+        if (!mp.projects.some(p => p.id === project_id)) { console.error('Project not found'); process.exit(1); }
+        const artifact = createArtifact(artifacts, { project_id, type, name });
+        console.log(JSON.stringify(artifact, null, 2));
+        break;
+      }
+      case 'artifact:add-version': {
+        const artifact_id = flags['artifact'];
+        const version_label = flags['label'];
+        const file_path = flags['file'];
+        if (!artifact_id || !version_label || !file_path) { usage(); process.exit(1); }
+        const version = await registerStoredVersion(artifacts, artifact_id, { version_label, source_path: file_path, notes: flags['notes'] });
+        console.log(JSON.stringify(version, null, 2));
+        break;
+      }
+      case 'artifact:versions': {
+        const artifact_id = flags['artifact'];
+        if (!artifact_id) { usage(); process.exit(1); }
+        console.log(JSON.stringify(listVersions(artifacts, artifact_id), null, 2));
+        break;
+      }
+      case 'artifact:promote': {
+        const id = flags['id'];
+        const to = flags['to'] as any;
+        if (!id || !to) { usage(); process.exit(1); }
+        const promoted = promoteArtifact(artifacts, id, to, { by: flags['by'], version_label: flags['version'] });
+        console.log(JSON.stringify(promoted, null, 2));
+        break;
+      }
+      case 'artifact:diff': {
+        const artifact_id = flags['artifact'];
+        const from = flags['from'];
+        const to = flags['to'];
+        if (!artifact_id || !from || !to) { usage(); process.exit(1); }
+        const context = flags['context'] !== undefined ? Number(flags['context']) : 3;
+        process.stdout.write(await diffArtifactVersions(artifacts, artifact_id, from, to, context));
+        break;
+      }
+      case 'artifact:verify': {
+        const results = await verifyArtifactFiles(artifacts, flags['artifact']);
+        console.log(JSON.stringify(results, null, 2));
+        if (results.some(r => !r.ok)) process.exit(1);
+        break;
+      }
+      case 'rule:list': {
+        const list = filterRules(rules, {
+          category: listFlag(flags, 'category') as any,
+          jurisdiction: flags['jurisdiction'],
+          tags: listFlag(flags, 'tags'),
+          text: flags['q'],
+        });
+        console.log(JSON.stringify(list, null, 2));
+        break;
+      }
+      case 'rule:create': {
+        const category = flags['category'] as any;
+        const title = flags['title'];
+        if (!category || !title) { usage(); process.exit(1); }
+        const rule = createRule(rules, {
+          category,
+          title,
+          description: flags['description'],
+          jurisdiction: flags['jurisdiction'],
+          citation: flags['citation'],
+          tags: listFlag(flags, 'tags'),
+        });
+        console.log(JSON.stringify(rule, null, 2));
+        break;
+      }
+      case 'rule:update': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const updated = updateRule(rules, id, {
+          category: flags['category'] as any,
+          title: flags['title'],
+          description: flags['description'],
+          jurisdiction: flags['jurisdiction'],
+          citation: dateFlag(flags, 'citation'),
+          tags: listFlag(flags, 'tags'),
+        });
+        if (!updated) { console.error('Rule not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'rule:delete': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteRule(rules, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'rule:parse': {
+        const citation = flags['citation'];
+        if (!citation) { usage(); process.exit(1); }
+        const parsed = parseCitation(citation);
+        console.log(JSON.stringify({ ...parsed, existing_rule: resolveRule(rules, citation) }, null, 2));
+        break;
+      }
+      case 'rule:duplicates': {
+        console.log(JSON.stringify(duplicateRuleGroups(rules), null, 2));
+        break;
+      }
+      case 'rule:link-flags': {
+        const linked = linkFlagsToRules(rules, docs);
+        console.log(JSON.stringify({ linked: linked.length, flags: linked }, null, 2));
+        break;
+      }
+      case 'conv:import': {
+        const source = flags['source'] as any;
+        const file = flags['file'];
+        if (!source || !file) { usage(); process.exit(1); }
+        if (!IMPORTABLE_SOURCES.includes(source)) { console.error(`Unsupported source ${source}; expected one of ${IMPORTABLE_SOURCES.join(', ')}`); process.exit(1); }
+        const report = await importConversations(conversations, source, file, { tags: listFlag(flags, 'tags') });
+        console.log(JSON.stringify(report, null, 2));
+        break;
+      }
+      case 'conv:list': {
+        const list = filterConversations(conversations, {
+          source: listFlag(flags, 'source') as any,
+          tags: listFlag(flags, 'tags'),
+          text: flags['q'],
+        });
+        console.log(JSON.stringify(list, null, 2));
+        break;
+      }
+      case 'conv:show': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const conv = conversations.conversations.find(c => c.id === id);
+        if (!conv) { console.error('Conversation not found'); process.exit(1); }
+        process.stdout.write(await readTranscript(conv.raw_text_ref));
+        break;
+      }
+      case 'conv:highlights': {
+        const list = filterHighlights(conversations, {
+          conversation_id: flags['conversation'],
+          type: listFlag(flags, 'type') as any,
+          importance: listFlag(flags, 'importance') as any,
+        });
+        console.log(JSON.stringify(list, null, 2));
+        break;
+      }
+      case 'conv:highlight-update': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const updated = updateHighlight(conversations, id, {
+          type: flags['type'] as any,
+          text: flags['text'],
+          importance: flags['importance'] as any,
+          linked_project_id: dateFlag(flags, 'project'),
+          linked_plan_item_id: dateFlag(flags, 'plan-item'),
+          linked_rule_id: dateFlag(flags, 'rule'),
+        });
+        if (!updated) { console.error('Highlight not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'conv:highlight-delete': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteHighlight(conversations, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'highlight:promote': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const result = promoteHighlight(conversations, id, { masterPlan: mp, rules, research }, {
+          project_id: flags['project'],
+          category: flags['category'] as any,
+          due_date: dateFlag(flags, 'due'),
+          priority: flags['priority'] as any,
+          rule_category: flags['rule-category'] as any,
+          jurisdiction: flags['jurisdiction'],
+          citation: flags['citation'],
+          tags: listFlag(flags, 'tags'),
+        });
+        console.log(JSON.stringify(result, null, 2));
+        break;
+      }
+      case 'research:list': {
+        const list = filterInsights(research, {
+          tags: listFlag(flags, 'tags'),
+          importance: listFlag(flags, 'importance') as any,
+          source_id: flags['source'],
+          text: flags['q'],
+        });
+        console.log(JSON.stringify(list, null, 2));
+        break;
+      }
+      case 'log:start-day': {
+        const date = flags['date'] || clock().slice(0, 10);
+        const log = startDay(dailyLog, mp, date, { goals: listFlag(flags, 'goals'), emotion_check: flags['emotion'] });
+        console.log(JSON.stringify({ ...log, goals_described: describeEntries(mp, log.goals_for_today) }, null, 2));
+        break;
+      }
+      case 'log:end-day': {
+        const date = flags['date'] || clock().slice(0, 10);
+        const events = await readAuditLog(auditLogPath, { date, entity_type: ['PlanItem'] });
+        const log = endDay(dailyLog, date, events, {
+          completed: listFlag(flags, 'completed'),
+          learned: listFlag(flags, 'learned'),
+          questions: listFlag(flags, 'questions'),
+          emotion_check: flags['emotion'],
+        });
+        console.log(JSON.stringify({ ...log, completed_described: describeEntries(mp, log.completed_today) }, null, 2));
+        break;
+      }
+      case 'audit:query': {
+        // Printed as the log streams, so a large log never sits in memory
+        const limit = flags['limit'] ? Number(flags['limit']) : Infinity;
+        const text = flags['format'] === 'text';
+        const withDiff = flags['diff'] !== undefined;
+        let n = 0;
+        if (!text) process.stdout.write('[');
+        for await (const ev of streamAuditLog(auditLogPath, auditFilter(flags))) {
+          if (n >= limit) break;
+          if (text) console.log(formatAuditEvent(ev, withDiff));
+          else process.stdout.write((n ? ',\n' : '\n') + JSON.stringify(withDiff ? { ...ev, changes: diffAuditEvent(ev) } : ev, null, 2).replace(/^/gm, '  '));
+          n++;
+        }
+        if (!text) console.log(n ? '\n]' : ']');
+        break;
+      }
+      case 'audit:report': {
+        const days = await dailyActivity(auditLogPath, auditFilter(flags));
+        if (flags['format'] !== 'text') { console.log(JSON.stringify(days, null, 2)); break; }
+        for (const d of days) {
+          const counts = Object.entries(d.by_change_type).map(([k, v]) => `${k} ${v}`).join(', ');
+          console.log(`${d.date}  ${String(d.total).padStart(5)} events  ${String(d.operations).padStart(4)} commands  ${counts}`);
+        }
+        break;
+      }
+      case 'audit:verify': {
+        const publicKeyPem = flags['public-key'] ? await fs.readFile(flags['public-key'], 'utf8') : await readPublicKey();
+        const result = await verifyAuditLog(auditLogPath, { checkpointsPath, publicKeyPem: publicKeyPem ?? undefined });
+        console.log(JSON.stringify(result, null, 2));
+        if (!result.ok) process.exit(1);
+        break;
+      }
+      case 'audit:checkpoint': {
+        const cp = await audit.checkpoint();
+        console.log(JSON.stringify(cp ?? { message: 'Audit log is empty; nothing to sign' }, null, 2));
+        break;
+      }
+      case 'audit:export-key': {
+        const key = await loadOrCreateSigningKey();
+        if (flags['out']) await fs.writeFile(flags['out'], key.publicKeyPem, 'utf8');
+        console.log(flags['out'] ? JSON.stringify({ key_id: key.key_id, written: flags['out'] }, null, 2) : key.publicKeyPem.trimEnd());
+        break;
+      }
+      case 'audit:files': {
+        const index = await loadArchiveIndex(auditLogPath);
+        const active = await activeLogState(auditLogPath);
+        console.log(JSON.stringify({ archived: index.files, active: { file: auditLogPath, ...active } }, null, 2));
+        break;
+      }
+      case 'audit:rotate': {
+        const entry = await audit.rotate();
+        console.log(JSON.stringify(entry ?? { message: 'Active audit log is empty; nothing to rotate' }, null, 2));
+        break;
+      }
+      case 'audit:compact': {
+        const results = await compactAuditArchive(auditLogPath, clock);
+        console.log(JSON.stringify({ removed: results.reduce((n, r) => n + r.removed, 0), files: results }, null, 2));
+        break;
+      }
+      case 'batch:apply': {
+        const file = flags['file'];
+        if (!file) { usage(); process.exit(1); }
+        const operations = parseBatchOperations(JSON.parse(await fs.readFile(file, 'utf8')));
+        const results = await applyBatch({ masterPlan: mp, outreach }, operations);
+        console.log(JSON.stringify({ applied: results.length, results }, null, 2));
+        break;
+      }
+      case 'storage:migrate': {
+        const to = flags['to'];
+        if (to !== 'sqlite' && to !== 'json') { usage(); process.exit(1); }
+        const target: StorageConfig = to === 'sqlite' ? { backend: 'sqlite', path: flags['path'] } : { backend: 'json' };
+        const mpTarget = await openMasterPlanStorage(target);
+        const outreachTarget = await openOutreachStorage(target);
+        const copied = {
+          masterPlan: await copyStorage(mpStorage, mpTarget),
+          outreach: await copyStorage(outreachStorage, outreachTarget),
+        };
+        await mpTarget.close();
+        await outreachTarget.close();
+        await saveStorageConfig(target);
+        console.log(JSON.stringify({ from: storageConfig.backend, to, location: { masterPlan: mpTarget.location, outreach: outreachTarget.location }, copied }, null, 2));
+        break;
+      }
+      case 'audit:undo':
+      case 'audit:redo':
+      case 'audit:restore': {
+        const log = await readAuditLog(auditLogPath);
+        const targets = { masterPlan: mp, outreach, audit };
+        const count = flags['count'] ? Number(flags['count']) : 1;
+        let result: UndoResult & { skipped?: number };
+        if (cmd === 'audit:undo') result = undo(targets, log, count);
+        else if (cmd === 'audit:redo') result = redo(targets, log, count);
+        else {
+          if (!flags['at']) { usage(); process.exit(1); }
+          result = restoreTo(targets, log, flags['at']);
+        }
+        console.log(JSON.stringify({
+          reversed: result.reversed.map(op => ({ op_id: op.op_id, at: op.at, events: op.events.length })),
+          changes: result.events.map(e => `${e.change_type} ${e.entity_type} ${e.entity_id}`),
+          skipped: result.skipped,
+        }, null, 2));
+        break;
+      }
+      case 'log:show': {
+        const date = flags['date'] || clock().slice(0, 10);
+        const log = getDailyLog(dailyLog, date);
+        if (!log) { console.error(`No daily log for ${date}`); process.exit(1); }
+        console.log(JSON.stringify(log, null, 2));
+        break;
+      }
+      case 'deadline:view': {
+        const date = flags['date'] || clock().slice(0, 10);
+        wakeSnoozedDeadlines(deadlines, date);
+        const horizon = flags['horizon'] !== undefined ? Number(flags['horizon']) : 7;
+        console.log(JSON.stringify(deadlineView(deadlines, mp, outreach, date, horizon), null, 2));
+        break;
+      }
+      case 'deadline:create': {
+        const related_entity_type = flags['type'] as any;
+        const related_entity_id = flags['entity'];
+        const label = flags['label'];
+        const due_date = flags['due'];
+        const trigger = flags['trigger'] ? { date: flags['trigger'], rule: ruleFlags(flags) } : undefined;
+        if (!related_entity_type || !related_entity_id || !label || (!due_date && !trigger)) { usage(); process.exit(1); }
+        const deadline = createDeadline(deadlines, { related_entity_type, related_entity_id, label, due_date, trigger, severity: flags['severity'] as any });
+        console.log(JSON.stringify(deadline, null, 2));
+        break;
+      }
+      case 'deadline:update': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const updated = updateDeadline(deadlines, id, { label: flags['label'], due_date: flags['due'], severity: flags['severity'] as any });
+        if (!updated) { console.error('Deadline not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'deadline:complete':
+      case 'deadline:cancel': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const updated = setDeadlineStatus(deadlines, id, cmd === 'deadline:complete' ? 'Completed' : 'Cancelled');
+        if (!updated) { console.error('Deadline not found'); process.exit(1); }
+        console.log(JSON.stringify(updated, null, 2));
+        break;
+      }
+      case 'deadline:delete': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        const ok = deleteDeadline(deadlines, id);
+        console.log(JSON.stringify({ deleted: ok, id }, null, 2));
+        break;
+      }
+      case 'deadline:snooze': {
+        const id = flags['id'];
+        const until = flags['until'];
+        if (!id || !until) { usage(); process.exit(1); }
+        snoozeDeadline(deadlines, id, until);
+        console.log(JSON.stringify({ id, snoozed_until: until }, null, 2));
+        break;
+      }
+      case 'deadline:unsnooze': {
+        const id = flags['id'];
+        if (!id) { usage(); process.exit(1); }
+        console.log(JSON.stringify({ id, unsnoozed: unsnoozeDeadline(deadlines, id) }, null, 2));
+        break;
+      }
+      case 'calendar:compute': {
+        const trigger = flags['trigger'];
+        if (!trigger || flags['days'] === undefined) { usage(); process.exit(1); }
+        const rule = ruleFlags(flags);
+        console.log(JSON.stringify({ due_date: computeDeadline(trigger, rule, calendar), rule: describeDeadlineRule(trigger, rule, calendar) }, null, 2));
+        break;
+      }
+      case 'calendar:holidays': {
+        if (!calendar) { console.error('Pick a calendar to list'); process.exit(1); }
+        const year = flags['year'] ? Number(flags['year']) : Number(clock().slice(0, 4));
+        console.log(JSON.stringify({ calendar: calendar.name, year, holidays: holidaysForYear(calendar, year) }, null, 2));
+        break;
+      }
+      case 'calendar:init': {
+        await saveHolidayCalendars(BUNDLED_HOLIDAY_CALENDARS);
+        console.log(JSON.stringify({ written: 'DATA/holidays.json', calendars: BUNDLED_HOLIDAY_CALENDARS.map(c => c.name) }, null, 2));
+        break;
+      }
       default:
         usage();
         process.exit(1);
     }
+    // Snapshot writes and audit events are queued; they must land before the process exits
+    await flushPersistence([mp.persist, outreach.persist, docs.persist, timeline.persist, artifacts.persist, rules.persist, conversations.persist, research.persist, dailyLog.persist, deadlines.persist]);
+    await audit.flush();
   } catch (err) {
     console.error('Error:', (err as Error).message);
     process.exit(1);
@@ -1,8 +1,52 @@
 // Simple test harness (no Jest) using Node assertions
 import assert from 'assert';
-import { createEmptyData, createProject, createPlanItem, projectProgress, toggleChecklistItem, filterPlanItems, updatePlanItem, deletePlanItem } from '../SRC/MODULES/masterPlan/masterPlanService.js';
-import { createEmptyOutreachData, createCategory, createContact, recordOutreachAction, summaryMetrics } from '../SRC/MODULES/outreach/outreachService.js';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createEmptyData, createProject, createPlanItem, projectProgress, toggleChecklistItem, filterPlanItems, updatePlanItem, deletePlanItem, updateProject, deleteProject, seriesPlanItems, updatePlanItemSeries, cancelPlanItemSeries } from '../SRC/MODULES/masterPlan/masterPlanService.js';
+import { createEmptyOutreachData, createCategory, createContact, recordOutreachAction, createFollowUp, summaryMetrics, deleteContact, updateFollowUpStatus, seriesFollowUps, cancelFollowUpSeries } from '../SRC/MODULES/outreach/outreachService.js';
+import { createEmptyDocumentsData, createDocument, addMisconductFlag, filterDocuments, linkDuplicate, deleteDocument } from '../SRC/MODULES/documents/documentsService.js';
+import { ingestDirectory } from '../SRC/MODULES/documents/documentsIngest.js';
+import { validateDocumentFingerprint } from '../SRC/MODULES/documents/documentsValidators.js';
+import { createEmptyTimelineData, createTimelineEvent, filterTimelineEvents, deriveTimelineEvents, applyDerivedEvents } from '../SRC/MODULES/timeline/timelineService.js';
+import { exportTimeline } from '../SRC/MODULES/timeline/timelineExport.js';
+import { createEmptyArtifactsData, createArtifact, registerVersion, promoteArtifact, artifactVersionExists } from '../SRC/MODULES/artifacts/artifactsService.js';
+import { registerStoredVersion, readVerified, diffArtifactVersions } from '../SRC/MODULES/artifacts/artifactsStore.js';
+import { diffLines, renderUnifiedDiff } from '../SRC/MODULES/artifacts/artifactsDiff.js';
+import { createEmptyRulesData, createRule, updateRule, deleteRule, filterRules, resolveRule, linkFlagsToRules, flagsCitingRule } from '../SRC/MODULES/rules/rulesService.js';
+import { parseCitation } from '../SRC/MODULES/rules/rulesCitation.js';
+import { createEmptyConversationsData, createConversation, addHighlight, filterHighlights } from '../SRC/MODULES/conversations/conversationsService.js';
+import { importConversations, readTranscript } from '../SRC/MODULES/conversations/conversationsImport.js';
+import { promoteHighlight } from '../SRC/MODULES/conversations/conversationsPromote.js';
+import { parseChatGptExport, parseClaudeExport } from '../SRC/MODULES/conversations/conversationsParsers.js';
+import { createEmptyResearchData } from '../SRC/MODULES/research/researchService.js';
+import { createEmptyDailyLogData, startDay, endDay, planItemsCompletedOn } from '../SRC/MODULES/dailyLog/dailyLogService.js';
+import { AuditEvent } from '../SRC/CORE/auditTypes.js';
+import { createEmptyDeadlinesData, createDeadline, setDeadlineStatus, snoozeDeadline, wakeSnoozedDeadlines, deadlineView } from '../SRC/MODULES/deadlines/deadlinesService.js';
+import { addDependencies, removeDependencies, dependencyConflicts, criticalPath } from '../SRC/MODULES/masterPlan/masterPlanDependencies.js';
+import { shiftFromDate, shiftItem } from '../SRC/MODULES/masterPlan/masterPlanShift.js';
+import { applyPlanTemplate, templateFromProject, loadPlanTemplates, savePlanTemplate, findPlanTemplate, MDCR_11_DAY_TEMPLATE } from '../SRC/MODULES/masterPlan/masterPlanTemplates.js';
+import { validatePlanTemplate } from '../SRC/MODULES/masterPlan/masterPlanValidators.js';
+import { computeDeadline, addBusinessDays } from '../SRC/CORE/deadlineCalculator.js';
+import { BUNDLED_HOLIDAY_CALENDARS, findHolidayCalendar, holidaysForYear, loadHolidayCalendars, saveHolidayCalendars } from '../SRC/CORE/holidayCalendar.js';
+import { parseRecurrence } from '../SRC/CORE/recurrence.js';
+import { undo, redo, restoreTo } from '../SRC/CORE/auditUndo.js';
+import { readAuditLog } from '../SRC/CORE/auditReader.js';
+import { loadArchiveIndex, indexPath, compactAuditArchive } from '../SRC/CORE/auditArchive.js';
+import { createAuditLogger } from '../SRC/CORE/auditLogger.js';
+import { verifyAuditLog, GENESIS_HASH } from '../SRC/CORE/auditChain.js';
+import { loadOrCreateSigningKey, readPublicKey } from '../SRC/CORE/auditSigning.js';
+import { diffAuditEvent, formatAuditEvent, dailyActivity } from '../SRC/CORE/auditReport.js';
 import { buildDailySummary } from '../SRC/CORE/dailySummary.js';
+import { withTransaction } from '../SRC/CORE/transaction.js';
+import { applyBatch, parseBatchOperations } from '../SRC/CORE/batchApply.js';
+import { createPersistScheduler, flushPersistence } from '../SRC/CORE/persistScheduler.js';
+import { jsonStorage, sqliteStorage, copyStorage, loadStorageConfig, saveStorageConfig } from '../SRC/CORE/storage.js';
+import { planMigration, applyMigrations, AppliedMigration } from '../SRC/CORE/snapshotMigrations.js';
+import { autoBackup, listBackups, findBackup, restoreBackup, backupsToPrune, createBundle, BackupManifest } from '../SRC/CORE/snapshotBackup.js';
+import { gzipSync, gunzipSync } from 'zlib';
+import { loadMasterPlanData, attachPersistence, pendingMasterPlanMigration, MASTER_PLAN_STORAGE, MASTER_PLAN_MIGRATIONS } from '../SRC/MODULES/masterPlan/masterPlanPersistence.js';
+import { loadOutreachData, OUTREACH_STORAGE } from '../SRC/MODULES/outreach/outreachPersistence.js';
 
 function uuid() { return crypto.randomUUID(); }
 function now() { return new Date().toISOString(); }
@@ -40,6 +84,1189 @@ function testOutreachBasics() {
   assert.equal(metrics.contacts, 1);
 }
 
+function testDocumentsBasics() {
+  const data = createEmptyDocumentsData(uuid, now);
+  const a = createDocument(data, { original_filename: 'cps.pdf', storage_path: 'scans/cps.pdf', title: 'CPS intake', doc_type: 'CPSComplaint', date_of_event: '2025-03-02', children_involved: ['Jace'], agencies_involved: ['CPS'], allegation_types: ['Neglect'], routes: ['MDCR', 'DOJ'], primary_relevance: 'Primary' });
+  const b = createDocument(data, { original_filename: 'cps copy.pdf', storage_path: 'scans/cps copy.pdf', title: 'CPS intake (copy)', doc_type: 'CPSComplaint' });
+  const flag = addMisconductFlag(data, { document_id: a.id, law_or_policy: 'MCL 722.628', description: 'No investigation opened', severity: 'High' });
+  assert.deepEqual(a.misconduct_flags, [flag.id], 'Flag id recorded on document');
+
+  assert.equal(filterDocuments(data, { routes: ['MDCR'] }).length, 1, 'Filter by route');
+  assert.equal(filterDocuments(data, { child: 'jace', agency: 'cps' }).length, 1, 'Filter by child & agency is case-insensitive');
+  assert.equal(filterDocuments(data, { allegation_types: ['Retaliation'] }).length, 0, 'Filter by allegation');
+  assert.equal(filterDocuments(data, { doc_type: ['CPSComplaint'] }).length, 2, 'Filter by doc_type');
+
+  linkDuplicate(data, a.id, b.id, 'manual review');
+  assert.equal(data.duplicateLinks.length, 1);
+  assert.ok(deleteDocument(data, a.id), 'Document deleted');
+  assert.equal(data.misconductFlags.length, 0, 'Flags cascade on delete');
+  assert.equal(data.duplicateLinks.length, 0, 'Duplicate links cascade on delete');
+}
+
+async function testDocumentIngest() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-ingest-'));
+  try {
+    await fs.mkdir(path.join(dir, 'sub'));
+    await fs.writeFile(path.join(dir, 'letter.pdf'), 'scan-bytes-1');
+    await fs.writeFile(path.join(dir, 'letter copy.pdf'), 'scan-bytes-1');
+    await fs.writeFile(path.join(dir, 'notice.eml'), 'email-body-A');
+    await fs.writeFile(path.join(dir, 'sub', 'notice.eml'), 'email-body-B');
+    await fs.writeFile(path.join(dir, '.DS_Store'), 'noise');
+
+    const data = createEmptyDocumentsData(uuid, now);
+    const first = await ingestDirectory(data, dir);
+    assert.equal(first.created, 2, 'Two distinct files created');
+    assert.equal(first.duplicates, 2, 'Copy and same-name-size file linked as duplicates');
+    assert.equal(data.documents.length, 4);
+    const reasons = data.duplicateLinks.map(l => l.reason).sort();
+    assert.deepEqual(reasons, ['identical hash', 'same filename and size']);
+    assert.ok(data.documents.every(d => d.storage_path && d.original_filename), 'Paths recorded');
+    assert.equal(data.documents.find(d => d.original_filename === 'notice.eml')?.doc_type, 'Email');
+
+    const second = await ingestDirectory(data, dir);
+    assert.equal(second.skipped, 4, 'Re-run skips known files');
+    assert.equal(data.documents.length, 4, 'Re-run creates nothing');
+    assert.equal(data.duplicateLinks.length, 2, 'Re-run links nothing');
+
+    // Changed content keeps the earlier hash and is logged
+    const events: any[] = [];
+    data.audit = e => { events.push(e); };
+    const letter = data.fingerprints.find(f => f.original_filename === 'letter.pdf')!;
+    const oldHash = letter.sha256;
+    await fs.writeFile(path.join(dir, 'letter.pdf'), 'scan-bytes-2');
+    const third = await ingestDirectory(data, dir);
+    assert.equal(third.changed, 1);
+    assert.deepEqual(letter.history.map(h => h.sha256), [oldHash]);
+    assert.notEqual(letter.sha256, oldHash);
+    assert.deepEqual(events.map(e => [e.entity_type, e.change_type, e.entity_id, e.before.sha256, e.after.sha256]), [['DocumentFingerprint', 'Update', letter.document_id, oldHash, letter.sha256]]);
+    assert.deepEqual(validateDocumentFingerprint({ ...letter, history: undefined }).history, [], 'Older fingerprints load without history');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function testTimelineDerive() {
+  const timeline = createEmptyTimelineData(uuid, now);
+  const docs = createEmptyDocumentsData(uuid, now);
+  const report = createDocument(docs, { original_filename: 'msp.pdf', storage_path: 'scans/msp.pdf', title: 'MSP report', doc_type: 'PoliceReport', date_of_event: '2025-02-10', children_involved: ['Josh'], agencies_involved: ['MSP'] });
+  addMisconductFlag(docs, { document_id: report.id, law_or_policy: 'MCL 722.628', description: 'Report withheld', severity: 'Extreme' });
+  createDocument(docs, { original_filename: 'undated.pdf', storage_path: 'scans/undated.pdf', title: 'Undated note', doc_type: 'Other' });
+  const outreach = createEmptyOutreachData(uuid, now);
+  const cat = createCategory(outreach, 'Oversight', '#0000ff');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: 'Intake', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Email' });
+  recordOutreachAction(outreach, { contact_id: contact.id, method: 'Email', summary: 'Filed complaint' });
+
+  createTimelineEvent(timeline, { date: '2025-01-05', title: 'Removal hearing', event_type: 'CourtAction', agencies_involved: ['Court'], severity: 'Critical' });
+  const proposals = deriveTimelineEvents(timeline, docs, outreach);
+  assert.equal(proposals.length, 2, 'One dated document and one outreach action proposed');
+  const docProposal = proposals.find(p => p.document_ids?.includes(report.id));
+  assert.ok(docProposal && docProposal.severity === 'Critical', 'Misconduct severity lifts event severity');
+  assert.ok(proposals.some(p => p.event_type === 'Outreach' && p.agencies_involved?.includes('MDCR')), 'Outreach event carries agency');
+
+  applyDerivedEvents(timeline, proposals);
+  assert.equal(deriveTimelineEvents(timeline, docs, outreach).length, 0, 'Derivation skips already-linked sources');
+  assert.equal(filterTimelineEvents(timeline, { to: '2025-03-01' }).length, 2, 'Range filter');
+  assert.equal(filterTimelineEvents(timeline, { child: 'josh' }).length, 1, 'Children filter');
+  assert.equal(filterTimelineEvents(timeline, { severity: ['Critical'] })[0].title, 'Removal hearing', 'Severity filter sorted by date');
+}
+
+function testTimelineExport() {
+  const timeline = createEmptyTimelineData(uuid, now);
+  const docs = createEmptyDocumentsData(uuid, now);
+  const mdcrDoc = createDocument(docs, { original_filename: 'a.pdf', storage_path: 'a.pdf', title: 'Intake, "redacted"', doc_type: 'CPSComplaint', routes: ['MDCR'] });
+  const dojDoc = createDocument(docs, { original_filename: 'b.pdf', storage_path: 'b.pdf', title: 'FBI tip', doc_type: 'Other', routes: ['DOJ'] });
+  createTimelineEvent(timeline, { date: '2025-02-01', title: 'Tip filed', event_type: 'Document', document_ids: [dojDoc.id], agencies_involved: ['FBI'] });
+  createTimelineEvent(timeline, { date: '2025-01-15', title: 'Intake <script>', event_type: 'Document', document_ids: [mdcrDoc.id], agencies_involved: ['CPS', 'MSP'], severity: 'Critical' });
+  createTimelineEvent(timeline, { date: '2025-01-20', title: 'Personal note', event_type: 'PersonalMilestone' });
+
+  const csv = exportTimeline(timeline, docs, null, 'csv', { route: 'MDCR' });
+  const csvLines = csv.trim().split('\n');
+  assert.equal(csvLines.length, 2, 'Route filter keeps only MDCR-routed events');
+  assert.ok(csvLines[1].includes('"Intake, ""redacted"""'), 'CSV quoting');
+  assert.ok(csvLines[1].includes('CPS; MSP'), 'Agency list rendered');
+
+  const md = exportTimeline(timeline, docs, null, 'md', { from: '2025-01-01', to: '2025-01-31' });
+  assert.ok(md.indexOf('Intake') < md.indexOf('Personal note'), 'Markdown is chronological');
+  assert.ok(!md.includes('Tip filed'), 'Range filter applied');
+  assert.equal(md, exportTimeline(timeline, docs, null, 'md', { from: '2025-01-01', to: '2025-01-31' }), 'Export is deterministic');
+
+  const html = exportTimeline(timeline, docs, null, 'html', { route: 'MDCR' });
+  assert.ok(html.startsWith('<!DOCTYPE html>') && html.includes('&lt;script&gt;'), 'HTML is standalone and escaped');
+  assert.ok(html.includes('sev-Critical'), 'Severity rendered');
+}
+
+function testArtifactPromotion() {
+  const data = createEmptyArtifactsData(uuid, now);
+  const first = createArtifact(data, { project_id: 'p1', type: 'AppealLetter', name: 'Appeal letter r1' });
+  assert.throws(() => promoteArtifact(data, first.id, 'Production', { by: 'me' }), /Illegal transition Draft/, 'Draft cannot jump to Production');
+  assert.throws(() => promoteArtifact(data, first.id, 'Ready'), /at least one version/, 'Ready requires a version');
+  registerVersion(data, first.id, { version_label: 'v0.1', file_path: 'drafts/appeal-v0.1.md' });
+  promoteArtifact(data, first.id, 'Ready');
+  assert.throws(() => promoteArtifact(data, first.id, 'Production'), /requires who/, 'Production requires actor');
+  promoteArtifact(data, first.id, 'Production', { by: 'me' });
+  assert.ok(first.production_published_date, 'Publish date recorded');
+  assert.throws(() => registerVersion(data, first.id, { version_label: 'v0.2', file_path: 'x.md' }), /Production artifact/, 'Production is immutable');
+
+  const second = createArtifact(data, { project_id: 'p1', type: 'AppealLetter', name: 'Appeal letter r2' });
+  const v1 = registerVersion(data, second.id, { version_label: 'v1.0', file_path: 'drafts/appeal-v1.0.md' });
+  promoteArtifact(data, second.id, 'Ready');
+  registerVersion(data, second.id, { version_label: 'v1.1', file_path: 'drafts/appeal-v1.1.md' });
+  assert.equal(second.status, 'Draft', 'New version sends Ready back to Draft');
+  promoteArtifact(data, second.id, 'Ready');
+  promoteArtifact(data, second.id, 'Production', { by: 'me', version_label: 'v1.0' });
+  assert.equal(second.current_file_path, 'drafts/appeal-v1.0.md', 'Pinned version becomes current file');
+  assert.equal(first.status, 'Archived', 'Previous production archived');
+  assert.equal(second.previous_production_artifact_id, first.id, 'Previous production linked');
+  assert.equal(second.color_by_status, '#16a34a');
+
+  const outreach = createEmptyOutreachData(uuid, now);
+  outreach.artifactVersionExists = id => artifactVersionExists(data, id);
+  const cat = createCategory(outreach, 'Oversight', '#0000ff');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: '', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Mail' });
+  assert.throws(() => recordOutreachAction(outreach, { contact_id: contact.id, method: 'Mail', summary: 'Sent', linked_artifact_version: 'nope' }), /Artifact version not found/);
+  recordOutreachAction(outreach, { contact_id: contact.id, method: 'Mail', summary: 'Sent', artifacts_sent: [second.id], linked_artifact_version: v1.id });
+}
+
+async function testArtifactStoreAndDiff() {
+  const ops = diffLines(['a', 'b', 'c'], ['a', 'B', 'c', 'd']);
+  assert.deepEqual(ops.map(o => o.kind), ['equal', 'remove', 'add', 'equal', 'add']);
+  assert.equal(renderUnifiedDiff('x', 'y', ops, 1).split('\n').filter(l => /^[-+][^-+]/.test(l)).length, 3, 'Two additions and one removal rendered');
+  const single = renderUnifiedDiff('x', 'y', diffLines(['keep', 'old', 'keep too'], ['keep', 'new', 'keep too'])).split('\n');
+  assert.deepEqual(single.filter(l => /^[-+][^-+]/.test(l)), ['-old', '+new'], 'A changed line reads -old then +new');
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-artifacts-'));
+  try {
+    const store = path.join(dir, 'store');
+    await fs.writeFile(path.join(dir, 'v01.md'), 'Dear MDCR,\nWe appeal the decision.\nSincerely\n');
+    await fs.writeFile(path.join(dir, 'v10.md'), 'Dear MDCR,\nWe formally appeal the decision of 2025-11-01.\nSincerely\n');
+    const data = createEmptyArtifactsData(uuid, now);
+    const artifact = createArtifact(data, { project_id: 'p1', type: 'AppealLetter', name: 'Appeal' });
+    const v01 = await registerStoredVersion(data, artifact.id, { version_label: 'v0.1', source_path: path.join(dir, 'v01.md') }, store);
+    await registerStoredVersion(data, artifact.id, { version_label: 'v1.0', source_path: path.join(dir, 'v10.md') }, store);
+    assert.ok(/[0-9a-f]{64}\.md$/.test(v01.file_path), 'Stored under content hash');
+
+    const diff = await diffArtifactVersions(data, artifact.id, 'v0.1', 'v1.0');
+    assert.ok(diff.includes('-We appeal the decision.') && diff.includes('+We formally appeal the decision of 2025-11-01.'), 'Changed wording shown');
+    assert.ok(diff.includes(' Dear MDCR,'), 'Context retained');
+
+    await fs.writeFile(v01.file_path, 'tampered');
+    await assert.rejects(() => readVerified(v01.file_path), /Integrity check failed/, 'Tampering detected on read');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function testRuleLibrary() {
+  assert.equal(parseCitation('42 USC 1983').normalized, '42 U.S.C. § 1983');
+  assert.equal(parseCitation('42 u.s.c. sec. 1983(a)').normalized, '42 U.S.C. § 1983(a)');
+  assert.equal(parseCitation('M.C.L. § 722.628 (3)').normalized, 'MCL 722.628(3)');
+  assert.equal(parseCitation('Mich. Comp. Laws 722.628').normalized, 'MCL 722.628');
+  assert.equal(parseCitation('Mich Admin Code, R 400.12304').normalized, 'Mich. Admin. Code R 400.12304');
+  assert.equal(parseCitation('45 CFR 1355.30').normalized, '45 C.F.R. § 1355.30');
+  assert.equal(parseCitation('  Agency  handbook ch. 4 ').kind, 'Unrecognized');
+
+  const rules = createEmptyRulesData(uuid, now);
+  const civil = createRule(rules, { category: 'Law', title: 'Civil action for deprivation of rights', citation: '42 U.S.C. § 1983', tags: ['civil-rights'] });
+  const cpl = createRule(rules, { category: 'Law', title: 'Child Protection Law investigation', citation: 'MCL 722.628', tags: ['CPS', 'investigation'] });
+  createRule(rules, { category: 'Strategy', title: 'Always send by certified mail', jurisdiction: 'Internal', tags: ['outreach'] });
+  assert.equal(civil.jurisdiction, 'Federal', 'Jurisdiction inferred from citation');
+  assert.equal(cpl.jurisdiction, 'Michigan');
+  assert.throws(() => createRule(rules, { category: 'Law', title: 'Dup', citation: '42 USC 1983' }), /Duplicate citation/, 'Duplicate citation detected');
+  assert.throws(() => createRule(rules, { category: 'Policy', title: 'No jurisdiction' }), /Jurisdiction required/);
+  assert.throws(() => updateRule(rules, cpl.id, { citation: '42 U.S.C. sec 1983' }), /Duplicate citation/, 'Update cannot collide');
+
+  assert.equal(filterRules(rules, { jurisdiction: 'michigan' }).length, 1);
+  assert.equal(filterRules(rules, { tags: ['cps'] })[0].id, cpl.id);
+  assert.equal(filterRules(rules, { category: ['Law'], text: 'rights' })[0].id, civil.id);
+  assert.equal(resolveRule(rules, 'MCL § 722.628')?.id, cpl.id, 'Resolve by any citation form');
+
+  const docs = createEmptyDocumentsData(uuid, now);
+  const doc = createDocument(docs, { original_filename: 'intake.pdf', storage_path: 'intake.pdf', title: 'Intake', doc_type: 'CPSComplaint' });
+  const flag = addMisconductFlag(docs, { document_id: doc.id, law_or_policy: 'M.C.L. 722.628', description: 'No investigation', severity: 'High' });
+  addMisconductFlag(docs, { document_id: doc.id, law_or_policy: 'general unfairness', description: '', severity: 'Low' });
+  const linked = linkFlagsToRules(rules, docs);
+  assert.equal(linked.length, 1, 'Only recognised citations linked');
+  assert.equal(flag.law_or_policy, cpl.id, 'Flag now references the rule');
+  rules.isRuleReferenced = id => flagsCitingRule(docs, id).length > 0;
+  assert.throws(() => deleteRule(rules, cpl.id), /cited by misconduct flags/);
+  assert.ok(deleteRule(rules, civil.id));
+}
+
+async function testConversationImport() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-conv-'));
+  try {
+    const rawDir = path.join(dir, 'raw');
+    const chatgpt = [{
+      id: 'c-1', title: 'Appeal planning', create_time: 1731500000, current_node: 'n3',
+      mapping: {
+        n0: { id: 'n0', message: null, parent: null, children: ['n1'] },
+        n1: { id: 'n1', message: { author: { role: 'user' }, content: { content_type: 'text', parts: ['What is the MDCR filing deadline?\nTODO: pull the intake letter'] }, create_time: 1731500001 }, parent: 'n0', children: ['n2', 'n2b'] },
+        n2b: { id: 'n2b', message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['Abandoned branch. Decision: ignore me'] } }, parent: 'n1', children: [] },
+        n2: { id: 'n2', message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['Decision: file within 180 days\nRule: MCL 37.2602 governs timing\nWould you like a draft?'] } }, parent: 'n1', children: ['n3'] },
+        n3: { id: 'n3', message: { author: { role: 'user' }, content: { content_type: 'text', parts: ['- TODO draft cover letter'] } }, parent: 'n2', children: [] },
+      },
+    }];
+    const claude = [{ uuid: 'k-1', name: 'Timeline review', created_at: '2025-11-14T10:00:00Z', chat_messages: [
+      { sender: 'human', text: 'Can you check the order of events?', created_at: '2025-11-14T10:00:00Z' },
+      { sender: 'assistant', text: '', content: [{ type: 'text', text: 'Decision: keep March intake first' }], created_at: '2025-11-14T10:00:05Z' },
+    ] }];
+    const gemini = [
+      { header: 'Gemini Apps', title: 'Prompted Summarise the police report?', time: '2025-11-15T09:00:00.000Z', safeHtmlItem: [{ html: '<p>TODO: request bodycam &amp; dispatch logs</p>' }] },
+      { header: 'Gemini Apps', title: 'Used Gemini Apps', time: '2025-11-15T09:05:00.000Z' },
+    ];
+    await fs.writeFile(path.join(dir, 'chatgpt.json'), JSON.stringify(chatgpt));
+    await fs.writeFile(path.join(dir, 'claude.json'), JSON.stringify(claude));
+    await fs.writeFile(path.join(dir, 'gemini.json'), JSON.stringify(gemini));
+
+    const data = createEmptyConversationsData(uuid, now);
+    const r1 = await importConversations(data, 'ChatGPT', path.join(dir, 'chatgpt.json'), { rawDir, tags: ['mdcr'] });
+    assert.equal(r1.imported, 1);
+    const conv = data.conversations[0];
+    const types = filterHighlights(data, { conversation_id: conv.id }).map(h => `${h.type}:${h.text}`);
+    assert.deepEqual(types, [
+      'Question:What is the MDCR filing deadline?',
+      'Task:pull the intake letter',
+      'Decision:file within 180 days',
+      'Rule:MCL 37.2602 governs timing',
+      'Task:draft cover letter',
+    ], 'Markers on the current branch only; assistant questions ignored');
+    const transcript = await readTranscript(conv.raw_text_ref);
+    assert.ok(transcript.includes('Appeal planning') && !transcript.includes('Abandoned branch'), 'Transcript follows current node');
+
+    const again = await importConversations(data, 'ChatGPT', path.join(dir, 'chatgpt.json'), { rawDir });
+    assert.equal(again.skipped, 1, 'Re-import is idempotent');
+    assert.equal(data.conversations.length, 1);
+
+    await importConversations(data, 'Claude', path.join(dir, 'claude.json'), { rawDir });
+    const g = await importConversations(data, 'Gemini', path.join(dir, 'gemini.json'), { rawDir });
+    assert.equal(g.imported, 1, 'Non-prompt activity skipped');
+    assert.equal(filterHighlights(data, { type: ['Decision'] }).length, 2);
+    assert.ok(filterHighlights(data, { type: ['Task'] }).some(h => h.text === 'request bodycam & dispatch logs'), 'Gemini HTML decoded');
+
+    // Malformed nodes and fields are skipped rather than crashing the import
+    const [odd] = parseChatGptExport([{ id: 'c-2', current_node: 'b', mapping: {
+      a: 'not a node',
+      b: { message: { author: 'user', content: { parts: ['no role object'] } }, parent: 'c' },
+      c: { message: { author: { role: 'user' }, content: { parts: ['kept', 7] } }, parent: 'a' },
+    } }]);
+    assert.deepEqual(odd.messages.map(m => m.text), ['kept']);
+    const [mixed] = parseClaudeExport([{ uuid: 'k-2', chat_messages: [{ sender: 'human', content: ['x', { type: 'text', text: 'hi' }, { type: 'text', text: 3 }] }, 'junk'] }]);
+    assert.deepEqual(mixed.messages.map(m => m.text), ['hi']);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function testHighlightPromotion() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const rules = createEmptyRulesData(uuid, now);
+  const research = createEmptyResearchData(uuid, now);
+  const conversations = createEmptyConversationsData(uuid, now);
+  const audits: string[] = [];
+  conversations.audit = e => { audits.push(`${e.entity_type}:${e.change_type}:${e.detail ?? ''}`); };
+  const conv = createConversation(conversations, { source: 'ChatGPT', title: 'Appeal planning', raw_text_ref: 'DATA/conversations/chatgpt-c-1.txt', tags: ['mdcr'] });
+  const task = addHighlight(conversations, { conversation_id: conv.id, type: 'Task', text: 'Draft cover letter', importance: 'High' });
+  const rule = addHighlight(conversations, { conversation_id: conv.id, type: 'Rule', text: 'Complaints must be filed within 180 days' });
+  const insight = addHighlight(conversations, { conversation_id: conv.id, type: 'Insight', text: 'Intake staff respond faster to certified mail' });
+  const question = addHighlight(conversations, { conversation_id: conv.id, type: 'Question', text: 'Who signs the appeal?' });
+  const targets = { masterPlan: mp, rules, research };
+
+  assert.throws(() => promoteHighlight(conversations, task.id, targets), /Project required/);
+  const p1 = promoteHighlight(conversations, task.id, targets, { project_id: proj.id, due_date: '2025-11-20' });
+  assert.ok(p1.kind === 'PlanItem' && p1.planItem.priority === 'High' && p1.planItem.due_date === '2025-11-20');
+  assert.equal(task.linked_plan_item_id, mp.planItems[0].id, 'Back-link to plan item');
+  assert.equal(task.linked_project_id, proj.id);
+  assert.throws(() => promoteHighlight(conversations, task.id, targets, { project_id: proj.id }), /already promoted/);
+
+  assert.throws(() => promoteHighlight(conversations, rule.id, targets), /Jurisdiction required/, 'Refused promotion');
+  assert.equal(rules.rules.length, 0, 'Refused promotion changes nothing');
+  const p2 = promoteHighlight(conversations, rule.id, targets, { citation: 'MCL 37.2602' });
+  assert.ok(p2.kind === 'Rule' && p2.created);
+  assert.equal(rules.rules[0].created_from_conversation_id, conv.id);
+  assert.equal(rules.rules[0].jurisdiction, 'Michigan', 'Jurisdiction from citation');
+  assert.equal(rule.linked_rule_id, rules.rules[0].id);
+
+  const p3 = promoteHighlight(conversations, insight.id, targets);
+  assert.ok(p3.kind === 'ResearchInsight' && p3.insight.source_id === conv.id && p3.insight.tags[0] === 'mdcr');
+  assert.throws(() => promoteHighlight(conversations, insight.id, targets), /already promoted/);
+  assert.throws(() => promoteHighlight(conversations, question.id, targets), /cannot be promoted/);
+  assert.equal(audits.filter(a => a.includes(':Update:Promoted to')).length, 3, 'Each promotion audited on the highlight');
+}
+
+function testDailyLog() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const today = createPlanItem(mp, { project_id: proj.id, title: 'Draft letter', description: '', category: 'Drafting', due_date: '2025-11-14', priority: 'High' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Tomorrow task', description: '', category: 'Admin', due_date: '2025-11-15', priority: 'Low' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Undated', description: '', category: 'Admin', due_date: null, priority: 'Low' });
+  const events: AuditEvent[] = [];
+  mp.audit = e => { events.push({ id: uuid(), at: '2025-11-14T15:00:00.000Z', ...e } as AuditEvent); };
+
+  const logs = createEmptyDailyLogData(uuid, now);
+  endDay(logs, '2025-11-13', [], { questions: ['Who signs the appeal?'] });
+  const start = startDay(logs, mp, '2025-11-14', { goals: ['Call MDCR intake'] });
+  assert.deepEqual(start.goals_for_today, [today.id, 'Who signs the appeal?', 'Call MDCR intake'], 'Due items, carried questions, extras');
+  startDay(logs, mp, '2025-11-14');
+  assert.equal(logs.logs.find(l => l.date === '2025-11-14')!.goals_for_today.length, 3, 'Start is idempotent');
+
+  updatePlanItem(mp, today.id, { notes: 'halfway' });
+  updatePlanItem(mp, today.id, { status: 'Done' });
+  updatePlanItem(mp, today.id, { notes: 'sent' });
+  assert.deepEqual(planItemsCompletedOn(events, '2025-11-14'), [today.id], 'Only the move into Done counts');
+  assert.deepEqual(planItemsCompletedOn(events, '2025-11-13'), [], 'Other days ignored');
+  const end = endDay(logs, '2025-11-14', events, { learned: ['Intake closes at 4pm'], emotion_check: 'tired but ok' });
+  assert.deepEqual(end.completed_today, [today.id]);
+
+  const outreach = createEmptyOutreachData(uuid, now);
+  const summary = buildDailySummary(mp, outreach, '2025-11-14', { dailyLog: logs });
+  assert.deepEqual(summary.daily_log?.completed, ['Draft letter'], 'Summary shows titles');
+  assert.equal(summary.daily_log?.emotion_check, 'tired but ok');
+  assert.equal(buildDailySummary(mp, outreach, '2025-11-20', { dailyLog: logs }).daily_log, null);
+  assert.equal(buildDailySummary(mp, outreach, '2025-11-14').daily_log, undefined, 'Unchanged without log data');
+}
+
+function testDeadlines() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const late = createPlanItem(mp, { project_id: proj.id, title: 'Late draft', description: '', category: 'Drafting', due_date: '2025-11-12', priority: 'Normal' });
+  const urgent = createPlanItem(mp, { project_id: proj.id, title: 'File complaint', description: '', category: 'Admin', due_date: '2025-11-15', priority: 'Critical' });
+  const done = createPlanItem(mp, { project_id: proj.id, title: 'Done item', description: '', category: 'Admin', due_date: '2025-11-10', priority: 'Low' });
+  updatePlanItem(mp, done.id, { status: 'Done' });
+  const outreach = createEmptyOutreachData(uuid, now);
+  const cat = createCategory(outreach, 'Oversight', '#0000ff');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: '', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Mail' });
+  createFollowUp(outreach, contact.id, null, '2025-11-14', '');
+
+  const data = createEmptyDeadlinesData(uuid, now);
+  data.entityExists = (type, id) => type !== 'Document' || id === 'doc-1';
+  assert.throws(() => createDeadline(data, { related_entity_type: 'Document', related_entity_id: 'nope', label: 'x', due_date: '2025-11-20' }), /Document not found/);
+  const response = createDeadline(data, { related_entity_type: 'Document', related_entity_id: 'doc-1', label: 'Response due to MDCR', due_date: '2025-11-18', severity: 'Important' });
+  const old = createDeadline(data, { related_entity_type: 'Other', related_entity_id: 'n/a', label: 'Cancelled one', due_date: '2025-11-01' });
+  setDeadlineStatus(data, old.id, 'Cancelled');
+
+  const view = deadlineView(data, mp, outreach, '2025-11-13');
+  assert.deepEqual(view.overdue.map(d => d.id), [`PlanItem:${late.id}`], 'Done and cancelled excluded');
+  assert.deepEqual(view.upcoming.map(d => d.label), ['File complaint', 'Response due to MDCR', 'Follow up with MDCR'], 'Sorted by severity then date');
+  assert.equal(view.upcoming[0].days_until, 2);
+
+  snoozeDeadline(data, `PlanItem:${late.id}`, '2025-11-15');
+  snoozeDeadline(data, response.id, '2025-11-16');
+  assert.equal(response.status, 'Snoozed');
+  const snoozed = deadlineView(data, mp, outreach, '2025-11-14');
+  assert.equal(snoozed.overdue.length, 0, 'Snoozed deadline hidden');
+  assert.ok(!snoozed.upcoming.some(d => d.id === response.id));
+  assert.deepEqual(wakeSnoozedDeadlines(data, '2025-11-16').sort(), [`PlanItem:${late.id}`, response.id].sort());
+  assert.equal(response.status, 'Open', 'Woken deadline reopened');
+  assert.equal(deadlineView(data, mp, outreach, '2025-11-16').overdue[0].id, `PlanItem:${urgent.id}`, 'Critical overdue first');
+
+  const summary = buildDailySummary(mp, outreach, '2025-11-16', { deadlines: data });
+  assert.equal(summary.deadlines?.overdue.length, 3);
+}
+
+async function testDeadlineCalculator() {
+  const michigan = findHolidayCalendar(BUNDLED_HOLIDAY_CALENDARS, 'michigan');
+  const federal = findHolidayCalendar(BUNDLED_HOLIDAY_CALENDARS, 'Federal');
+  const mi2025 = holidaysForYear(michigan, 2025).map(h => h.date);
+  assert.ok(['2025-01-20', '2025-05-26', '2025-11-27', '2025-11-28', '2025-12-24', '2025-12-31'].every(d => mi2025.includes(d)), 'Rule-based dates expanded');
+  assert.ok(!mi2025.includes('2025-10-13') && holidaysForYear(federal, 2025).some(h => h.date === '2025-10-13'), 'Columbus Day is federal only');
+  assert.ok(holidaysForYear(federal, 2021).some(h => h.date === '2021-12-31'), 'Saturday New Year observed the Friday before');
+  assert.ok(!holidaysForYear(michigan, 2021).some(h => h.name === 'Juneteenth'));
+  // Sunday eves (2023) fall on the Friday before; Friday holidays (2021) push the eve to Thursday
+  const december = (year: number) => holidaysForYear(michigan, year).filter(h => h.date >= `${year}-12-20`).map(h => `${h.date} ${h.name}`);
+  assert.deepEqual(december(2023), ['2023-12-22 Christmas Eve', '2023-12-25 Christmas Day', "2023-12-29 New Year's Eve"]);
+  assert.deepEqual(december(2021), ['2021-12-23 Christmas Eve', '2021-12-24 Christmas Day', "2021-12-30 New Year's Eve", "2021-12-31 New Year's Day"]);
+  assert.equal(addBusinessDays('2023-12-21', 1, michigan), '2023-12-26');
+  assert.equal(addBusinessDays('2023-12-27', 2, michigan), '2024-01-02');
+
+  // 14 calendar days from 2025-11-13 lands on Thanksgiving; Michigan also closes the Friday, so Monday
+  assert.equal(computeDeadline('2025-11-13', { days: 14, unit: 'Calendar' }, michigan), '2025-12-01');
+  assert.equal(computeDeadline('2025-11-13', { days: 14, unit: 'Calendar' }, federal), '2025-11-28');
+  assert.equal(computeDeadline('2025-11-13', { days: 14, unit: 'Calendar', roll_forward: false }, michigan), '2025-11-27');
+  assert.equal(computeDeadline('2025-11-21', { days: 5, unit: 'Business' }, michigan), '2025-12-02');
+  assert.equal(addBusinessDays('2025-11-21', 5, federal), '2025-12-01');
+  assert.equal(computeDeadline('2025-11-22', { days: 0, unit: 'Business' }, null), '2025-11-24', 'Weekend trigger rolls to Monday');
+  assert.throws(() => computeDeadline('2025-11-13', { days: -1, unit: 'Calendar' }, null), /non-negative/);
+
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-20', target_end_date: '2025-12-01' });
+  const { items } = applyPlanTemplate(mp, MDCR_11_DAY_TEMPLATE, proj.id, '2025-11-20', michigan);
+  assert.ok(items.every(pi => !['2025-11-22', '2025-11-23', '2025-11-27', '2025-11-28', '2025-11-29', '2025-11-30'].includes(pi.due_date!)), 'Template dates roll past closures');
+  assert.equal(items.find(pi => pi.title === 'Submission prep')!.due_date, '2025-12-01');
+  assert.equal(applyPlanTemplate(mp, MDCR_11_DAY_TEMPLATE, proj.id, '2025-11-20').items.find(pi => pi.title === 'Submission prep')!.due_date, '2025-11-30');
+
+  const deadlines = createEmptyDeadlinesData(uuid, now);
+  deadlines.calendar = michigan;
+  const events: any[] = [];
+  deadlines.audit = e => { events.push(e); };
+  const d = createDeadline(deadlines, { related_entity_type: 'Other', related_entity_id: 'n/a', label: 'Appeal window', trigger: { date: '2025-11-21', rule: { days: 5, unit: 'Business' } } });
+  assert.equal(d.due_date, '2025-12-02');
+  assert.match(events[0].detail, /5 business days after 2025-11-21 \(Michigan\)/);
+  assert.throws(() => createDeadline(deadlines, { related_entity_type: 'Other', related_entity_id: 'n/a', label: 'x' }), /due_date or trigger required/);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-holidays-'));
+  const file = path.join(dir, 'holidays.json');
+  assert.equal(await loadHolidayCalendars(file), BUNDLED_HOLIDAY_CALENDARS, 'Missing file falls back to bundled');
+  await saveHolidayCalendars([{ ...michigan, extra_dates: ['2025-12-26'] }], file);
+  const edited = findHolidayCalendar(await loadHolidayCalendars(file), 'Michigan');
+  assert.equal(computeDeadline('2025-12-23', { days: 1, unit: 'Business' }, edited), '2025-12-29');
+  await fs.writeFile(file, JSON.stringify({ version: 1, calendars: [{ name: 'Bad', rules: [{ name: 'x', kind: 'Fixed', month: 13, day: 1 }] }] }));
+  await assert.rejects(loadHolidayCalendars(file), /rules\[0\]\.month/);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+function testPlanDependencies() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-20' });
+  const item = (title: string, due_date: string | null) => createPlanItem(mp, { project_id: proj.id, title, description: '', category: 'Drafting', due_date, priority: 'Normal' });
+  const outline = item('Outline', '2025-11-14');
+  const draft = item('Draft', '2025-11-16');
+  const review = item('Review', '2025-11-15');
+  const exhibits = item('Exhibits', '2025-11-18');
+  addDependencies(mp, draft.id, [outline.id]);
+  addDependencies(mp, review.id, [draft.id]);
+  assert.throws(() => addDependencies(mp, outline.id, [review.id]), /Dependency cycle: Outline → Review → Draft → Outline/);
+  assert.throws(() => addDependencies(mp, outline.id, [outline.id]), /cannot depend on itself/);
+  const other = createProject(mp, { name: 'Other', description: '', start_date: '2025-11-13', target_end_date: '2025-11-30' });
+  const foreign = createPlanItem(mp, { project_id: other.id, title: 'Elsewhere', description: '', category: 'Admin', due_date: null, priority: 'Low' });
+  assert.throws(() => addDependencies(mp, draft.id, [foreign.id]), /same project/);
+
+  assert.deepEqual(dependencyConflicts(mp, proj.id).map(c => [c.title, c.prerequisite_title]), [['Review', 'Draft']], 'Review is due before its prerequisite');
+  const summary = buildDailySummary(mp, createEmptyOutreachData(uuid, now), '2025-11-13');
+  assert.equal(summary.projects.find(p => p.project_id === proj.id)!.dependency_conflicts, 1);
+
+  const cp = criticalPath(mp, proj.id);
+  const at = (id: string) => cp.items.find(i => i.id === id)!;
+  assert.deepEqual([at(outline.id).earliest, at(draft.id).earliest, at(review.id).earliest], ['2025-11-13', '2025-11-14', '2025-11-15']);
+  assert.deepEqual([at(review.id).latest, at(draft.id).latest, at(outline.id).latest], ['2025-11-20', '2025-11-19', '2025-11-18']);
+  assert.equal(at(outline.id).slack_days, 5);
+  assert.equal(at(exhibits.id).slack_days, 7);
+  assert.deepEqual(cp.critical_path, [outline.id, draft.id, review.id]);
+  assert.equal(cp.earliest_finish, '2025-11-15');
+  assert.equal(cp.slack_days, 5);
+  // Starting late eats the slack; finished items no longer constrain anything
+  assert.equal(criticalPath(mp, proj.id, '2025-11-19').slack_days, -1);
+  updatePlanItem(mp, outline.id, { status: 'Done' });
+  assert.equal(criticalPath(mp, proj.id).items.find(i => i.id === draft.id)!.earliest, '2025-11-13');
+
+  removeDependencies(mp, review.id, [draft.id]);
+  assert.equal(dependencyConflicts(mp).length, 0);
+  deletePlanItem(mp, outline.id);
+  assert.deepEqual(mp.planItems.find(p => p.id === draft.id)!.depends_on, [], 'Deleting a prerequisite unblocks dependents');
+}
+
+function testPlanShift() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const item = (title: string, due_date: string | null, depends_on: string[] = []) => createPlanItem(mp, { project_id: proj.id, title, description: '', category: 'Drafting', due_date, priority: 'Normal', depends_on });
+  const collect = item('Collect', '2025-11-13');
+  const outline = item('Outline', '2025-11-14');
+  const draft = item('Draft', '2025-11-17', [outline.id]);
+  const review = item('Review', '2025-11-18', [draft.id]);
+  const prep = item('Submission prep', '2025-11-21');
+  const undated = item('Someday', null);
+  updatePlanItem(mp, prep.id, { status: 'Done' });
+  const events: any[] = [];
+  mp.audit = e => { events.push(e); };
+
+  const preview = shiftFromDate(mp, proj.id, '2025-11-14', { days: 1, dry_run: true });
+  assert.deepEqual(preview.changes.map(c => [c.title, c.after]), [['Outline', '2025-11-15'], ['Draft', '2025-11-18'], ['Review', '2025-11-19']]);
+  assert.equal(outline.due_date, '2025-11-14', 'Dry run changes nothing');
+  assert.equal(events.length, 0);
+
+  // Friday → Monday when weekends are skipped
+  shiftFromDate(mp, proj.id, '2025-11-14', { days: 1, business_days: true });
+  assert.deepEqual([collect.due_date, outline.due_date, draft.due_date, review.due_date, prep.due_date, undated.due_date], ['2025-11-13', '2025-11-17', '2025-11-18', '2025-11-19', '2025-11-21', null]);
+  assert.equal(events.length, 1, 'One grouped audit record');
+  assert.equal(events[0].change_type, 'Reschedule');
+  assert.equal(events[0].entity_id, proj.id);
+  assert.deepEqual(events[0].before, [{ id: outline.id, due_date: '2025-11-14' }, { id: draft.id, due_date: '2025-11-17' }, { id: review.id, due_date: '2025-11-18' }]);
+  assert.match(events[0].detail, /\+1 business day from 2025-11-14; 3 items moved/);
+
+  const single = shiftItem(mp, draft.id, { days: 2 });
+  assert.deepEqual(single.changes.map(c => c.title), ['Draft', 'Review'], 'Item plus its dependents');
+  assert.deepEqual([outline.due_date, draft.due_date, review.due_date], ['2025-11-17', '2025-11-20', '2025-11-21']);
+  shiftItem(mp, draft.id, { days: -1, business_days: true });
+  assert.equal(draft.due_date, '2025-11-19');
+  assert.throws(() => shiftFromDate(mp, proj.id, '2025-11-14', { days: 0 }), /non-zero/);
+}
+
+function testRecurrence() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'Case admin', description: '', start_date: '2025-11-03', target_end_date: '2026-03-31' });
+  const weekly = createPlanItem(mp, { project_id: proj.id, title: 'Check MiCase docket', description: '', category: 'Admin', due_date: '2025-11-03', priority: 'Normal', checklist: [{ label: 'Download new filings' }], recurrence: { frequency: 'Weekly', count: 3 } });
+  assert.equal(weekly.series_id, weekly.id);
+  toggleChecklistItem(mp, weekly.id, weekly.checklist[0].id, true);
+  updatePlanItem(mp, weekly.id, { status: 'Done' });
+  let series = seriesPlanItems(mp, weekly.id);
+  assert.deepEqual(series.map(s => [s.due_date, s.status]), [['2025-11-03', 'Done'], ['2025-11-10', 'NotStarted']], 'Completed occurrence kept as history');
+  assert.equal(series[1].checklist[0].checked, false, 'Next occurrence starts with a fresh checklist');
+  updatePlanItem(mp, series[1].id, { status: 'Dropped' });
+  assert.equal(seriesPlanItems(mp, weekly.id).length, 2, 'Dropping an occurrence does not schedule another');
+  updatePlanItem(mp, series[1].id, { status: 'Done' });
+  updatePlanItem(mp, seriesPlanItems(mp, weekly.id)[2].id, { status: 'Done' });
+  assert.equal(seriesPlanItems(mp, weekly.id).length, 3, 'COUNT ends the series');
+
+  // Month-end dates clamp to shorter months without drifting
+  const monthly = createPlanItem(mp, { project_id: proj.id, title: 'Monthly records request', description: '', category: 'Outreach', due_date: '2026-01-31', priority: 'Normal', recurrence: { frequency: 'Monthly', until: '2026-03-31' } });
+  updatePlanItem(mp, monthly.id, { status: 'Done' });
+  updatePlanItem(mp, seriesPlanItems(mp, monthly.id)[1].id, { status: 'Done' });
+  updatePlanItem(mp, seriesPlanItems(mp, monthly.id)[2].id, { status: 'Done' });
+  assert.deepEqual(seriesPlanItems(mp, monthly.id).map(s => s.due_date), ['2026-01-31', '2026-02-28', '2026-03-31'], 'UNTIL ends the series');
+
+  const daily = createPlanItem(mp, { project_id: proj.id, title: 'Journal', description: '', category: 'Admin', due_date: '2025-11-03', priority: 'Low', recurrence: { frequency: 'Daily', interval: 2 } });
+  updatePlanItem(mp, daily.id, { status: 'Done' });
+  const updated = updatePlanItemSeries(mp, daily.id, { title: 'Evening journal', recurrence: { frequency: 'Daily', interval: 3 } });
+  assert.equal(updated.length, 1, 'Only open occurrences are edited');
+  assert.equal(daily.title, 'Journal');
+  assert.equal(updated[0].recurrence!.start, '2025-11-03', 'Rule edits keep the series start');
+  updatePlanItem(mp, updated[0].id, { status: 'Done' });
+  assert.equal(seriesPlanItems(mp, daily.id)[2].due_date, '2025-11-06');
+  cancelPlanItemSeries(mp, daily.id);
+  assert.deepEqual(seriesPlanItems(mp, daily.id).map(s => s.status), ['Done', 'Done', 'Dropped']);
+  assert.equal(seriesPlanItems(mp, daily.id).length, 3, 'Cancelling does not generate another occurrence');
+  assert.throws(() => createPlanItem(mp, { project_id: proj.id, title: 'Undated', description: '', category: 'Admin', due_date: null, priority: 'Low', recurrence: { frequency: 'Weekly' } }), /needs a due date/);
+
+  const outreach = createEmptyOutreachData(uuid, now);
+  const cat = createCategory(outreach, 'Agency', '#0000ff');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: '', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Call' });
+  const call = createFollowUp(outreach, contact.id, null, '2025-11-10', 'Status call', parseRecurrence('FREQ=WEEKLY;INTERVAL=2'));
+  updateFollowUpStatus(outreach, call.id, 'Completed');
+  assert.deepEqual(seriesFollowUps(outreach, call.id).map(f => [f.due_date, f.status]), [['2025-11-10', 'Completed'], ['2025-11-24', 'Open']]);
+  updateFollowUpStatus(outreach, seriesFollowUps(outreach, call.id)[1].id, 'Cancelled');
+  assert.equal(seriesFollowUps(outreach, call.id).length, 2, 'Cancelling an occurrence does not schedule another');
+  updateFollowUpStatus(outreach, seriesFollowUps(outreach, call.id)[1].id, 'Open');
+  cancelFollowUpSeries(outreach, call.id);
+  assert.deepEqual(seriesFollowUps(outreach, call.id).map(f => f.status), ['Completed', 'Cancelled']);
+
+  assert.deepEqual(parseRecurrence('FREQ=MONTHLY;UNTIL=20260131'), { frequency: 'Monthly', interval: undefined, until: '2026-01-31', count: null });
+  assert.throws(() => parseRecurrence('FREQ=YEARLY'), /FREQ/);
+}
+
+function testAuditUndo() {
+  // Each command gets its own op_id and second, as one CLI invocation would
+  const log: AuditEvent[] = [];
+  let op = '';
+  let second = 0;
+  const at = () => new Date(Date.UTC(2025, 10, 14, 9, 0, second)).toISOString();
+  const writer = (e: any) => { log.push(JSON.parse(JSON.stringify({ id: uuid(), at: at(), ...e, op_id: e.op_id ?? op }))); };
+  const command = <T>(fn: () => T): T => { op = uuid(); second++; return fn(); };
+
+  const mp = createEmptyData(uuid, now);
+  const outreach = createEmptyOutreachData(uuid, now);
+  mp.audit = writer;
+  outreach.audit = writer;
+  const targets = { masterPlan: mp, outreach, audit: writer };
+
+  const { proj, a } = command(() => {
+    const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+    const a = createPlanItem(mp, { project_id: proj.id, title: 'Collect', description: '', category: 'Evidence', due_date: '2025-11-14', priority: 'High' });
+    createPlanItem(mp, { project_id: proj.id, title: 'Outline', description: '', category: 'Drafting', due_date: '2025-11-17', priority: 'Normal', depends_on: [a.id] });
+    return { proj, a };
+  });
+  const checkpoint = at();
+  const original = JSON.parse(JSON.stringify(mp.planItems));
+  command(() => updatePlanItem(mp, a.id, { title: 'Collect records' }));
+  command(() => shiftFromDate(mp, proj.id, '2025-11-01', { days: 2 }));
+  const beforeDelete = JSON.parse(JSON.stringify({ projects: mp.projects, planItems: mp.planItems }));
+  const deleteOp = command(() => { deleteProject(mp, proj.id); return op; });
+  assert.equal(mp.planItems.length, 0);
+
+  const undone = command(() => undo(targets, log));
+  assert.equal(undone.reversed[0].op_id, deleteOp, 'The whole cascade is one operation');
+  assert.deepEqual({ projects: mp.projects, planItems: mp.planItems }, beforeDelete);
+  assert.ok(log.slice(-3).every(e => e.reverts === deleteOp && e.change_type === 'Create'));
+  command(() => redo(targets, log));
+  assert.equal(mp.projects.length, 0, 'Redo deletes again');
+  command(() => undo(targets, log));
+  assert.throws(() => redo(targets, log.concat([{ ...log[0], id: uuid(), op_id: uuid(), reverts: undefined }])), /Nothing to redo/, 'A new command clears redo');
+
+  command(() => undo(targets, log, 2));
+  assert.deepEqual(mp.planItems.map(p => [p.title, p.due_date]), [['Collect', '2025-11-14'], ['Outline', '2025-11-17']], 'Shift and rename undone');
+  command(() => applyPlanTemplate(mp, MDCR_11_DAY_TEMPLATE, proj.id, '2025-11-13'));
+  command(() => undo(targets, log));
+  assert.equal(mp.planItems.length, 2, 'Undo removes every template item');
+
+  // A change the log does not know about blocks the undo, and nothing is applied
+  const edited = mp.planItems[0];
+  edited.title = 'Edited by hand';
+  assert.throws(() => undo(targets, log), /Create of PlanItem .* was changed later/);
+  assert.equal(mp.projects.length, 1);
+  edited.title = 'Collect';
+
+  const contact = command(() => {
+    const cat = createCategory(outreach, 'Agency', '#0000ff');
+    const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: '', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Mail' });
+    recordOutreachAction(outreach, { contact_id: contact.id, method: 'Mail', summary: 'Sent complaint' });
+    return contact;
+  });
+  command(() => deleteContact(outreach, contact.id));
+  assert.equal(outreach.outreachActions.length, 0, 'Actions go with the contact');
+  command(() => undo(targets, log));
+  assert.deepEqual([outreach.contacts.length, outreach.outreachActions.length], [1, 1]);
+
+  // Checklist toggles log the checklist entry, not the plan item
+  const listed = command(() => createPlanItem(mp, { project_id: proj.id, title: 'Assemble', description: '', category: 'Admin', due_date: null, priority: 'Normal', checklist: [{ label: 'Exhibits' }, { label: 'Cover letter' }] }));
+  const [exhibits, cover] = listed.checklist.map(c => c.id);
+  command(() => toggleChecklistItem(mp, listed.id, exhibits, true));
+  command(() => toggleChecklistItem(mp, listed.id, cover, true));
+  command(() => undo(targets, log));
+  assert.deepEqual(mp.planItems.find(p => p.id === listed.id)!.checklist.map(c => c.checked), [true, false]);
+  command(() => redo(targets, log));
+  assert.deepEqual(mp.planItems.find(p => p.id === listed.id)!.checklist.map(c => c.checked), [true, true]);
+  command(() => undo(targets, log, 2));
+  assert.deepEqual(mp.planItems.find(p => p.id === listed.id)!.checklist.map(c => c.checked), [false, false]);
+  mp.planItems.find(p => p.id === listed.id)!.checklist[0].checked = true;
+  assert.throws(() => redo(targets, log), /ChecklistToggle of PlanItem .* was changed later/);
+  mp.planItems.find(p => p.id === listed.id)!.checklist[0].checked = false;
+
+  // A command that also changed another module is refused, not half undone
+  const conversations = createEmptyConversationsData(uuid, now);
+  const conv = createConversation(conversations, { source: 'ChatGPT', title: 'Appeal planning', raw_text_ref: 'DATA/conversations/chatgpt-c-1.txt', tags: [] });
+  const hl = addHighlight(conversations, { conversation_id: conv.id, type: 'Task', text: 'Draft cover letter' });
+  conversations.audit = writer;
+  const promoted = command(() => promoteHighlight(conversations, hl.id, { masterPlan: mp }, { project_id: proj.id }));
+  assert.throws(() => undo(targets, log), /Cannot undo operation .*: it also changed ConversationHighlight records/);
+  assert.ok(promoted.kind === 'PlanItem' && mp.planItems.some(p => p.id === promoted.planItem.id), 'Nothing applied');
+
+  const restored = command(() => restoreTo(targets, log, checkpoint));
+  assert.ok(restored.reversed.length > 1);
+  assert.deepEqual(mp.planItems.map(p => p.title), original.map((p: any) => p.title));
+  assert.deepEqual([outreach.categories.length, outreach.contacts.length, outreach.outreachActions.length], [0, 0, 0], 'Created after the restore point');
+  command(() => undo(targets, log));
+  assert.equal(outreach.contacts.length, 1, 'A restore can itself be undone');
+}
+
+async function testAuditQuery() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-audit-'));
+  const file = path.join(dir, 'audit.log.jsonl');
+  assert.deepEqual(await readAuditLog(file), [], 'Missing log reads as empty');
+  const proj = uuid();
+  const item = uuid();
+  const ev = (at: string, change_type: string, entity_type: string, entity_id: string, extra: object = {}) => JSON.stringify({ id: uuid(), at, change_type, entity_type, entity_id, ...extra });
+  const lines = [
+    ev('2025-11-13T09:00:00.000Z', 'Create', 'Project', proj, { op_id: 'a' }),
+    ev('2025-11-13T09:00:00.000Z', 'Create', 'PlanItem', item, { op_id: 'a', project_id: proj }),
+    ev('2025-11-14T10:00:00.000Z', 'Update', 'PlanItem', item, { op_id: 'b', project_id: proj,
+      before: { title: 'Collect', tags: ['a'], checklist: [{ label: 'Scan', checked: false }] },
+      after: { title: 'Collect records', tags: ['a', 'b'], checklist: [{ label: 'Scan', checked: true }] } }),
+    ev('2025-11-15T08:00:00.000Z', 'Create', 'Contact', uuid()),
+  ];
+  await fs.writeFile(file, lines.join('\n') + '\n{"id":"torn', 'utf8');
+
+  assert.equal((await readAuditLog(file)).length, 4, 'Torn final line ignored');
+  assert.equal((await readAuditLog(file, { project_id: proj })).length, 3, 'Project filter includes the project itself');
+  assert.equal((await readAuditLog(file, { entity_type: ['PlanItem'], change_type: ['Update'] })).length, 1);
+  assert.equal((await readAuditLog(file, { from: '2025-11-14', to: '2025-11-14' })).length, 1, 'A bare to-date covers the whole day');
+  assert.equal((await readAuditLog(file, { from: '2025-11-13T09:30:00Z' })).length, 2);
+
+  const [update] = await readAuditLog(file, { change_type: ['Update'] });
+  assert.deepEqual(diffAuditEvent(update).map(c => c.field), ['title', 'tags', 'checklist[0].checked']);
+  assert.match(formatAuditEvent(update, true), /\n {4}title: "Collect" → "Collect records"/);
+
+  const days = await dailyActivity(file);
+  assert.deepEqual(days.map(d => [d.date, d.total, d.operations]), [['2025-11-13', 2, 1], ['2025-11-14', 1, 1], ['2025-11-15', 1, 1]]);
+  assert.deepEqual(days[0].by_entity_type, { Project: 1, PlanItem: 1 });
+  const [created] = await readAuditLog(file, { entity_type: ['Project'] });
+  assert.deepEqual(diffAuditEvent({ ...created, after: { id: proj, name: 'MDCR' } }).map(c => c.field), ['id', 'name'], 'Creates list each field');
+
+  await fs.writeFile(file, lines[0] + '\nnot json\n' + lines[1] + '\n', 'utf8');
+  await assert.rejects(readAuditLog(file), /line 2 is not valid JSON/);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testAuditChain() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-chain-'));
+  const file = path.join(dir, 'audit.log.jsonl');
+  const checkpointsPath = path.join(dir, 'audit.checkpoints.jsonl');
+  const keyDir = path.join(dir, 'keys');
+  // A line written before the chain existed is covered by the first link
+  const legacy = JSON.stringify({ id: uuid(), at: '2025-11-01T00:00:00.000Z', entity_type: 'Project', change_type: 'Create', entity_id: uuid() });
+  await fs.writeFile(file, legacy + '\n', 'utf8');
+
+  const audit = createAuditLogger({ filePath: file, idGen: uuid, clock: now, checkpoints: { filePath: checkpointsPath, every: 2, keyDir } });
+  const mp = createEmptyData(uuid, now);
+  mp.audit = audit;
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  for (const title of ['Collect', 'Outline', 'Draft', 'Review']) createPlanItem(mp, { project_id: proj.id, title, description: '', category: 'Drafting', due_date: null, priority: 'Normal' });
+  updateProject(mp, proj.id, { name: 'MDCR Appeal (final)' });
+  await audit.flush();
+
+  const events = await readAuditLog(file);
+  assert.deepEqual(events.slice(1).map(e => e.seq), [1, 2, 3, 4, 5, 6], 'Written in call order');
+  assert.notEqual(events[1].prev_hash, GENESIS_HASH, 'First link anchors the older line');
+  const publicKeyPem = (await readPublicKey(keyDir))!;
+  let result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.ok(result.ok, JSON.stringify(result.first_break));
+  assert.deepEqual([result.chained, result.unchained_prefix, result.checkpoints.total, result.checkpoints.verified], [6, 1, 3, 3]);
+
+  // Checking with someone else's key fails the checkpoints but not the chain
+  const otherKey = await loadOrCreateSigningKey(path.join(dir, 'other-keys'));
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem: otherKey.publicKeyPem });
+  assert.equal(result.first_break, null);
+  assert.match(result.checkpoints.failures[0].reason, /signed by key/);
+
+  const lines = (await fs.readFile(file, 'utf8')).split('\n');
+  await fs.writeFile(file, lines.map((l, i) => i === 3 ? l.replace('Outline', 'Outlined') : l).join('\n'), 'utf8');
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.deepEqual([result.ok, result.first_break?.line, result.first_break?.seq], [false, 4, 3]);
+  assert.match(result.first_break!.reason, /contents were changed/);
+  assert.match(result.checkpoints.failures[0].reason, /after the first broken link/);
+
+  await fs.writeFile(file, lines.filter((_, i) => i !== 2).join('\n'), 'utf8');
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.deepEqual([result.first_break?.line, result.first_break?.reason], [3, 'expected seq 2']);
+
+  // Dropping the tail after a signed checkpoint is caught by the checkpoint
+  await fs.writeFile(file, lines.slice(0, 4).join('\n') + '\n', 'utf8');
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.equal(result.first_break, null);
+  assert.deepEqual(result.checkpoints.failures.map(f => f.reason), ['event missing (log truncated)', 'event missing (log truncated)']);
+
+  // A new logger carries on from the last link
+  await fs.writeFile(file, lines.join('\n'), 'utf8');
+  const again = createAuditLogger({ filePath: file, idGen: uuid, clock: now });
+  await again({ entity_type: 'Project', change_type: 'Update', entity_id: proj.id, before: {}, after: {} });
+  await again.flush();
+  assert.equal((await readAuditLog(file)).pop()!.seq, 7);
+  assert.ok((await verifyAuditLog(file)).first_break === null);
+
+  // An older log with CRLF endings, a blank line and no final newline still anchors the chain
+  const crlf = path.join(dir, 'crlf.log.jsonl');
+  await fs.writeFile(crlf, `${legacy}\r\n\r\n${legacy.replace('Create', 'Update')}`, 'utf8');
+  const onCrlf = createAuditLogger({ filePath: crlf, idGen: uuid, clock: now });
+  await onCrlf({ entity_type: 'Project', change_type: 'Update', entity_id: proj.id, before: {}, after: {} });
+  await onCrlf.flush();
+  result = await verifyAuditLog(crlf);
+  assert.ok(result.ok, JSON.stringify(result.first_break));
+  assert.deepEqual([result.unchained_prefix, result.chained], [2, 1]);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testAuditArchive() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-archive-'));
+  const file = path.join(dir, 'audit.log.jsonl');
+  const checkpointsPath = path.join(dir, 'audit.checkpoints.jsonl');
+  const keyDir = path.join(dir, 'keys');
+  let at = '2025-10-30T09:00:00.000Z';
+  const clock = () => at;
+  const itemId = uuid();
+  const flag = { entity_type: 'PlanItem' as const, change_type: 'Update' as const, entity_id: itemId, after: { id: itemId }, detail: 'Overdue detected (first tick flag)' };
+
+  const monthly = createAuditLogger({ filePath: file, idGen: uuid, clock, checkpoints: { filePath: checkpointsPath, every: 2, keyDir }, rotation: { monthly: true } });
+  await monthly({ entity_type: 'PlanItem', change_type: 'Create', entity_id: itemId, after: { id: itemId } });
+  await monthly({ entity_type: 'PlanItem', change_type: 'Update', entity_id: itemId, before: { id: itemId }, after: { id: itemId, title: 'Draft' } });
+  for (let i = 0; i < 3; i++) await monthly(flag); // seq 3-5: one runtime flag per start
+  at = '2025-11-02T09:00:00.000Z';
+  await monthly(flag); // a new month archives October first
+  await monthly.flush();
+  let index = await loadArchiveIndex(file);
+  assert.deepEqual(index.files.map(f => [f.file, f.events, f.first_seq, f.last_seq]), [['audit.log.2025-10.jsonl.gz', 5, 1, 5]]);
+
+  // Size-based: each event would overflow a 1-byte log, so the one before it is archived
+  const small = createAuditLogger({ filePath: file, idGen: uuid, clock, checkpoints: { filePath: checkpointsPath, every: 2, keyDir }, rotation: { maxBytes: 1 } });
+  at = '2025-11-03T09:00:00.000Z';
+  await small({ entity_type: 'PlanItem', change_type: 'StatusChange', entity_id: itemId, before: { status: 'Todo' }, after: { status: 'Done' } });
+  await small({ entity_type: 'PlanItem', change_type: 'Delete', entity_id: itemId, before: { id: itemId } });
+  assert.deepEqual((await small.rotate())?.file, 'audit.log.2025-11.3.jsonl.gz');
+  assert.equal(await small.rotate(), null, 'Nothing left to rotate');
+  index = await loadArchiveIndex(file);
+  assert.deepEqual(index.files.map(f => f.file), ['audit.log.2025-10.jsonl.gz', 'audit.log.2025-11.jsonl.gz', 'audit.log.2025-11.2.jsonl.gz', 'audit.log.2025-11.3.jsonl.gz']);
+
+  // The chain carries on from the index when the active log is empty
+  const next = createAuditLogger({ filePath: file, idGen: uuid, clock, checkpoints: { filePath: checkpointsPath, every: 2, keyDir } });
+  await next({ entity_type: 'Project', change_type: 'Create', entity_id: uuid(), after: {} });
+  await next.flush();
+  assert.deepEqual((await readAuditLog(file)).map(e => e.seq), [1, 2, 3, 4, 5, 6, 7, 8, 9], 'Read across segments in order');
+  const publicKeyPem = (await readPublicKey(keyDir))!;
+  let result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.ok(result.ok, JSON.stringify(result.first_break));
+  assert.deepEqual([result.chained, result.checkpoints.verified], [9, 4]);
+
+  // A time filter skips segments outside its range: a damaged October segment is never opened
+  const october = path.join(dir, 'audit.log.2025-10.jsonl.gz');
+  const octoberBytes = await fs.readFile(october);
+  await fs.writeFile(october, 'not gzip', 'utf8');
+  assert.deepEqual((await readAuditLog(file, { from: '2025-11-03' })).map(e => e.seq), [7, 8, 9]);
+  await assert.rejects(readAuditLog(file), /incorrect header check/);
+  await fs.writeFile(october, octoberBytes);
+
+  // Compaction keeps the first flag per record and drops the repeats, October's and November's
+  const compacted = await compactAuditArchive(file, clock);
+  assert.deepEqual(compacted.map(c => [c.file, c.removed, c.kept]), [['audit.log.2025-10.jsonl.gz', 2, 3], ['audit.log.2025-11.jsonl.gz', 1, 0]]);
+  assert.deepEqual((await readAuditLog(file)).map(e => e.seq), [1, 2, 3, 7, 8, 9]);
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.ok(result.ok, JSON.stringify(result));
+  assert.deepEqual([result.chained, result.compacted, result.last_seq, result.checkpoints.verified], [6, 3, 9, 4]);
+  assert.deepEqual(await compactAuditArchive(file, clock), [], 'Nothing more to drop');
+
+  // The dropped links are still checked
+  const indexBytes = await fs.readFile(indexPath(file));
+  index = await loadArchiveIndex(file);
+  index.files[0].compacted!.links[0].hash = GENESIS_HASH;
+  await fs.writeFile(indexPath(file), JSON.stringify(index), 'utf8');
+  result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+  assert.deepEqual([result.ok, result.first_break?.file, result.first_break?.seq], [false, 'audit.log.2025-11.2.jsonl.gz', 7]);
+
+  // Deleting an event that is not a repeat cannot be passed off as compaction
+  await fs.writeFile(indexPath(file), indexBytes);
+  const octoberLines = gunzipSync(await fs.readFile(october)).toString('utf8').split('\n').filter(Boolean);
+  const update = JSON.parse(octoberLines[1]) as AuditEvent;
+  await fs.writeFile(october, gzipSync(octoberLines.filter((_, i) => i !== 1).join('\n') + '\n'));
+  index = await loadArchiveIndex(file);
+  for (const key of [`PlanItem|${itemId}|${update.detail}`, index.files[0].compacted!.links[0].key]) {
+    for (const kept_seq of [1, 3]) {
+      index.files[0].compacted!.links = [{ seq: 2, prev_hash: update.prev_hash!, hash: update.hash!, key, kept_seq }, ...index.files[0].compacted!.links.filter(l => l.seq !== 2)];
+      await fs.writeFile(indexPath(file), JSON.stringify(index), 'utf8');
+      result = await verifyAuditLog(file, { checkpointsPath, publicKeyPem });
+      assert.equal(result.ok, false);
+      assert.match(result.first_break!.reason, /compacted event 2 does not check out: it does not repeat a kept event/);
+    }
+  }
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testStorage() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-storage-'));
+  const mpFile = path.join(dir, 'masterPlan.snapshot.json');
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const first = createPlanItem(mp, { project_id: proj.id, title: 'Collect', description: '', category: 'Evidence', due_date: '2025-11-14', priority: 'High' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Draft', description: '', category: 'Drafting', due_date: null, priority: 'Normal' });
+  attachPersistence(mp, mpFile);
+  await mp.persist!();
+  // The JSON adapter keeps the snapshot layout older files have
+  const raw = JSON.parse(await fs.readFile(mpFile, 'utf8'));
+  assert.deepEqual([raw.version, raw.projects.length, raw.plan_items.length, typeof raw.updated_at], [2, 1, 2, 'string']);
+  const reloaded = await loadMasterPlanData(mpFile, uuid, now);
+  assert.deepEqual(reloaded.planItems.map(i => i.title), ['Collect', 'Draft']);
+
+  await fs.writeFile(mpFile, JSON.stringify({ ...raw, plan_items: [{ id: 'x' }] }), 'utf8');
+  await assert.rejects(loadMasterPlanData(mpFile, uuid, now), /PlanItem\[0\] invalid/);
+  await fs.writeFile(mpFile, JSON.stringify(raw), 'utf8');
+
+  assert.deepEqual(await loadStorageConfig(path.join(dir, 'storage.json')), { backend: 'json' }, 'JSON snapshots without a config');
+  await saveStorageConfig({ backend: 'sqlite', path: path.join(dir, 'spark.sqlite') }, path.join(dir, 'storage.json'));
+  assert.equal((await loadStorageConfig(path.join(dir, 'storage.json'))).backend, 'sqlite');
+  await fs.writeFile(path.join(dir, 'bad.json'), JSON.stringify({ backend: 'postgres' }), 'utf8');
+  await assert.rejects(loadStorageConfig(path.join(dir, 'bad.json')), /Unknown storage backend/);
+
+  const hasSqlite = await import('node:sqlite').then(() => true, () => false);
+  if (!hasSqlite) {
+    await assert.rejects(sqliteStorage(MASTER_PLAN_STORAGE, path.join(dir, 'spark.sqlite')), /needs Node 22\.5/);
+    await fs.rm(dir, { recursive: true, force: true });
+    return;
+  }
+  const dbFile = path.join(dir, 'spark.sqlite');
+  const db = await sqliteStorage(MASTER_PLAN_STORAGE, dbFile);
+  assert.equal(await db.load(), null, 'Nothing stored yet');
+  assert.deepEqual(await copyStorage(jsonStorage(MASTER_PLAN_STORAGE, mpFile), db), { projects: 1, plan_items: 2 });
+  await db.close();
+
+  // Both modules share one database file
+  const outreachDb = await sqliteStorage(OUTREACH_STORAGE, dbFile);
+  const outreach = await loadOutreachData(path.join(dir, 'unused.json'), uuid, now, outreachDb);
+  const cat = createCategory(outreach, 'Agencies', '#00aa00');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: 'Intake', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Email' });
+  createFollowUp(outreach, contact.id, null, '2025-11-14', 'Confirm receipt');
+  await outreach.persist!();
+  await outreachDb.close();
+
+  const mpDb = await sqliteStorage(MASTER_PLAN_STORAGE, dbFile);
+  const fromDb = await loadMasterPlanData(mpFile, uuid, now, mpDb);
+  assert.deepEqual(fromDb.planItems.map(i => i.title), ['Collect', 'Draft']);
+  deletePlanItem(fromDb, first.id);
+  updatePlanItem(fromDb, fromDb.planItems[0].id, { due_date: '2025-11-20' });
+  await fromDb.persist!();
+  await mpDb.close();
+
+  const check = await sqliteStorage(MASTER_PLAN_STORAGE, dbFile);
+  const state = (await check.load())!;
+  assert.deepEqual(state.collections.plan_items.map((i: any) => [i.title, i.due_date]), [['Draft', '2025-11-20']]);
+  await check.close();
+  const outreachAgain = await loadOutreachData(path.join(dir, 'unused.json'), uuid, now, await sqliteStorage(OUTREACH_STORAGE, dbFile));
+  assert.deepEqual(outreachAgain.followUps.map(f => f.contact_id), [contact.id]);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testSnapshotMigrations() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-migrate-'));
+  const mpFile = path.join(dir, 'masterPlan.snapshot.json');
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Collect', description: '', category: 'Evidence', due_date: '2025-11-14', priority: 'High' });
+  // Version 1 plan items had no dependency or recurrence fields
+  const v1 = {
+    version: 1, updated_at: '2025-11-01T00:00:00.000Z', projects: mp.projects,
+    plan_items: mp.planItems.map(({ depends_on, recurrence, series_id, ...rest }) => rest),
+  };
+  await fs.writeFile(mpFile, JSON.stringify(v1), 'utf8');
+
+  // The dry run reports the step and leaves the file alone
+  const plan = await pendingMasterPlanMigration(jsonStorage(MASTER_PLAN_STORAGE, mpFile));
+  assert.deepEqual([plan!.from, plan!.to, plan!.steps.length], [1, 2, 1]);
+  assert.equal(JSON.parse(await fs.readFile(mpFile, 'utf8')).version, 1);
+  assert.deepEqual(await fs.readdir(dir), ['masterPlan.snapshot.json']);
+
+  const migrated: AppliedMigration[] = [];
+  const data = await loadMasterPlanData(mpFile, uuid, now, undefined, m => migrated.push(m));
+  assert.deepEqual(migrated.map(m => [m.plan.module, m.plan.from, m.plan.to, path.dirname(m.backup)]), [['masterPlan', 1, 2, dir]]);
+  assert.deepEqual([data.planItems[0].depends_on, data.planItems[0].series_id], [[], null]);
+  const saved = JSON.parse(await fs.readFile(mpFile, 'utf8'));
+  assert.equal(saved.version, MASTER_PLAN_MIGRATIONS.current, 'Migrated snapshot saved at the current version');
+  const backups = (await fs.readdir(dir)).filter(f => f.endsWith('.bak'));
+  assert.equal(backups.length, 1);
+  assert.ok(backups[0].startsWith('masterPlan.snapshot.json.v1.'));
+  assert.deepEqual(JSON.parse(await fs.readFile(path.join(dir, backups[0]), 'utf8')), v1, 'Backup holds the file as it was');
+  assert.equal((await pendingMasterPlanMigration(jsonStorage(MASTER_PLAN_STORAGE, mpFile)))!.steps.length, 0);
+
+  // A snapshot from a later release is refused, not rewritten
+  await fs.writeFile(mpFile, JSON.stringify({ ...saved, version: 3 }), 'utf8');
+  await assert.rejects(loadMasterPlanData(mpFile, uuid, now), /version 3, newer than this code understands \(2\)/);
+  assert.equal(JSON.parse(await fs.readFile(mpFile, 'utf8')).version, 3);
+
+  const gappy = { module: 'test', current: 3, migrations: [{ from: 1, description: 'one', migrate: (c: any) => c }] };
+  assert.throws(() => planMigration(gappy, 1), /no migration from version 2 to 3/);
+  assert.throws(() => planMigration(gappy, 0), /invalid version/);
+  const renamed = applyMigrations({ module: 'test', current: 2, migrations: [{ from: 1, description: 'rename', migrate: c => ({ items: c.things }) }] }, { version: 1, collections: { things: [{ id: 'a' }] } });
+  assert.deepEqual(renamed, { version: 2, collections: { items: [{ id: 'a' }] } });
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testSnapshotBackup() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-backup-'));
+  const dataDir = path.join(dir, 'DATA');
+  const loc = { dataDir };
+  let tick = Date.parse('2025-11-13T08:00:00Z');
+  const clock = () => new Date(tick += 60_000).toISOString();
+  await fs.mkdir(dataDir);
+  const mpFile = path.join(dataDir, 'masterPlan.snapshot.json');
+  await fs.writeFile(mpFile, '{"version":2,"projects":[],"plan_items":[]}', 'utf8');
+  await fs.writeFile(path.join(dataDir, 'outreach.snapshot.json'), '{"version":2}', 'utf8');
+  await fs.writeFile(path.join(dataDir, 'audit.log.jsonl'), '{"seq":1}\n', 'utf8');
+
+  const first = (await autoBackup(loc, { last: 10, hourly: 24, daily: 7, weekly: 4 }, clock))!;
+  assert.deepEqual(first.files.map(f => f.name), ['masterPlan.snapshot.json', 'outreach.snapshot.json'], 'Only store files are backed up');
+  assert.equal(await autoBackup(loc, { last: 10, hourly: 24, daily: 7, weekly: 4 }, clock), null, 'No new backup while nothing changed');
+
+  // A bad bulk edit, backed up on the next start, then undone by restoring the earlier backup
+  await fs.writeFile(mpFile, '{"version":2,"projects":["oops"],"plan_items":[]}', 'utf8');
+  await fs.writeFile(path.join(dataDir, 'deadlines.snapshot.json'), '{"version":1}', 'utf8');
+  assert.ok(await autoBackup(loc, { last: 10, hourly: 24, daily: 7, weekly: 4 }, clock));
+  const restored = await restoreBackup(loc, findBackup(await listBackups(loc), first.created_at), clock);
+  assert.equal(await fs.readFile(mpFile, 'utf8'), '{"version":2,"projects":[],"plan_items":[]}');
+  assert.deepEqual([restored.removed, restored.pre_restore], [['deadlines.snapshot.json'], null], 'State already backed up');
+  assert.equal(await fs.readFile(path.join(dataDir, 'audit.log.jsonl'), 'utf8'), '{"seq":1}\n', 'Audit log left alone');
+
+  // Unbacked changes are kept in a pre-restore backup
+  await fs.writeFile(mpFile, '{"version":2,"projects":["later"],"plan_items":[]}', 'utf8');
+  const again = await restoreBackup(loc, first, clock);
+  assert.equal(again.pre_restore!.reason, 'pre-restore');
+  assert.deepEqual((await listBackups(loc)).map(b => b.reason), ['auto', 'auto', 'pre-restore']);
+  assert.throws(() => findBackup([first], '2025-11-13T07:00:00Z'), /No backup at or before/);
+  await fs.writeFile(path.join(dataDir, 'backups', first.id, 'masterPlan.snapshot.json'), 'tampered', 'utf8');
+  await assert.rejects(restoreBackup(loc, first, clock), /damaged: masterPlan\.snapshot\.json/);
+
+  // The newest `last`, then the newest per hour / day / week, most recent buckets first
+  const at = (id: string, created_at: string) => ({ version: 1, id, created_at, reason: 'auto', files: [] }) as BackupManifest;
+  const series = [
+    at('a', '2025-11-03T10:00:00Z'), at('b', '2025-11-10T09:00:00Z'), at('c', '2025-11-12T08:00:00Z'),
+    at('d', '2025-11-13T08:10:00Z'), at('e', '2025-11-13T08:50:00Z'), at('f', '2025-11-13T09:30:00Z'),
+  ];
+  assert.deepEqual(backupsToPrune(series, { last: 1, hourly: 2, daily: 2, weekly: 2 }).map(b => b.id), ['b', 'd']);
+  assert.deepEqual(backupsToPrune(series, { last: 4, hourly: 2, daily: 2, weekly: 2 }).map(b => b.id), ['b'], 'The newest four kept outright');
+  assert.deepEqual(backupsToPrune(series, { last: 0, hourly: 0, daily: 0, weekly: 0 }).map(b => b.id), ['a', 'b', 'c', 'd', 'e']);
+
+  // The bundle is a plain tar.gz of the store files and the audit log
+  const out = path.join(dir, 'spark-backup.tar.gz');
+  const bundle = await createBundle(loc, path.join(dataDir, 'audit.log.jsonl'), out, clock);
+  const tar = gunzipSync(await fs.readFile(out));
+  const entries: Record<string, string> = {};
+  for (let off = 0; off < tar.length && tar[off] !== 0;) {
+    const name = tar.toString('utf8', off, off + 100).replace(/\0.*$/s, '');
+    const size = parseInt(tar.toString('utf8', off + 124, off + 136), 8);
+    entries[name] = tar.toString('utf8', off + 512, off + 512 + size);
+    off += 512 + Math.ceil(size / 512) * 512;
+  }
+  assert.deepEqual(Object.keys(entries), ['DATA/masterPlan.snapshot.json', 'DATA/outreach.snapshot.json', 'DATA/audit.log.jsonl', 'DATA/bundle-manifest.json']);
+  assert.equal(entries['DATA/audit.log.jsonl'], '{"seq":1}\n');
+  assert.deepEqual(JSON.parse(entries['DATA/bundle-manifest.json']).files, bundle.files);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function testPersistScheduler() {
+  const state = { items: 0 };
+  const written: number[] = [];
+  let active = 0;
+  let maxActive = 0;
+  let failNext = false;
+  let gate: Promise<void> | null = null; // holds a write open while the test makes more requests
+  const errors: string[] = [];
+  const persist = createPersistScheduler(async () => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    const snapshot = state.items;
+    await (gate ?? new Promise(r => setTimeout(r, 1)));
+    active--;
+    if (failNext) { failNext = false; throw new Error('disk full'); }
+    written.push(snapshot);
+  }, { delayMs: 5, onError: err => errors.push(err.message) });
+
+  // A burst (e.g. a template applying a dozen items) is one write of the final state
+  for (let i = 0; i < 12; i++) { state.items++; void persist(); }
+  await persist.flush();
+  assert.deepEqual(written, [12]);
+
+  // Requests during a write get one more write after it, never alongside it
+  let release = () => {};
+  gate = new Promise<void>(r => { release = r; });
+  const first = persist();
+  while (!active) await new Promise(r => setTimeout(r, 1));
+  state.items = 20;
+  void persist();
+  state.items = 21;
+  const second = persist();
+  gate = null;
+  release();
+  await Promise.all([first, second]);
+  assert.deepEqual(written, [12, 12, 21]);
+  assert.equal(maxActive, 1, 'Writes never overlap');
+
+  // A failed write is reported, rejects its requests, and is rethrown once by flush()
+  failNext = true;
+  const failed = persist(); // left unawaited by services; must not crash the process
+  await assert.rejects(persist.flush(), /disk full/);
+  await assert.rejects(failed, /disk full/);
+  assert.deepEqual(errors, ['disk full']);
+  await persist.flush();
+
+  failNext = true;
+  void persist();
+  await assert.rejects(flushPersistence([persist, undefined, async () => undefined]), /disk full/);
+  void persist();
+  await flushPersistence([persist]);
+  assert.equal(written.at(-1), 21);
+}
+
+async function testTransactions() {
+  const log: AuditEvent[] = [];
+  const writer = (e: any) => { log.push(JSON.parse(JSON.stringify({ id: uuid(), at: now(), ...e }))); };
+  const writes = { masterPlan: 0, outreach: 0 };
+  const mp = createEmptyData(uuid, now);
+  const outreach = createEmptyOutreachData(uuid, now);
+  mp.audit = writer;
+  outreach.audit = writer;
+  mp.persist = async () => { writes.masterPlan++; };
+  outreach.persist = async () => { writes.outreach++; };
+  const proj = createProject(mp, { name: 'MDCR Appeal', description: '', start_date: '2025-11-13', target_end_date: '2025-11-24' });
+  const cat = createCategory(outreach, 'Agencies', '#00aa00');
+  const contact = createContact(outreach, { category_id: cat.id, organization: 'MDCR', contact_name: 'Intake', role: 'Intake', phone: '', email: '', mailing_address: '', website_url: '', preferred_method: 'Call' });
+  const baseline = JSON.stringify({ mp: [mp.projects, mp.planItems], o: [outreach.contacts, outreach.outreachActions, outreach.followUps] });
+  const logged = log.length;
+  Object.assign(writes, { masterPlan: 0, outreach: 0 });
+
+  // A service throwing midway leaves both stores, the snapshots and the log untouched
+  await assert.rejects(withTransaction({ masterPlan: mp, outreach }, tx => {
+    const call = recordOutreachAction(tx.outreach, { contact_id: contact.id, method: 'Call', summary: 'Intake call' });
+    createFollowUp(tx.outreach, contact.id, call.id, '2025-11-20', 'Confirm receipt');
+    createPlanItem(tx.masterPlan, { project_id: uuid(), title: 'Send records', description: '', category: 'Outreach', due_date: '2025-11-21', priority: 'High' });
+  }), /Transaction rolled back: Project not found/);
+  // So does a record that only fails the final validation
+  await assert.rejects(withTransaction({ masterPlan: mp, outreach }, tx => {
+    recordOutreachAction(tx.outreach, { contact_id: contact.id, method: 'Call', summary: 'Intake call' });
+    createPlanItem(tx.masterPlan, { project_id: proj.id, title: 'Send records', description: '', category: 'Outreach', due_date: '2025-11-21', priority: 'Urgent' as any });
+  }), /PlanItem\[0\] invalid/);
+  assert.equal(JSON.stringify({ mp: [mp.projects, mp.planItems], o: [outreach.contacts, outreach.outreachActions, outreach.followUps] }), baseline);
+  assert.deepEqual([log.length, writes.masterPlan, writes.outreach], [logged, 0, 0]);
+
+  const item = await withTransaction({ masterPlan: mp, outreach }, tx => {
+    const call = recordOutreachAction(tx.outreach, { contact_id: contact.id, method: 'Call', summary: 'Intake call' });
+    createFollowUp(tx.outreach, contact.id, call.id, '2025-11-20', 'Confirm receipt');
+    return createPlanItem(tx.masterPlan, { project_id: proj.id, title: 'Send records', description: '', category: 'Outreach', due_date: '2025-11-21', priority: 'High' });
+  });
+  assert.equal(mp.planItems[0], item, 'The returned record is the stored one');
+  assert.deepEqual([outreach.outreachActions.length, outreach.followUps.length, writes.masterPlan, writes.outreach], [1, 1, 1, 1]);
+  const txEvents = log.slice(logged);
+  assert.deepEqual(txEvents.map(e => e.entity_type), ['OutreachAction', 'FollowUpItem', 'PlanItem'], 'Audited in call order');
+  assert.equal(new Set(txEvents.map(e => e.op_id)).size, 1, 'One operation');
+  undo({ masterPlan: mp, outreach, audit: writer }, log);
+  assert.deepEqual([mp.planItems.length, outreach.outreachActions.length, outreach.followUps.length], [0, 0, 0], 'Undone as a whole');
+
+  // A failed write puts the in-memory state back
+  mp.persist = async () => { throw new Error('disk full'); };
+  await assert.rejects(withTransaction({ masterPlan: mp, outreach }, tx => {
+    createPlanItem(tx.masterPlan, { project_id: proj.id, title: 'Never kept', description: '', category: 'Admin', due_date: null, priority: 'Low' });
+  }), /rolled back: disk full/);
+  assert.equal(mp.planItems.length, 0);
+  mp.persist = async () => { writes.masterPlan++; };
+
+  // Batch: later operations refer to earlier ones by ref
+  const ops = parseBatchOperations([
+    { op: 'outreach:record-action', ref: 'call', contact_id: contact.id, method: 'Call', summary: 'Intake call' },
+    { op: 'outreach:create-followup', contact_id: contact.id, outreach_action_id: '$call', due_date: '2025-11-20' },
+    { op: 'mp:create-item', ref: 'collect', project_id: proj.id, title: 'Collect', category: 'Evidence', priority: 'High', due_date: '2025-11-14' },
+    { op: 'mp:create-item', project_id: proj.id, title: 'Draft', category: 'Drafting', priority: 'Normal', depends_on: ['$collect'], checklist: ['Cite MCL 37.2202'] },
+  ]);
+  const results = await applyBatch({ masterPlan: mp, outreach }, ops);
+  assert.deepEqual(results.map(r => r.op), ['outreach:record-action', 'outreach:create-followup', 'mp:create-item', 'mp:create-item']);
+  assert.equal(outreach.followUps.at(-1)!.outreach_action_id, results[0].id);
+  assert.deepEqual(mp.planItems.find(p => p.title === 'Draft')!.depends_on, [results[2].id]);
+
+  await assert.rejects(applyBatch({ masterPlan: mp, outreach }, parseBatchOperations([
+    { op: 'mp:create-item', project_id: proj.id, title: 'Kept?', category: 'Admin', priority: 'Low' },
+    { op: 'mp:update-item', id: '$nothing', changes: { title: 'x' } },
+  ])), /operations\[1\] \(mp:update-item\): \$nothing does not name/);
+  assert.equal(mp.planItems.length, 2, 'Nothing from the failed batch');
+  assert.throws(() => parseBatchOperations([{ op: 'mp:create-item', project_id: proj.id }]), /operations\[0\] \(mp:create-item\): missing title/);
+  assert.throws(() => parseBatchOperations([{ op: 'toString' }]), /unknown op/);
+  assert.throws(() => parseBatchOperations([{ op: 'mp:create-item', project_id: proj.id, title: 7, category: 'Admin', priority: 'Low' }]), /operations\[0\] \(mp:create-item\): title must be a string/);
+  assert.throws(() => parseBatchOperations([{ op: 'mp:update-item', id: proj.id, changes: { depends_on: 'x' } }]), /changes\.depends_on must be an array of strings/);
+  assert.throws(() => parseBatchOperations([{ op: 'mp:delete-item', id: proj.id, force: true }]), /unknown field force/);
+  assert.throws(() => parseBatchOperations({ ops: [] }), /JSON array/);
+}
+
+async function testPlanTemplates() {
+  const mp = createEmptyData(uuid, now);
+  const proj = createProject(mp, { name: 'FOIA request', description: 'Records request to CPS', start_date: '2025-11-03', target_end_date: '2025-12-15' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Draft request', description: '', category: 'Drafting', due_date: '2025-11-04', priority: 'High', checklist: [{ label: 'Cite MCL 15.231' }] });
+  createPlanItem(mp, { project_id: proj.id, title: 'Send request', description: 'Certified mail', category: 'Outreach', due_date: '2025-11-05', priority: 'Normal' });
+  createPlanItem(mp, { project_id: proj.id, title: 'Log response', description: '', category: 'Admin', due_date: null, priority: 'Low' });
+  const template = templateFromProject(mp, proj.id, { id: 'foia-request' });
+  assert.deepEqual(template.tasks.map(t => [t.key, t.offset_days]), [['draft-request', 1], ['send-request', 2], ['log-response', null]]);
+  assert.deepEqual(template.tasks[0].checklist, ['Cite MCL 15.231']);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spark-templates-'));
+  await savePlanTemplate({ ...template, tasks: template.tasks.map(t => t.key === 'send-request' ? { ...t, depends_on: ['draft-request'] } : t) }, dir);
+  await assert.rejects(savePlanTemplate(template, dir), /already exists/);
+  const listed = await loadPlanTemplates(dir);
+  assert.deepEqual(listed.map(l => [l.template.id, l.source]), [['foia-request', 'file'], ['mdcr-11-day', 'builtin']]);
+  const loaded = await findPlanTemplate('foia-request', dir);
+  assert.deepEqual(loaded.tasks[1].depends_on, ['draft-request']);
+
+  const proj2 = createProject(mp, { name: 'Second FOIA', description: '', start_date: '2025-12-01', target_end_date: '2025-12-31' });
+  const events: any[] = [];
+  mp.audit = e => { events.push(e); };
+  const { items, item_for_key } = applyPlanTemplate(mp, loaded, proj2.id, '2025-12-01');
+  assert.deepEqual(items.map(i => i.due_date), ['2025-12-02', '2025-12-03', null]);
+  assert.equal(items[0].checklist[0].checked, false);
+  assert.equal(item_for_key['send-request'], items[1].id);
+  assert.deepEqual(items[1].depends_on, [items[0].id], 'Template dependencies become plan item edges');
+  assert.equal(events.length, 3, 'One event per item');
+  assert.ok(events.every(e => e.change_type === 'TemplateLoad' && e.detail === 'Template foia-request applied'));
+  assert.deepEqual(events.find(e => e.entity_id === items[1].id).after.depends_on, [items[0].id], 'The logged item carries its dependencies');
+  const reversed = applyPlanTemplate(mp, { ...loaded, tasks: [...loaded.tasks].reverse() }, proj2.id, '2025-12-01');
+  assert.deepEqual(reversed.items.map(i => i.title), [...loaded.tasks].reverse().map(t => t.title), 'Items come back in template order');
+  assert.deepEqual(reversed.items[1].depends_on, [reversed.items[2].id], 'A prerequisite listed later is created first');
+
+  assert.throws(() => validatePlanTemplate({ ...loaded, tasks: loaded.tasks.map(t => ({ ...t, depends_on: t.key === 'draft-request' ? ['send-request'] : t.depends_on })) }), /dependency cycle/);
+  assert.throws(() => validatePlanTemplate({ ...loaded, tasks: [{ ...loaded.tasks[0], depends_on: ['nope'] }] }), /unknown task nope/);
+  await fs.writeFile(path.join(dir, 'mdcr-11-day.json'), JSON.stringify({ ...MDCR_11_DAY_TEMPLATE, name: 'MDCR (local edit)' }));
+  assert.equal((await findPlanTemplate('mdcr-11-day', dir)).name, 'MDCR (local edit)', 'File overrides built-in');
+  await fs.writeFile(path.join(dir, 'renamed.json'), JSON.stringify(MDCR_11_DAY_TEMPLATE));
+  await assert.rejects(loadPlanTemplates(dir), /does not match the file name/);
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
 function testDailySummary() {
   const mp = createEmptyData(uuid, now);
   const proj = createProject(mp, { name: 'Daily', description: 'D', start_date: '2025-11-13', target_end_date: '2025-11-15' });
@@ -52,15 +1279,40 @@ function testDailySummary() {
   assert.equal(summary.outreach.contacts, 1);
 }
 
-function run() {
-  const tests: Array<[string, () => void]> = [
+async function run() {
+  const tests: Array<[string, () => void | Promise<void>]> = [
     ['MasterPlan basics', testMasterPlanBasics],
     ['Outreach basics', testOutreachBasics],
+    ['Documents basics', testDocumentsBasics],
+    ['Document ingest', testDocumentIngest],
+    ['Timeline derive', testTimelineDerive],
+    ['Timeline export', testTimelineExport],
+    ['Artifact promotion', testArtifactPromotion],
+    ['Artifact store & diff', testArtifactStoreAndDiff],
+    ['Rule library', testRuleLibrary],
+    ['Conversation import', testConversationImport],
+    ['Highlight promotion', testHighlightPromotion],
+    ['Daily log', testDailyLog],
+    ['Deadlines', testDeadlines],
+    ['Deadline calculator', testDeadlineCalculator],
+    ['Plan dependencies', testPlanDependencies],
+    ['Plan shift', testPlanShift],
+    ['Plan templates', testPlanTemplates],
+    ['Recurrence', testRecurrence],
+    ['Audit undo', testAuditUndo],
+    ['Audit query', testAuditQuery],
+    ['Audit chain', testAuditChain],
+    ['Audit archive', testAuditArchive],
+    ['Storage', testStorage],
+    ['Snapshot migrations', testSnapshotMigrations],
+    ['Snapshot backup', testSnapshotBackup],
+    ['Persist scheduler', testPersistScheduler],
+    ['Transactions', testTransactions],
     ['Daily summary', testDailySummary],
   ];
   let passed = 0;
   for (const [name, fn] of tests) {
-    try { fn(); console.log('PASS', name); passed++; } catch (e) { console.error('FAIL', name, e); }
+    try { await fn(); console.log('PASS', name); passed++; } catch (e) { console.error('FAIL', name, e); }
   }
   console.log(`${passed}/${tests.length} tests passed`);
   if (passed !== tests.length) process.exit(1);